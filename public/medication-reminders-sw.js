@@ -0,0 +1,42 @@
+// Service worker for medication reminders. The page decides when a dose is due and
+// shows the notification through this worker so it can carry Taken / Skip / Snooze
+// actions. Clicks are handed back to an open app window, which records the dose with
+// the user's session; if no window is open, one is opened with the action in the URL.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const data = event.notification.data || {};
+  const action = event.action || 'open';
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const message = {
+      type: 'medication-reminder',
+      action,
+      medicationId: data.medicationId,
+      scheduledFor: data.scheduledFor,
+    };
+
+    if (windows.length > 0) {
+      const client = windows[0];
+      client.postMessage(message);
+      if (action === 'open') await client.focus();
+      return;
+    }
+
+    const params = new URLSearchParams({
+      reminder: action,
+      medication: data.medicationId || '',
+      scheduled: data.scheduledFor || '',
+    });
+    await self.clients.openWindow(`/track?${params.toString()}`);
+  })());
+});
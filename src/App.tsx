@@ -11,6 +11,7 @@ import Profile from "./pages/Profile";
 import Today from "./pages/TodayV2";
 import Insights from "./pages/Insights";
 import Records from "./pages/Records";
+import SharedSummary from "./pages/SharedSummary";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -25,6 +26,7 @@ const App = () => (
           <BrowserRouter>
            <Routes>
             <Route path="/auth" element={<Auth />} />
+            <Route path="/shared/:token" element={<SharedSummary />} />
             <Route path="/track" element={<AppShell><Today /></AppShell>} />
             <Route path="/insights" element={<AppShell><Insights /></AppShell>} />
             <Route path="/records" element={<AppShell><Records /></AppShell>} />
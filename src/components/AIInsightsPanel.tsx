@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { X, Brain, TrendingUp, AlertTriangle, Pill, Lightbulb } from 'lucide-react';
+import { X, Brain, TrendingUp, AlertTriangle, Pill, Lightbulb, RefreshCw } from 'lucide-react';
 import { useAICompanion } from '@/hooks/useAICompanion';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -27,7 +27,7 @@ const insightColors = {
 };
 
 export function AIInsightsPanel({ className }: AIInsightsPanelProps) {
-  const { insights, isLoading, fetchInsights, dismissInsight } = useAICompanion();
+  const { insights, isLoading, fetchInsights, dismissInsight, generateInsights } = useAICompanion();
   const [isDismissing, setIsDismissing] = useState<string | null>(null);
 
   useEffect(() => {
@@ -92,6 +92,10 @@ export function AIInsightsPanel({ className }: AIInsightsPanelProps) {
             <p className="text-xs mt-1">
               Keep logging your pain and I'll start providing personalized insights!
             </p>
+            <Button variant="outline" size="sm" className="mt-4" onClick={generateInsights}>
+              <RefreshCw className="h-3 w-3 mr-2" />
+              Analyze my logs
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -173,14 +177,24 @@ export function AIInsightsPanel({ className }: AIInsightsPanelProps) {
           );
         })}
         
-        <Button
-          variant="outline"
-          size="sm"
-          className="w-full mt-4"
-          onClick={() => fetchInsights(20)}
-        >
-          Load More Insights
-        </Button>
+        <div className="flex gap-2 mt-4">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => fetchInsights(20)}
+          >
+            Load More Insights
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={generateInsights}
+            aria-label="Refresh insights"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
       </CardContent>
     </Card>
   );
@@ -1,10 +1,15 @@
 import { Navigation } from "@/components/Navigation";
+import { usePainLogOutboxSync } from "@/hooks/usePainLogOutbox";
+import { useMedicationReminders } from "@/hooks/useMedicationReminders";
 
 interface AppShellProps {
   children: React.ReactNode;
 }
 
 export function AppShell({ children }: AppShellProps) {
+  usePainLogOutboxSync();
+  useMedicationReminders();
+
   return (
     <div className="min-h-screen bg-background">
       <Navigation />
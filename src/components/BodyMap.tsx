@@ -0,0 +1,160 @@
+import type { KeyboardEvent } from "react";
+import { cn } from "@/lib/utils";
+import { painColor } from "@/lib/clinicianReport";
+import { BODY_REGIONS, locationName, type BodySide, type BodyView } from "@/lib/bodyLocations";
+
+type Shape =
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; r: number };
+
+// Each figure is drawn in a 120 x 250 box around x = 60. Paired regions give the
+// shape on the viewer's left; the other side is its mirror image.
+const WIDTH = 120;
+const HEIGHT = 250;
+
+const SHAPES: Record<BodyView, Record<string, Shape>> = {
+  front: {
+    head: { kind: 'ellipse', cx: 60, cy: 22, rx: 15, ry: 19 },
+    forehead: { kind: 'rect', x: 50, y: 7, width: 20, height: 8, r: 3 },
+    temple: { kind: 'ellipse', cx: 47, cy: 19, rx: 2.8, ry: 4 },
+    eye: { kind: 'ellipse', cx: 54, cy: 20, rx: 3.5, ry: 2.2 },
+    face: { kind: 'rect', x: 53, y: 24, width: 14, height: 7, r: 3 },
+    jaw: { kind: 'ellipse', cx: 52, cy: 34, rx: 4.5, ry: 3 },
+    neck: { kind: 'rect', x: 53, y: 40, width: 14, height: 10, r: 3 },
+    shoulder: { kind: 'ellipse', cx: 37, cy: 56, rx: 9, ry: 6 },
+    chest: { kind: 'rect', x: 45, y: 51, width: 30, height: 25, r: 5 },
+    abdomen: { kind: 'rect', x: 46, y: 78, width: 28, height: 22, r: 5 },
+    pelvis: { kind: 'rect', x: 47, y: 102, width: 26, height: 14, r: 5 },
+    upper_arm: { kind: 'rect', x: 26, y: 62, width: 10, height: 28, r: 5 },
+    elbow: { kind: 'ellipse', cx: 30, cy: 94, rx: 5, ry: 4.5 },
+    forearm: { kind: 'rect', x: 23, y: 99, width: 10, height: 27, r: 5 },
+    wrist: { kind: 'ellipse', cx: 27, cy: 130, rx: 4.5, ry: 3 },
+    hand: { kind: 'ellipse', cx: 26, cy: 141, rx: 6, ry: 8 },
+    hip: { kind: 'rect', x: 36, y: 100, width: 10, height: 18, r: 5 },
+    thigh: { kind: 'rect', x: 42, y: 120, width: 16, height: 42, r: 7 },
+    knee: { kind: 'ellipse', cx: 50, cy: 168, rx: 7, ry: 6 },
+    shin: { kind: 'rect', x: 44, y: 175, width: 11, height: 42, r: 5 },
+    ankle: { kind: 'ellipse', cx: 49.5, cy: 221, rx: 5, ry: 3 },
+    foot: { kind: 'ellipse', cx: 47, cy: 231, rx: 8, ry: 4.5 },
+  },
+  back: {
+    head: { kind: 'ellipse', cx: 60, cy: 22, rx: 15, ry: 19 },
+    back_of_head: { kind: 'ellipse', cx: 60, cy: 24, rx: 11, ry: 12 },
+    neck: { kind: 'rect', x: 53, y: 40, width: 14, height: 10, r: 3 },
+    shoulder: { kind: 'ellipse', cx: 37, cy: 56, rx: 9, ry: 6 },
+    upper_back: { kind: 'rect', x: 45, y: 51, width: 30, height: 27, r: 5 },
+    lower_back: { kind: 'rect', x: 46, y: 80, width: 28, height: 21, r: 5 },
+    buttock: { kind: 'ellipse', cx: 53, cy: 111, rx: 7.5, ry: 8.5 },
+    upper_arm: { kind: 'rect', x: 26, y: 62, width: 10, height: 28, r: 5 },
+    elbow: { kind: 'ellipse', cx: 30, cy: 94, rx: 5, ry: 4.5 },
+    forearm: { kind: 'rect', x: 23, y: 99, width: 10, height: 27, r: 5 },
+    wrist: { kind: 'ellipse', cx: 27, cy: 130, rx: 4.5, ry: 3 },
+    hand: { kind: 'ellipse', cx: 26, cy: 141, rx: 6, ry: 8 },
+    hip: { kind: 'rect', x: 36, y: 100, width: 10, height: 18, r: 5 },
+    thigh: { kind: 'rect', x: 42, y: 122, width: 16, height: 40, r: 7 },
+    knee: { kind: 'ellipse', cx: 50, cy: 168, rx: 7, ry: 6 },
+    calf: { kind: 'rect', x: 44, y: 175, width: 11, height: 42, r: 5 },
+    ankle: { kind: 'ellipse', cx: 49.5, cy: 221, rx: 5, ry: 3 },
+    foot: { kind: 'ellipse', cx: 47, cy: 231, rx: 8, ry: 4.5 },
+  },
+};
+
+// Seen from the front, the person's right side is on the viewer's left
+const VIEWER_LEFT_SIDE: Record<BodyView, BodySide> = { front: 'right', back: 'left' };
+
+const mirror = (shape: Shape): Shape => shape.kind === 'ellipse'
+  ? { ...shape, cx: WIDTH - shape.cx }
+  : { ...shape, x: WIDTH - shape.x - shape.width };
+
+const heatFill = (level: number) => `rgb(${painColor(level).join(', ')})`;
+
+interface BodyMapProps {
+  // Locations drawn as selected
+  selected?: string[];
+  // Pain 0–10 by location, drawn as a heat overlay
+  heat?: Record<string, number>;
+  // Locations to suggest, e.g. the user's usual ones
+  highlighted?: string[];
+  onToggle?: (location: string) => void;
+  className?: string;
+}
+
+export function BodyMap({ selected = [], heat, highlighted = [], onToggle, className }: BodyMapProps) {
+  const selectedSet = new Set(selected);
+  const highlightedSet = new Set(highlighted);
+
+  const regionsFor = (view: BodyView) => BODY_REGIONS
+    .filter(region => region.views.includes(view) && SHAPES[view][region.id])
+    .flatMap(region => {
+      const shape = SHAPES[view][region.id];
+      if (!region.lateral) return [{ location: locationName(region.id), shape }];
+      const near = VIEWER_LEFT_SIDE[view];
+      const far: BodySide = near === 'left' ? 'right' : 'left';
+      return [
+        { location: locationName(region.id, near), shape },
+        { location: locationName(region.id, far), shape: mirror(shape) },
+      ];
+    });
+
+  const handleKeyDown = (event: KeyboardEvent, location: string) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onToggle?.(location);
+    }
+  };
+
+  const renderView = (view: BodyView) => (
+    <figure key={view} className="flex-1 flex flex-col items-center gap-1 m-0">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full max-w-[160px] h-auto"
+        role="group"
+        aria-label={view === 'front' ? "Body, front" : "Body, back"}
+      >
+        {regionsFor(view).map(({ location, shape }) => {
+          const isSelected = selectedSet.has(location);
+          const level = heat?.[location];
+          const fill = isSelected
+            ? "hsl(var(--primary))"
+            : level !== undefined ? heatFill(level) : "hsl(var(--muted))";
+          const common = {
+            fill,
+            fillOpacity: isSelected || level !== undefined ? 0.9 : 1,
+            stroke: highlightedSet.has(location) && !isSelected ? "hsl(var(--primary))" : "hsl(var(--border))",
+            strokeWidth: highlightedSet.has(location) && !isSelected ? 1.2 : 0.6,
+            strokeDasharray: highlightedSet.has(location) && !isSelected ? "2 1.5" : undefined,
+            className: cn("transition-colors", onToggle && "cursor-pointer hover:opacity-80 focus:outline-none focus-visible:opacity-70"),
+            ...(onToggle && {
+              role: "button",
+              tabIndex: 0,
+              "aria-pressed": isSelected,
+              onClick: () => onToggle(location),
+              onKeyDown: (event: KeyboardEvent) => handleKeyDown(event, location),
+            }),
+          };
+          const title = <title>{level !== undefined ? `${location}: ${level.toFixed(1)}/10` : location}</title>;
+
+          return shape.kind === 'ellipse' ? (
+            <ellipse key={location} cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} {...common}>{title}</ellipse>
+          ) : (
+            <rect key={location} x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={shape.r} {...common}>{title}</rect>
+          );
+        })}
+        <text x={4} y={HEIGHT - 4} fontSize={9} className="fill-muted-foreground">
+          {VIEWER_LEFT_SIDE[view] === 'right' ? 'R' : 'L'}
+        </text>
+        <text x={WIDTH - 4} y={HEIGHT - 4} fontSize={9} textAnchor="end" className="fill-muted-foreground">
+          {VIEWER_LEFT_SIDE[view] === 'right' ? 'L' : 'R'}
+        </text>
+      </svg>
+      <figcaption className="text-xs text-muted-foreground">{view === 'front' ? "Front" : "Back"}</figcaption>
+    </figure>
+  );
+
+  return (
+    <div className={cn("flex gap-4 justify-center", className)}>
+      {renderView('front')}
+      {renderView('back')}
+    </div>
+  );
+}
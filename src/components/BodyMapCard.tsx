@@ -0,0 +1,75 @@
+import { useMemo } from 'react';
+import { EmptyState } from '@/components/lila';
+import { Button } from '@/components/ui/button';
+import { MapPin } from 'lucide-react';
+import { BodyMap } from '@/components/BodyMap';
+import { locationHeat, type PainEntry } from '@/lib/analytics';
+import { painColor } from '@/lib/clinicianReport';
+
+interface BodyMapCardProps {
+  painData: PainEntry[];
+  onUseLast30Days?: () => void;
+}
+
+const TOP_LOCATIONS = 5;
+const LEGEND_LEVELS = [0, 2, 4, 6, 8, 10];
+
+const heatColor = (level: number) => `rgb(${painColor(level).join(', ')})`;
+
+export const BodyMapCard = ({ painData, onUseLast30Days }: BodyMapCardProps) => {
+  const locations = useMemo(() => locationHeat(painData), [painData]);
+  const heat = useMemo(
+    () => Object.fromEntries(locations.map(({ location, averageIntensity }) => [location, averageIntensity])),
+    [locations]
+  );
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-foreground">Where It Hurts</h2>
+      </div>
+      {locations.length === 0 ? (
+        <div className="bg-card border rounded-lg">
+          <EmptyState
+            icon={<MapPin className="h-12 w-12" />}
+            title="No locations logged"
+            description="Add where it hurts when you log pain to see it on the body map."
+            actions={onUseLast30Days && (
+              <Button onClick={onUseLast30Days} variant="outline" size="sm">
+                Use Last 30 days
+              </Button>
+            )}
+          />
+        </div>
+      ) : (
+        <div className="bg-card border rounded-lg p-4 space-y-4">
+          <BodyMap heat={heat} />
+
+          <div className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+            <span className="mr-1">Average pain</span>
+            {LEGEND_LEVELS.map((level) => (
+              <span key={level} className="flex flex-col items-center">
+                <span className="h-3 w-6 rounded-sm" style={{ backgroundColor: heatColor(level) }} />
+                {level}
+              </span>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {locations.slice(0, TOP_LOCATIONS).map((location) => (
+              <div key={location.location} className="flex items-center justify-between py-1 border-b border-border/50 last:border-0 text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: heatColor(location.averageIntensity) }} />
+                  <span className="truncate text-foreground">{location.location}</span>
+                </span>
+                <span className="ml-2 text-muted-foreground whitespace-nowrap">
+                  {location.entries} {location.entries === 1 ? 'entry' : 'entries'} · avg {location.averageIntensity.toFixed(1)} · max {location.maxIntensity}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Plus, X } from "lucide-react";
+import { BodyMap } from "@/components/BodyMap";
+import { canonicalLocations } from "@/lib/vocabulary";
+
+interface BodyMapSelectorProps {
+  selected: string[];
+  onChange: (locations: string[]) => void;
+  // Shown as suggestions on the map, e.g. the user's usual locations
+  highlighted?: string[];
+  // Pass these to rate each selected location separately
+  intensities?: Record<string, number>;
+  onIntensitiesChange?: (intensities: Record<string, number>) => void;
+  // Starting rating for a newly selected location
+  defaultIntensity?: number;
+}
+
+export function BodyMapSelector({
+  selected,
+  onChange,
+  highlighted = [],
+  intensities,
+  onIntensitiesChange,
+  defaultIntensity = 5
+}: BodyMapSelectorProps) {
+  const [otherLocation, setOtherLocation] = useState("");
+
+  const remove = (location: string) => {
+    onChange(selected.filter(l => l !== location));
+    if (intensities && onIntensitiesChange && location in intensities) {
+      const { [location]: _removed, ...rest } = intensities;
+      onIntensitiesChange(rest);
+    }
+  };
+
+  const toggle = (location: string) => {
+    if (selected.includes(location)) {
+      remove(location);
+    } else {
+      onChange([...selected, location]);
+    }
+  };
+
+  // Typed names that match the map ("left knee", "shoulders") are stored canonically
+  const addOther = () => {
+    const added = canonicalLocations([otherLocation]).filter(l => !selected.includes(l));
+    if (added.length > 0) onChange([...selected, ...added]);
+    setOtherLocation("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <BodyMap selected={selected} highlighted={highlighted} onToggle={toggle} />
+      <p className="text-xs text-muted-foreground text-center">
+        Tap the areas that hurt{highlighted.length > 0 ? "; dashed outlines are your usual areas" : ""}
+      </p>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((location) => (
+            <Badge
+              key={location}
+              variant="secondary"
+              className="cursor-pointer"
+              onClick={() => remove(location)}
+            >
+              {location}
+              <X className="h-3 w-3 ml-1" />
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {onIntensitiesChange && selected.length > 1 && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium">How bad is each area?</p>
+          {selected.map((location) => {
+            const value = intensities?.[location] ?? defaultIntensity;
+            return (
+              <div key={location} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{location}</span>
+                  <span className="text-muted-foreground">{value}/10</span>
+                </div>
+                <Slider
+                  value={[value]}
+                  min={0}
+                  max={10}
+                  step={1}
+                  onValueChange={([level]) => onIntensitiesChange({ ...intensities, [location]: level })}
+                  aria-label={`${location} pain`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Other location..."
+          value={otherLocation}
+          onChange={(e) => setOtherLocation(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addOther();
+            }
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addOther}
+          disabled={!otherLocation.trim()}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
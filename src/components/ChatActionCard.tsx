@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, X, Loader2 } from "lucide-react";
+import type { ChatAction } from "@/lib/aiChatStream";
+
+export type ChatActionStatus = 'pending' | 'saving' | 'confirmed' | 'dismissed';
+
+interface ChatActionCardProps {
+  action: ChatAction;
+  status: ChatActionStatus;
+  onConfirm: () => void;
+  onDismiss: () => void;
+}
+
+const ACTION_TITLES: Record<ChatAction['tool'], string> = {
+  log_pain: 'Log pain entry',
+  update_last_entry: 'Update last entry',
+  resolve_session: 'End pain episode'
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+function getActionRows(action: ChatAction): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+
+  if (action.tool === 'resolve_session') {
+    if (action.target?.started_at) rows.push(['Started', formatDateTime(action.target.started_at)]);
+    rows.push(['Final level', `${action.args.end_level}/10`]);
+    return rows;
+  }
+
+  if (action.tool === 'update_last_entry' && action.target?.logged_at) {
+    rows.push(['Entry', `${formatDateTime(action.target.logged_at)} (level ${action.target.pain_level})`]);
+  }
+
+  const { args } = action;
+  if (args.pain_level !== undefined) rows.push(['Pain level', `${args.pain_level}/10`]);
+  if (args.pain_locations?.length) rows.push(['Where', args.pain_locations.join(', ')]);
+  if (args.medications?.length) rows.push(['Medications', args.medications.join(', ')]);
+  if (args.triggers?.length) rows.push(['Triggers', args.triggers.join(', ')]);
+  if (action.tool === 'log_pain' && action.args.onset_at) rows.push(['Since', formatDateTime(action.args.onset_at)]);
+  if (args.notes) rows.push(['Notes', args.notes]);
+
+  return rows;
+}
+
+export function ChatActionCard({ action, status, onConfirm, onDismiss }: ChatActionCardProps) {
+  const rows = getActionRows(action);
+
+  return (
+    <div className="border border-border rounded-lg p-4 bg-background max-w-sm animate-fade-in">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h4 className="font-medium text-sm">{ACTION_TITLES[action.tool]}</h4>
+        {status === 'confirmed' && <Badge variant="secondary">Saved</Badge>}
+        {status === 'dismissed' && <Badge variant="outline">Dismissed</Badge>}
+      </div>
+
+      <dl className="text-sm space-y-1">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex gap-2">
+            <dt className="text-muted-foreground w-24 shrink-0">{label}</dt>
+            <dd className="break-words">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {(status === 'pending' || status === 'saving') && (
+        <div className="flex gap-2 mt-4">
+          <Button size="sm" onClick={onConfirm} disabled={status === 'saving'}>
+            {status === 'saving' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+            Confirm
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onDismiss} disabled={status === 'saving'}>
+            <X className="h-4 w-4 mr-1" />
+            Dismiss
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect, useMemo } from "react";
+import { format, isToday } from "date-fns";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { History, Plus, Search, Pencil, Trash2, Check, X } from "lucide-react";
+import { useAICompanion, type ConversationSearchResult } from "@/hooks/useAICompanion";
+import type { Database } from "@/integrations/supabase/types";
+
+type ConversationMessage = Database['public']['Tables']['ai_conversations']['Row'];
+
+interface ConversationHistoryProps {
+  activeConversationId?: string;
+  onSelect: (conversationId: string, messages: ConversationMessage[]) => void;
+  onNewConversation: () => void;
+}
+
+const formatThreadDate = (iso: string) => {
+  const date = new Date(iso);
+  return isToday(date) ? format(date, 'p') : format(date, 'MMM d');
+};
+
+export function ConversationHistory({ activeConversationId, onSelect, onNewConversation }: ConversationHistoryProps) {
+  const {
+    threads,
+    fetchThreads,
+    renameThread,
+    deleteThread,
+    searchConversations,
+    fetchConversationHistory
+  } = useAICompanion();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ConversationSearchResult[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) fetchThreads();
+  }, [open, fetchThreads]);
+
+  // Debounce full-text search while typing
+  useEffect(() => {
+    if (!query.trim()) {
+      setSearchResults(null);
+      return;
+    }
+
+    // A slow response for an earlier query must not replace newer results
+    let stale = false;
+    const timeout = setTimeout(async () => {
+      const results = await searchConversations(query);
+      if (!stale) setSearchResults(results);
+    }, 300);
+    return () => {
+      stale = true;
+      clearTimeout(timeout);
+    };
+  }, [query, searchConversations]);
+
+  const threadTitles = useMemo(
+    () => new Map(threads.map(thread => [thread.conversation_id, thread.title])),
+    [threads]
+  );
+
+  const openThread = async (conversationId: string) => {
+    setLoadingId(conversationId);
+    const messages = await fetchConversationHistory(conversationId, 100);
+    setLoadingId(null);
+    onSelect(conversationId, messages);
+    setOpen(false);
+  };
+
+  const startRename = (conversationId: string, title: string) => {
+    setEditingId(conversationId);
+    setEditTitle(title);
+  };
+
+  const saveRename = async () => {
+    if (editingId && await renameThread(editingId, editTitle)) {
+      setEditingId(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDeleteId) return;
+    const deletedId = pendingDeleteId;
+    setPendingDeleteId(null);
+
+    if (await deleteThread(deletedId)) {
+      setSearchResults(prev => prev?.filter(result => result.conversationId !== deletedId) ?? null);
+      if (deletedId === activeConversationId) onNewConversation();
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <History className="h-4 w-4" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Conversations</SheetTitle>
+        </SheetHeader>
+
+        <div className="flex gap-2 mt-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search past conversations"
+              className="pl-9"
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="New conversation"
+            onClick={() => {
+              onNewConversation();
+              setOpen(false);
+            }}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto mt-4 -mx-2">
+          {searchResults !== null ? (
+            searchResults.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-2 py-8 text-center">No messages match "{query}".</p>
+            ) : (
+              searchResults.map(result => (
+                <button
+                  key={result.messageId}
+                  onClick={() => openThread(result.conversationId)}
+                  className="w-full text-left rounded-lg px-3 py-2 hover:bg-accent"
+                >
+                  <div className="flex justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="truncate">{threadTitles.get(result.conversationId) || 'Conversation'}</span>
+                    <span className="shrink-0">{formatThreadDate(result.createdAt)}</span>
+                  </div>
+                  <p className="text-sm mt-1 line-clamp-2">
+                    <span className="text-muted-foreground">{result.messageType === 'user' ? 'You: ' : 'PainPal: '}</span>
+                    {result.snippet}
+                  </p>
+                </button>
+              ))
+            )
+          ) : threads.length === 0 ? (
+            <p className="text-sm text-muted-foreground px-2 py-8 text-center">No past conversations yet.</p>
+          ) : (
+            threads.map(thread => (
+              <div
+                key={thread.conversation_id}
+                className={`group rounded-lg px-3 py-2 hover:bg-accent ${thread.conversation_id === activeConversationId ? 'bg-accent/60' : ''}`}
+              >
+                {editingId === thread.conversation_id ? (
+                  <div className="flex items-center gap-1">
+                    <Input
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="h-8"
+                      autoFocus
+                    />
+                    <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Save title" onClick={saveRename}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Cancel rename" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <button
+                      onClick={() => openThread(thread.conversation_id)}
+                      className="flex-1 min-w-0 text-left"
+                      disabled={loadingId === thread.conversation_id}
+                    >
+                      <div className="flex justify-between gap-2">
+                        <span className="text-sm font-medium truncate">{thread.title}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">{formatThreadDate(thread.last_message_at)}</span>
+                      </div>
+                      {thread.last_message && (
+                        <p className="text-xs text-muted-foreground truncate mt-0.5">{thread.last_message}</p>
+                      )}
+                    </button>
+                    <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label="Rename conversation"
+                        onClick={() => startRename(thread.conversation_id, thread.title)}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label="Delete conversation"
+                        onClick={() => setPendingDeleteId(thread.conversation_id)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <AlertDialog open={!!pendingDeleteId} onOpenChange={(isOpen) => !isOpen && setPendingDeleteId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This permanently removes the conversation and all of its messages.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SheetContent>
+    </Sheet>
+  );
+}
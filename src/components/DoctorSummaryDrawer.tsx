@@ -1,26 +1,44 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { DrawerSheet } from '@/components/lila/DrawerSheet';
-import { FileText, Copy, Printer } from 'lucide-react';
+import { ShareLinkCreator } from '@/components/ShareLinkCreator';
+import { Copy, FileDown } from 'lucide-react';
 import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { useMedicationAdherence } from '@/hooks/useMedicationAdherence';
+import { useMedicationOveruse } from '@/hooks/useMedicationOveruse';
+import { useNeuropathicScreening } from '@/hooks/useNeuropathicScreening';
+import { useQuestionnaires } from '@/hooks/useQuestionnaires';
+import {
+  functionalImpactRollup,
+  formatPainQualities,
+  formatSignedDelta,
+  formatWindow,
+  medicationEffects,
+  painQualityProfile,
+  summarizePain,
+  timeOfDayProfile,
+  triggerCorrelations,
+  weekdayProfile,
+  worstBuckets,
+  type PainEntry
+} from '@/lib/analytics';
+import {
+  buildClinicianReport,
+  clinicianReportFilename,
+  REPORT_SECTIONS,
+  type ReportSectionKey
+} from '@/lib/clinicianReport';
+import { formatDn4Result } from '@/lib/neuropathicScreening';
+import { formatQuestionnaireResult, latestResponses } from '@/lib/questionnaires';
 
-interface PainEntry {
-  id: number;
-  date: string;
-  timestamp: string;
-  painLevel: number | null;
-  location: string[];
-  triggers: string[];
-  medications: any[];
-  notes: string;
-  symptoms: string[];
-  status: string;
-  functional_impact?: string;
-  impact_tags?: string[];
-  side_effects?: string;
-  rx_taken?: boolean;
-}
+// Journal excerpts preselected for the PDF: the most recent entries with notes
+const DEFAULT_EXCERPTS = 5;
 
 interface DoctorSummaryDrawerProps {
   open: boolean;
@@ -37,172 +55,94 @@ export const DoctorSummaryDrawer = ({
   startDate, 
   endDate 
 }: DoctorSummaryDrawerProps) => {
+  const { user } = useAuth();
   const { toast } = useToast();
+  const { data: adherence } = useMedicationAdherence(startDate, endDate, open);
+  const { data: overuse } = useMedicationOveruse(endDate, open);
+  const { latest: screening } = useNeuropathicScreening(open);
+  const screeningLine = screening ? formatDn4Result(screening) : null;
+  const { responses: questionnaireResponses } = useQuestionnaires(open);
 
-  const summaryData = useMemo(() => {
-    if (painData.length === 0) {
-      return {
-        avgDailyPain: 0,
-        totalDays: 0,
-        severeDays: 0,
-        topTimes: [],
-        topWeekdays: [],
-        pctLimited: 0,
-        pctStopped: 0,
-        pctBed: 0,
-        topImpactTags: [],
-        medicationLines: []
-      };
-    }
-
-    // Calculate average daily pain
-    const validPainLevels = painData.filter(entry => entry.painLevel !== null);
-    const avgDailyPain = validPainLevels.length > 0 
-      ? validPainLevels.reduce((sum, entry) => sum + (entry.painLevel || 0), 0) / validPainLevels.length
-      : 0;
-
-    // Calculate days and severe days
-    const uniqueDates = [...new Set(painData.map(entry => entry.date))];
-    const totalDays = uniqueDates.length;
-    const severeDays = uniqueDates.filter(date => {
-      const dayEntries = painData.filter(entry => entry.date === date && entry.painLevel !== null);
-      const maxPainLevel = Math.max(...dayEntries.map(entry => entry.painLevel || 0));
-      return maxPainLevel >= 7;
-    }).length;
-
-    // Calculate time of day patterns
-    const timeOfDayData = painData.reduce((acc, entry) => {
-      if (entry.painLevel === null) return acc;
-      
-      const hour = new Date(entry.timestamp).getHours();
-      let timeSlot: string;
-      if (hour >= 0 && hour < 6) timeSlot = 'Night';
-      else if (hour >= 6 && hour < 12) timeSlot = 'Morning';
-      else if (hour >= 12 && hour < 18) timeSlot = 'Afternoon';
-      else timeSlot = 'Evening';
-      
-      if (!acc[timeSlot]) acc[timeSlot] = { total: 0, count: 0 };
-      acc[timeSlot].total += entry.painLevel;
-      acc[timeSlot].count++;
-      return acc;
-    }, {} as Record<string, { total: number; count: number }>);
+  const questionnaireLines = useMemo(
+    () => latestResponses(questionnaireResponses, endDate).map(({ definition, latest, previous }) =>
+      `${definition.shortName}: ${formatQuestionnaireResult(definition, latest, previous)}`
+    ),
+    [questionnaireResponses, endDate]
+  );
 
-    const topTimes = Object.entries(timeOfDayData)
-      .map(([time, data]) => ({ time, avg: data.total / data.count }))
-      .sort((a, b) => b.avg - a.avg)
-      .slice(0, 2)
-      .map(item => item.time);
+  const overuseLine = useMemo(() => {
+    if (!overuse || overuse.classes.length === 0) return null;
+    const counts = overuse.classes
+      .map(item => `${item.label} ${item.days} days (limit ${item.threshold}; ${item.medications.join(', ')})`)
+      .join(', ');
+    const flag = overuse.level === 'over' ? ' — possible medication overuse' : '';
+    return `${counts}; any acute medication ${overuse.acuteDays} days${flag}`;
+  }, [overuse]);
 
-    // Calculate weekday patterns
-    const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const weekdayData = painData.reduce((acc, entry) => {
-      if (entry.painLevel === null) return acc;
-      
-      const dayOfWeek = new Date(entry.timestamp).getDay();
-      const dayName = weekdayNames[dayOfWeek];
-      
-      if (!acc[dayName]) acc[dayName] = { total: 0, count: 0 };
-      acc[dayName].total += entry.painLevel;
-      acc[dayName].count++;
-      return acc;
-    }, {} as Record<string, { total: number; count: number }>);
+  const adherenceLines = useMemo(() => {
+    if (!adherence || adherence.percentage === null) return [];
+    return [
+      `Overall: ${adherence.percentage.toFixed(0)}% of ${adherence.scheduled} scheduled doses taken (${adherence.skipped} skipped, ${adherence.missed} missed)`,
+      ...adherence.weeks
+        .filter(week => week.percentage !== null)
+        .map(week => `Week of ${format(new Date(`${week.weekStart}T00:00:00`), 'MMM d')}: ${week.percentage!.toFixed(0)}% (${week.taken}/${week.scheduled})`),
+      ...adherence.medications.map(med => `${med.name}: ${med.percentage!.toFixed(0)}% (${med.taken}/${med.scheduled})`)
+    ];
+  }, [adherence]);
 
-    const topWeekdays = Object.entries(weekdayData)
-      .map(([day, data]) => ({ day, avg: data.total / data.count }))
-      .sort((a, b) => b.avg - a.avg)
-      .slice(0, 2)
-      .map(item => item.day);
+  const { data: profile } = useQuery({
+    queryKey: ["profile", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("id", user!.id)
+        .single();
 
-    // Calculate functional impact percentages
-    const impactRanks = { none: 0, limited: 1, stopped: 2, bed: 3 };
-    const dailyImpacts = uniqueDates.map(date => {
-      const dayEntries = painData.filter(entry => entry.date === date && entry.functional_impact);
-      if (dayEntries.length === 0) return null;
-      
-      const maxImpact = dayEntries.reduce((max, entry) => {
-        const rank = impactRanks[entry.functional_impact?.toLowerCase() as keyof typeof impactRanks] ?? 0;
-        return rank > max ? rank : max;
-      }, 0);
-      
-      return Object.keys(impactRanks)[maxImpact];
-    }).filter(Boolean);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id && open,
+  });
 
-    const pctLimited = dailyImpacts.length > 0 ? (dailyImpacts.filter(i => i === 'limited').length / dailyImpacts.length) * 100 : 0;
-    const pctStopped = dailyImpacts.length > 0 ? (dailyImpacts.filter(i => i === 'stopped').length / dailyImpacts.length) * 100 : 0;
-    const pctBed = dailyImpacts.length > 0 ? (dailyImpacts.filter(i => i === 'bed').length / dailyImpacts.length) * 100 : 0;
+  const [sections, setSections] = useState<ReportSectionKey[]>(REPORT_SECTIONS.map(section => section.key));
+  const [isExporting, setIsExporting] = useState(false);
 
-    // Top impact tags
-    const allTags = painData.flatMap(entry => entry.impact_tags || []);
-    const tagCounts = allTags.reduce((acc, tag) => {
-      acc[tag] = (acc[tag] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const topImpactTags = Object.entries(tagCounts)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, 3)
-      .map(([tag]) => tag);
+  const journalEntries = useMemo(
+    () => painData
+      .filter(entry => entry.notes?.trim())
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
+    [painData]
+  );
+  // Null until the user picks, so the default follows the selected range
+  const [pickedExcerpts, setPickedExcerpts] = useState<string[] | null>(null);
+  const excerptIds = pickedExcerpts ?? journalEntries.slice(0, DEFAULT_EXCERPTS).map(entry => entry.id);
 
-    // Medication analysis
-    const medicationPairs: { [medication: string]: { deltas: number[], sideEffects: number, totalCount: number } } = {};
-    const sortedData = [...painData].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-    
-    sortedData.forEach((currentEntry, index) => {
-      if (!currentEntry.medications || currentEntry.medications.length === 0) return;
-      
-      const currentTime = new Date(currentEntry.timestamp).getTime();
-      const twoHours = 2 * 60 * 60 * 1000;
-      const fourHours = 4 * 60 * 60 * 1000;
-      
-      const nextEntry = sortedData.slice(index + 1).find(entry => {
-        const entryTime = new Date(entry.timestamp).getTime();
-        const timeDiff = entryTime - currentTime;
-        return timeDiff >= twoHours && timeDiff <= fourHours;
-      });
-      
-      if (!nextEntry || currentEntry.painLevel === null || nextEntry.painLevel === null) return;
-      
-      currentEntry.medications.forEach((medication: any) => {
-        const medName = typeof medication === 'string' ? medication : medication.name || String(medication);
-        
-        if (!medicationPairs[medName]) {
-          medicationPairs[medName] = { deltas: [], sideEffects: 0, totalCount: 0 };
-        }
-        
-        const delta = nextEntry.painLevel! - currentEntry.painLevel!;
-        medicationPairs[medName].deltas.push(delta);
-        medicationPairs[medName].totalCount++;
-        
-        if (currentEntry.side_effects && currentEntry.side_effects.trim() !== '') {
-          medicationPairs[medName].sideEffects++;
-        }
-      });
-    });
+  const summaryData = useMemo(() => {
+    const { averagePain, totalDays, severeDays } = summarizePain(painData);
+    const impact = functionalImpactRollup(painData, 3);
+    const effects = medicationEffects(painData);
 
-    const medicationLines = Object.entries(medicationPairs)
-      .map(([name, data]) => {
-        const meanDelta = data.deltas.reduce((sum, delta) => sum + delta, 0) / data.deltas.length;
-        const sideEffectsRate = data.totalCount > 0 ? (data.sideEffects / data.totalCount) * 100 : 0;
-        
-        return `${name}: ${meanDelta < 0 ? '−' : '+'}${Math.abs(meanDelta).toFixed(1)} in 2–4h (n=${data.deltas.length}); side effects ${sideEffectsRate.toFixed(0)}%`;
-      })
-      .sort((a, b) => {
-        const deltaA = parseFloat(a.split(' ')[1].replace('−', '-').replace('+', ''));
-        const deltaB = parseFloat(b.split(' ')[1].replace('−', '-').replace('+', ''));
-        return deltaA - deltaB;
-      });
+    const medicationLines = effects.map(med =>
+      med.effect === null || !med.ci
+        ? `${med.name}: insufficient data (n=${med.matchedPairs} comparable doses)`
+        : `${med.name}: ${formatSignedDelta(med.effect)} vs. untreated intervals at similar pain, ${formatWindow(med.window)} (95% CI ${formatSignedDelta(med.ci[0])} to ${formatSignedDelta(med.ci[1])}, n=${med.matchedPairs}); side effects ${med.sideEffectsRate.toFixed(0)}%`
+    );
 
     return {
-      avgDailyPain,
+      avgDailyPain: averagePain,
       totalDays,
       severeDays,
-      topTimes,
-      topWeekdays,
-      pctLimited,
-      pctStopped,
-      pctBed,
-      topImpactTags,
-      medicationLines
+      topTimes: worstBuckets(timeOfDayProfile(painData)),
+      topWeekdays: worstBuckets(weekdayProfile(painData)),
+      pctLimited: impact.percentages.limited,
+      pctStopped: impact.percentages.stopped,
+      pctBed: impact.percentages.bed,
+      topImpactTags: impact.topTags.map(({ tag }) => tag),
+      qualityLine: formatPainQualities(painQualityProfile(painData)),
+      medicationLines,
+      impact,
+      effects
     };
   }, [painData]);
 
@@ -213,8 +153,13 @@ export const DoctorSummaryDrawer = ({
 • Times of day most affected: ${summaryData.topTimes.join(', ') || 'None'}
 • Weekdays most affected: ${summaryData.topWeekdays.join(', ') || 'None'}
 • Functional impact: Limited ${summaryData.pctLimited.toFixed(0)}%, Stopped ${summaryData.pctStopped.toFixed(0)}%, Bed ${summaryData.pctBed.toFixed(0)}%
-  Top factors: ${summaryData.topImpactTags.join(', ') || 'None'}
-• Meds: ${summaryData.medicationLines.join('; ') || 'None tracked'}`;
+  Top factors: ${summaryData.topImpactTags.join(', ') || 'None'}${summaryData.qualityLine ? `
+• Pain quality: ${summaryData.qualityLine}` : ''}${screeningLine ? `
+• Nerve pain screen (DN4 symptom questions): ${screeningLine}` : ''}${questionnaireLines.length > 0 ? `
+• Questionnaires: ${questionnaireLines.join('; ')}` : ''}
+• Meds: ${summaryData.medicationLines.join('; ') || 'None tracked'}${overuseLine ? `
+• Acute medication days (30 days to ${format(endDate, 'MMM d')}): ${overuseLine}` : ''}${adherenceLines.length > 0 ? `
+• Adherence to scheduled meds: ${adherenceLines.join('; ')}` : ''}`;
 
   const handleCopy = async () => {
     try {
@@ -232,38 +177,49 @@ export const DoctorSummaryDrawer = ({
     }
   };
 
-  const handlePrint = () => {
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) return;
-    
-    printWindow.document.write(`
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>Pain Summary</title>
-        <style>
-          @media print {
-            body { 
-              font-family: system-ui, -apple-system, sans-serif; 
-              font-size: 12px; 
-              line-height: 1.4; 
-              margin: 20px;
-            }
-            h1 { font-size: 16px; margin-bottom: 16px; }
-            p { margin: 8px 0; white-space: pre-line; }
-          }
-        </style>
-      </head>
-      <body>
-        <h1>Pain Summary</h1>
-        <p>${summaryText.replace(/\n/g, '<br>')}</p>
-      </body>
-      </html>
-    `);
-    printWindow.document.close();
-    printWindow.focus();
-    printWindow.print();
-    printWindow.close();
+  const toggleSection = (key: ReportSectionKey, checked: boolean) => {
+    setSections(prev => checked ? [...prev, key] : prev.filter(section => section !== key));
+  };
+
+  const toggleExcerpt = (id: string, checked: boolean) => {
+    setPickedExcerpts(checked ? [...excerptIds, id] : excerptIds.filter(excerptId => excerptId !== id));
+  };
+
+  const handleDownloadPdf = () => {
+    setIsExporting(true);
+    try {
+      const doc = buildClinicianReport(
+        {
+          patient: {
+            name: profile?.display_name ?? null,
+            email: profile?.email ?? user?.email ?? null,
+            diagnosis: profile?.diagnosis ?? null,
+          },
+          startDate,
+          endDate,
+          entries: painData,
+          medicationEffects: summaryData.effects,
+          adherence: adherence ?? null,
+          overuse: overuse ?? null,
+          impact: summaryData.impact,
+          screening,
+          questionnaires: questionnaireResponses,
+          triggers: triggerCorrelations(painData).slice(0, 5),
+          excerpts: journalEntries.filter(entry => excerptIds.includes(entry.id)),
+        },
+        sections
+      );
+      doc.save(clinicianReportFilename(startDate, endDate));
+    } catch (error) {
+      console.error('Error generating PDF report:', error);
+      toast({
+        title: "Failed to create PDF",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const footer = (
@@ -272,9 +228,9 @@ export const DoctorSummaryDrawer = ({
         <Copy className="h-4 w-4 mr-2" />
         Copy
       </Button>
-      <Button onClick={handlePrint} variant="outline" className="flex-1">
-        <Printer className="h-4 w-4 mr-2" />
-        Print
+      <Button onClick={handleDownloadPdf} disabled={isExporting} className="flex-1">
+        <FileDown className="h-4 w-4 mr-2" />
+        Download PDF
       </Button>
     </div>
   );
@@ -306,6 +262,25 @@ export const DoctorSummaryDrawer = ({
             {summaryData.topImpactTags.length > 0 && (
               <p className="ml-4">Top factors: <span className="font-medium">{summaryData.topImpactTags.join(', ')}</span></p>
             )}
+
+            {summaryData.qualityLine && (
+              <p>• Pain quality: <span className="font-medium">{summaryData.qualityLine}</span></p>
+            )}
+
+            {screeningLine && (
+              <p>• Nerve pain screen (DN4 symptom questions): <span className="font-medium">{screeningLine}</span></p>
+            )}
+
+            {questionnaireLines.length > 0 && (
+              <div>
+                <p>• Questionnaires:</p>
+                <div className="ml-4 space-y-1">
+                  {questionnaireLines.map((line, index) => (
+                    <p key={index} className="font-medium text-xs">{line}</p>
+                  ))}
+                </div>
+              </div>
+            )}
             
             <div>
               <p>• Meds:</p>
@@ -319,9 +294,76 @@ export const DoctorSummaryDrawer = ({
                 <p className="ml-4 font-medium">None tracked</p>
               )}
             </div>
+
+            {overuseLine && (
+              <p>
+                • Acute medication days (30 days to {format(endDate, 'MMM d')}):{' '}
+                <span className={`font-medium ${overuse?.level === 'over' ? 'text-destructive' : ''}`}>{overuseLine}</span>
+              </p>
+            )}
+
+            {adherenceLines.length > 0 && (
+              <div>
+                <p>• Adherence to scheduled meds:</p>
+                <div className="ml-4 space-y-1">
+                  {adherenceLines.map((line, index) => (
+                    <p key={index} className="font-medium text-xs">{line}</p>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
         
+        <div className="space-y-3">
+          <h3 className="font-medium text-foreground">Report sections</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {REPORT_SECTIONS.map(section => (
+              <div key={section.key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`report-${section.key}`}
+                  checked={sections.includes(section.key)}
+                  onCheckedChange={(checked) => toggleSection(section.key, checked === true)}
+                />
+                <Label htmlFor={`report-${section.key}`} className="text-sm font-normal">
+                  {section.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          {sections.includes('journal') && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {journalEntries.length > 0
+                  ? "Choose which notes to include:"
+                  : "No notes in this period."}
+              </p>
+              <div className="max-h-48 overflow-y-auto space-y-2">
+                {journalEntries.map(entry => (
+                  <div key={entry.id} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`excerpt-${entry.id}`}
+                      checked={excerptIds.includes(entry.id)}
+                      onCheckedChange={(checked) => toggleExcerpt(entry.id, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <Label htmlFor={`excerpt-${entry.id}`} className="text-xs font-normal leading-snug">
+                      <span className="text-muted-foreground">{format(new Date(entry.timestamp), 'MMM d, HH:mm')}</span>{' '}
+                      <span className="line-clamp-2">{entry.notes}</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-medium text-foreground">Share with a clinician</h3>
+          <ShareLinkCreator startDate={startDate} endDate={endDate} sections={sections} />
+        </div>
+
         <div className="text-xs text-muted-foreground">
           This summary is generated from your pain tracking data for the selected date range. 
           Please review with your healthcare provider.
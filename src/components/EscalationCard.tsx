@@ -0,0 +1,45 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, HeartHandshake, Phone } from "lucide-react";
+import type { ChatEscalation } from "@/lib/aiChatStream";
+
+interface EscalationCardProps {
+  escalation: ChatEscalation;
+}
+
+// Deliberately has no dismiss control: it stays with the message it belongs to
+export function EscalationCard({ escalation }: EscalationCardProps) {
+  const Icon = escalation.level === 'crisis' ? HeartHandshake : AlertTriangle;
+
+  return (
+    <Alert
+      variant={escalation.level === 'urgent' ? 'default' : 'destructive'}
+      className="max-w-md animate-fade-in"
+      role="alert"
+    >
+      <Icon className="h-4 w-4" />
+      <AlertTitle>{escalation.title}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="space-y-1 list-disc pl-4">
+          {escalation.guidance.map((line) => (
+            <li key={line}>{line}</li>
+          ))}
+        </ul>
+
+        <div className="space-y-1">
+          {escalation.contacts.map((contact) => (
+            <div key={contact.label} className="flex items-center gap-2 text-sm">
+              <Phone className="h-3.5 w-3.5 shrink-0" />
+              <span className="font-medium">{contact.label}:</span>
+              <span>{contact.value}</span>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs opacity-80">
+          Flagged because of: {escalation.flags.map((flag) => flag.label.toLowerCase()).join('; ')}.
+          PainPal can't assess emergencies; if in doubt, get help.
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
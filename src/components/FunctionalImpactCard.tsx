@@ -1,9 +1,10 @@
 import { ChipPill, EmptyState } from '@/components/lila';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Activity } from 'lucide-react';
+import { functionalImpactRollup, type PainEntry } from '@/lib/analytics';
 
 interface FunctionalImpactCardProps {
-  painData: any[];
+  painData: PainEntry[];
   onUseLast7Days: () => void;
   onJumpToToday: () => void;
 }
@@ -57,57 +58,7 @@ export const FunctionalImpactCard = ({
     );
   }
 
-  // Calculate functional impact statistics
-  let impactStats = { limited: 0, stopped: 0, bed: 0, total: 0 };
-  
-  if (hasFunctionalImpact) {
-    // Group entries by date and find highest impact per day
-    const dailyImpacts = painData.reduce((acc, entry) => {
-      if (!entry.functional_impact) return acc;
-      
-      const date = entry.logged_at?.split('T')[0] || entry.date;
-      if (!date) return acc;
-      
-      const impact = entry.functional_impact.toLowerCase();
-      const rank = getRankForImpact(impact);
-      
-      if (!acc[date] || rank > acc[date].rank) {
-        acc[date] = { impact, rank };
-      }
-      
-      return acc;
-    }, {} as Record<string, { impact: string; rank: number }>);
-
-    // Count days by impact level
-    const totalDays = Object.keys(dailyImpacts).length;
-    if (totalDays > 0) {
-      Object.values(dailyImpacts).forEach(({ impact }) => {
-        if (impact.includes('limited')) impactStats.limited++;
-        else if (impact.includes('stopped')) impactStats.stopped++;
-        else if (impact.includes('bed')) impactStats.bed++;
-      });
-      impactStats.total = totalDays;
-    }
-  }
-
-  // Calculate top impact tags
-  let topTags: Array<{ tag: string; count: number }> = [];
-  
-  if (hasImpactTags) {
-    const tagCounts = painData.reduce((acc, entry) => {
-      if (entry.impact_tags && Array.isArray(entry.impact_tags)) {
-        entry.impact_tags.forEach((tag: string) => {
-          acc[tag] = (acc[tag] || 0) + 1;
-        });
-      }
-      return acc;
-    }, {} as Record<string, number>);
-
-    topTags = Object.entries(tagCounts)
-      .map(([tag, count]) => ({ tag, count: count as number }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 5);
-  }
+  const { totalDays, days, percentages, topTags } = functionalImpactRollup(painData);
 
   return (
     <Card className="mb-6">
@@ -120,33 +71,33 @@ export const FunctionalImpactCard = ({
       <CardContent>
         <div className="space-y-4 md:space-y-0 md:grid md:grid-cols-2 md:gap-6">
           {/* Impact Statistics */}
-          {hasFunctionalImpact && impactStats.total > 0 && (
+          {hasFunctionalImpact && totalDays > 0 && (
             <div>
               <h4 className="text-sm font-medium text-muted-foreground mb-3">
                 Days Affected
               </h4>
               <div className="flex gap-4 text-sm">
-                {impactStats.limited > 0 && (
+                {days.limited > 0 && (
                   <span>
                     Limited{' '}
                     <span className="font-medium">
-                      {Math.round((impactStats.limited / impactStats.total) * 100)}%
+                      {Math.round(percentages.limited)}%
                     </span>
                   </span>
                 )}
-                {impactStats.stopped > 0 && (
+                {days.stopped > 0 && (
                   <span>
                     Stopped{' '}
                     <span className="font-medium">
-                      {Math.round((impactStats.stopped / impactStats.total) * 100)}%
+                      {Math.round(percentages.stopped)}%
                     </span>
                   </span>
                 )}
-                {impactStats.bed > 0 && (
+                {days.bed > 0 && (
                   <span>
                     Bed{' '}
                     <span className="font-medium">
-                      {Math.round((impactStats.bed / impactStats.total) * 100)}%
+                      {Math.round(percentages.bed)}%
                     </span>
                   </span>
                 )}
@@ -174,13 +125,3 @@ export const FunctionalImpactCard = ({
     </Card>
   );
 };
-
-// Helper function to rank functional impact severity
-function getRankForImpact(impact: string): number {
-  const lowerImpact = impact.toLowerCase();
-  if (lowerImpact.includes('bed')) return 4;
-  if (lowerImpact.includes('stopped')) return 3;
-  if (lowerImpact.includes('limited')) return 2;
-  if (lowerImpact.includes('none')) return 1;
-  return 0;
-}
\ No newline at end of file
@@ -11,27 +11,27 @@ import { Calendar, MapPin, Pill, FileText, AlertTriangle, Edit, Save, X, BarChar
 import { useToast } from '@/hooks/use-toast';
 import { PainChart } from '@/components/PainChart';
 import { PainPatternsCard } from '@/components/PainPatternsCard';
+import { BodyMapCard } from '@/components/BodyMapCard';
+import { PainQualityCard } from '@/components/PainQualityCard';
+import { QuestionnairesCard } from '@/components/QuestionnairesCard';
 import { FunctionalImpactCard } from '@/components/FunctionalImpactCard';
 import { MedicationsCard } from '@/components/MedicationsCard';
+import { TriggerCorrelationCard } from '@/components/TriggerCorrelationCard';
 import { DoctorSummaryDrawer } from '@/components/DoctorSummaryDrawer';
 import { DateRangePicker } from '@/components/DateRangePicker';
 import { ChartContainer, ChartCard, StatBadge, ChipPill, DayGroupCard, EntryRow, EmptyState, DrawerSheet } from '@/components/lila';
 import { supabase } from '@/integrations/supabase/client';
 import { DateRange } from 'react-day-picker';
 import { format, subDays, startOfDay, endOfDay } from 'date-fns';
-import { getLocalTodayUtcRangeISO, isSingleDay } from '@/lib/dateUtils';
-
-interface PainEntry {
-  id: number;
-  logged_at: string;
-  pain_level: number | null;
-  location?: string[];
-  triggers?: string[];
-  medications?: any[];
-  notes?: string;
-  symptoms?: string[];
-  status?: string;
-}
+import { getLocalTodayUtcRangeISO } from '@/lib/dateUtils';
+import {
+  applyMedicationDoses,
+  toPainEntry,
+  type MedicationDoseRecord,
+  type PainEntry,
+  type PainLogRecord
+} from '@/lib/analytics';
+import { fetchMedicationDoses } from '@/lib/medications';
 
 interface DateRangeState {
   startISO: string;
@@ -46,7 +46,8 @@ export const InsightsSection = () => {
   const { toast } = useToast();
   
   // State
-  const [painData, setPainData] = useState<PainEntry[]>([]);
+  const [painData, setPainData] = useState<PainLogRecord[]>([]);
+  const [doses, setDoses] = useState<MedicationDoseRecord[]>([]);
   const [editingEntry, setEditingEntry] = useState<PainEntry | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -169,36 +170,30 @@ export const InsightsSection = () => {
 
       console.debug('[Insights] user', userId, 'range', startISO, endISO);
 
-      const { data, error } = await supabase
-        .from('pain_logs')
-        .select('*')
-        .eq('user_id', userId)
-        .gte('logged_at', startISO)
-        .lt('logged_at', endISO)
-        .order('logged_at', { ascending: true })
-        .abortSignal(abortController.signal);
+      const [{ data, error }, doseRecords] = await Promise.all([
+        supabase
+          .from('pain_logs')
+          .select('*')
+          .eq('user_id', userId)
+          .gte('logged_at', startISO)
+          .lt('logged_at', endISO)
+          .order('logged_at', { ascending: true })
+          .abortSignal(abortController.signal),
+        fetchMedicationDoses(userId, startISO, endISO)
+      ]);
 
       if (error) throw error;
+      if (abortController.signal.aborted) return;
 
-      const transformedData = (data || []).map(log => ({
-        id: parseInt(log.id) || 0,
-        logged_at: log.logged_at,
-        pain_level: log.pain_level,
-        location: log.pain_locations || [],
-        triggers: log.triggers || [],
-        medications: log.medications || [],
-        notes: log.notes || '',
-        symptoms: [],
-        status: 'active'
-      }));
-
-      setPainData(transformedData);
+      setPainData(data || []);
+      setDoses(doseRecords);
     } catch (error: any) {
       if (error.name === 'AbortError') {
         return;
       }
       console.error('Error loading pain data:', error);
       setPainData([]);
+      setDoses([]);
     } finally {
       setIsLoading(false);
     }
@@ -261,41 +256,6 @@ export const InsightsSection = () => {
     to: new Date(range.endISO)
   };
 
-  // Prepare data for chart - handle single-day vs multi-day
-  const chartData = (() => {
-    if (painData.length === 0) return [];
-    
-    const startDate = new Date(range.startISO);
-    const endDate = new Date(range.endISO);
-    
-    if (isSingleDay(startDate, endDate)) {
-      // Single-day: per-log series { x: HH:mm, y: pain_level }
-      return painData.map(entry => ({
-        x: format(new Date(entry.logged_at), 'HH:mm'),
-        y: entry.pain_level
-      }));
-    } else {
-      // Multi-day: daily averages
-      const dailyGroups = painData.reduce((acc, entry) => {
-        const date = format(new Date(entry.logged_at), 'yyyy-MM-dd');
-        if (!acc[date]) acc[date] = [];
-        acc[date].push(entry.pain_level);
-        return acc;
-      }, {} as Record<string, (number | null)[]>);
-
-      return Object.entries(dailyGroups).map(([date, levels]) => {
-        const validLevels = levels.filter(level => level !== null) as number[];
-        const avg = validLevels.length > 0 
-          ? validLevels.reduce((sum, level) => sum + level, 0) / validLevels.length 
-          : 0;
-        return {
-          x: format(new Date(date), 'MMM d'),
-          y: Math.round(avg * 10) / 10 // Round to 1 decimal
-        };
-      });
-    }
-  })();
-
   // Handle edit operations
   const handleEditEntry = (entry: PainEntry) => {
     setEditingEntry({ ...entry });
@@ -306,18 +266,18 @@ export const InsightsSection = () => {
     if (!editingEntry) return;
 
     const updates = {
-      pain_level: editingEntry.pain_level,
+      pain_level: editingEntry.painLevel,
       pain_locations: editingEntry.location,
       triggers: editingEntry.triggers,
       medications: editingEntry.medications,
       notes: editingEntry.notes
     };
 
-    const success = await updatePainLog(editingEntry.id.toString(), updates);
+    const success = await updatePainLog(editingEntry.id, updates);
     
     if (success) {
-      const updatedData = painData.map(entry => 
-        entry.id === editingEntry.id ? editingEntry : entry
+      const updatedData = painData.map(log =>
+        log.id === editingEntry.id ? { ...log, ...updates } : log
       );
       setPainData(updatedData);
       setIsEditDialogOpen(false);
@@ -352,21 +312,11 @@ export const InsightsSection = () => {
     }
   };
 
-  // Transform data for legacy components
-  const transformToLegacyFormat = (data: PainEntry[]): any[] => {
-    return data.map(entry => ({
-      id: entry.id,
-      date: entry.logged_at.split('T')[0],
-      timestamp: entry.logged_at,
-      painLevel: entry.pain_level,
-      location: entry.location || [],
-      triggers: entry.triggers || [],
-      medications: entry.medications || [],
-      notes: entry.notes || '',
-      symptoms: entry.symptoms || [],
-      status: entry.status || 'active'
-    }));
-  };
+  // Shape used by the analytics cards and the doctor summary
+  const analyticsEntries = applyMedicationDoses(
+    painData.map(toPainEntry),
+    doses
+  );
 
   if (painData.length === 0 && !isLoading) {
     return (
@@ -482,24 +432,42 @@ export const InsightsSection = () => {
         
         {/* Pain Patterns */}
         <PainPatternsCard 
-          painData={transformToLegacyFormat(painData)}
+          painData={analyticsEntries}
           onUseLast7Days={() => handlePresetChange('last7')}
           onJumpToToday={() => handlePresetChange('today')}
         />
         
+        {/* Where it hurts */}
+        <BodyMapCard
+          painData={analyticsEntries}
+          onUseLast30Days={() => handlePresetChange('last30')}
+        />
+
+        {/* What it feels like */}
+        <PainQualityCard painData={analyticsEntries} />
+
         {/* Functional Impact & Context */}
         <FunctionalImpactCard 
-          painData={transformToLegacyFormat(painData)}
+          painData={analyticsEntries}
           onUseLast7Days={() => handlePresetChange('last7')}
           onJumpToToday={() => handlePresetChange('today')}
         />
         
         {/* Medications */}
         <MedicationsCard 
-          painData={transformToLegacyFormat(painData)}
+          painData={analyticsEntries}
           onUseLast7Days={() => handlePresetChange('last7')}
           onJumpToToday={() => handlePresetChange('today')}
         />
+        
+        {/* What comes before higher pain */}
+        <TriggerCorrelationCard 
+          painData={analyticsEntries}
+          onUseLast30Days={() => handlePresetChange('last30')}
+        />
+
+        {/* Standardized questionnaires */}
+        <QuestionnairesCard />
       </div>
 
       {/* Edit Drawer */}
@@ -530,8 +498,8 @@ export const InsightsSection = () => {
                 type="number"
                 min="0"
                 max="10"
-                value={editingEntry.pain_level || ''}
-                onChange={(e) => handleEditInputChange('pain_level', e.target.value ? parseInt(e.target.value) : null)}
+                value={editingEntry.painLevel ?? ''}
+                onChange={(e) => handleEditInputChange('painLevel', e.target.value ? parseInt(e.target.value) : null)}
               />
             </div>
 
@@ -588,7 +556,7 @@ export const InsightsSection = () => {
               <div className="space-y-2">
                 {editingEntry.medications?.map((med, index) => (
                   <div key={index} className="flex items-center gap-2">
-                    <Badge variant="secondary">{typeof med === 'string' ? med : med.name || 'Unknown'}</Badge>
+                    <Badge variant="secondary">{med}</Badge>
                   </div>
                 ))}
               </div>
@@ -601,7 +569,7 @@ export const InsightsSection = () => {
       <DoctorSummaryDrawer
         open={isDoctorSummaryOpen}
         onOpenChange={setIsDoctorSummaryOpen}
-        painData={transformToLegacyFormat(painData)}
+        painData={analyticsEntries}
         startDate={new Date(range.startISO)}
         endDate={new Date(range.endISO)}
       />
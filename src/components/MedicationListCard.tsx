@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bell, Pill } from "lucide-react";
+import { useMedications } from "@/hooks/useMedications";
+import { useReminderPreference } from "@/hooks/useMedicationReminders";
+import { defaultScheduleTimes, isActiveMedication, MEDICATION_FORMS, scheduledTimes, type Medication } from "@/lib/medications";
+
+const AS_NEEDED = "As needed";
+
+const FREQUENCIES = [
+  AS_NEEDED, "Once daily", "Twice daily", "Three times daily",
+  "Four times daily", "Every 4 hours", "Every 6 hours", "Every 8 hours",
+  "Every 12 hours", "Weekly", "Other"
+];
+
+const EMPTY_MEDICATION = { name: "", strength: "", form: "", frequency: "" };
+
+// Changes save straight away; stopping keeps the medication's history for analytics
+export function MedicationListCard() {
+  const { medications, addMedication, updateMedication, stopMedication, resumeMedication } = useMedications();
+  const reminders = useReminderPreference();
+  const [newMed, setNewMed] = useState(EMPTY_MEDICATION);
+  const [editingTimes, setEditingTimes] = useState<{ id: string; times: string[] } | null>(null);
+
+  const activeMedications = medications.filter(med => isActiveMedication(med));
+  const stoppedMedications = medications.filter(med => !isActiveMedication(med));
+
+  const handleAdd = async () => {
+    const isPrn = !newMed.frequency || newMed.frequency === AS_NEEDED;
+    const added = await addMedication({
+      name: newMed.name,
+      strength: newMed.strength,
+      form: newMed.form || null,
+      is_prn: isPrn,
+      schedule: isPrn ? null : { frequency: newMed.frequency, times: defaultScheduleTimes(newMed.frequency) },
+    });
+    if (added) setNewMed(EMPTY_MEDICATION);
+  };
+
+  const startEditingTimes = (med: Medication) => {
+    const times = scheduledTimes(med);
+    setEditingTimes({ id: med.id, times: times.length > 0 ? times : ["08:00"] });
+  };
+
+  const saveTimes = async (med: Medication) => {
+    if (!editingTimes) return;
+    const times = [...new Set(editingTimes.times.filter(Boolean))].sort();
+    const saved = await updateMedication(med.id, { schedule: { ...med.schedule, times } });
+    if (saved) setEditingTimes(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Pill className="h-5 w-5 icon-default" />
+          Current Medications
+        </CardTitle>
+        <CardDescription>
+          Keep track of your pain management medications
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+          <div className="space-y-1">
+            <Label htmlFor="med-reminders" className="flex items-center gap-2">
+              <Bell className="h-4 w-4 icon-default" />
+              Dose reminders
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              {reminders.permission === 'denied'
+                ? "Notifications are blocked in this browser, so reminders appear in the app instead."
+                : "Reminds you at each scheduled time while PainPal is open, with Taken, Skip and Snooze."}
+            </p>
+          </div>
+          <Switch
+            id="med-reminders"
+            checked={reminders.enabled}
+            disabled={reminders.isLoading}
+            onCheckedChange={reminders.setEnabled}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="med-name">Medication Name</Label>
+            <Input
+              id="med-name"
+              placeholder="e.g., Ibuprofen"
+              value={newMed.name}
+              onChange={(e) => setNewMed(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="med-strength">Strength</Label>
+            <Input
+              id="med-strength"
+              placeholder="e.g., 200mg"
+              value={newMed.strength}
+              onChange={(e) => setNewMed(prev => ({ ...prev, strength: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="med-form">Form</Label>
+            <Select
+              value={newMed.form}
+              onValueChange={(value) => setNewMed(prev => ({ ...prev, form: value }))}
+            >
+              <SelectTrigger id="med-form">
+                <SelectValue placeholder="Tablet, liquid…" />
+              </SelectTrigger>
+              <SelectContent>
+                {MEDICATION_FORMS.map((form) => (
+                  <SelectItem key={form} value={form} className="capitalize">
+                    {form}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="med-frequency">Frequency</Label>
+            <Select
+              value={newMed.frequency}
+              onValueChange={(value) => setNewMed(prev => ({ ...prev, frequency: value }))}
+            >
+              <SelectTrigger id="med-frequency">
+                <SelectValue placeholder="How often?" />
+              </SelectTrigger>
+              <SelectContent>
+                {FREQUENCIES.map((freq) => (
+                  <SelectItem key={freq} value={freq}>
+                    {freq}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          onClick={handleAdd}
+          disabled={!newMed.name.trim()}
+          className="w-full"
+        >
+          Add Medication
+        </Button>
+
+        {activeMedications.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Your Medications</h4>
+            {activeMedications.map((med) => (
+              <div key={med.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                <div>
+                  <span className="font-medium">{med.name}</span>
+                  {med.strength && <span className="text-muted-foreground ml-2">{med.strength}</span>}
+                  {med.form && <span className="text-muted-foreground ml-2 capitalize">{med.form}</span>}
+                  <span className="text-muted-foreground ml-2">
+                    • {med.is_prn ? AS_NEEDED : med.schedule?.frequency || "Scheduled"}
+                  </span>
+                  {!med.is_prn && editingTimes?.id !== med.id && (
+                    <button
+                      type="button"
+                      className="block text-xs text-muted-foreground underline-offset-2 hover:underline mt-1"
+                      onClick={() => startEditingTimes(med)}
+                    >
+                      {scheduledTimes(med).length > 0 ? `Reminders at ${scheduledTimes(med).join(", ")}` : "Set reminder times"}
+                    </button>
+                  )}
+                  {editingTimes?.id === med.id && (
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      {editingTimes.times.map((time, index) => (
+                        <Input
+                          key={index}
+                          type="time"
+                          aria-label={`Reminder time ${index + 1}`}
+                          className="w-28 h-8"
+                          value={time}
+                          onChange={(e) => setEditingTimes(prev => prev && ({
+                            ...prev,
+                            times: prev.times.map((t, i) => i === index ? e.target.value : t),
+                          }))}
+                        />
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingTimes(prev => prev && ({ ...prev, times: [...prev.times, "12:00"] }))}
+                      >
+                        Add time
+                      </Button>
+                      {editingTimes.times.length > 1 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingTimes(prev => prev && ({ ...prev, times: prev.times.slice(0, -1) }))}
+                        >
+                          Remove last
+                        </Button>
+                      )}
+                      <Button size="sm" onClick={() => saveTimes(med)}>Save</Button>
+                      <Button variant="ghost" size="sm" onClick={() => setEditingTimes(null)}>Cancel</Button>
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => stopMedication(med.id)}
+                >
+                  Stop
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {stoppedMedications.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-muted-foreground">Stopped</h4>
+            {stoppedMedications.map((med) => (
+              <div key={med.id} className="flex items-center justify-between p-3 rounded-lg border">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <span>{med.name}</span>
+                  {med.stopped_on && (
+                    <Badge variant="outline" className="text-xs">
+                      Stopped {format(parseISO(med.stopped_on), 'MMM d, yyyy')}
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => resumeMedication(med.id)}
+                >
+                  Resume
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
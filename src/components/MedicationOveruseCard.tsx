@@ -0,0 +1,34 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, Pill } from "lucide-react";
+import type { MedicationOveruse } from "@/lib/analytics";
+
+interface MedicationOveruseCardProps {
+  overuse: MedicationOveruse;
+}
+
+// Shown on Today for headache conditions once acute-medication days near a limit
+export function MedicationOveruseCard({ overuse }: MedicationOveruseCardProps) {
+  const isOver = overuse.level === 'over';
+  const Icon = isOver ? AlertTriangle : Pill;
+
+  return (
+    <Alert variant={isOver ? 'destructive' : 'default'} role="status">
+      <Icon className="h-4 w-4" />
+      <AlertTitle>
+        {isOver ? "Frequent pain medication" : "Pain medication days are adding up"}
+      </AlertTitle>
+      <AlertDescription className="space-y-2">
+        <ul className="space-y-1 list-disc pl-4">
+          {overuse.warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+        <p className="text-xs opacity-80">
+          Taking acute headache medication this often can make headaches more frequent
+          (medication overuse headache). Don't stop prescribed medication suddenly; talk it
+          through with your doctor. It's included in your doctor summary.
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -2,33 +2,15 @@ import { useMemo } from 'react';
 import { ChartContainer, EmptyState } from '@/components/lila';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowDown, Pill, FileText } from 'lucide-react';
-
-interface PainEntry {
-  id: number;
-  date: string;
-  timestamp: string;
-  painLevel: number | null;
-  location: string[];
-  triggers: string[];
-  medications: any[];
-  notes: string;
-  symptoms: string[];
-  status: string;
-  functional_impact?: string;
-  impact_tags?: string[];
-  side_effects?: string;
-  rx_taken?: boolean;
-}
-
-interface MedicationAnalysis {
-  name: string;
-  effectivenessDelta: number;
-  sampleSize: number;
-  sideEffectsRate: number | null;
-  rxCount: number;
-  totalCount: number;
-}
+import { ArrowDown, ArrowUp, Pill } from 'lucide-react';
+import {
+  describeEffect,
+  formatSignedDelta,
+  formatWindow,
+  medicationEffects,
+  MIN_MEDICATION_SAMPLES,
+  type PainEntry
+} from '@/lib/analytics';
 
 interface MedicationsCardProps {
   painData: PainEntry[];
@@ -37,73 +19,7 @@ interface MedicationsCardProps {
 }
 
 export const MedicationsCard = ({ painData, onUseLast7Days, onJumpToToday }: MedicationsCardProps) => {
-  const medicationAnalyses = useMemo(() => {
-    // Extract all medications from pain data and analyze effectiveness
-    const medicationPairs: { [medication: string]: { deltas: number[], sideEffects: number, rxCount: number, totalCount: number } } = {};
-    
-    // Sort pain data by timestamp for pairing logic
-    const sortedData = [...painData].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-    
-    sortedData.forEach((currentEntry, index) => {
-      if (!currentEntry.medications || currentEntry.medications.length === 0) return;
-      
-      // Find next log within 2-4 hours
-      const currentTime = new Date(currentEntry.timestamp).getTime();
-      const twoHours = 2 * 60 * 60 * 1000;
-      const fourHours = 4 * 60 * 60 * 1000;
-      
-      const nextEntry = sortedData.slice(index + 1).find(entry => {
-        const entryTime = new Date(entry.timestamp).getTime();
-        const timeDiff = entryTime - currentTime;
-        return timeDiff >= twoHours && timeDiff <= fourHours;
-      });
-      
-      if (!nextEntry || currentEntry.painLevel === null || nextEntry.painLevel === null) return;
-      
-      // Process each medication in current entry
-      currentEntry.medications.forEach((medication: any) => {
-        const medName = typeof medication === 'string' ? medication : medication.name || String(medication);
-        
-        if (!medicationPairs[medName]) {
-          medicationPairs[medName] = { deltas: [], sideEffects: 0, rxCount: 0, totalCount: 0 };
-        }
-        
-        // Calculate effectiveness delta
-        const delta = nextEntry.painLevel! - currentEntry.painLevel!;
-        medicationPairs[medName].deltas.push(delta);
-        medicationPairs[medName].totalCount++;
-        
-        // Count side effects (if column exists and has non-null/non-empty value)
-        if (currentEntry.side_effects && currentEntry.side_effects.trim() !== '') {
-          medicationPairs[medName].sideEffects++;
-        }
-        
-        // Count RX usage
-        if (currentEntry.rx_taken === true) {
-          medicationPairs[medName].rxCount++;
-        }
-      });
-    });
-    
-    // Convert to analysis format and sort by effectiveness (most negative delta first)
-    const analyses: MedicationAnalysis[] = Object.entries(medicationPairs)
-      .map(([name, data]) => {
-        const meanDelta = data.deltas.reduce((sum, delta) => sum + delta, 0) / data.deltas.length;
-        const sideEffectsRate = data.totalCount > 0 ? (data.sideEffects / data.totalCount) * 100 : null;
-        
-        return {
-          name,
-          effectivenessDelta: meanDelta,
-          sampleSize: data.deltas.length,
-          sideEffectsRate,
-          rxCount: data.rxCount,
-          totalCount: data.totalCount
-        };
-      })
-      .sort((a, b) => a.effectivenessDelta - b.effectivenessDelta); // Most negative (best) first
-    
-    return analyses;
-  }, [painData]);
+  const medicationAnalyses = useMemo(() => medicationEffects(painData), [painData]);
   
   if (medicationAnalyses.length === 0) {
     return (
@@ -138,6 +54,9 @@ export const MedicationsCard = ({ painData, onUseLast7Days, onJumpToToday }: Med
         <h2 className="text-lg font-medium text-foreground">Medications</h2>
       </div>
       <div className="bg-card border rounded-lg p-4">
+        <p className="text-xs text-muted-foreground mb-3">
+          Pain change after a dose, compared with times you logged similar pain without medication.
+        </p>
         <div className="space-y-3">
           {medicationAnalyses.map((med) => (
             <div key={med.name} className="flex items-center justify-between py-2 border-b border-border/50 last:border-0">
@@ -151,29 +70,41 @@ export const MedicationsCard = ({ painData, onUseLast7Days, onJumpToToday }: Med
                   )}
                 </div>
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                  <span>n={med.sampleSize}</span>
-                  {med.sideEffectsRate !== null && (
-                    <>
-                      <span>•</span>
-                      <span>{med.sideEffectsRate.toFixed(0)}% side effects</span>
-                    </>
-                  )}
+                  <span>n={med.matchedPairs}</span>
+                  <span>•</span>
+                  <span>{med.sideEffectsRate.toFixed(0)}% side effects</span>
                 </div>
               </div>
               
-              <div className="flex items-center gap-1 ml-2">
-                {med.effectivenessDelta < 0 && (
-                  <ArrowDown className="h-3 w-3 text-green-500" />
-                )}
-                <span 
-                  className={`text-sm font-medium ${
-                    med.effectivenessDelta < 0 ? 'text-green-600' : 'text-muted-foreground'
-                  }`}
-                >
-                  {med.effectivenessDelta < 0 ? '−' : '+'}
-                  {Math.abs(med.effectivenessDelta).toFixed(1)} in 2–4h
-                </span>
-              </div>
+              {med.effect === null || !med.ci ? (
+                <div className="ml-2 text-right">
+                  <span className="text-sm text-muted-foreground">Insufficient data</span>
+                  <div className="text-xs text-muted-foreground">
+                    {med.matchedPairs} of {MIN_MEDICATION_SAMPLES} comparable doses
+                  </div>
+                </div>
+              ) : (
+                <div className="ml-2 text-right">
+                  <div className="flex items-center justify-end gap-1">
+                    {describeEffect(med) === 'helps' && (
+                      <ArrowDown className="h-3 w-3 text-green-500" />
+                    )}
+                    {describeEffect(med) === 'worse' && (
+                      <ArrowUp className="h-3 w-3 text-destructive" />
+                    )}
+                    <span 
+                      className={`text-sm font-medium ${
+                        describeEffect(med) === 'helps' ? 'text-green-600' : 'text-muted-foreground'
+                      }`}
+                    >
+                      {formatSignedDelta(med.effect)} vs. no meds
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    95% CI {formatSignedDelta(med.ci[0])} to {formatSignedDelta(med.ci[1])} in {formatWindow(med.window)}
+                  </div>
+                </div>
+              )}
             </div>
           ))}
         </div>
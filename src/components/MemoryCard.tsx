@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Brain, Pencil, Trash2, Check, X } from "lucide-react";
+import { useAICompanion, type MemoryFact } from "@/hooks/useAICompanion";
+
+const CATEGORY_LABELS: Record<MemoryFact['category'], string> = {
+  helps: "Helps",
+  triggers: "Trigger",
+  preferences: "Preference",
+  context: "About you"
+};
+
+export function MemoryCard() {
+  const { memoryFacts, updateMemoryFact, forgetMemoryFact } = useAICompanion();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<MemoryFact | null>(null);
+
+  const sortedFacts = [...memoryFacts].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+  const saveEdit = async () => {
+    if (editingId && await updateMemoryFact(editingId, editText)) {
+      setEditingId(null);
+    }
+  };
+
+  const confirmForget = async () => {
+    if (!pendingDelete) return;
+    const factId = pendingDelete.id;
+    setPendingDelete(null);
+    await forgetMemoryFact(factId);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="h-5 w-5 icon-default" />
+          What PainPal Remembers
+        </CardTitle>
+        <CardDescription>
+          Things your companion picked up from your chats and uses to personalize its replies
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {sortedFacts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing yet. As you chat, PainPal will remember things like what helps your pain or how you like answers.
+          </p>
+        ) : (
+          sortedFacts.map(fact => (
+            <div key={fact.id} className="flex items-start justify-between gap-3 p-3 bg-muted rounded-lg">
+              {editingId === fact.id ? (
+                <div className="flex flex-1 items-center gap-1">
+                  <Input
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveEdit();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    maxLength={160}
+                    className="h-8"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Save" onClick={saveEdit}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Cancel editing" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm">{fact.text}</p>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline" className="text-xs">{CATEGORY_LABELS[fact.category] ?? "About you"}</Badge>
+                      <span>
+                        {fact.edited_by_user ? "Edited" : "Learned"} {format(new Date(fact.updated_at), 'MMM d, yyyy')}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Edit fact"
+                      onClick={() => {
+                        setEditingId(fact.id);
+                        setEditText(fact.text);
+                      }}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Forget fact"
+                      onClick={() => setPendingDelete(fact)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(isOpen) => !isOpen && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Forget this?</AlertDialogTitle>
+            <AlertDialogDescription>
+              PainPal will stop using "{pendingDelete?.text}" and won't learn it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmForget}>Forget</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
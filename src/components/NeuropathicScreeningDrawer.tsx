@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DrawerSheet } from "@/components/lila/DrawerSheet";
+import { useNeuropathicScreening } from "@/hooks/useNeuropathicScreening";
+import {
+  DN4_MAX_SCORE,
+  DN4_POSITIVE_SCORE,
+  DN4_QUESTIONS,
+  scoreDn4,
+  type Dn4Answers,
+  type Dn4Item
+} from "@/lib/neuropathicScreening";
+
+interface NeuropathicScreeningDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function NeuropathicScreeningDrawer({ open, onOpenChange }: NeuropathicScreeningDrawerProps) {
+  const { saveScreening } = useNeuropathicScreening(open);
+  const [answers, setAnswers] = useState<Dn4Answers>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const { score, complete, positive } = scoreDn4(answers);
+
+  const answer = (item: Dn4Item, value: boolean) => {
+    setAnswers(prev => ({ ...prev, [item]: value }));
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setAnswers({});
+    onOpenChange(next);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await saveScreening(answers);
+    setIsSaving(false);
+    if (saved) handleOpenChange(false);
+  };
+
+  const footer = (
+    <div className="space-y-3">
+      {complete && (
+        <p className="text-sm text-foreground">
+          Score <span className="font-medium">{score}/{DN4_MAX_SCORE}</span>
+          {positive
+            ? ` — ${DN4_POSITIVE_SCORE} or more suggests part of your pain may come from the nerves. Worth raising with your clinician.`
+            : ` — below ${DN4_POSITIVE_SCORE}, so nerve pain is less likely.`}
+        </p>
+      )}
+      <Button onClick={handleSave} disabled={!complete || isSaving} className="w-full">
+        Save result
+      </Button>
+    </div>
+  );
+
+  return (
+    <DrawerSheet
+      open={open}
+      onOpenChange={handleOpenChange}
+      title="Nerve pain screening"
+      description="Seven yes/no questions from the DN4 questionnaire about the pain you usually have."
+      footer={footer}
+    >
+      <div className="space-y-6">
+        {DN4_QUESTIONS.map((question) => (
+          <div key={question.prompt} className="space-y-3">
+            <p className="text-sm font-medium text-foreground">{question.prompt}</p>
+            {question.items.map((item) => (
+              <div key={item.id} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-foreground">{item.label}</span>
+                <div className="flex gap-2" role="group" aria-label={item.label}>
+                  {[true, false].map((value) => (
+                    <Button
+                      key={String(value)}
+                      type="button"
+                      variant={answers[item.id] === value ? "default" : "outline"}
+                      size="sm"
+                      aria-pressed={answers[item.id] === value}
+                      onClick={() => answer(item.id, value)}
+                    >
+                      {value ? "Yes" : "No"}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        <p className="text-xs text-muted-foreground">
+          This is a screening tool, not a diagnosis. The full DN4 also includes a short examination by a clinician.
+        </p>
+      </div>
+    </DrawerSheet>
+  );
+}
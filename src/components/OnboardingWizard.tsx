@@ -1,10 +1,12 @@
 import { useState } from "react";
+import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { normalizeTerms } from "@/lib/vocabulary";
 import { DiagnosisStep } from "./onboarding/DiagnosisStep";
 import { PainLocationStep } from "./onboarding/PainLocationStep";
 import { MedicationStep } from "./onboarding/MedicationStep";
@@ -68,16 +70,32 @@ export const OnboardingWizard = ({ onComplete }: OnboardingWizardProps) => {
         .from('profiles')
         .update({
           diagnosis: onboardingData.diagnosis,
-          default_pain_locations: onboardingData.painLocations,
+          default_pain_locations: normalizeTerms('location', onboardingData.painLocations),
           pain_is_consistent: onboardingData.painIsConsistent,
-          common_triggers: onboardingData.commonTriggers,
-          current_medications: onboardingData.currentMedications,
+          common_triggers: normalizeTerms('trigger', onboardingData.commonTriggers),
           onboarding_completed: true
         })
         .eq('id', user.id);
 
       if (error) throw error;
 
+      // One at a time so a name that already exists (from an earlier log) doesn't block the rest
+      for (const med of onboardingData.currentMedications) {
+        const isPrn = !med.frequency || /as needed/i.test(med.frequency);
+        const { error: medicationError } = await supabase
+          .from('medications')
+          .insert({
+            user_id: user.id,
+            name: med.name.trim(),
+            strength: med.dosage.trim() || null,
+            is_prn: isPrn,
+            schedule: isPrn ? null : { frequency: med.frequency },
+            started_on: format(new Date(), 'yyyy-MM-dd')
+          });
+
+        if (medicationError && medicationError.code !== '23505') throw medicationError;
+      }
+
       toast({
         title: "Welcome to PainPal!",
         description: "Your profile has been set up successfully.",
@@ -1,23 +1,12 @@
 import { ChartContainer } from '@/components/lila';
 import { PainLineChart } from '@/components/ui/chart';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { isSingleDay } from '@/lib/dateUtils';
+import { dailyAggregates, ratedEntries, toPainEntry, type PainLogRecord } from '@/lib/analytics';
 import { memo } from 'react';
 
-interface PainEntry {
-  id: number;
-  logged_at: string;
-  pain_level: number | null;
-  location?: string[];
-  triggers?: string[];
-  medications?: any[];
-  notes?: string;
-  symptoms?: string[];
-  status?: string;
-}
-
 interface PainChartProps {
-  painData: PainEntry[];
+  painData: PainLogRecord[];
   startDate: Date;
   endDate: Date;
   isCompact?: boolean;
@@ -26,68 +15,22 @@ interface PainChartProps {
 const PainChartComponent = ({ painData, startDate, endDate, isCompact = false }: PainChartProps) => {
   // Determine if this is a single day (Today preset) or multi-day range
   const isToday = isSingleDay(startDate, endDate);
-  
-  // Process data based on view type
-  const chartData = (() => {
-    const validEntries = painData
-      .filter(entry => {
-        // Validate pain_level and logged_at
-        if (entry.pain_level === null || entry.pain_level === undefined) return false;
-        if (!entry.logged_at) return false;
-        
-        // Try to create a valid Date object
-        const date = new Date(entry.logged_at);
-        return !isNaN(date.getTime());
-      })
-      .sort((a, b) => new Date(a.logged_at).getTime() - new Date(b.logged_at).getTime());
 
-    if (isToday) {
-      // Single day: plot each log (x=time in p format, y=pain_level)
-      return validEntries.map(entry => {
-        try {
-          return {
-            x: format(new Date(entry.logged_at), 'p'),
-            y: entry.pain_level,
-            notes: entry.notes || ''
-          };
-        } catch (error) {
-          console.error('Error formatting date for entry:', entry, error);
-          return null;
-        }
-      }).filter(Boolean);
-    } else {
-      // Multi-day: plot daily averages
-      const dailyData = validEntries.reduce((acc, entry) => {
-        try {
-          const dateKey = format(new Date(entry.logged_at), 'yyyy-MM-dd');
-          if (!acc[dateKey]) {
-            acc[dateKey] = { sum: 0, count: 0, date: dateKey };
-          }
-          acc[dateKey].sum += entry.pain_level || 0;
-          acc[dateKey].count += 1;
-          return acc;
-        } catch (error) {
-          console.error('Error processing entry for daily data:', entry, error);
-          return acc;
-        }
-      }, {} as Record<string, { sum: number; count: number; date: string }>);
+  const entries = painData
+    .filter(log => log.logged_at && !isNaN(new Date(log.logged_at).getTime()))
+    .map(toPainEntry);
 
-      return Object.values(dailyData)
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-        .map(data => {
-          try {
-            return {
-              x: format(new Date(data.date), 'MMM d'),
-              y: Math.round((data.sum / data.count) * 10) / 10 // Round to 1 decimal
-            };
-          } catch (error) {
-            console.error('Error formatting date for daily data:', data, error);
-            return null;
-          }
-        })
-        .filter(Boolean);
-    }
-  })();
+  // Single day: each log at its time. Multi-day: daily averages, as on the other cards
+  const chartData = isToday
+    ? ratedEntries(entries).map(entry => ({
+      x: format(new Date(entry.timestamp), 'p'),
+      y: entry.painLevel,
+      notes: entry.notes
+    }))
+    : dailyAggregates(entries).map(day => ({
+      x: format(parseISO(day.date), 'MMM d'),
+      y: Math.round(day.average * 10) / 10
+    }));
 
   return (
     <ChartContainer minHeightSm={120} minHeightMd={160} minHeightLg={200}>
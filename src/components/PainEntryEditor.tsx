@@ -1,23 +1,15 @@
 import { useState } from "react";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Calendar, Clock, Edit3, Save, X, Plus, Trash2, MapPin } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-
-interface PainEntry {
-  id: number;
-  date: string;
-  timestamp: string;
-  painLevel: number | null;
-  location: string[];
-  triggers: string[];
-  medications: any[];
-  notes: string;
-  symptoms: string[];
-  status: string;
-}
+import { PainQualityPicker } from "@/components/PainQualityPicker";
+import { normalizeTerms } from "@/lib/vocabulary";
+import { painQualityLabel } from "@/lib/painQualities";
+import type { PainEntry } from "@/lib/analytics";
 
 interface PainEntryEditorProps {
   entries: PainEntry[];
@@ -29,8 +21,8 @@ export function PainEntryEditor({ entries, onUpdate }: PainEntryEditorProps) {
   const [isOpen, setIsOpen] = useState(false);
 
   const todayEntries = entries.filter(entry => {
-    const today = new Date().toISOString().split('T')[0];
-    return entry.date === today;
+    // PainEntry.date is the local calendar day
+    return entry.date === format(new Date(), 'yyyy-MM-dd');
   }).sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
   const handleEdit = (entry: PainEntry) => {
@@ -53,7 +45,7 @@ export function PainEntryEditor({ entries, onUpdate }: PainEntryEditorProps) {
     setIsOpen(false);
   };
 
-  const handleDelete = (entryId: number) => {
+  const handleDelete = (entryId: string) => {
     const updatedEntries = entries.filter(entry => entry.id !== entryId);
     onUpdate(updatedEntries);
     localStorage.setItem('painTrackingData', JSON.stringify(updatedEntries));
@@ -96,7 +88,7 @@ export function PainEntryEditor({ entries, onUpdate }: PainEntryEditorProps) {
     if (!editingEntry) return;
     setEditingEntry({
       ...editingEntry,
-      medications: [...editingEntry.medications, { name: medication, effective: true }]
+      medications: [...editingEntry.medications, medication]
     });
   };
 
@@ -115,9 +107,9 @@ export function PainEntryEditor({ entries, onUpdate }: PainEntryEditorProps) {
     });
   };
 
-  const commonTriggers = ['stress', 'poor sleep', 'dehydration', 'bright lights', 'screen time', 'diet', 'weather', 'hormones'];
+  const commonTriggers = normalizeTerms('trigger', ['stress', 'poor sleep', 'dehydration', 'bright lights', 'screen time', 'diet', 'weather', 'hormones']);
   const commonMedications = ['ibuprofen', 'tylenol', 'aspirin', 'excedrin'];
-  const commonLocations = ['forehead', 'temples', 'behind eyes', 'back of head', 'neck', 'shoulders', 'back', 'chest', 'abdomen', 'arms', 'legs', 'jaw', 'joints'];
+  const commonLocations = normalizeTerms('location', ['forehead', 'temples', 'behind eyes', 'back of head', 'neck', 'shoulders', 'back', 'chest', 'abdomen', 'jaw']);
 
   return (
     <div className="space-y-4">
@@ -207,6 +199,18 @@ export function PainEntryEditor({ entries, onUpdate }: PainEntryEditorProps) {
                           </div>
                         </div>
 
+                        {/* Pain Quality */}
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium">What It Felt Like</label>
+                          <PainQualityPicker
+                            value={editingEntry.pain_qualities || []}
+                            onChange={(qualities) => setEditingEntry({
+                              ...editingEntry,
+                              pain_qualities: qualities
+                            })}
+                          />
+                        </div>
+
                         {/* Triggers */}
                         <div className="space-y-2">
                           <label className="text-sm font-medium">Triggers</label>
@@ -232,12 +236,12 @@ export function PainEntryEditor({ entries, onUpdate }: PainEntryEditorProps) {
                           <div className="flex flex-wrap gap-2 mb-2">
                             {editingEntry.medications.map((med, index) => (
                               <Badge key={index} variant="secondary" className="cursor-pointer" onClick={() => removeMedication(index)}>
-                                {med.name} <X className="h-3 w-3 ml-1" />
+                                {med} <X className="h-3 w-3 ml-1" />
                               </Badge>
                             ))}
                           </div>
                           <div className="flex flex-wrap gap-2">
-                            {commonMedications.filter(m => !editingEntry.medications.some(med => med.name === m)).map((medication) => (
+                            {commonMedications.filter(m => !editingEntry.medications.includes(m)).map((medication) => (
                               <Button key={medication} variant="outline" size="sm" onClick={() => addMedication(medication)}>
                                 <Plus className="h-3 w-3 mr-1" /> {medication}
                               </Button>
@@ -297,6 +301,17 @@ export function PainEntryEditor({ entries, onUpdate }: PainEntryEditorProps) {
                 </div>
               )}
               
+              {entry.pain_qualities && entry.pain_qualities.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  <span className="text-muted-foreground">Felt:</span>
+                  {entry.pain_qualities.map((quality) => (
+                    <Badge key={quality} variant="outline" className="text-xs">
+                      {painQualityLabel(quality)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
               {entry.triggers.length > 0 && (
                 <div className="flex flex-wrap gap-1">
                   <span className="text-muted-foreground">Triggers:</span>
@@ -313,7 +328,7 @@ export function PainEntryEditor({ entries, onUpdate }: PainEntryEditorProps) {
                   <span className="text-muted-foreground">Medications:</span>
                   {entry.medications.map((med, index) => (
                     <Badge key={index} variant="outline" className="text-xs">
-                      {med.name} {med.effective ? '✓' : '✗'}
+                      {med}
                     </Badge>
                   ))}
                 </div>
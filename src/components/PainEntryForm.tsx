@@ -8,6 +8,8 @@ import { usePainLogs } from "@/hooks/usePainLogs";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useMedications } from "@/hooks/useMedications";
+import { medicationPickerOptions } from "@/lib/medications";
 
 interface PainEntryFormProps {
   onPainDataSaved?: (data: any) => void;
@@ -15,7 +17,6 @@ interface PainEntryFormProps {
 }
 
 interface UserProfile {
-  current_medications?: any;
   diagnosis?: string;
 }
 
@@ -63,6 +64,7 @@ export function PainEntryForm({ onPainDataSaved, defaultPainLevel }: PainEntryFo
   const [newMedication, setNewMedication] = useState("");
   
   const { savePainLog } = usePainLogs();
+  const { medications } = useMedications();
   const { user } = useAuth();
   const { toast } = useToast();
 
@@ -76,7 +78,7 @@ export function PainEntryForm({ onPainDataSaved, defaultPainLevel }: PainEntryFo
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('current_medications, diagnosis')
+        .select('diagnosis')
         .eq('id', user.id)
         .maybeSingle();
 
@@ -247,23 +249,26 @@ export function PainEntryForm({ onPainDataSaved, defaultPainLevel }: PainEntryFo
           </div>
 
           {/* Show medication options if they said yes */}
-          {tookMedication === true && userProfile.current_medications && userProfile.current_medications.length > 0 && (
+          {tookMedication === true && (
             <div className="space-y-3">
               <p className="text-sm text-muted-foreground">Which medications?</p>
               <div className="flex flex-wrap gap-2">
-                {userProfile.current_medications.map((med) => (
-                  <button
-                    key={med.name}
-                    onClick={() => toggleMedication(med.name)}
-                    className={`chat-suggestion-pill transition-colors ${
-                      selectedMedications.includes(med.name)
-                        ? 'bg-primary text-primary-foreground border-primary'
-                        : ''
-                    }`}
-                  >
-                    {med.name} {med.dosage && `(${med.dosage})`}
-                  </button>
-                ))}
+                {medicationPickerOptions(medications, selectedMedications).map((name) => {
+                  const strength = medications.find(med => med.name === name)?.strength;
+                  return (
+                    <button
+                      key={name}
+                      onClick={() => toggleMedication(name)}
+                      className={`chat-suggestion-pill transition-colors ${
+                        selectedMedications.includes(name)
+                          ? 'bg-primary text-primary-foreground border-primary'
+                          : ''
+                      }`}
+                    >
+                      {name} {strength && `(${strength})`}
+                    </button>
+                  );
+                })}
               </div>
 
               {/* Add new medication */}
@@ -0,0 +1,290 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DrawerSheet } from "@/components/lila/DrawerSheet";
+import { Upload } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  guessColumnMapping,
+  importPainLogs,
+  IMPORT_FIELDS,
+  isValidTimezone,
+  parseImportFile,
+  prepareImport,
+  type ColumnMapping,
+  type DateOrder,
+  type ImportResult,
+  type ParsedImportFile
+} from "@/lib/painLogImport";
+
+// Radix Select can't use an empty string as a value
+const NO_COLUMN = "__none";
+const PREVIEW_ROWS = 5;
+
+const DATE_ORDER_OPTIONS: Array<{ value: DateOrder; label: string }> = [
+  { value: 'mdy', label: 'Month/Day/Year' },
+  { value: 'dmy', label: 'Day/Month/Year' },
+  { value: 'ymd', label: 'Year-Month-Day' },
+];
+
+interface PainLogImportDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export const PainLogImportDrawer = ({ open, onOpenChange, onImported }: PainLogImportDrawerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [file, setFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('mdy');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const prepared = useMemo(
+    () => file && mapping && user ? prepareImport(file, mapping, { timezone, dateOrder }, user.id) : null,
+    [file, mapping, timezone, dateOrder, user]
+  );
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && !mapping?.[field.key]);
+
+  const reset = () => {
+    setFileName("");
+    setFile(null);
+    setMapping(null);
+    setProgress(null);
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    // Leave a running import alone; it finishes in the background of this sheet
+    if (!next && progress !== null && !result) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    try {
+      const parsed = parseImportFile(selected.name, await selected.text());
+      if (parsed.rows.length === 0) throw new Error('No rows found in this file');
+      setFileName(selected.name);
+      setFile(parsed);
+      setMapping(guessColumnMapping(parsed.columns));
+      setResult(null);
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Couldn't read file",
+        description: error instanceof Error ? error.message : "Please choose a CSV or JSON file.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !prepared) return;
+    setProgress(0);
+    try {
+      const imported = await importPainLogs(user.id, prepared, (done, total) => setProgress(Math.round(done / total * 100)));
+      setResult(imported);
+      if (imported.inserted > 0) onImported();
+      if (imported.failed.length > 0) {
+        toast({
+          title: "Some entries weren't saved",
+          description: `${imported.failed.length} entries failed to import. Please try the file again.`,
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Error importing pain logs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import pain logs",
+        variant: "destructive"
+      });
+      setProgress(null);
+    }
+  };
+
+  const footer = result ? (
+    <Button onClick={() => handleOpenChange(false)} className="w-full">
+      Done
+    </Button>
+  ) : (
+    <Button
+      onClick={handleImport}
+      disabled={!prepared || prepared.valid.length === 0 || missingRequired.length > 0 || progress !== null}
+      className="w-full"
+    >
+      <Upload className="h-4 w-4 mr-2" />
+      {prepared ? `Import ${prepared.valid.length} ${prepared.valid.length === 1 ? "entry" : "entries"}` : "Import"}
+    </Button>
+  );
+
+  return (
+    <DrawerSheet
+      open={open}
+      onOpenChange={handleOpenChange}
+      title="Import pain history"
+      description="CSV or JSON from a spreadsheet or another app"
+      footer={footer}
+    >
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="import-file">File</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            disabled={progress !== null && !result}
+          />
+          {fileName && file && (
+            <p className="text-xs text-muted-foreground">
+              {fileName}: {file.rows.length} rows, {file.columns.length} columns
+            </p>
+          )}
+        </div>
+
+        {file && mapping && !result && (
+          <>
+            <div className="space-y-3">
+              <h3 className="font-medium text-foreground">Columns</h3>
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="grid grid-cols-2 items-center gap-2">
+                  <Label className="text-sm font-normal">
+                    {field.label}{field.required && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] ?? NO_COLUMN}
+                    onValueChange={(value) => setMapping({ ...mapping, [field.key]: value === NO_COLUMN ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not in file</SelectItem>
+                      {file.columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="import-timezone">Time zone</Label>
+                <Input
+                  id="import-timezone"
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                />
+                {!isValidTimezone(timezone) && (
+                  <p className="text-xs text-destructive">Use a name like Europe/London</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Date format</Label>
+                <Select value={dateOrder} onValueChange={(value) => setDateOrder(value as DateOrder)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_ORDER_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Times without a UTC offset are read in this time zone. Dates without a time are placed at noon.
+            </p>
+
+            {missingRequired.length > 0 ? (
+              <p className="text-sm text-destructive">
+                Choose a column for {missingRequired.map(field => field.label.toLowerCase()).join(" and ")}.
+              </p>
+            ) : prepared && (
+              <div className="space-y-3">
+                <h3 className="font-medium text-foreground">Preview</h3>
+                <p className="text-sm text-muted-foreground">
+                  {prepared.valid.length} ready, {prepared.rejected.length} rejected
+                  {prepared.repeated > 0 && `, ${prepared.repeated} repeated in the file`}.
+                  Entries already in your records are skipped on import.
+                </p>
+                {prepared.valid.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When</TableHead>
+                        <TableHead>Pain</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {prepared.valid.slice(0, PREVIEW_ROWS).map(log => (
+                        <TableRow key={`${log.logged_at}-${log.pain_level}`}>
+                          <TableCell className="whitespace-nowrap text-xs">{format(new Date(log.logged_at!), 'MMM d, yyyy HH:mm')}</TableCell>
+                          <TableCell>{log.pain_level}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {[...(log.pain_locations || []), ...(log.medications || []), log.notes].filter(Boolean).join(" · ")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                <RejectedRows rejected={prepared.rejected} />
+              </div>
+            )}
+
+            {progress !== null && <Progress value={progress} />}
+          </>
+        )}
+
+        {result && prepared && (
+          <div className="space-y-3">
+            <h3 className="font-medium text-foreground">Import finished</h3>
+            <div className="text-sm space-y-1">
+              <p>• Imported: <span className="font-medium">{result.inserted}</span></p>
+              <p>• Already in your records: <span className="font-medium">{result.duplicates}</span></p>
+              {prepared.repeated > 0 && <p>• Repeated in the file: <span className="font-medium">{prepared.repeated}</span></p>}
+              <p>• Rejected: <span className="font-medium">{prepared.rejected.length}</span></p>
+              {result.failed.length > 0 && <p className="text-destructive">• Failed to save: <span className="font-medium">{result.failed.length}</span></p>}
+            </div>
+            <RejectedRows rejected={prepared.rejected} />
+            <RejectedRows title="Rows that failed to save" rejected={result.failed} />
+          </div>
+        )}
+      </div>
+    </DrawerSheet>
+  );
+};
+
+const RejectedRows = ({ rejected, title = "Rejected rows" }: { rejected: ReturnType<typeof prepareImport>['rejected']; title?: string }) => {
+  if (rejected.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium text-foreground">{title}</p>
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        {rejected.map(item => (
+          <p key={item.row} className="text-xs text-muted-foreground">
+            Row {item.row}: {item.reason}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { ChartContainer, ChartCard, EmptyState } from '@/components/lila';
 import { Button } from '@/components/ui/button';
 import { subDays, startOfDay, endOfDay } from 'date-fns';
 import { Bar } from 'react-chartjs-2';
+import { TIME_OF_DAY_SLOTS, WEEKDAYS, timeOfDayProfile, weekdayProfile, type PainEntry } from '@/lib/analytics';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -22,19 +23,6 @@ ChartJS.register(
   Tooltip
 );
 
-interface PainEntry {
-  id: number;
-  date: string;
-  timestamp: string;
-  painLevel: number | null;
-  location: string[];
-  triggers: string[];
-  medications: any[];
-  notes: string;
-  symptoms: string[];
-  status: string;
-}
-
 interface PainPatternsCardProps {
   painData: PainEntry[];
   onUseLast7Days: () => void;
@@ -50,25 +38,10 @@ export const PainPatternsCard = ({ painData, onUseLast7Days, onJumpToToday }: Pa
 
   // Process data for weekday patterns
   const weekdayData = useMemo(() => {
-    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-    const weekdayTotals = Array(7).fill(0);
-    const weekdayCounts = Array(7).fill(0);
-
-    painData.forEach(entry => {
-      if (entry.painLevel !== null) {
-        const date = new Date(entry.timestamp);
-        const dayOfWeek = date.getDay(); // 0 = Sunday
-        weekdayTotals[dayOfWeek] += entry.painLevel;
-        weekdayCounts[dayOfWeek]++;
-      }
-    });
-
-    const averages = weekdayTotals.map((total, index) => 
-      weekdayCounts[index] > 0 ? total / weekdayCounts[index] : 0
-    );
+    const averages = weekdayProfile(painData).map(bucket => bucket.average);
 
     return {
-      labels: weekdays,
+      labels: WEEKDAYS.map(day => day.slice(0, 3)),
       datasets: [{
         data: averages,
         backgroundColor: `${chartJsColors.line}D9`, // 85% opacity
@@ -83,32 +56,10 @@ export const PainPatternsCard = ({ painData, onUseLast7Days, onJumpToToday }: Pa
 
   // Process data for time of day patterns
   const timeOfDayData = useMemo(() => {
-    const timeSlots = ['Night', 'Morning', 'Afternoon', 'Evening'];
-    const timeTotals = Array(4).fill(0);
-    const timeCounts = Array(4).fill(0);
-
-    painData.forEach(entry => {
-      if (entry.painLevel !== null) {
-        const date = new Date(entry.timestamp);
-        const hour = date.getHours();
-        
-        let timeSlotIndex: number;
-        if (hour >= 0 && hour < 6) timeSlotIndex = 0; // Night
-        else if (hour >= 6 && hour < 12) timeSlotIndex = 1; // Morning
-        else if (hour >= 12 && hour < 18) timeSlotIndex = 2; // Afternoon
-        else timeSlotIndex = 3; // Evening
-
-        timeTotals[timeSlotIndex] += entry.painLevel;
-        timeCounts[timeSlotIndex]++;
-      }
-    });
-
-    const averages = timeTotals.map((total, index) => 
-      timeCounts[index] > 0 ? total / timeCounts[index] : 0
-    );
+    const averages = timeOfDayProfile(painData).map(bucket => bucket.average);
 
     return {
-      labels: timeSlots,
+      labels: TIME_OF_DAY_SLOTS,
       datasets: [{
         data: averages,
         backgroundColor: `${chartJsColors.line}D9`, // 85% opacity
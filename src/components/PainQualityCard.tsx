@@ -0,0 +1,82 @@
+import { useMemo, useState } from 'react';
+import { ChipPill, EmptyState } from '@/components/lila';
+import { Button } from '@/components/ui/button';
+import { Zap } from 'lucide-react';
+import { format } from 'date-fns';
+import { NeuropathicScreeningDrawer } from '@/components/NeuropathicScreeningDrawer';
+import { useNeuropathicScreening } from '@/hooks/useNeuropathicScreening';
+import { painQualityProfile, type PainEntry } from '@/lib/analytics';
+import { DN4_MAX_SCORE, DN4_POSITIVE_SCORE } from '@/lib/neuropathicScreening';
+import { isNeuropathicQuality, painQualityLabel } from '@/lib/painQualities';
+
+interface PainQualityCardProps {
+  painData: PainEntry[];
+}
+
+const TOP_QUALITIES = 5;
+
+export const PainQualityCard = ({ painData }: PainQualityCardProps) => {
+  const profile = useMemo(() => painQualityProfile(painData), [painData]);
+  const { latest } = useNeuropathicScreening();
+  const [isScreeningOpen, setIsScreeningOpen] = useState(false);
+
+  // Suggest the screening once nerve-type words come up and it hasn't been done
+  const suggestScreening = !latest && profile.neuropathicEntries > 0;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-foreground">What It Feels Like</h2>
+      </div>
+      <div className="bg-card border rounded-lg">
+        {profile.describedEntries === 0 ? (
+          <EmptyState
+            icon={<Zap className="h-12 w-12" />}
+            title="No pain qualities logged"
+            description="Add what the pain feels like (burning, aching, stabbing…) when you check in."
+          />
+        ) : (
+          <div className="p-4 space-y-2">
+            {profile.qualities.slice(0, TOP_QUALITIES).map((quality) => (
+              <div key={quality.quality} className="flex items-center justify-between py-1 border-b border-border/50 last:border-0 text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="truncate text-foreground">{painQualityLabel(quality.quality)}</span>
+                  {isNeuropathicQuality(quality.quality) && <ChipPill colorScheme="accent">nerve-type</ChipPill>}
+                </span>
+                <span className="ml-2 text-muted-foreground whitespace-nowrap">
+                  {quality.percentage.toFixed(0)}% of entries
+                  {quality.averagePain !== null && ` · avg ${quality.averagePain.toFixed(1)}`}
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground pt-1">
+              Nerve-type words (burning, electric, shooting, tingling) in {profile.neuropathicPercentage.toFixed(0)}% of {profile.describedEntries} described {profile.describedEntries === 1 ? 'entry' : 'entries'}.
+            </p>
+          </div>
+        )}
+
+        <div className="border-t p-4 flex items-center justify-between gap-4">
+          <div className="text-sm min-w-0">
+            <p className="font-medium text-foreground">Nerve pain screening</p>
+            <p className="text-muted-foreground">
+              {latest
+                ? `Last score ${latest.score}/${DN4_MAX_SCORE} on ${format(new Date(latest.completed_at), 'MMM d, yyyy')}${latest.score >= DN4_POSITIVE_SCORE ? ' — worth discussing with your clinician' : ''}`
+                : suggestScreening
+                  ? "Some of your pain sounds nerve-related. Seven quick questions can help your clinician."
+                  : "Seven quick questions; the result goes in your doctor summary."}
+            </p>
+          </div>
+          <Button
+            variant={suggestScreening ? "default" : "outline"}
+            size="sm"
+            onClick={() => setIsScreeningOpen(true)}
+          >
+            {latest ? "Retake" : "Start"}
+          </Button>
+        </div>
+      </div>
+
+      <NeuropathicScreeningDrawer open={isScreeningOpen} onOpenChange={setIsScreeningOpen} />
+    </div>
+  );
+};
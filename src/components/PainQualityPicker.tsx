@@ -0,0 +1,35 @@
+import { Button } from "@/components/ui/button";
+import { PAIN_QUALITIES } from "@/lib/painQualities";
+
+interface PainQualityPickerProps {
+  value: string[];
+  onChange: (qualities: string[]) => void;
+}
+
+export function PainQualityPicker({ value, onChange }: PainQualityPickerProps) {
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter(quality => quality !== id) : [...value, id]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {PAIN_QUALITIES.map((quality) => (
+        <Button
+          key={quality.id}
+          type="button"
+          variant="outline"
+          size="sm"
+          aria-pressed={value.includes(quality.id)}
+          className={`text-sm ${
+            value.includes(quality.id)
+              ? 'font-medium border-primary bg-primary text-primary-foreground'
+              : 'font-normal border-border bg-transparent text-foreground'
+          }`}
+          onClick={() => toggle(quality.id)}
+        >
+          {quality.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 // User pattern learning and smart suggestions engine
+import { normalizeTerms } from "@/lib/vocabulary";
+
 interface UserPatterns {
   commonPainLevels: number[];
   frequentLocations: string[];
@@ -53,7 +55,8 @@ export class PatternEngine {
     // Location-based suggestions from history
     if (msg.includes('head') || msg.includes('headache')) {
       patterns.frequentLocations.forEach(location => {
-        if (location.includes('head') || location.includes('temple') || location.includes('forehead')) {
+        const name = location.toLowerCase();
+        if (name.includes('head') || name.includes('temple') || name.includes('eye')) {
           suggestions.push(`${location} hurts`);
         }
       });
@@ -105,9 +108,9 @@ export class PatternEngine {
   }
 
   private static getFrequentLocations(history: any[]): string[] {
+    // Canonical names, so "lower back" and "Lower back" count as one place
     const allLocations = history
-      .flatMap(entry => entry.location || [])
-      .filter(Boolean);
+      .flatMap(entry => normalizeTerms('location', entry.location || []));
 
     const frequency = allLocations.reduce((acc, location) => {
       acc[location] = (acc[location] || 0) + 1;
@@ -122,8 +125,7 @@ export class PatternEngine {
 
   private static getCommonTriggers(history: any[]): string[] {
     const allTriggers = history
-      .flatMap(entry => entry.triggers || [])
-      .filter(Boolean);
+      .flatMap(entry => normalizeTerms('trigger', entry.triggers || []));
 
     const frequency = allTriggers.reduce((acc, trigger) => {
       acc[trigger] = (acc[trigger] || 0) + 1;
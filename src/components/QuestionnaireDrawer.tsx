@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DrawerSheet } from "@/components/lila/DrawerSheet";
+import { useQuestionnaires } from "@/hooks/useQuestionnaires";
+import {
+  formatScoreValue,
+  getQuestionnaire,
+  scoreBand,
+  scoreQuestionnaire,
+  type QuestionnaireAnswers,
+  type QuestionnaireItem
+} from "@/lib/questionnaires";
+
+interface QuestionnaireDrawerProps {
+  // Instrument id, e.g. "bpi"
+  instrument: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function QuestionnaireDrawer({ instrument, open, onOpenChange }: QuestionnaireDrawerProps) {
+  const { saveResponse } = useQuestionnaires(open);
+  const [answers, setAnswers] = useState<QuestionnaireAnswers>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const definition = instrument ? getQuestionnaire(instrument) : null;
+
+  if (!definition) return null;
+
+  const { scores, complete } = scoreQuestionnaire(definition, answers);
+
+  const answer = (item: string, value: number | null) => {
+    setAnswers(prev => {
+      const { [item]: _previous, ...rest } = prev;
+      return value === null ? rest : { ...rest, [item]: value };
+    });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setAnswers({});
+    onOpenChange(next);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await saveResponse(definition.id, answers);
+    setIsSaving(false);
+    if (saved) handleOpenChange(false);
+  };
+
+  const renderResponse = (item: QuestionnaireItem) => {
+    const { response } = item;
+    const value = answers[item.id];
+
+    if (response.type === 'count') {
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={response.min}
+            max={response.max}
+            value={value ?? ''}
+            onChange={(e) => {
+              const parsed = parseInt(e.target.value);
+              answer(item.id, Number.isNaN(parsed) ? null : Math.min(response.max, Math.max(response.min, parsed)));
+            }}
+            className="w-24"
+            aria-label={item.text}
+          />
+          <span className="text-sm text-muted-foreground">{response.unit}</span>
+        </div>
+      );
+    }
+
+    const options = response.type === 'options'
+      ? response.options
+      : Array.from({ length: response.max - response.min + 1 }, (_, i) => ({ label: `${response.min + i}`, value: response.min + i }));
+
+    return (
+      <div className="space-y-1">
+        <div className={response.type === 'scale' ? "grid grid-cols-11 gap-1" : "flex flex-wrap gap-2"} role="group" aria-label={item.text}>
+          {options.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              variant={value === option.value ? "default" : "outline"}
+              size="sm"
+              className={response.type === 'scale' ? "px-0" : undefined}
+              aria-pressed={value === option.value}
+              onClick={() => answer(item.id, option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        {response.type === 'scale' && (
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{response.minLabel}</span>
+            <span>{response.maxLabel}</span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const footer = (
+    <div className="space-y-3">
+      {complete && (
+        <div className="text-sm text-foreground space-y-1">
+          {definition.scores.map((score) => {
+            const band = scoreBand(score, scores[score.id]);
+            return (
+              <p key={score.id}>
+                {score.label}: <span className="font-medium">{formatScoreValue(score, scores[score.id])}</span>
+                {band && <span className="text-muted-foreground"> · {band}</span>}
+              </p>
+            );
+          })}
+        </div>
+      )}
+      <Button onClick={handleSave} disabled={!complete || isSaving} className="w-full">
+        Save result
+      </Button>
+    </div>
+  );
+
+  return (
+    <DrawerSheet
+      open={open}
+      onOpenChange={handleOpenChange}
+      title={definition.name}
+      description={`${definition.description} Think about the ${definition.recallPeriod}.`}
+      footer={footer}
+    >
+      <div className="space-y-6">
+        {definition.items.map((item, index) => (
+          <div key={item.id} className="space-y-2">
+            <p className="text-sm font-medium text-foreground">{index + 1}. {item.text}</p>
+            {renderResponse(item)}
+          </div>
+        ))}
+
+        <p className="text-xs text-muted-foreground">{definition.copyright}</p>
+      </div>
+    </DrawerSheet>
+  );
+}
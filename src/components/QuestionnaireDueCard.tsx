@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { ClipboardList } from "lucide-react";
+import { QuestionnaireDrawer } from "@/components/QuestionnaireDrawer";
+import { useQuestionnaires } from "@/hooks/useQuestionnaires";
+import { getQuestionnaire, scheduleLabel } from "@/lib/questionnaires";
+
+// Shown on Today when a scheduled questionnaire is due
+export function QuestionnaireDueCard() {
+  const { due } = useQuestionnaires();
+  const [openInstrument, setOpenInstrument] = useState<string | null>(null);
+
+  if (due.length === 0) return null;
+
+  return (
+    <>
+      <Alert role="status">
+        <ClipboardList className="h-4 w-4" />
+        <AlertTitle>{due.length === 1 ? "Questionnaire due" : "Questionnaires due"}</AlertTitle>
+        <AlertDescription className="space-y-2">
+          {due.map((schedule) => {
+            const definition = getQuestionnaire(schedule.instrument);
+            if (!definition) return null;
+            return (
+              <div key={schedule.instrument} className="flex items-center justify-between gap-2">
+                <span>
+                  {definition.shortName}{" "}
+                  <span className="text-xs opacity-80">({scheduleLabel(schedule.interval_days).toLowerCase()}, {definition.items.length} questions)</span>
+                </span>
+                <Button size="sm" variant="outline" onClick={() => setOpenInstrument(schedule.instrument)}>
+                  Start
+                </Button>
+              </div>
+            );
+          })}
+        </AlertDescription>
+      </Alert>
+
+      <QuestionnaireDrawer
+        instrument={openInstrument}
+        open={openInstrument !== null}
+        onOpenChange={(open) => !open && setOpenInstrument(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+} from 'chart.js';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QuestionnaireDrawer } from '@/components/QuestionnaireDrawer';
+import { useChartTheme } from '@/hooks/useChartTheme';
+import { useQuestionnaires } from '@/hooks/useQuestionnaires';
+import {
+  formatScoreValue,
+  nextDueDate,
+  QUESTIONNAIRES,
+  SCHEDULE_OPTIONS,
+  scoreBand
+} from '@/lib/questionnaires';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip);
+
+const NOT_SCHEDULED = 'off';
+// Dashed second line, e.g. BPI severity next to interference
+const SERIES_DASH = [[], [4, 4]];
+
+export const QuestionnairesCard = () => {
+  const { responses, schedules, due, setSchedule } = useQuestionnaires();
+  const [selectedId, setSelectedId] = useState(QUESTIONNAIRES[0].id);
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+
+  const definition = QUESTIONNAIRES.find(questionnaire => questionnaire.id === selectedId)!;
+  const history = useMemo(
+    () => responses.filter(response => response.instrument === selectedId),
+    [responses, selectedId]
+  );
+  const latest = history.length > 0 ? history[history.length - 1] : null;
+  const schedule = schedules.find(item => item.instrument === selectedId) ?? null;
+  const trendScores = useMemo(
+    () => definition.scores.filter(score => definition.trendScores.includes(score.id)),
+    [definition]
+  );
+
+  const chartOptions = useMemo(() => ({
+    plugins: {
+      legend: { display: trendScores.length > 1 },
+    },
+    scales: {
+      y: {
+        min: trendScores[0].min,
+        max: trendScores[0].max,
+      },
+    },
+  }), [trendScores]);
+  const { chartJsOptions, chartJsColors, mobileHeights } = useChartTheme({ type: 'line', customOptions: chartOptions });
+
+  const chartData = {
+    labels: history.map(response => format(new Date(response.completed_at), 'MMM d')),
+    datasets: trendScores.map((score, index) => ({
+      label: score.label,
+      data: history.map(response => response.scores[score.id] ?? null),
+      borderColor: index === 0 ? chartJsColors.line : chartJsColors.point,
+      backgroundColor: chartJsColors.background,
+      borderDash: SERIES_DASH[index] ?? [],
+      pointBackgroundColor: chartJsColors.point,
+      pointBorderColor: 'transparent',
+      pointRadius: 3,
+      pointHitRadius: 12,
+      spanGaps: true,
+      tension: 0.3,
+      borderWidth: 2,
+    })),
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-foreground">Questionnaires</h2>
+      </div>
+      <div className="bg-card border rounded-lg p-4 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {QUESTIONNAIRES.map((questionnaire) => (
+            <Button
+              key={questionnaire.id}
+              variant={questionnaire.id === selectedId ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSelectedId(questionnaire.id)}
+            >
+              {questionnaire.shortName}
+              {due.some(item => item.instrument === questionnaire.id) && (
+                <span className="ml-1.5 h-2 w-2 rounded-full bg-destructive" aria-label="due" />
+              )}
+            </Button>
+          ))}
+        </div>
+
+        <div className="text-sm">
+          <p className="font-medium text-foreground">{definition.name}</p>
+          <p className="text-muted-foreground">{definition.description} Covers the {definition.recallPeriod}.</p>
+        </div>
+
+        {latest ? (
+          <div className="space-y-1 text-sm">
+            {definition.scores.map((score) => {
+              const value = latest.scores[score.id] ?? null;
+              const band = scoreBand(score, value);
+              return (
+                <div key={score.id} className="flex items-center justify-between py-1 border-b border-border/50 last:border-0">
+                  <span className="text-foreground">{score.label}</span>
+                  <span className="text-muted-foreground">
+                    <span className="font-medium text-foreground">{formatScoreValue(score, value)}</span>
+                    {band && ` · ${band}`}
+                  </span>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground pt-1">
+              Last taken {format(new Date(latest.completed_at), 'MMM d, yyyy')} · {history.length} {history.length === 1 ? 'result' : 'results'}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Not taken yet.</p>
+        )}
+
+        {history.length > 1 && (
+          <div className={`w-full ${mobileHeights.lg}`}>
+            <Line data={chartData} options={chartJsOptions} />
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Select
+            value={schedule ? String(schedule.interval_days) : NOT_SCHEDULED}
+            onValueChange={(value) => setSchedule(selectedId, value === NOT_SCHEDULED ? null : Number(value))}
+          >
+            <SelectTrigger className="flex-1" aria-label="Repeat">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_SCHEDULED}>Not scheduled</SelectItem>
+              {SCHEDULE_OPTIONS.map((option) => (
+                <SelectItem key={option.days} value={String(option.days)}>{option.label}{option.days === definition.defaultIntervalDays ? ' (suggested)' : ''}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => setIsDrawerOpen(true)}>
+            {latest ? 'Take again' : 'Take now'}
+          </Button>
+        </div>
+        {schedule && (
+          <p className="text-xs text-muted-foreground">
+            Next due {format(nextDueDate(schedule, responses), 'MMM d, yyyy')}; it will show on Today when it's time.
+          </p>
+        )}
+      </div>
+
+      <QuestionnaireDrawer instrument={selectedId} open={isDrawerOpen} onOpenChange={setIsDrawerOpen} />
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { usePainLogs } from "@/hooks/usePainLogs";
+import { useMedications } from "@/hooks/useMedications";
+import { usePainLogOutbox } from "@/hooks/usePainLogOutbox";
+import { applyOutboxEntries } from "@/lib/painLogOutbox";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -13,16 +17,25 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Calendar, CalendarDays, Trash2, Filter, FileText } from "lucide-react";
-import { format, startOfWeek, startOfMonth, endOfMonth, isSameDay, getDay, addDays, parseISO } from "date-fns";
+import { Calendar, CalendarDays, Trash2, Filter, FileJson, FileText, Upload, X } from "lucide-react";
+import { format, startOfDay, endOfDay, startOfWeek, startOfMonth, endOfMonth, isSameDay, getDay, addDays, parseISO } from "date-fns";
 import { PainIndicator } from './PainIndicator';
 import { DayGroupCard, EntryRow, StatBadge, ChipPill, DrawerSheet, EmptyState } from '@/components/lila';
 import { DoctorSummaryDrawer } from './DoctorSummaryDrawer';
+import { PainLogImportDrawer } from './PainLogImportDrawer';
+import { BodyMapCard } from './BodyMapCard';
+import { applyMedicationDoses, toPainEntry, type MedicationDoseRecord } from '@/lib/analytics';
+import { fetchMedicationDoses, medicationPickerOptions } from '@/lib/medications';
+import { fetchFhirBundle, fhirBundleFilename } from '@/lib/fhir';
+import { downloadJson } from '@/lib/download';
+import { IMPACT_TAG_TERMS, normalizeTerms } from '@/lib/vocabulary';
 
 interface PainLog {
   id: string;
   user_id: string;
   pain_level: number;
+  pain_locations?: string[];
+  location_intensities?: unknown;
   logged_at: string;
   activity?: string;
   medications?: string[];
@@ -36,9 +49,18 @@ interface PainLog {
 export function RecordsSection() {
   const { user } = useAuth();
   const { updatePainLog, deletePainLog } = usePainLogs();
+  const { medications } = useMedications();
+  const { pendingEntries, pendingLogIds, rejectedEntries, rejectedLogIds, lastSyncedAt, retry, discard } = usePainLogOutbox();
   const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
   
-  const [painLogs, setPainLogs] = useState<PainLog[]>([]);
+  // Insights links here with ?entries=<ids>&label=<factor> to show just those entries
+  const focusParam = searchParams.get("entries") || "";
+  const focusIds = useMemo(() => focusParam.split(",").filter(Boolean), [focusParam]);
+  const focusLabel = searchParams.get("label");
+  
+  const [serverLogs, setServerLogs] = useState<PainLog[]>([]);
+  const [doses, setDoses] = useState<MedicationDoseRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeView, setActiveView] = useState<"timeline" | "calendar">("timeline");
   const [filterPeriod, setFilterPeriod] = useState<"week" | "month" | "custom">("month");
@@ -49,6 +71,8 @@ export function RecordsSection() {
   const [editSheetOpen, setEditSheetOpen] = useState(false);
   const [daySheetOpen, setDaySheetOpen] = useState(false);
   const [doctorSummaryOpen, setDoctorSummaryOpen] = useState(false);
+  const [exportingFhir, setExportingFhir] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
   // Edit form state
   const [editPainLevel, setEditPainLevel] = useState(0);
@@ -60,14 +84,41 @@ export function RecordsSection() {
   const [editRxTaken, setEditRxTaken] = useState(false);
   const [editSideEffects, setEditSideEffects] = useState("");
 
-  const availableMedications = ["Ibuprofen", "Acetaminophen", "Aspirin", "Naproxen", "Prescription pain medication"];
   const functionalImpactOptions = ["none", "work", "driving", "sleep", "exercise", "household", "mood", "other"];
 
   useEffect(() => {
     if (user) {
       fetchPainLogs();
     }
-  }, [user, filterPeriod, customStartDate, customEndDate]);
+  }, [user, filterPeriod, customStartDate, customEndDate, lastSyncedAt, focusParam]);
+
+  // Doses for the loaded logs, including ones recorded within the hour after the last
+  useEffect(() => {
+    if (!user || serverLogs.length === 0) {
+      setDoses([]);
+      return;
+    }
+
+    const times = serverLogs.map(log => new Date(log.logged_at).getTime());
+    fetchMedicationDoses(
+      user.id,
+      new Date(times.reduce((min, time) => Math.min(min, time), Infinity)).toISOString(),
+      new Date(times.reduce((max, time) => Math.max(max, time), -Infinity) + 60 * 60 * 1000).toISOString()
+    )
+      .then(setDoses)
+      .catch(error => console.error('Error fetching medication doses:', error));
+  }, [user, serverLogs]);
+
+  // Show writes that are still waiting in the offline outbox
+  const painLogs = useMemo(
+    () => applyOutboxEntries(serverLogs, pendingEntries),
+    [serverLogs, pendingEntries]
+  );
+
+  const analyticsEntries = useMemo(
+    () => applyMedicationDoses(painLogs.map(toPainEntry), doses),
+    [painLogs, doses]
+  );
 
   const fetchPainLogs = async () => {
     if (!user) return;
@@ -79,6 +130,16 @@ export function RecordsSection() {
         .select('*')
         .eq('user_id', user.id);
 
+      if (focusIds.length > 0) {
+        const { data, error } = await query
+          .in('id', focusIds)
+          .order('logged_at', { ascending: false });
+
+        if (error) throw error;
+        setServerLogs(data || []);
+        return;
+      }
+
       // Apply date filters
       const now = new Date();
       let startDate: Date;
@@ -105,7 +166,7 @@ export function RecordsSection() {
       const { data, error } = await query;
       
       if (error) throw error;
-      setPainLogs(data || []);
+      setServerLogs(data || []);
     } catch (error) {
       console.error('Error fetching pain logs:', error);
       toast({
@@ -125,7 +186,7 @@ export function RecordsSection() {
     setEditMeds(log.medications || []);
     setEditNotes(log.notes || "");
     setEditFunctionalImpact(log.functional_impact || "none");
-    setEditImpactTags(log.impact_tags || []);
+    setEditImpactTags(normalizeTerms('impact_tag', log.impact_tags || []));
     setEditRxTaken(log.rx_taken || false);
     setEditSideEffects(log.side_effects || "");
     setEditSheetOpen(true);
@@ -162,6 +223,42 @@ export function RecordsSection() {
     }
   };
 
+  // A write the server refused is kept on this device until it's retried or discarded
+  const editingRejected = editingEntry
+    ? rejectedEntries.find(entry => entry.logId === editingEntry.id) ?? null
+    : null;
+
+  const handleRetrySync = async () => {
+    if (!editingRejected) return;
+
+    try {
+      const result = await retry(editingRejected.id);
+      if (result?.rejected.includes(editingRejected.id)) {
+        toast({
+          title: "Still not synced",
+          description: "The server rejected this entry again. Try editing it.",
+          variant: "destructive"
+        });
+        return;
+      }
+      setEditSheetOpen(false);
+      fetchPainLogs();
+    } catch (error) {
+      console.error('Error retrying pain log sync:', error);
+    }
+  };
+
+  const handleDiscardRejected = async () => {
+    if (!editingRejected) return;
+
+    try {
+      await discard(editingRejected.id);
+      setEditSheetOpen(false);
+    } catch (error) {
+      console.error('Error discarding pain log:', error);
+    }
+  };
+
   const handleDelete = async (logId: string) => {
     try {
       await deletePainLog(logId);
@@ -179,6 +276,11 @@ export function RecordsSection() {
     }
   };
 
+  const selectPeriod = (period: "week" | "month" | "custom") => {
+    setFilterPeriod(period);
+    if (focusIds.length > 0) setSearchParams({});
+  };
+
   const toggleMedication = (med: string) => {
     setEditMeds(prev => 
       prev.includes(med) 
@@ -293,24 +395,29 @@ export function RecordsSection() {
     return { startDate, endDate };
   };
 
-  // Convert PainLog format to PainEntry format for DoctorSummaryDrawer
-  const convertToSummaryData = () => {
-    return painLogs.map(log => ({
-      id: parseInt(log.id),
-      date: format(parseISO(log.logged_at), 'yyyy-MM-dd'),
-      timestamp: log.logged_at,
-      painLevel: log.pain_level,
-      location: [], // Records don't have location data in this format
-      triggers: [], // Records don't have triggers in this format
-      medications: log.medications || [],
-      notes: log.notes || '',
-      symptoms: [], // Records don't have symptoms in this format
-      status: 'active',
-      functional_impact: log.functional_impact,
-      impact_tags: log.impact_tags,
-      side_effects: log.side_effects,
-      rx_taken: log.rx_taken,
-    }));
+  // FHIR R4 bundle of the selected period, for patient portals and clinic systems
+  const handleFhirExport = async () => {
+    if (!user) return;
+
+    setExportingFhir(true);
+    try {
+      const { startDate, endDate } = getCurrentDateRange();
+      const bundle = await fetchFhirBundle(user.id, startOfDay(startDate), endOfDay(endDate));
+      downloadJson(bundle, fhirBundleFilename(startDate, endDate), 'application/fhir+json');
+      toast({
+        title: "Export ready",
+        description: `${bundle.entry.length - 1} records saved as a FHIR bundle.`,
+      });
+    } catch (error) {
+      console.error('Error exporting FHIR bundle:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export your records",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingFhir(false);
+    }
   };
 
   if (loading) {
@@ -333,34 +440,67 @@ export function RecordsSection() {
             <h1 className="text-3xl font-bold text-foreground mb-2">Pain Records</h1>
             <p className="text-muted-foreground">Track and review your pain history</p>
           </div>
-          <Button
-            onClick={() => setDoctorSummaryOpen(true)}
-            variant="outline"
-            className="flex items-center gap-2"
-          >
-            <FileText className="h-4 w-4" />
-            Doctor Summary
-          </Button>
+          <div className="flex flex-wrap gap-2 justify-end">
+            <Button
+              onClick={() => setImportOpen(true)}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button
+              onClick={handleFhirExport}
+              disabled={exportingFhir}
+              variant="outline"
+              className="flex items-center gap-2"
+              title="FHIR R4 bundle for patient portals and clinic systems"
+            >
+              <FileJson className="h-4 w-4" />
+              Export for portal
+            </Button>
+            <Button
+              onClick={() => setDoctorSummaryOpen(true)}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <FileText className="h-4 w-4" />
+              Doctor Summary
+            </Button>
+          </div>
         </div>
 
+        {focusIds.length > 0 && (
+          <div className="mb-4 flex items-center justify-between gap-2 rounded-lg border bg-muted/50 px-3 py-2">
+            <span className="text-sm text-foreground">
+              Showing {painLogs.length} {painLogs.length === 1 ? "entry" : "entries"}
+              {focusLabel ? ` with "${focusLabel}"` : ""} from Insights
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => setSearchParams({})} className="flex items-center gap-1">
+              <X className="h-4 w-4" />
+              Show all
+            </Button>
+          </div>
+        )}
+
         {/* Filters */}
         <div className="mb-6 flex flex-wrap gap-4 items-center">
           <div className="lila-tab-container">
             <button
               className={`lila-tab ${filterPeriod === "week" ? "lila-tab-active" : ""}`}
-              onClick={() => setFilterPeriod("week")}
+              onClick={() => selectPeriod("week")}
             >
               This Week
             </button>
             <button
               className={`lila-tab ${filterPeriod === "month" ? "lila-tab-active" : ""}`}
-              onClick={() => setFilterPeriod("month")}
+              onClick={() => selectPeriod("month")}
             >
               This Month
             </button>
             <button
               className={`lila-tab ${filterPeriod === "custom" ? "lila-tab-active" : ""}`}
-              onClick={() => setFilterPeriod("custom")}
+              onClick={() => selectPeriod("custom")}
             >
               Custom Range
             </button>
@@ -385,6 +525,9 @@ export function RecordsSection() {
           )}
         </div>
 
+        {/* Where it hurts over the selected period */}
+        {painLogs.length > 0 && <BodyMapCard painData={analyticsEntries} />}
+
         {/* View Toggle */}
         <Tabs value={activeView} onValueChange={(value) => setActiveView(value as "timeline" | "calendar")}>
           <TabsList className="lila-tab-container mb-6 p-1 bg-transparent">
@@ -463,6 +606,8 @@ export function RecordsSection() {
                           </div>
                         }
                         onEdit={() => handleEdit(log)}
+                        pendingSync={pendingLogIds.has(log.id)}
+                        syncFailed={rejectedLogIds.has(log.id)}
                       />
                     ))}
                   </DayGroupCard>
@@ -550,6 +695,26 @@ export function RecordsSection() {
           }
         >
           <div className="space-y-6">
+            {editingRejected && (
+              <div className="rounded-lg border border-destructive/50 p-3 space-y-2">
+                <p className="text-sm text-foreground">
+                  This {editingRejected.op === 'insert' ? "entry" : "change"} was rejected by the server and is only saved on this device.
+                  Save your edits to try again, or retry it as is.
+                </p>
+                {editingRejected.lastError && (
+                  <p className="text-xs text-muted-foreground">{editingRejected.lastError}</p>
+                )}
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={handleRetrySync}>
+                    Retry as is
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={handleDiscardRejected}>
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Pain Level */}
             <div className="space-y-2">
               <Label>Pain Level (0-10)</Label>
@@ -594,14 +759,14 @@ export function RecordsSection() {
               <div className="space-y-2">
                 <Label>Affected Areas</Label>
                 <div className="flex flex-wrap gap-2">
-                  {functionalImpactOptions.slice(1).map(tag => (
+                  {IMPACT_TAG_TERMS.map(({ id, label }) => (
                     <Badge
-                      key={tag}
-                      variant={editImpactTags.includes(tag) ? "default" : "outline"}
+                      key={id}
+                      variant={editImpactTags.includes(label) ? "default" : "outline"}
                       className="cursor-pointer"
-                      onClick={() => toggleImpactTag(tag)}
+                      onClick={() => toggleImpactTag(label)}
                     >
-                      {tag.charAt(0).toUpperCase() + tag.slice(1)}
+                      {label}
                     </Badge>
                   ))}
                 </div>
@@ -612,7 +777,7 @@ export function RecordsSection() {
             <div className="space-y-2">
               <Label>Medications Taken</Label>
               <div className="flex flex-wrap gap-2">
-                {availableMedications.map(med => (
+                {medicationPickerOptions(medications, editMeds).map(med => (
                   <Badge
                     key={med}
                     variant={editMeds.includes(med) ? "default" : "outline"}
@@ -741,10 +906,16 @@ export function RecordsSection() {
         <DoctorSummaryDrawer
           open={doctorSummaryOpen}
           onOpenChange={setDoctorSummaryOpen}
-          painData={convertToSummaryData()}
+          painData={analyticsEntries}
           startDate={getCurrentDateRange().startDate}
           endDate={getCurrentDateRange().endDate}
         />
+
+        <PainLogImportDrawer
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          onImported={fetchPainLogs}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { endOfDay, startOfDay } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useShareLinks } from "@/hooks/useShareLinks";
+import type { ReportSectionKey } from "@/lib/clinicianReport";
+import { SHARE_LINK_EXPIRY_OPTIONS } from "@/lib/shareLinks";
+
+interface ShareLinkCreatorProps {
+  startDate: Date;
+  endDate: Date;
+  sections: ReportSectionKey[];
+}
+
+// Creates a read-only link for the summary's range and sections; links are managed on Profile
+export function ShareLinkCreator({ startDate, endDate, sections }: ShareLinkCreatorProps) {
+  const { toast } = useToast();
+  const { createShareLink } = useShareLinks(false);
+  const [label, setLabel] = useState("");
+  const [expiresInHours, setExpiresInHours] = useState(String(SHARE_LINK_EXPIRY_OPTIONS[1].hours));
+  const [maxViews, setMaxViews] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const created = await createShareLink({
+      label,
+      rangeStart: startOfDay(startDate),
+      rangeEnd: endOfDay(endDate),
+      sections,
+      expiresInHours: Number(expiresInHours),
+      maxViews: maxViews ? Number(maxViews) : null,
+    });
+    setCreating(false);
+    if (created) setUrl(created);
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ description: "Link copied." });
+    } catch (error) {
+      toast({
+        title: "Failed to copy",
+        description: "Please copy the link manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (url) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-foreground">
+          Copy this link now: for your privacy it can't be shown again.
+        </p>
+        <div className="flex gap-2">
+          <Input readOnly value={url} onFocus={(e) => e.target.select()} className="text-xs" />
+          <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setUrl(null)}>
+          Create another
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="share-label">For (optional)</Label>
+        <Input
+          id="share-label"
+          placeholder="e.g., Dr. Lee, neurology"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="share-expiry">Expires after</Label>
+          <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+            <SelectTrigger id="share-expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SHARE_LINK_EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.hours} value={String(option.hours)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="share-views">View limit</Label>
+          <Input
+            id="share-views"
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={maxViews}
+            onChange={(e) => setMaxViews(e.target.value)}
+          />
+        </div>
+      </div>
+      <Button
+        onClick={handleCreate}
+        disabled={creating || sections.length === 0}
+        variant="outline"
+        className="w-full"
+      >
+        <Link2 className="h-4 w-4 mr-2" />
+        Create read-only link
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Shares this date range and the sections ticked above. You can revoke it and see
+        every time it was opened under Profile.
+      </p>
+    </div>
+  );
+}
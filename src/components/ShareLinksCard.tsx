@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Link2 } from "lucide-react";
+import { useShareLinks } from "@/hooks/useShareLinks";
+import { REPORT_SECTIONS } from "@/lib/clinicianReport";
+import { SHARE_ACCESS_OUTCOME_LABELS, shareLinkStatus, type ShareLink, type ShareLinkStatus } from "@/lib/shareLinks";
+
+const STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  revoked: "Revoked",
+  used_up: "View limit reached"
+};
+
+const sectionLabel = (key: string) => REPORT_SECTIONS.find(section => section.key === key)?.label ?? key;
+
+// Links are created from the doctor summary; this is where they are reviewed and revoked
+export function ShareLinksCard() {
+  const { links, accessLog, revokeShareLink } = useShareLinks();
+  const [pendingRevoke, setPendingRevoke] = useState<ShareLink | null>(null);
+  const [showAllAccess, setShowAllAccess] = useState(false);
+
+  const linkLabel = (id: string) => {
+    const link = links.find(item => item.id === id);
+    return link?.label || (link ? `Link from ${format(new Date(link.created_at), 'MMM d')}` : "Deleted link");
+  };
+
+  const confirmRevoke = async () => {
+    if (!pendingRevoke) return;
+    const linkId = pendingRevoke.id;
+    setPendingRevoke(null);
+    await revokeShareLink(linkId);
+  };
+
+  const visibleAccess = showAllAccess ? accessLog : accessLog.slice(0, 5);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5 icon-default" />
+          Shared Links
+        </CardTitle>
+        <CardDescription>
+          Read-only links to your summary, created from the Doctor Summary on Records
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {links.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You haven't shared any links yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {links.map(link => {
+              const status = shareLinkStatus(link);
+              return (
+                <div key={link.id} className="flex items-start justify-between gap-3 p-3 bg-muted rounded-lg">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{link.label || "Untitled link"}</span>
+                      <Badge variant={status === 'active' ? 'secondary' : 'outline'} className="text-xs shrink-0">
+                        {STATUS_LABELS[status]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(link.range_start), 'MMM d, yyyy')} to {format(new Date(link.range_end), 'MMM d, yyyy')}
+                      {" · "}{link.sections.map(sectionLabel).join(", ") || "Summary only"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Viewed {link.view_count}{link.max_views ? ` of ${link.max_views}` : ""} {link.view_count === 1 && !link.max_views ? "time" : "times"}
+                      {link.last_viewed_at && `, last ${format(new Date(link.last_viewed_at), 'MMM d, HH:mm')}`}
+                      {" · "}{status === 'revoked' && link.revoked_at
+                        ? `revoked ${format(new Date(link.revoked_at), 'MMM d, HH:mm')}`
+                        : `expires ${format(new Date(link.expires_at), 'MMM d, HH:mm')}`}
+                    </p>
+                  </div>
+                  {status === 'active' && (
+                    <Button variant="ghost" size="sm" onClick={() => setPendingRevoke(link)}>
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {accessLog.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Access history</h4>
+            {visibleAccess.map(access => (
+              <div key={access.id} className="flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <span className="truncate">{linkLabel(access.share_link_id)}</span>
+                  {access.user_agent && (
+                    <p className="text-xs text-muted-foreground truncate">{access.user_agent}</p>
+                  )}
+                </div>
+                <div className="text-right shrink-0">
+                  <span className={access.outcome === 'granted' ? "text-foreground" : "text-destructive"}>
+                    {SHARE_ACCESS_OUTCOME_LABELS[access.outcome] ?? access.outcome}
+                  </span>
+                  <p className="text-xs text-muted-foreground">{format(new Date(access.accessed_at), 'MMM d, HH:mm')}</p>
+                </div>
+              </div>
+            ))}
+            {accessLog.length > 5 && (
+              <Button variant="ghost" size="sm" onClick={() => setShowAllAccess(prev => !prev)}>
+                {showAllAccess ? "Show less" : `Show all ${accessLog.length}`}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingRevoke} onOpenChange={(open) => !open && setPendingRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke this link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone with the link, including {pendingRevoke?.label || "the person you shared it with"}, will no longer be able to open it. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRevoke}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
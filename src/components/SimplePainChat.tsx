@@ -6,6 +6,7 @@ import { Send, Mic, MicOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { PainLocationSelector } from "./PainLocationSelector";
+import { canonicalLocations, findTerms } from "@/lib/vocabulary";
 import { usePainLogs } from "@/hooks/usePainLogs";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -44,6 +45,7 @@ export function SimplePainChat({ onPainDataSaved, onNavigateToInsights }: Simple
   const [showLocationSelector, setShowLocationSelector] = useState(false);
   const [currentPainData, setCurrentPainData] = useState<any>(null);
   const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
+  const [locationIntensities, setLocationIntensities] = useState<Record<string, number>>({});
   const [waitingForInfo, setWaitingForInfo] = useState<string>('');
   
   const [messages, setMessages] = useState<Message[]>([
@@ -147,33 +149,15 @@ export function SimplePainChat({ onPainDataSaved, onNavigateToInsights }: Simple
       painLevel = 3;
     }
 
-    // Extract locations
-    const locations = [];
-    const locationMap = {
-      'head': ['head', 'headache'],
-      'forehead': ['forehead'],
-      'temples': ['temples', 'temple'],
-      'behind eyes': ['behind eyes', 'eye pain'],
-      'back of head': ['back of head', 'base of skull'],
-      'neck': ['neck'],
-      'shoulders': ['shoulder', 'shoulders'],
-      'back': ['back'],
-      'abdomen': ['stomach', 'abdomen', 'belly'],
-      'chest': ['chest']
-    };
-
-    Object.entries(locationMap).forEach(([location, keywords]) => {
-      if (keywords.some(keyword => msg.includes(keyword))) {
-        locations.push(location);
-      }
-    });
+    // Extract locations, by the same names and synonyms used everywhere else
+    const locations = findTerms('location', message);
 
     // Extract triggers
     const triggers = [];
-    if (msg.includes('stress')) triggers.push('stress');
-    if (msg.includes('sleep') || msg.includes('tired')) triggers.push('poor sleep');
-    if (msg.includes('screen')) triggers.push('screen time');
-    if (msg.includes('weather')) triggers.push('weather');
+    if (msg.includes('stress')) triggers.push('Stress');
+    if (msg.includes('sleep') || msg.includes('tired')) triggers.push('Poor sleep');
+    if (msg.includes('screen')) triggers.push('Screen time');
+    if (msg.includes('weather')) triggers.push('Weather changes');
 
     // Extract medications
     const medications = [];
@@ -257,7 +241,8 @@ export function SimplePainChat({ onPainDataSaved, onNavigateToInsights }: Simple
 
     const painLogData = {
       pain_level: data.painLevel,
-      pain_locations: data.locations,
+      pain_locations: canonicalLocations(data.locations),
+      location_intensities: data.locationIntensities,
       triggers: data.triggers,
       medications: data.medications?.map((med: string) => ({ name: med, effective: true })) || [],
       notes: data.notes || ''
@@ -298,17 +283,9 @@ export function SimplePainChat({ onPainDataSaved, onNavigateToInsights }: Simple
       return;
     }
 
-    // Handle quick location selections
-    if (waitingForInfo === 'location') {
-      const quickLocations = ['head', 'neck', 'shoulders', 'back'];
-      const selectedQuickLocation = quickLocations.find(loc => 
-        textToSend.toLowerCase().includes(loc)
-      );
-      
-      if (selectedQuickLocation) {
-        extractedData.locations = [selectedQuickLocation];
-        setWaitingForInfo('');
-      }
+    // Handle quick location selections; extractPainData already found any locations named
+    if (waitingForInfo === 'location' && extractedData.locations.length > 0) {
+      setWaitingForInfo('');
     }
 
     // Generate AI response
@@ -327,9 +304,16 @@ export function SimplePainChat({ onPainDataSaved, onNavigateToInsights }: Simple
 
   const handleLocationConfirm = async () => {
     if (currentPainData && selectedLocations.length > 0) {
+      // A single location is just the overall pain level
       const finalData = {
         ...currentPainData,
-        locations: selectedLocations
+        locations: selectedLocations,
+        locationIntensities: selectedLocations.length > 1
+          ? Object.fromEntries(selectedLocations.map(location => [
+              location,
+              locationIntensities[location] ?? currentPainData.painLevel ?? 5
+            ]))
+          : null
       };
       
       await savePainEntry(finalData);
@@ -348,6 +332,7 @@ export function SimplePainChat({ onPainDataSaved, onNavigateToInsights }: Simple
     setShowLocationSelector(false);
     setCurrentPainData(null);
     setSelectedLocations([]);
+    setLocationIntensities({});
     setWaitingForInfo('');
   };
 
@@ -405,6 +390,9 @@ export function SimplePainChat({ onPainDataSaved, onNavigateToInsights }: Simple
               commonLocations={userProfile?.default_pain_locations || []}
               selectedLocations={selectedLocations}
               onLocationChange={setSelectedLocations}
+              intensities={locationIntensities}
+              onIntensitiesChange={setLocationIntensities}
+              defaultIntensity={currentPainData?.painLevel ?? 5}
               onConfirm={handleLocationConfirm}
               isVariable={true}
             />
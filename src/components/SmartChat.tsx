@@ -2,13 +2,15 @@ import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Send, Mic, MicOff, Volume2, Settings } from "lucide-react";
+import { Send, Mic, MicOff, Volume2, Settings, Square } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
 import { PatternEngine } from "./PatternEngine";
-import { PainLocationSelector } from "./PainLocationSelector";
-import { usePainLogs } from "@/hooks/usePainLogs";
+import { ChatActionCard, type ChatActionStatus } from "./ChatActionCard";
+import { ConversationHistory } from "./ConversationHistory";
+import { EscalationCard } from "./EscalationCard";
+import { useChatActions } from "@/hooks/useChatActions";
+import { streamAIChat, type ChatAction, type ChatEscalation } from "@/lib/aiChatStream";
+import type { Database } from "@/integrations/supabase/types";
 
 // Speech Recognition type definitions
 declare global {
@@ -24,41 +26,39 @@ interface Message {
   sender: 'user' | 'ai';
   timestamp: Date;
   suggestions?: string[];
+  streaming?: boolean;
+  stopped?: boolean;
+  actions?: Array<{ action: ChatAction; status: ChatActionStatus }>;
+  escalation?: ChatEscalation;
 }
 
+type ConversationMessage = Database['public']['Tables']['ai_conversations']['Row'];
+
+const createGreeting = (): Message => ({
+  id: '1',
+  content: 'Hi! I\'m your advanced AI pain companion. I remember our conversations and learn your patterns. How are you feeling today?',
+  sender: 'ai',
+  timestamp: new Date(),
+  suggestions: ['I have a headache', 'Pain level 7', 'Feeling better today', 'Show my insights']
+});
+
 interface SmartChatProps {
   onPainDataExtracted?: (data: any) => void;
   onNavigationRequest?: (destination: string) => void;
   painHistory?: any[];
 }
 
-interface UserProfile {
-  pain_is_consistent?: boolean;
-  default_pain_locations?: string[];
-}
-
 export function SmartChat({ onPainDataExtracted, onNavigationRequest, painHistory = [] }: SmartChatProps) {
-  const { user } = useAuth();
-  const { savePainLog } = usePainLogs();
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [showLocationSelector, setShowLocationSelector] = useState(false);
-  const [pendingPainData, setPendingPainData] = useState<any>(null);
-  const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
+  const { applyAction } = useChatActions();
   const [conversationId, setConversationId] = useState<string>('');
   const [currentInsights, setCurrentInsights] = useState<string[]>([]);
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      content: 'Hi! I\'m your advanced AI pain companion. I remember our conversations and learn your patterns. How are you feeling today?',
-      sender: 'ai',
-      timestamp: new Date(),
-      suggestions: ['I have a headache', 'Pain level 7', 'Feeling better today', 'Show my insights']
-    }
-  ]);
+  const [messages, setMessages] = useState<Message[]>(() => [createGreeting()]);
   const [inputValue, setInputValue] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const recognitionRef = useRef<any>(null);
   const { toast } = useToast();
 
@@ -70,25 +70,6 @@ export function SmartChat({ onPainDataExtracted, onNavigationRequest, painHistor
     scrollToBottom();
   }, [messages]);
 
-  // Fetch user profile for pain consistency setting
-  useEffect(() => {
-    const fetchUserProfile = async () => {
-      if (!user?.id) return;
-      
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('pain_is_consistent, default_pain_locations')
-        .eq('id', user.id)
-        .single();
-      
-      if (!error && data) {
-        setUserProfile(data);
-      }
-    };
-
-    fetchUserProfile();
-  }, [user?.id]);
-
   // Initialize speech recognition once
   useEffect(() => {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
@@ -157,76 +138,101 @@ export function SmartChat({ onPainDataExtracted, onNavigationRequest, painHistor
     );
   };
 
-  // Enhanced generateAIResponse calls the enhanced AI service with full context
-  const generateAIResponse = async (userMessage: string): Promise<{ content: string; suggestions: string[]; conversationId?: string; insights?: string[] }> => {
-    // Show thinking state
-    const thinkingMessage: Message = {
-      id: Date.now().toString() + '-thinking',
-      content: "Thinking...",
+  // Abort the in-flight response; the server keeps whatever was generated so far
+  const stopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const updateMessage = (id: string, update: (message: Message) => Partial<Message>) => {
+    setMessages(prev => prev.map(msg => (msg.id === id ? { ...msg, ...update(msg) } : msg)));
+  };
+
+  // Streams the enhanced AI service's reply into a message that grows as tokens arrive
+  const generateAIResponse = async (userMessage: string) => {
+    const aiMessageId = Date.now().toString() + '-ai';
+    setMessages(prev => [...prev, {
+      id: aiMessageId,
+      content: '',
       sender: 'ai',
-      timestamp: new Date()
-    };
-    setMessages(prev => [...prev, thinkingMessage]);
+      timestamp: new Date(),
+      streaming: true
+    }]);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsStreaming(true);
+
+    let streamFailed = false;
 
     try {
-      console.log('Calling enhanced AI with:', { userMessage, conversationId, userId: user?.id });
-      
-      // Call the enhanced Supabase edge function for AI chat
-      const { data, error } = await supabase.functions.invoke('ai-chat', {
-        body: {
-          message: userMessage,
-          userId: user?.id,
-          conversationId: conversationId || undefined
+      console.log('Calling enhanced AI with:', { userMessage, conversationId });
+
+      // The function identifies the user from the session token, never from the body
+      const metadata = await streamAIChat({
+        message: userMessage,
+        conversationId: conversationId || undefined,
+        signal: controller.signal,
+        onEvent: (event) => {
+          if (event.type === 'start' && !conversationId) {
+            // Known up front so a cancelled first reply still continues the same thread
+            setConversationId(event.conversationId);
+            console.log('New conversation started:', event.conversationId);
+          } else if (event.type === 'token') {
+            updateMessage(aiMessageId, msg => ({ content: msg.content + event.content }));
+          } else if (event.type === 'escalation') {
+            // A later escalation in the same reply carries every flag found so far
+            updateMessage(aiMessageId, () => ({ escalation: event.escalation }));
+          } else if (event.type === 'action') {
+            updateMessage(aiMessageId, msg => ({
+              actions: [...(msg.actions || []), { action: event.action, status: 'pending' }]
+            }));
+          } else if (event.type === 'error') {
+            console.error('Enhanced AI stream error:', event.error);
+            streamFailed = true;
+          }
         }
       });
 
-      // Remove thinking message
-      setMessages(prev => prev.filter(msg => msg.id !== thinkingMessage.id));
-
-      if (error) {
-        console.error('Enhanced AI chat error:', error);
-        return {
-          content: "I'm sorry, I'm having trouble connecting to my enhanced AI brain right now. But I can still help you log pain entries and track patterns!",
-          suggestions: generateSmartSuggestions(userMessage, messages)
-        };
-      }
-
-      const responseData = data || {};
-      
-      // Update conversation ID if provided
-      if (responseData.conversationId && !conversationId) {
-        setConversationId(responseData.conversationId);
-        console.log('New conversation started:', responseData.conversationId);
-      }
-
       // Update insights if provided
-      if (responseData.insights && responseData.insights.length > 0) {
-        setCurrentInsights(responseData.insights);
-        console.log('New insights received:', responseData.insights);
+      if (metadata?.insights && metadata.insights.length > 0) {
+        setCurrentInsights(metadata.insights);
+        console.log('New insights received:', metadata.insights);
       }
 
-      return {
-        content: responseData.content || "I'm here to help you track and manage your pain with my enhanced capabilities!",
-        suggestions: responseData.suggestions || generateSmartSuggestions(userMessage, messages),
-        conversationId: responseData.conversationId,
-        insights: responseData.insights
-      };
+      updateMessage(aiMessageId, msg => ({
+        content: msg.content || (streamFailed
+          ? "I'm experiencing some technical difficulties, but I'm still here to help you track your pain. Feel free to log your pain levels and I'll help you spot patterns!"
+          : msg.actions?.length ? "Here's what I've prepared. Please confirm it below." : "I'm here to help you track and manage your pain with my enhanced capabilities!"),
+        suggestions: metadata?.suggestions || generateSmartSuggestions(userMessage, messages),
+        streaming: false
+      }));
     } catch (error) {
+      if (controller.signal.aborted) {
+        updateMessage(aiMessageId, () => ({ streaming: false, stopped: true }));
+        return;
+      }
+
       console.error('Error calling enhanced AI service:', error);
-      
-      // Remove thinking message
-      setMessages(prev => prev.filter(msg => msg.id !== thinkingMessage.id));
-      
-      return {
-        content: "I'm experiencing some technical difficulties, but I'm still here to help you track your pain. Feel free to log your pain levels and I'll help you spot patterns!",
-        suggestions: generateSmartSuggestions(userMessage, messages)
-      };
+      updateMessage(aiMessageId, msg => ({
+        content: msg.content || "I'm experiencing some technical difficulties, but I'm still here to help you track your pain. Feel free to log your pain levels and I'll help you spot patterns!",
+        suggestions: generateSmartSuggestions(userMessage, messages),
+        streaming: false
+      }));
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setIsStreaming(false);
     }
   };
 
   const handleSendMessage = async (messageText?: string) => {
     const textToSend = messageText || inputValue;
-    if (!textToSend.trim()) return;
+    if (!textToSend.trim() || isStreaming) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -239,44 +245,9 @@ export function SmartChat({ onPainDataExtracted, onNavigationRequest, painHistor
     setMessages(updatedMessages);
     setInputValue('');
 
-    // Extract pain data if relevant
-    const extractedData = extractPainData(textToSend);
-    if (extractedData && extractedData.painLevel !== null) {
-      // Check if user has variable pain and needs location selection
-      if (userProfile?.pain_is_consistent === false && extractedData.location.length === 0) {
-        setPendingPainData(extractedData);
-        setSelectedLocations([]);
-        setShowLocationSelector(true);
-        
-        // Add AI message asking for location
-        const locationRequest: Message = {
-          id: (Date.now() + 0.5).toString(),
-          content: "I see you're experiencing pain. Since your pain tends to move around, could you tell me where specifically you're feeling pain right now?",
-          sender: 'ai',
-          timestamp: new Date()
-        };
-        setMessages(prev => [...prev, locationRequest]);
-        return; // Don't extract data yet, wait for location
-      } else if (userProfile?.pain_is_consistent === true && extractedData.location.length === 0) {
-        // For consistent pain users, use their default locations
-        extractedData.location = userProfile.default_pain_locations || [];
-      }
-      
-      onPainDataExtracted?.(extractedData);
-    }
-
     // Generate AI response
     try {
-      const aiResponseData = await generateAIResponse(textToSend);
-      const aiResponse: Message = {
-        id: (Date.now() + 1).toString(),
-        content: aiResponseData.content,
-        sender: 'ai',
-        timestamp: new Date(),
-        suggestions: aiResponseData.suggestions
-      };
-      
-      setMessages(prev => [...prev, aiResponse]);
+      await generateAIResponse(textToSend);
     } catch (error) {
       console.error('Error generating AI response:', error);
       toast({
@@ -287,100 +258,55 @@ export function SmartChat({ onPainDataExtracted, onNavigationRequest, painHistor
     }
   };
 
-  const extractPainData = (message: string) => {
-    const msg = message.toLowerCase();
-    const painData = {
-      painLevel: null as number | null,
-      location: [] as string[],
-      triggers: [] as string[],
-      medications: [] as any[],
-      notes: message,
-      symptoms: [] as string[]
-    };
-
-    // Extract pain level
-    const painMatch = msg.match(/\b([0-9]|10)\b/);
-    if (painMatch) {
-      painData.painLevel = parseInt(painMatch[0]);
-    }
+  const handleNewConversation = () => {
+    abortControllerRef.current?.abort();
+    setConversationId('');
+    setCurrentInsights([]);
+    setMessages([createGreeting()]);
+  };
 
-    // Enhanced location extraction
-    const locationKeywords = {
-      'forehead': ['head', 'forehead', 'front of head'],
-      'temples': ['temples', 'temple', 'side of head'],
-      'behind eyes': ['behind eyes', 'behind eye', 'eye pain'],
-      'back of head': ['back of head', 'occipital', 'base of skull'],
-      'neck': ['neck', 'cervical'],
-      'shoulders': ['shoulder', 'shoulders'],
-      'back': ['back', 'spine'],
-      'chest': ['chest', 'thoracic'],
-      'abdomen': ['stomach', 'abdomen', 'belly'],
-      'arms': ['arm', 'arms', 'wrist', 'elbow'],
-      'legs': ['leg', 'legs', 'knee', 'ankle', 'foot', 'feet'],
-      'jaw': ['jaw', 'tmj', 'face'],
-      'joints': ['joint', 'joints', 'arthritis']
-    };
+  // Reopen a past thread; new messages continue under the same conversationId
+  const handleSelectConversation = (selectedId: string, history: ConversationMessage[]) => {
+    abortControllerRef.current?.abort();
+    setConversationId(selectedId);
+    setCurrentInsights([]);
 
-    Object.entries(locationKeywords).forEach(([location, keywords]) => {
-      if (keywords.some(keyword => msg.includes(keyword))) {
-        if (!painData.location.includes(location)) {
-          painData.location.push(location);
-        }
-      }
+    const restored: Message[] = history.map(msg => {
+      const metadata = msg.metadata as { partial?: boolean; escalation?: ChatEscalation } | null;
+      return {
+        id: msg.id,
+        content: msg.content,
+        sender: msg.message_type === 'user' ? 'user' : 'ai',
+        timestamp: new Date(msg.created_at),
+        stopped: metadata?.partial === true,
+        escalation: metadata?.escalation
+      };
     });
+    setMessages(restored.length > 0 ? restored : [createGreeting()]);
+  };
 
-    // Extract triggers
-    if (msg.includes('stress')) painData.triggers.push('stress');
-    if (msg.includes('tired') || msg.includes('sleep')) painData.triggers.push('poor sleep');
-    if (msg.includes('weather') || msg.includes('barometric')) painData.triggers.push('weather');
-    if (msg.includes('screen') || msg.includes('computer')) painData.triggers.push('screen time');
-
-    // Extract medications
-    if (msg.includes('ibuprofen') || msg.includes('advil')) {
-      painData.medications.push({ name: 'ibuprofen', effective: true });
-    }
-    if (msg.includes('tylenol') || msg.includes('acetaminophen')) {
-      painData.medications.push({ name: 'tylenol', effective: true });
-    }
-
-    return painData;
+  const setActionStatus = (messageId: string, actionId: string, status: ChatActionStatus) => {
+    updateMessage(messageId, msg => ({
+      actions: msg.actions?.map(item => (item.action.id === actionId ? { ...item, status } : item))
+    }));
   };
 
-  const handleLocationConfirm = async () => {
-    if (pendingPainData && selectedLocations.length > 0) {
-      const finalPainData = {
-        ...pendingPainData,
-        location: selectedLocations
-      };
-      
-      // Save to database
-      const success = await savePainLog({
-        pain_level: finalPainData.painLevel,
-        pain_locations: selectedLocations,
-        triggers: finalPainData.triggers,
-        medications: finalPainData.medications,
-        notes: finalPainData.notes
+  // Nothing proposed by the model is written until the user confirms it here
+  const handleConfirmAction = async (messageId: string, action: ChatAction) => {
+    setActionStatus(messageId, action.id, 'saving');
+    const success = await applyAction(action);
+    setActionStatus(messageId, action.id, success ? 'confirmed' : 'pending');
+
+    if (success && action.tool === 'log_pain') {
+      onPainDataExtracted?.({
+        painLevel: action.args.pain_level,
+        location: action.args.pain_locations || [],
+        triggers: action.args.triggers || [],
+        medications: action.args.medications || [],
+        notes: action.args.notes || '',
+        symptoms: []
       });
-
-      if (success) {
-        // Also trigger the local callback for immediate UI updates
-        onPainDataExtracted?.(finalPainData);
-        
-        // Add confirmation message
-        const confirmMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          content: `Got it! I've recorded your pain level ${finalPainData.painLevel} in: ${selectedLocations.join(', ')}. I'll help you track this.`,
-          sender: 'ai',
-          timestamp: new Date(),
-          suggestions: ['How long has this been going on?', 'What might have triggered this?', 'Any medications taken?']
-        };
-        setMessages(prev => [...prev, confirmMessage]);
-      }
     }
-    
-    setShowLocationSelector(false);
-    setPendingPainData(null);
-    setSelectedLocations([]);
   };
 
   const handleSuggestionClick = (suggestion: string) => {
@@ -428,20 +354,13 @@ export function SmartChat({ onPainDataExtracted, onNavigationRequest, painHistor
 
   return (
     <div className="flex flex-col h-full max-w-4xl mx-auto">
-      {/* Pain Location Selector Modal */}
-      {showLocationSelector && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-background rounded-lg max-w-md w-full">
-            <PainLocationSelector
-              commonLocations={userProfile?.default_pain_locations || []}
-              selectedLocations={selectedLocations}
-              onLocationChange={setSelectedLocations}
-              onConfirm={handleLocationConfirm}
-              isVariable={true}
-            />
-          </div>
-        </div>
-      )}
+      <div className="flex items-center justify-between px-4 pt-2">
+        <ConversationHistory
+          activeConversationId={conversationId || undefined}
+          onSelect={handleSelectConversation}
+          onNewConversation={handleNewConversation}
+        />
+      </div>
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto px-4 py-6 space-y-6">
         {/* Display current insights if available */}
@@ -471,9 +390,32 @@ export function SmartChat({ onPainDataExtracted, onNavigationRequest, painHistor
                   </div>
                 )}
                 <div className="flex flex-col gap-1">
+                  {message.escalation && <EscalationCard escalation={message.escalation} />}
                   <div className={message.sender === 'user' ? 'chat-message-user' : 'chat-message-ai'}>
-                    <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                    {message.streaming && !message.content ? (
+                      <div className="loading-dots">
+                        <div className="loading-dot"></div>
+                        <div className="loading-dot" style={{ animationDelay: '0.1s' }}></div>
+                        <div className="loading-dot" style={{ animationDelay: '0.2s' }}></div>
+                      </div>
+                    ) : (
+                      <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                    )}
                   </div>
+                  {message.actions?.map(({ action, status }) => (
+                    <ChatActionCard
+                      key={action.id}
+                      action={action}
+                      status={status}
+                      onConfirm={() => handleConfirmAction(message.id, action)}
+                      onDismiss={() => setActionStatus(message.id, action.id, 'dismissed')}
+                    />
+                  ))}
+                  {message.stopped && (
+                    <span className="text-xs text-muted-foreground px-2 italic">
+                      {message.content ? 'Response stopped' : 'Stopped before a response'}
+                    </span>
+                  )}
                   <span className={`text-xs text-muted-foreground px-2 ${message.sender === 'user' ? 'text-right' : 'text-left'}`}>
                     {formatTime(message.timestamp)}
                   </span>
@@ -554,14 +496,25 @@ export function SmartChat({ onPainDataExtracted, onNavigationRequest, painHistor
               >
                 {isListening ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
               </Button>
-              <Button 
-                onClick={() => handleSendMessage()}
-                size="sm"
-                disabled={!inputValue.trim() || isProcessing}
-                className="chat-send-button"
-              >
-                <Send className="h-4 w-4" />
-              </Button>
+              {isStreaming ? (
+                <Button
+                  onClick={stopStreaming}
+                  size="sm"
+                  className="chat-send-button"
+                  aria-label="Stop response"
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button 
+                  onClick={() => handleSendMessage()}
+                  size="sm"
+                  disabled={!inputValue.trim() || isProcessing}
+                  className="chat-send-button"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -9,6 +9,7 @@ import { usePainLogs } from "@/hooks/usePainLogs";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { PainLogRecord } from "@/lib/analytics";
 
 
 interface Message {
@@ -264,28 +265,12 @@ interface TodaySectionProps {
 export function TodaySection({ onNavigateToInsights }: TodaySectionProps) {
   const { getPainLogs } = usePainLogs();
   const { user } = useAuth();
-  const [painData, setPainData] = useState<any[]>([]);
+  const [painData, setPainData] = useState<PainLogRecord[]>([]);
   const [activeTab, setActiveTab] = useState('today');
   const [lastPainLevel, setLastPainLevel] = useState<number | null>(null);
   const [lastEntryInfo, setLastEntryInfo] = useState<string | null>(null);
   const [userGreeting, setUserGreeting] = useState<string>('');
 
-  // Transform Supabase data to PainEntry format for chart
-  const transformForChart = (supabaseData: any[]) => {
-    return supabaseData.map((entry) => ({
-      id: entry.id,
-      date: entry.logged_at.split('T')[0],
-      timestamp: entry.logged_at,
-      painLevel: entry.pain_level,
-      location: entry.pain_locations || [],
-      triggers: entry.triggers || [],
-      medications: entry.medications || [],
-      notes: entry.notes || '',
-      symptoms: [],
-      status: 'active'
-    }));
-  };
-
   useEffect(() => {
     loadData();
     loadUserLifecycleInfo();
@@ -316,9 +301,7 @@ export function TodaySection({ onNavigateToInsights }: TodaySectionProps) {
 
   const loadData = async () => {
     try {
-      const logs = await getPainLogs();
-      const transformed = transformForChart(logs);
-      setPainData(transformed);
+      setPainData(await getPainLogs());
     } catch (error) {
       console.error('Error loading pain data:', error);
     }
@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ChipPill, EmptyState } from '@/components/lila';
+import { Button } from '@/components/ui/button';
+import { ArrowRight, Zap } from 'lucide-react';
+import {
+  formatSignedDelta,
+  TRIGGER_CAUTION_LABELS,
+  triggerCorrelations,
+  type PainEntry,
+  type TriggerCaution,
+  type TriggerFactorKind
+} from '@/lib/analytics';
+
+interface TriggerCorrelationCardProps {
+  painData: PainEntry[];
+  onUseLast30Days: () => void;
+}
+
+const KIND_LABELS: Record<TriggerFactorKind, string> = {
+  trigger: 'Trigger',
+  activity: 'Activity',
+  impact_tag: 'Impact'
+};
+
+const CAUTION_COLORS: Record<TriggerCaution, 'neutral' | 'warn' | 'accent'> = {
+  too_few: 'neutral',
+  could_be_chance: 'warn',
+  consistent: 'accent'
+};
+
+const recordsLink = (entryIds: string[], label: string) =>
+  `/records?${new URLSearchParams({ entries: entryIds.join(','), label }).toString()}`;
+
+export const TriggerCorrelationCard = ({ painData, onUseLast30Days }: TriggerCorrelationCardProps) => {
+  const correlations = useMemo(() => triggerCorrelations(painData), [painData]);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-foreground">What Comes Before Higher Pain</h2>
+      </div>
+      {correlations.length === 0 ? (
+        <div className="bg-card border rounded-lg">
+          <EmptyState
+            icon={<Zap className="h-12 w-12" />}
+            title="Not enough to compare yet"
+            description="Log triggers and activities over a few weeks to see which ones tend to come before worse days."
+            actions={
+              <Button onClick={onUseLast30Days} variant="outline" size="sm">
+                Use Last 30 days
+              </Button>
+            }
+          />
+        </div>
+      ) : (
+        <div className="bg-card border rounded-lg p-4">
+          <p className="text-xs text-muted-foreground mb-3">
+            Average pain over the next 24–48h after days you logged each one, compared with days you didn't.
+          </p>
+          <div className="space-y-3">
+            {correlations.map((factor) => (
+              <div key={factor.key} className="flex items-center justify-between py-2 border-b border-border/50 last:border-0">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-sm font-medium text-foreground truncate">{factor.label}</span>
+                    <span className="text-xs text-muted-foreground">{KIND_LABELS[factor.kind]}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <ChipPill colorScheme={CAUTION_COLORS[factor.caution]}>
+                      {TRIGGER_CAUTION_LABELS[factor.caution]}
+                    </ChipPill>
+                    <span>{factor.exposedDays} days with, {factor.comparisonDays} without</span>
+                    <Link
+                      to={recordsLink(factor.entryIds, factor.label)}
+                      className="inline-flex items-center gap-0.5 text-primary hover:underline"
+                    >
+                      {factor.entryIds.length} {factor.entryIds.length === 1 ? 'entry' : 'entries'}
+                      <ArrowRight className="h-3 w-3" />
+                    </Link>
+                  </div>
+                </div>
+
+                <span
+                  className={`ml-2 text-sm font-medium ${
+                    factor.caution !== 'too_few' && factor.effect > 0 ? 'text-destructive' : 'text-muted-foreground'
+                  }`}
+                >
+                  {formatSignedDelta(factor.effect)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
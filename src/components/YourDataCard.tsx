@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Database, Download, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { buildDataExport, dataExportFilename } from "@/lib/dataExport";
+import { downloadBlob } from "@/lib/download";
+import { clearOutbox } from "@/lib/painLogOutbox";
+
+// Must match DELETE_CONFIRMATION in the delete-account function
+const DELETE_CONFIRMATION = "DELETE";
+
+export function YourDataCard() {
+  const { user, signOut } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [exporting, setExporting] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState("");
+  const [deleting, setDeleting] = useState(false);
+
+  const handleExport = async () => {
+    if (!user) return;
+
+    setExporting(true);
+    try {
+      downloadBlob(await buildDataExport(user.id), dataExportFilename());
+      toast({
+        title: "Export ready",
+        description: "Your data was saved as a ZIP of JSON and CSV files.",
+      });
+    } catch (error) {
+      console.error('Error exporting account data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export your data",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user || confirmation !== DELETE_CONFIRMATION) return;
+
+    setDeleting(true);
+    try {
+      const { error } = await supabase.functions.invoke('delete-account', {
+        body: { confirmation }
+      });
+      if (error) throw error;
+
+      // The account is gone; drop anything still queued on this device
+      await clearOutbox(user.id);
+      await signOut();
+      toast({
+        title: "Account deleted",
+        description: "Your account and all your data have been permanently deleted.",
+      });
+      navigate("/auth");
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete your account. Please try again.",
+        variant: "destructive"
+      });
+      setDeleting(false);
+    }
+  };
+
+  const handleDeleteOpenChange = (open: boolean) => {
+    if (deleting) return;
+    setDeleteOpen(open);
+    if (!open) setConfirmation("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5 icon-default" />
+          Your Data
+        </CardTitle>
+        <CardDescription>
+          Download everything PainPal stores about you, or delete your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Button onClick={handleExport} disabled={exporting} variant="outline" className="w-full">
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? "Preparing..." : "Download my data"}
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            A ZIP with your profile, pain entries, medications, chats, insights and settings as JSON and CSV.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Button onClick={() => setDeleteOpen(true)} variant="destructive" className="w-full">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete account
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Permanently deletes your account and all your data. Download a copy first if you want one.
+          </p>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={deleteOpen} onOpenChange={handleDeleteOpenChange}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes your account, pain history, medications, chats, insights,
+              shared links and any stored files. It can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="delete-confirmation">Type {DELETE_CONFIRMATION} to confirm</Label>
+            <Input
+              id="delete-confirmation"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+              disabled={deleting}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={confirmation !== DELETE_CONFIRMATION || deleting}
+            >
+              {deleting ? "Deleting..." : "Delete permanently"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import * as React from "react"
-import { Edit } from "lucide-react"
+import { Edit, CloudOff, AlertTriangle } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { ChipPill } from "./ChipPill"
@@ -9,10 +9,12 @@ export interface EntryRowProps extends React.HTMLAttributes<HTMLDivElement> {
   painChip: React.ReactNode
   meta?: React.ReactNode
   onEdit?: () => void
+  pendingSync?: boolean
+  syncFailed?: boolean
 }
 
 const EntryRow = React.forwardRef<HTMLDivElement, EntryRowProps>(
-  ({ className, time, painChip, meta, onEdit, ...props }, ref) => {
+  ({ className, time, painChip, meta, onEdit, pendingSync, syncFailed, ...props }, ref) => {
     return (
       <div
         ref={ref}
@@ -31,6 +33,18 @@ const EntryRow = React.forwardRef<HTMLDivElement, EntryRowProps>(
           <div className="flex flex-wrap gap-1">
             {painChip}
           </div>
+          {pendingSync && (
+            <ChipPill colorScheme="warn" className="gap-1" title="Saved on this device, waiting to sync">
+              <CloudOff className="h-3 w-3" />
+              Pending sync
+            </ChipPill>
+          )}
+          {syncFailed && (
+            <ChipPill colorScheme="bad" className="gap-1" title="Rejected by the server; edit it to try again">
+              <AlertTriangle className="h-3 w-3" />
+              Not synced
+            </ChipPill>
+          )}
         </div>
 
         {/* Meta Column */}
@@ -1,12 +1,10 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
-import { X, Check } from "lucide-react";
-import { getSmartDefaults, GENERAL_BODY_AREAS } from "@/lib/conditionDetection";
+import { BodyMapSelector } from "@/components/BodyMapSelector";
+import { getSmartDefaults, type ConditionDefaults } from "@/lib/conditionDetection";
 
 interface PainLocationStepProps {
   diagnosis: string;
@@ -27,11 +25,8 @@ export const PainLocationStep = ({
 }: PainLocationStepProps) => {
   const [localPainLocations, setLocalPainLocations] = useState<string[]>(painLocations);
   const [localIsConsistent, setLocalIsConsistent] = useState(painIsConsistent);
-  const [smartDefaults, setSmartDefaults] = useState<any>(null);
+  const [smartDefaults, setSmartDefaults] = useState<Partial<ConditionDefaults> | null>(null);
   const [hasAppliedDefaults, setHasAppliedDefaults] = useState(false);
-  const [showOtherInput, setShowOtherInput] = useState(false);
-  const [otherLocation, setOtherLocation] = useState("");
-  const [customLocations, setCustomLocations] = useState<string[]>([]);
 
   // Apply smart defaults when diagnosis changes
   useEffect(() => {
@@ -46,36 +41,6 @@ export const PainLocationStep = ({
     }
   }, [diagnosis, hasAppliedDefaults, localPainLocations.length]);
 
-  // Get relevant body areas based on condition
-  const getRelevantBodyAreas = () => {
-    if (smartDefaults?.relevantBodyAreas) {
-      return smartDefaults.relevantBodyAreas;
-    }
-    return GENERAL_BODY_AREAS;
-  };
-
-  const toggleLocation = (location: string) => {
-    const updated = localPainLocations.includes(location)
-      ? localPainLocations.filter(l => l !== location)
-      : [...localPainLocations, location];
-    setLocalPainLocations(updated);
-  };
-
-  const addCustomLocation = () => {
-    if (otherLocation.trim() && !localPainLocations.includes(otherLocation.trim())) {
-      const newCustom = otherLocation.trim();
-      setLocalPainLocations([...localPainLocations, newCustom]);
-      setCustomLocations([...customLocations, newCustom]);
-      setOtherLocation("");
-      setShowOtherInput(false);
-    }
-  };
-
-  const removeCustomLocation = (location: string) => {
-    setLocalPainLocations(localPainLocations.filter(l => l !== location));
-    setCustomLocations(customLocations.filter(l => l !== location));
-  };
-
   const handleNext = () => {
     // Validation: Check if at least one pain location is selected
     if (localPainLocations.length === 0) {
@@ -103,82 +68,16 @@ export const PainLocationStep = ({
         <CardHeader>
           <CardTitle className="text-lg">Body Areas</CardTitle>
           <CardDescription>
-            Tap to select the areas where you experience pain
+            Tap the map to select the areas where you experience pain
             {smartDefaults && " (we've pre-selected common areas based on your condition)"}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-            {getRelevantBodyAreas().map((area) => {
-              const isSelected = localPainLocations.includes(area);
-              return (
-                <Badge
-                  key={area}
-                  variant={isSelected ? "default" : "outline"}
-                  className={`cursor-pointer p-3 text-center justify-center transition-all duration-200 ${
-                    isSelected 
-                      ? "bg-primary text-primary-foreground hover:bg-primary/90" 
-                      : "border-border hover:bg-accent hover:text-accent-foreground"
-                  }`}
-                  onClick={() => toggleLocation(area)}
-                >
-                  <span className="flex items-center gap-1">
-                    {isSelected && <Check className="h-3 w-3" />}
-                    {area}
-                  </span>
-                </Badge>
-              );
-            })}
-            
-            {/* Other option */}
-            {!showOtherInput ? (
-              <Badge
-                variant="outline"
-                className="cursor-pointer p-3 text-center justify-center hover:bg-primary/80 border-dashed"
-                onClick={() => setShowOtherInput(true)}
-              >
-                + Other
-              </Badge>
-            ) : (
-              <div className="col-span-2 flex gap-2">
-                <Input
-                  placeholder="Enter location..."
-                  value={otherLocation}
-                  onChange={(e) => setOtherLocation(e.target.value)}
-                  onKeyDown={(e) => e.key === 'Enter' && addCustomLocation()}
-                  className="flex-1"
-                  autoFocus
-                />
-                <Button size="sm" onClick={addCustomLocation} disabled={!otherLocation.trim()}>
-                  Add
-                </Button>
-                <Button size="sm" variant="outline" onClick={() => setShowOtherInput(false)}>
-                  Cancel
-                </Button>
-              </div>
-            )}
-          </div>
-
-          {/* Custom locations with remove option */}
-          {customLocations.length > 0 && (
-            <div className="mt-4 space-y-2">
-              <p className="text-sm text-muted-foreground">Custom locations:</p>
-              <div className="flex flex-wrap gap-2">
-                {customLocations.map((location) => (
-                  <Badge
-                    key={location}
-                    variant="secondary"
-                    className="cursor-pointer group"
-                    onClick={() => removeCustomLocation(location)}
-                  >
-                    {location}
-                    <X className="ml-1 h-3 w-3 opacity-50 group-hover:opacity-100" />
-                  </Badge>
-                ))}
-              </div>
-              <p className="text-xs text-muted-foreground">Click to remove custom locations</p>
-            </div>
-          )}
+          <BodyMapSelector
+            selected={localPainLocations}
+            onChange={setLocalPainLocations}
+            highlighted={smartDefaults?.relevantBodyAreas ?? []}
+          />
         </CardContent>
       </Card>
 
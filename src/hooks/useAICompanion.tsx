@@ -1,13 +1,48 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import type { Database } from '@/integrations/supabase/types';
+import type { Database, Json } from '@/integrations/supabase/types';
 
 // Use the exact database types
 type AIInsight = Database['public']['Tables']['ai_insights']['Row'];
 type AIPreferences = Database['public']['Tables']['user_ai_preferences']['Row'];
 type ConversationMessage = Database['public']['Tables']['ai_conversations']['Row'];
+type ConversationThread = Database['public']['Tables']['ai_conversation_threads']['Row'];
+
+export interface ConversationSearchResult {
+  conversationId: string;
+  messageId: string;
+  messageType: string;
+  snippet: string;
+  createdAt: string;
+}
+
+// A durable fact the companion learned from chat, stored in user_ai_preferences.learned_patterns
+export interface MemoryFact {
+  id: string;
+  text: string;
+  category: 'helps' | 'triggers' | 'preferences' | 'context';
+  created_at: string;
+  updated_at: string;
+  source_message_ids: string[];
+  edited_by_user?: boolean;
+}
+
+interface LearnedPatterns {
+  facts: MemoryFact[];
+  forgotten: string[];
+  [key: string]: unknown;
+}
+
+const readLearnedPatterns = (value: unknown): LearnedPatterns => {
+  const raw = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  return {
+    ...raw,
+    facts: Array.isArray(raw.facts) ? raw.facts as MemoryFact[] : [],
+    forgotten: Array.isArray(raw.forgotten) ? raw.forgotten as string[] : []
+  };
+};
 
 export function useAICompanion() {
   const { user } = useAuth();
@@ -16,6 +51,7 @@ export function useAICompanion() {
   const [insights, setInsights] = useState<AIInsight[]>([]);
   const [preferences, setPreferences] = useState<AIPreferences | null>(null);
   const [conversations, setConversations] = useState<{ [key: string]: ConversationMessage[] }>({});
+  const [threads, setThreads] = useState<ConversationThread[]>([]);
 
   // Fetch AI insights for the user
   const fetchInsights = async (limit = 10) => {
@@ -103,6 +139,36 @@ export function useAICompanion() {
     }
   };
 
+  // Ask the server to re-analyze recent pain logs, then reload the insight list
+  const generateInsights = async () => {
+    if (!user?.id) return false;
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase.functions.invoke('generate-insights', {
+        body: { timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+      });
+
+      if (error) {
+        console.error('Error generating AI insights:', error);
+        toast({
+          title: "Couldn't refresh insights",
+          description: "Please try again later.",
+          variant: "destructive"
+        });
+        return false;
+      }
+    } catch (error) {
+      console.error('Error in generateInsights:', error);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+
+    await fetchInsights();
+    return true;
+  };
+
   // Fetch or create user AI preferences
   const fetchPreferences = async () => {
     if (!user?.id) return null;
@@ -189,7 +255,69 @@ export function useAICompanion() {
     }
   };
 
-  // Fetch conversation history
+  // Read-modify-write learned_patterns against the latest row, since ai-chat also writes to it
+  const saveLearnedPatterns = async (change: (patterns: LearnedPatterns) => LearnedPatterns) => {
+    if (!user?.id) return false;
+
+    try {
+      const { data: current, error: readError } = await supabase
+        .from('user_ai_preferences')
+        .select('learned_patterns')
+        .eq('user_id', user.id)
+        .single();
+
+      if (readError) throw readError;
+
+      const { data, error } = await supabase
+        .from('user_ai_preferences')
+        .update({ learned_patterns: change(readLearnedPatterns(current.learned_patterns)) as unknown as Json })
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setPreferences(data);
+      return true;
+    } catch (error) {
+      console.error('Error saving remembered facts:', error);
+      toast({
+        title: "Couldn't update memory",
+        description: "Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // Correct a remembered fact; the companion won't overwrite it afterwards
+  const updateMemoryFact = async (factId: string, text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return false;
+
+    return saveLearnedPatterns(patterns => ({
+      ...patterns,
+      facts: patterns.facts.map(fact =>
+        fact.id === factId
+          ? { ...fact, text: trimmed, edited_by_user: true, updated_at: new Date().toISOString() }
+          : fact
+      )
+    }));
+  };
+
+  // Delete a remembered fact and keep the companion from learning it again
+  const forgetMemoryFact = async (factId: string) => {
+    return saveLearnedPatterns(patterns => {
+      const forgotten = patterns.facts.find(fact => fact.id === factId);
+      return {
+        ...patterns,
+        facts: patterns.facts.filter(fact => fact.id !== factId),
+        forgotten: forgotten ? [...patterns.forgotten, forgotten.text] : patterns.forgotten
+      };
+    });
+  };
+
+  // Fetch conversation history (the most recent `limit` messages, oldest first)
   const fetchConversationHistory = async (conversationId: string, limit = 50) => {
     if (!user?.id || !conversationId) return [];
 
@@ -199,7 +327,7 @@ export function useAICompanion() {
         .select('*')
         .eq('user_id', user.id)
         .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: true })
+        .order('created_at', { ascending: false })
         .limit(limit);
 
       if (error) {
@@ -207,13 +335,15 @@ export function useAICompanion() {
         return [];
       }
 
+      const messages = (data || []).reverse();
+
       // Update local state
       setConversations(prev => ({
         ...prev,
-        [conversationId]: data || []
+        [conversationId]: messages
       }));
 
-      return data || [];
+      return messages;
     } catch (error) {
       console.error('Error in fetchConversationHistory:', error);
       return [];
@@ -257,6 +387,128 @@ export function useAICompanion() {
     }
   };
 
+  // Fetch the thread list, most recently active first
+  const fetchThreads = useCallback(async (limit = 50) => {
+    if (!user?.id) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('ai_conversation_threads')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('last_message_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching conversation threads:', error);
+        return [];
+      }
+
+      setThreads(data || []);
+      return data || [];
+    } catch (error) {
+      console.error('Error in fetchThreads:', error);
+      return [];
+    }
+  }, [user?.id]);
+
+  // Rename a thread
+  const renameThread = async (conversationId: string, title: string) => {
+    const trimmed = title.trim();
+    if (!user?.id || !trimmed) return false;
+
+    try {
+      const { error } = await supabase
+        .from('ai_conversation_threads')
+        .update({ title: trimmed })
+        .eq('conversation_id', conversationId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error renaming conversation:', error);
+        toast({
+          title: "Couldn't rename conversation",
+          description: "Please try again.",
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      setThreads(prev => prev.map(thread =>
+        thread.conversation_id === conversationId ? { ...thread, title: trimmed } : thread
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error in renameThread:', error);
+      return false;
+    }
+  };
+
+  // Delete a thread; its messages are removed by a database trigger
+  const deleteThread = async (conversationId: string) => {
+    if (!user?.id) return false;
+
+    try {
+      const { error } = await supabase
+        .from('ai_conversation_threads')
+        .delete()
+        .eq('conversation_id', conversationId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting conversation:', error);
+        toast({
+          title: "Couldn't delete conversation",
+          description: "Please try again.",
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      setThreads(prev => prev.filter(thread => thread.conversation_id !== conversationId));
+      setConversations(prev => {
+        const next = { ...prev };
+        delete next[conversationId];
+        return next;
+      });
+      return true;
+    } catch (error) {
+      console.error('Error in deleteThread:', error);
+      return false;
+    }
+  };
+
+  // Full-text search across all of the user's messages
+  const searchConversations = useCallback(async (query: string, limit = 30): Promise<ConversationSearchResult[]> => {
+    if (!user?.id || !query.trim()) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('ai_conversations')
+        .select('id, conversation_id, message_type, content, created_at')
+        .eq('user_id', user.id)
+        .textSearch('content_search', query.trim(), { type: 'websearch', config: 'english' })
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error searching conversations:', error);
+        return [];
+      }
+
+      return (data || []).map(msg => ({
+        conversationId: msg.conversation_id,
+        messageId: msg.id,
+        messageType: msg.message_type,
+        snippet: msg.content.substring(0, 140) + (msg.content.length > 140 ? '...' : ''),
+        createdAt: msg.created_at
+      }));
+    } catch (error) {
+      console.error('Error in searchConversations:', error);
+      return [];
+    }
+  }, [user?.id]);
+
   // Load initial data when user changes
   useEffect(() => {
     if (user?.id) {
@@ -269,16 +521,25 @@ export function useAICompanion() {
     // State
     insights,
     preferences,
+    memoryFacts: readLearnedPatterns(preferences?.learned_patterns).facts,
     conversations,
+    threads,
     isLoading,
 
     // Actions
     fetchInsights,
     createInsight,
     dismissInsight,
+    generateInsights,
     fetchPreferences,
     updatePreferences,
+    updateMemoryFact,
+    forgetMemoryFact,
     fetchConversationHistory,
-    getRecentConversations
+    getRecentConversations,
+    fetchThreads,
+    renameThread,
+    deleteThread,
+    searchConversations
   };
 }
\ No newline at end of file
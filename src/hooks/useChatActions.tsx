@@ -0,0 +1,106 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { usePainLogs } from "@/hooks/usePainLogs";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { ChatAction } from "@/lib/aiChatStream";
+
+// Commit actions proposed by the AI companion once the user confirms them
+export function useChatActions() {
+  const { user } = useAuth();
+  const { savePainLogImmediate, updatePainLog } = usePainLogs();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const logPain = async (action: Extract<ChatAction, { tool: 'log_pain' }>) => {
+    const { args } = action;
+
+    // Same rule as a Today check-in: a new entry opens an episode if none is ongoing
+    const { data: activeSession, error: sessionLookupError } = await supabase
+      .from('pain_sessions')
+      .select('id')
+      .eq('user_id', user!.id)
+      .is('resolved_at', null)
+      .limit(1)
+      .maybeSingle();
+
+    if (sessionLookupError) {
+      console.error('Error checking active session:', sessionLookupError);
+    } else if (!activeSession) {
+      const { error: sessionError } = await supabase
+        .from('pain_sessions')
+        .insert({
+          user_id: user!.id,
+          start_level: args.pain_level,
+          ...(args.onset_at ? { started_at: args.onset_at } : {})
+        });
+
+      if (sessionError) console.error('Error creating session:', sessionError);
+    }
+
+    // Not the debounced save: confirming two proposals in quick succession must keep both
+    return savePainLogImmediate({
+      pain_level: args.pain_level,
+      pain_locations: args.pain_locations || [],
+      medications: args.medications || [],
+      triggers: args.triggers || [],
+      notes: args.notes
+    });
+  };
+
+  const resolveSession = async (action: Extract<ChatAction, { tool: 'resolve_session' }>) => {
+    if (!action.target?.id) return false;
+
+    const { error } = await supabase
+      .from('pain_sessions')
+      .update({ resolved_at: new Date().toISOString(), end_level: action.args.end_level })
+      .eq('id', action.target.id)
+      .eq('user_id', user!.id);
+
+    if (error) {
+      console.error('Error resolving session:', error);
+      toast({ description: "Failed to resolve session", variant: "destructive" });
+      return false;
+    }
+
+    toast({ description: "Session resolved successfully" });
+    return true;
+  };
+
+  const applyAction = async (action: ChatAction): Promise<boolean> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please sign in to save pain logs.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    try {
+      let success: boolean;
+      if (action.tool === 'log_pain') {
+        success = await logPain(action);
+      } else if (action.tool === 'update_last_entry') {
+        success = action.target?.id ? await updatePainLog(action.target.id, action.args) : false;
+      } else {
+        success = await resolveSession(action);
+      }
+
+      if (success) {
+        queryClient.invalidateQueries();
+      }
+      return success;
+    } catch (error) {
+      console.error('Error applying chat action:', error);
+      toast({
+        title: "Error",
+        description: "Couldn't save that change. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  return { applyAction };
+}
@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import { endOfDay, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useMedications } from "@/hooks/useMedications";
+import { medicationAdherence } from "@/lib/analytics";
+import { toScheduledMedication } from "@/lib/medications";
+
+/**
+ * Share of scheduled doses taken between two dates, from the reminder answers and
+ * any doses logged near the scheduled times.
+ */
+export function useMedicationAdherence(startDate: Date, endDate: Date, enabled = true) {
+  const { user } = useAuth();
+  const { medications } = useMedications();
+  const start = startOfDay(startDate);
+  const end = endOfDay(endDate);
+
+  const scheduled = medications.map(toScheduledMedication).filter(medication => medication.times.length > 0);
+
+  return useQuery({
+    queryKey: ["medication-adherence", user?.id, start.toISOString(), end.toISOString(), scheduled],
+    queryFn: async () => {
+      // Reminder answers by the time they were for; logged doses by when they were
+      // taken, with a margin since they can match a scheduled time just inside the range
+      const margin = 2 * 60 * 60 * 1000;
+      const loggedFrom = new Date(start.getTime() - margin).toISOString();
+      const loggedTo = new Date(end.getTime() + margin).toISOString();
+      const { data, error } = await supabase
+        .from("medication_doses")
+        .select("medication_id, taken_at, scheduled_for, status")
+        .eq("user_id", user!.id)
+        .or(
+          `and(scheduled_for.gte.${start.toISOString()},scheduled_for.lte.${end.toISOString()}),` +
+          `and(scheduled_for.is.null,taken_at.gte.${loggedFrom},taken_at.lte.${loggedTo})`
+        );
+
+      if (error) throw error;
+      return medicationAdherence(scheduled, data || [], start, end);
+    },
+    enabled: !!user?.id && enabled && scheduled.length > 0,
+  });
+}
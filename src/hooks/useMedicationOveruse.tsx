@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { endOfDay, format, startOfDay, subDays } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { medicationOveruse, type MedicationOveruseOptions } from "@/lib/analytics";
+import { fetchMedicationDoses } from "@/lib/medications";
+
+const WINDOW_DAYS = 30;
+
+/**
+ * Acute-medication days over the 30 days up to `asOf`, for the overuse warning.
+ */
+export function useMedicationOveruse(asOf: Date = new Date(), enabled = true, options: Omit<MedicationOveruseOptions, 'now' | 'windowDays'> = {}) {
+  const { user } = useAuth();
+  const day = format(asOf, 'yyyy-MM-dd');
+
+  return useQuery({
+    queryKey: ["medication-overuse", user?.id, day, options],
+    queryFn: async () => {
+      const end = endOfDay(asOf);
+      const start = startOfDay(subDays(asOf, WINDOW_DAYS - 1));
+      const doses = await fetchMedicationDoses(user!.id, start.toISOString(), end.toISOString());
+      return medicationOveruse(doses, { ...options, now: end, windowDays: WINDOW_DAYS });
+    },
+    enabled: !!user?.id && enabled,
+  });
+}
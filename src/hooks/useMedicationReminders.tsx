@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { endOfDay, format } from "date-fns";
+import { toast as sonnerToast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useMedications } from "@/hooks/useMedications";
+import { matchScheduledDoses, scheduledDoses, type ScheduledDose } from "@/lib/analytics";
+import { toScheduledMedication } from "@/lib/medications";
+import {
+  isReminderMessage,
+  markNotified,
+  notificationsSupported,
+  notifiedReminders,
+  registerReminderWorker,
+  reminderKey,
+  showDoseNotification,
+  snoozedReminders,
+  snoozeReminder,
+  SNOOZE_MINUTES,
+  type ReminderAction
+} from "@/lib/medicationReminders";
+
+// Doses due this long ago still get a reminder when the app opens
+const CATCH_UP_MS = 2 * 60 * 60 * 1000;
+
+const readNotificationPreferences = (value: Json | null | undefined) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, Json> : {};
+
+/**
+ * The medication_reminders flag in user_ai_preferences.notification_preferences,
+ * plus the browser's notification permission.
+ */
+export function useReminderPreference() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+
+  const preferencesQuery = useQuery({
+    queryKey: ["notification-preferences", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_ai_preferences")
+        .select("notification_preferences")
+        .eq("user_id", user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return readNotificationPreferences(data?.notification_preferences);
+    },
+    enabled: !!user?.id,
+  });
+
+  // Matches the column default: on unless turned off
+  const enabled = preferencesQuery.data?.medication_reminders !== false;
+
+  const setEnabled = async (value: boolean) => {
+    if (!user?.id) return;
+
+    if (value && notificationsSupported() && Notification.permission === 'default') {
+      setPermission(await Notification.requestPermission());
+    }
+
+    try {
+      const { error } = await supabase
+        .from("user_ai_preferences")
+        .upsert(
+          {
+            user_id: user.id,
+            notification_preferences: { ...preferencesQuery.data, medication_reminders: value },
+          },
+          { onConflict: "user_id" }
+        );
+
+      if (error) throw error;
+      await queryClient.invalidateQueries({ queryKey: ["notification-preferences", user.id] });
+    } catch (error) {
+      console.error('Error updating reminder preference:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update medication reminders",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return { enabled, setEnabled, permission, isLoading: preferencesQuery.isLoading };
+}
+
+/**
+ * Remind the user about scheduled doses while the app is open, and record what they
+ * answer. Mounted once in AppShell.
+ */
+export function useMedicationReminders() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { activeMedications } = useMedications();
+  const { enabled, permission } = useReminderPreference();
+  // Bumped to re-plan after a snooze, an answer or midnight
+  const [planVersion, setPlanVersion] = useState(0);
+  const replan = useCallback(() => setPlanVersion(version => version + 1), []);
+
+  const scheduled = useMemo(
+    () => activeMedications.map(toScheduledMedication).filter(medication => medication.times.length > 0),
+    [activeMedications]
+  );
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const responsesQuery = useQuery({
+    queryKey: ["medication-reminder-doses", user?.id, today],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("medication_doses")
+        .select("medication_id, taken_at, scheduled_for, status")
+        .eq("user_id", user!.id)
+        .gte("taken_at", new Date(Date.now() - CATCH_UP_MS - 2 * 60 * 60 * 1000).toISOString());
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id && enabled && scheduled.length > 0,
+  });
+
+  const recordResponse = useCallback(async (medicationId: string, scheduledFor: string, status: 'taken' | 'skipped') => {
+    if (!user?.id) return;
+
+    try {
+      const { error } = await supabase
+        .from("medication_doses")
+        .insert({
+          user_id: user.id,
+          medication_id: medicationId,
+          scheduled_for: scheduledFor,
+          status,
+          taken_at: new Date().toISOString(),
+        });
+
+      // Already answered, from another device or a second click
+      if (error && error.code !== '23505') throw error;
+      await queryClient.invalidateQueries({ queryKey: ["medication-reminder-doses", user.id] });
+    } catch (error) {
+      console.error('Error recording medication dose:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record your dose",
+        variant: "destructive"
+      });
+    }
+  }, [user?.id, queryClient, toast]);
+
+  const handleAction = useCallback((action: ReminderAction, medicationId: string, scheduledFor: string) => {
+    const medication = scheduled.find(med => med.id === medicationId);
+
+    if (action === 'taken' || action === 'skipped') {
+      recordResponse(medicationId, scheduledFor, action);
+      toast({ description: `${medication?.name ?? 'Dose'} marked as ${action === 'taken' ? 'taken' : 'skipped'}.` });
+    } else if (action === 'snooze') {
+      snoozeReminder(reminderKey(medicationId, scheduledFor));
+      replan();
+    } else if (medication) {
+      // Opened without choosing: ask in the app
+      sonnerToast(`Did you take ${medication.name}?`, {
+        description: `Scheduled for ${format(new Date(scheduledFor), 'h:mm a')}`,
+        duration: Infinity,
+        action: { label: "Taken", onClick: () => recordResponse(medicationId, scheduledFor, 'taken') },
+        cancel: { label: "Skip", onClick: () => recordResponse(medicationId, scheduledFor, 'skipped') },
+      });
+    }
+  }, [scheduled, recordResponse, replan, toast]);
+
+  // Clicks on notifications, relayed by the service worker
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const onMessage = (event: MessageEvent) => {
+      if (isReminderMessage(event.data)) {
+        handleAction(event.data.action, event.data.medicationId, event.data.scheduledFor);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, [handleAction]);
+
+  // A click that had to open the app arrives in the URL
+  useEffect(() => {
+    if (!user?.id || scheduled.length === 0) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const action = params.get('reminder') as ReminderAction | null;
+    const medicationId = params.get('medication');
+    const scheduledFor = params.get('scheduled');
+    if (!action || !medicationId || !scheduledFor) return;
+
+    ['reminder', 'medication', 'scheduled'].forEach(key => params.delete(key));
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    handleAction(action, medicationId, scheduledFor);
+  }, [user?.id, scheduled.length, handleAction]);
+
+  useEffect(() => {
+    if (enabled && permission === 'granted') registerReminderWorker();
+  }, [enabled, permission]);
+
+  // Plan today's remaining reminders
+  useEffect(() => {
+    if (!enabled || scheduled.length === 0 || !responsesQuery.data) return;
+
+    const now = new Date();
+    const due = scheduledDoses(scheduled, new Date(now.getTime() - CATCH_UP_MS), endOfDay(now));
+    const unanswered = matchScheduledDoses(due, responsesQuery.data)
+      .filter(({ outcome }) => outcome === 'missed')
+      .map(({ dose }) => dose);
+
+    const notified = notifiedReminders();
+    const snoozed = snoozedReminders();
+    const detailFor = (dose: ScheduledDose) => activeMedications.find(med => med.id === dose.medicationId)?.strength ?? null;
+
+    const remind = (dose: ScheduledDose) => {
+      const key = reminderKey(dose.medicationId, dose.scheduledFor);
+      markNotified(key);
+      const askInApp = () => handleAction('open', dose.medicationId, dose.scheduledFor.toISOString());
+
+      if (permission === 'granted') {
+        showDoseNotification(dose, detailFor(dose), askInApp).catch(error => {
+          console.error('Error showing medication reminder:', error);
+          askInApp();
+        });
+      } else {
+        askInApp();
+      }
+    };
+
+    const timers = unanswered.flatMap(dose => {
+      const key = reminderKey(dose.medicationId, dose.scheduledFor);
+      const fireAt = Math.max(dose.scheduledFor.getTime(), snoozed[key] ?? 0);
+      // Already shown, and not snoozed since
+      if (notified[key] && !(snoozed[key] && notified[key] < snoozed[key])) return [];
+      return [setTimeout(() => remind(dose), Math.max(fireAt - Date.now(), 0))];
+    });
+
+    // Pick up tomorrow's schedule after midnight
+    timers.push(setTimeout(replan, endOfDay(now).getTime() - now.getTime() + 1000));
+
+    return () => timers.forEach(clearTimeout);
+  }, [enabled, permission, scheduled, activeMedications, responsesQuery.data, planVersion, handleAction, replan]);
+
+  return { snoozeMinutes: SNOOZE_MINUTES };
+}
@@ -0,0 +1,117 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isActiveMedication, toMedication, type Medication, type MedicationSchedule } from "@/lib/medications";
+
+export interface MedicationInput {
+  name: string;
+  strength?: string | null;
+  form?: string | null;
+  schedule?: MedicationSchedule | null;
+  is_prn?: boolean;
+  started_on?: string | null;
+}
+
+export function useMedications() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const medicationsQuery = useQuery({
+    queryKey: ["medications", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("medications")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(toMedication);
+    },
+    enabled: !!user?.id,
+  });
+
+  const medications: Medication[] = medicationsQuery.data || [];
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["medications", user?.id] });
+
+  const addMedication = async (input: MedicationInput) => {
+    if (!user?.id || !input.name.trim()) return false;
+
+    try {
+      const { error } = await supabase.from("medications").insert({
+        user_id: user.id,
+        name: input.name.trim(),
+        strength: input.strength?.trim() || null,
+        form: input.form || null,
+        schedule: (input.schedule ?? null) as Json,
+        is_prn: input.is_prn ?? true,
+        started_on: input.started_on ?? format(new Date(), 'yyyy-MM-dd'),
+      });
+
+      if (error) {
+        // Unique per user, ignoring case
+        if (error.code === '23505') {
+          toast({
+            title: "Already in your list",
+            description: `${input.name.trim()} is already one of your medications.`,
+          });
+          return false;
+        }
+        throw error;
+      }
+
+      await refresh();
+      return true;
+    } catch (error) {
+      console.error('Error adding medication:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add medication",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const updateMedication = async (id: string, changes: Partial<MedicationInput> & { stopped_on?: string | null }) => {
+    try {
+      const { schedule, ...rest } = changes;
+      const { error } = await supabase
+        .from("medications")
+        .update(schedule === undefined ? rest : { ...rest, schedule: schedule as Json })
+        .eq("id", id);
+
+      if (error) throw error;
+      await refresh();
+      return true;
+    } catch (error) {
+      console.error('Error updating medication:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update medication",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // Stopping keeps the medication and its doses for history and analytics
+  const stopMedication = (id: string) => updateMedication(id, { stopped_on: format(new Date(), 'yyyy-MM-dd') });
+
+  const resumeMedication = (id: string) => updateMedication(id, { stopped_on: null });
+
+  return {
+    medications,
+    activeMedications: medications.filter(medication => isActiveMedication(medication)),
+    isLoading: medicationsQuery.isLoading,
+    addMedication,
+    updateMedication,
+    stopMedication,
+    resumeMedication,
+  };
+}
@@ -0,0 +1,74 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { DN4_INSTRUMENT, scoreDn4, type Dn4Answers } from "@/lib/neuropathicScreening";
+
+// Enough history to see how answers change over a few months
+const HISTORY_LIMIT = 10;
+
+/**
+ * The user's DN4 screenings, newest first, and a way to save a new one.
+ */
+export function useNeuropathicScreening(enabled = true) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const screeningsQuery = useQuery({
+    queryKey: ["questionnaire-responses", user?.id, DN4_INSTRUMENT],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("questionnaire_responses")
+        .select("*")
+        .eq("user_id", user!.id)
+        .eq("instrument", DN4_INSTRUMENT)
+        .order("completed_at", { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id && enabled,
+  });
+
+  const saveScreening = async (answers: Dn4Answers) => {
+    if (!user?.id) return false;
+
+    const { score, complete } = scoreDn4(answers);
+    if (!complete) return false;
+
+    try {
+      const { error } = await supabase
+        .from("questionnaire_responses")
+        .insert({
+          user_id: user.id,
+          instrument: DN4_INSTRUMENT,
+          answers,
+          score,
+        });
+
+      if (error) throw error;
+      await queryClient.invalidateQueries({ queryKey: ["questionnaire-responses", user.id, DN4_INSTRUMENT] });
+      toast({ description: "Screening saved. It will appear in your doctor summary." });
+      return true;
+    } catch (error) {
+      console.error('Error saving screening:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save screening",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const screenings = screeningsQuery.data || [];
+
+  return {
+    screenings,
+    latest: screenings[0] ?? null,
+    isLoading: screeningsQuery.isLoading,
+    saveScreening,
+  };
+}
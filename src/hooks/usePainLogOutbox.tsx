@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  discardOutboxEntry,
+  flushOutbox,
+  getOutboxEntries,
+  retryOutboxEntry,
+  subscribeToOutbox,
+  type OutboxEntry,
+} from "@/lib/painLogOutbox";
+
+// Observe queued pain log writes for the signed-in user
+export function usePainLogOutbox() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const data = await getOutboxEntries(user.id);
+        if (!cancelled) setEntries(data);
+      } catch (error) {
+        console.error('Error reading offline outbox:', error);
+      }
+    };
+
+    load();
+    const unsubscribe = subscribeToOutbox((event) => {
+      if (event.type === 'synced') {
+        setLastSyncedAt(Date.now());
+      }
+      load();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user?.id]);
+
+  // Rejected writes stay in the outbox until the user edits, retries or discards them
+  const waitingEntries = useMemo(() => entries.filter(entry => !entry.rejectedAt), [entries]);
+  const rejectedEntries = useMemo(() => entries.filter(entry => entry.rejectedAt), [entries]);
+  const pendingLogIds = useMemo(() => new Set(waitingEntries.map(entry => entry.logId)), [waitingEntries]);
+  const rejectedLogIds = useMemo(() => new Set(rejectedEntries.map(entry => entry.logId)), [rejectedEntries]);
+
+  const flush = useCallback(async () => {
+    if (!user?.id) return null;
+    return flushOutbox(user.id, { force: true });
+  }, [user?.id]);
+
+  // Send a rejected write again as it is
+  const retry = useCallback(async (entryId: string) => {
+    if (!user?.id) return null;
+    await retryOutboxEntry(user.id, entryId);
+    return flushOutbox(user.id, { force: true });
+  }, [user?.id]);
+
+  const discard = useCallback(async (entryId: string) => {
+    if (!user?.id) return;
+    await discardOutboxEntry(user.id, entryId);
+  }, [user?.id]);
+
+  return {
+    pendingEntries: entries,
+    pendingLogIds,
+    pendingCount: waitingEntries.length,
+    waitingEntries,
+    rejectedEntries,
+    rejectedLogIds,
+    lastSyncedAt,
+    flush,
+    retry,
+    discard,
+  };
+}
+
+// Background replay of the outbox: on load, when connectivity returns and on backoff timers
+export function usePainLogOutboxSync() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { waitingEntries } = usePainLogOutbox();
+
+  useEffect(() => {
+    return subscribeToOutbox((event) => {
+      if (event.type === 'synced') {
+        queryClient.invalidateQueries();
+      } else if (event.type === 'rejected') {
+        toast({
+          title: "Couldn't sync a pain log",
+          description: "An entry saved while offline was rejected by the server. It's kept in Records so you can edit or retry it.",
+          variant: "destructive"
+        });
+      }
+    });
+  }, [queryClient, toast]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const handleOnline = () => {
+      flushOutbox(user.id, { force: true }).catch(error => {
+        console.error('Error syncing offline pain logs:', error);
+      });
+    };
+
+    // Writes refused with 401/403 wait for a fresh session
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'TOKEN_REFRESHED' || event === 'SIGNED_IN') handleOnline();
+    });
+
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      subscription.unsubscribe();
+    };
+  }, [user?.id]);
+
+  // Wake up when the earliest entry's backoff expires
+  const nextAttemptAt = waitingEntries.length > 0 ? waitingEntries[0].nextAttemptAt : null;
+
+  useEffect(() => {
+    if (!user?.id || nextAttemptAt === null) return;
+
+    const timeout = setTimeout(() => {
+      if (!navigator.onLine) return;
+      flushOutbox(user.id).catch(error => {
+        console.error('Error syncing offline pain logs:', error);
+      });
+    }, Math.max(nextAttemptAt - Date.now(), 0));
+
+    return () => clearTimeout(timeout);
+  }, [user?.id, nextAttemptAt]);
+}
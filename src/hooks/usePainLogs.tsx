@@ -2,10 +2,16 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { enqueuePainLogOperation, flushOutbox } from "@/lib/painLogOutbox";
+import { normalizePainLogTerms } from "@/lib/vocabulary";
 
 interface PainLogData {
   pain_level: number;
   pain_locations: string[];
+  // Pain 0–10 per location, when they differ
+  location_intensities?: Record<string, number> | null;
+  // Ids from PAIN_QUALITIES: burning, stabbing, ...
+  pain_qualities?: string[];
   triggers?: string[];
   medications?: any[];
   notes?: string;
@@ -35,13 +41,31 @@ export function usePainLogs() {
       }
 
       debounceTimeoutRef.current = setTimeout(async () => {
-        const result = await savePainLogImmediate(painData);
+        const result = await saveImmediateRef.current(painData);
         resolve(result);
       }, 800); // 800ms debounce
     });
   }, []);
 
-  const savePainLogImmediate = async (painData: PainLogData) => {
+  // Queue a write in the offline outbox and try to sync it right away.
+  // Resolves to 'synced', 'queued' (kept locally for background sync) or 'rejected'.
+  const queueAndSync = async (
+    op: 'insert' | 'update' | 'delete',
+    logId: string,
+    payload: Record<string, unknown> | null = null
+  ) => {
+    const entry = await enqueuePainLogOperation(op, user!.id, logId, payload);
+    if (!entry) return 'synced' as const;
+
+    const result = await flushOutbox(user!.id, { force: navigator.onLine });
+    if (result.synced.includes(entry.id)) return 'synced' as const;
+    if (result.rejected.includes(entry.id)) return 'rejected' as const;
+    return 'queued' as const;
+  };
+
+  const savePainLogImmediate = async (entry: PainLogData) => {
+    // Synonyms become canonical names here, so the entry syncs as it will be stored
+    const painData = normalizePainLogTerms(entry);
     if (!user?.id) {
       toast({
         title: "Authentication required",
@@ -62,40 +86,51 @@ export function usePainLogs() {
     setIsLoading(true);
     
     try {
-      const { error } = await supabase
-        .from('pain_logs')
-        .insert({
-          user_id: user.id,
-          pain_level: painData.pain_level,
-          pain_locations: painData.pain_locations,
-          triggers: painData.triggers || [],
-          medications: painData.medications || [],
-          notes: painData.notes || '',
-          mood: painData.mood,
-          activity: painData.activity,
-          weather: painData.weather,
-          pain_strategies: painData.pain_strategies || [],
-          journal_entry: painData.journal_entry,
-          functional_impact: painData.functional_impact,
-          impact_tags: painData.impact_tags || [],
-          rx_taken: painData.rx_taken,
-          side_effects: painData.side_effects,
-          logged_at: new Date().toISOString()
-        });
+      // Client-generated ID keeps replays idempotent
+      const logId = crypto.randomUUID();
+      const status = await queueAndSync('insert', logId, {
+        id: logId,
+        user_id: user.id,
+        pain_level: painData.pain_level,
+        pain_locations: painData.pain_locations,
+        location_intensities: painData.location_intensities ?? null,
+        pain_qualities: painData.pain_qualities || [],
+        triggers: painData.triggers || [],
+        medications: painData.medications || [],
+        notes: painData.notes || '',
+        mood: painData.mood,
+        activity: painData.activity,
+        weather: painData.weather,
+        pain_strategies: painData.pain_strategies || [],
+        journal_entry: painData.journal_entry,
+        functional_impact: painData.functional_impact,
+        impact_tags: painData.impact_tags || [],
+        rx_taken: painData.rx_taken,
+        side_effects: painData.side_effects,
+        logged_at: new Date().toISOString()
+      });
 
-      if (error) {
-        console.error('Error saving pain log:', error);
+      if (status === 'rejected') {
         toast({
           title: "Error saving pain log",
-          description: "There was an issue saving your pain data. Please try again.",
+          description: "The server didn't accept this entry. It's kept in Records so you can edit or retry it.",
           variant: "destructive"
         });
         return false;
       }
 
+      if (status === 'queued') {
+        toast({
+          title: "Saved offline",
+          description: "Your pain log is stored on this device and will sync when you're back online.",
+        });
+        return true;
+      }
+
+      const locationText = painData.pain_locations?.length > 0 ? ` in ${painData.pain_locations.join(', ')}` : '';
       toast({
         title: "Pain log saved",
-        description: `Recorded pain level ${painData.pain_level} in ${painData.pain_locations.join(', ')}`,
+        description: `Recorded pain level ${painData.pain_level}${locationText}`,
       });
       return true;
     } catch (error) {
@@ -112,6 +147,10 @@ export function usePainLogs() {
     }
   };
 
+  // The debounced callback is created once, so route it through a ref to see the current user
+  const saveImmediateRef = useRef(savePainLogImmediate);
+  saveImmediateRef.current = savePainLogImmediate;
+
   const savePainLog = debouncedSavePainLog;
 
   const getPainLogs = async (startDate?: string, endDate?: string) => {
@@ -156,17 +195,12 @@ export function usePainLogs() {
 
     setIsLoading(true);
     try {
-      const { error } = await supabase
-        .from('pain_logs')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', logId)
-        .eq('user_id', user.id);
+      const status = await queueAndSync('update', logId, {
+        ...normalizePainLogTerms(updates),
+        updated_at: new Date().toISOString()
+      });
 
-      if (error) {
-        console.error('Error updating pain log:', error);
+      if (status === 'rejected') {
         toast({
           title: "Error updating pain log",
           description: "There was an issue updating your pain data.",
@@ -177,7 +211,9 @@ export function usePainLogs() {
 
       toast({
         title: "Pain log updated",
-        description: "Your pain log has been successfully updated.",
+        description: status === 'queued'
+          ? "Your change is saved on this device and will sync when you're back online."
+          : "Your pain log has been successfully updated.",
       });
       return true;
     } catch (error) {
@@ -193,14 +229,9 @@ export function usePainLogs() {
 
     setIsLoading(true);
     try {
-      const { error } = await supabase
-        .from('pain_logs')
-        .delete()
-        .eq('id', logId)
-        .eq('user_id', user.id);
+      const status = await queueAndSync('delete', logId);
 
-      if (error) {
-        console.error('Error deleting pain log:', error);
+      if (status === 'rejected') {
         toast({
           title: "Error deleting pain log",
           description: "There was an issue deleting your pain data.",
@@ -211,7 +242,9 @@ export function usePainLogs() {
 
       toast({
         title: "Pain log deleted",
-        description: "Your pain log has been successfully deleted.",
+        description: status === 'queued'
+          ? "The deletion will sync when you're back online."
+          : "Your pain log has been successfully deleted.",
       });
       return true;
     } catch (error) {
@@ -224,6 +257,8 @@ export function usePainLogs() {
 
   return {
     savePainLog,
+    // Bypasses the debounce
+    savePainLogImmediate,
     getPainLogs,
     getTodaysPainLogs,
     updatePainLog,
@@ -0,0 +1,143 @@
+import { useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  dueQuestionnaires,
+  getQuestionnaire,
+  QUESTIONNAIRE_IDS,
+  scoreQuestionnaire,
+  type QuestionnaireAnswers,
+  type QuestionnaireResponse
+} from "@/lib/questionnaires";
+
+// A few years of monthly questionnaires across every instrument
+const HISTORY_LIMIT = 200;
+
+/**
+ * Completed questionnaires (oldest first), schedules and which are due now.
+ */
+export function useQuestionnaires(enabled = true) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const responsesQuery = useQuery({
+    queryKey: ["questionnaire-responses", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("questionnaire_responses")
+        .select("*")
+        .eq("user_id", user!.id)
+        .in("instrument", QUESTIONNAIRE_IDS)
+        .order("completed_at", { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      return (data || [])
+        .map((row): QuestionnaireResponse & { id: string } => ({
+          id: row.id,
+          instrument: row.instrument,
+          scores: (row.scores ?? {}) as Record<string, number | null>,
+          completed_at: row.completed_at,
+        }))
+        .reverse();
+    },
+    enabled: !!user?.id && enabled,
+  });
+
+  const schedulesQuery = useQuery({
+    queryKey: ["questionnaire-schedules", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("questionnaire_schedules")
+        .select("*")
+        .eq("user_id", user!.id);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id && enabled,
+  });
+
+  const responses = useMemo(() => responsesQuery.data || [], [responsesQuery.data]);
+  const schedules = useMemo(() => schedulesQuery.data || [], [schedulesQuery.data]);
+  const due = useMemo(() => dueQuestionnaires(schedules, responses), [schedules, responses]);
+
+  const saveResponse = async (instrument: string, answers: QuestionnaireAnswers) => {
+    const definition = getQuestionnaire(instrument);
+    if (!user?.id || !definition) return false;
+
+    const { scores, primary, complete } = scoreQuestionnaire(definition, answers);
+    if (!complete || primary === null) return false;
+
+    try {
+      const { error } = await supabase
+        .from("questionnaire_responses")
+        .insert({
+          user_id: user.id,
+          instrument,
+          answers,
+          score: primary,
+          scores,
+        });
+
+      if (error) throw error;
+      await queryClient.invalidateQueries({ queryKey: ["questionnaire-responses", user.id] });
+      toast({ description: `${definition.shortName} saved. It will appear in your doctor summary.` });
+      return true;
+    } catch (error) {
+      console.error('Error saving questionnaire:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save questionnaire",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Repeat a questionnaire every intervalDays, or stop repeating it with null.
+   */
+  const setSchedule = async (instrument: string, intervalDays: number | null) => {
+    if (!user?.id) return false;
+
+    try {
+      const { error } = intervalDays === null
+        ? await supabase
+          .from("questionnaire_schedules")
+          .delete()
+          .eq("user_id", user.id)
+          .eq("instrument", instrument)
+        : await supabase
+          .from("questionnaire_schedules")
+          .upsert(
+            { user_id: user.id, instrument, interval_days: intervalDays },
+            { onConflict: "user_id,instrument" }
+          );
+
+      if (error) throw error;
+      await queryClient.invalidateQueries({ queryKey: ["questionnaire-schedules", user.id] });
+      return true;
+    } catch (error) {
+      console.error('Error updating questionnaire schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update schedule",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  return {
+    responses,
+    schedules,
+    due,
+    isLoading: responsesQuery.isLoading || schedulesQuery.isLoading,
+    saveResponse,
+    setSchedule,
+  };
+}
@@ -0,0 +1,124 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { ReportSectionKey } from "@/lib/clinicianReport";
+import { generateShareToken, hashShareToken, shareLinkUrl } from "@/lib/shareLinks";
+
+export interface ShareLinkInput {
+  label?: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  sections: ReportSectionKey[];
+  expiresInHours: number;
+  maxViews?: number | null;
+}
+
+// Recent accesses across all links, newest first
+const ACCESS_LOG_LIMIT = 50;
+
+export function useShareLinks(enabled = true) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const linksQuery = useQuery({
+    queryKey: ["share-links", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("share_links")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id && enabled,
+  });
+
+  const accessQuery = useQuery({
+    queryKey: ["share-link-access", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("share_link_access_log")
+        .select("*")
+        .eq("user_id", user!.id)
+        .order("accessed_at", { ascending: false })
+        .limit(ACCESS_LOG_LIMIT);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id && enabled,
+  });
+
+  const refresh = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ["share-links", user?.id] }),
+    queryClient.invalidateQueries({ queryKey: ["share-link-access", user?.id] }),
+  ]);
+
+  /**
+   * Create a link and return its URL. Only the token's hash is stored, so this is
+   * the one time the URL is available.
+   */
+  const createShareLink = async (input: ShareLinkInput): Promise<string | null> => {
+    if (!user?.id) return null;
+
+    try {
+      const token = generateShareToken();
+      const { error } = await supabase
+        .from("share_links")
+        .insert({
+          user_id: user.id,
+          token_hash: await hashShareToken(token),
+          label: input.label?.trim() || null,
+          range_start: input.rangeStart.toISOString(),
+          range_end: input.rangeEnd.toISOString(),
+          sections: input.sections,
+          expires_at: new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000).toISOString(),
+          max_views: input.maxViews || null,
+        });
+
+      if (error) throw error;
+      await refresh();
+      return shareLinkUrl(token);
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create share link",
+        variant: "destructive"
+      });
+      return null;
+    }
+  };
+
+  const revokeShareLink = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from("share_links")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) throw error;
+      await refresh();
+      toast({ description: "Link revoked. It can no longer be opened." });
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke share link",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return {
+    links: linksQuery.data || [],
+    accessLog: accessQuery.data || [],
+    isLoading: linksQuery.isLoading,
+    createShareLink,
+    revokeShareLink,
+  };
+}
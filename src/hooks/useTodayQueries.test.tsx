@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import type { ReactNode } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useTodayQueries } from './useTodayQueries';
+
+const db = vi.hoisted(() => ({ diagnosis: null as string | null }));
+
+vi.mock('@/integrations/supabase/client', () => {
+  const query = (table: string) => {
+    const result = table === 'profiles'
+      ? { data: { id: 'user-1', diagnosis: db.diagnosis }, error: null }
+      : { data: [], error: null };
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      gte: () => builder,
+      lt: () => builder,
+      is: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      single: async () => result,
+      then: (resolve: (value: typeof result) => unknown) => Promise.resolve(result).then(resolve),
+    };
+    return builder;
+  };
+  return { supabase: { from: query } };
+});
+
+vi.mock('@/hooks/useAuth', () => ({ useAuth: () => ({ user: { id: 'user-1' } }) }));
+
+const fetchMedicationDoses = vi.hoisted(() => vi.fn(async () => []));
+vi.mock('@/lib/medications', () => ({ fetchMedicationDoses }));
+
+function wrapper({ children }: { children: ReactNode }) {
+  const client = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return <QueryClientProvider client={client}>{children}</QueryClientProvider>;
+}
+
+describe('useTodayQueries', () => {
+  beforeEach(() => {
+    fetchMedicationDoses.mockClear();
+  });
+
+  it('never loads medication overuse for a non-headache diagnosis, even on refetch', async () => {
+    db.diagnosis = 'Chronic low back pain';
+    const { result } = renderHook(() => useTodayQueries(), { wrapper });
+    await waitFor(() => expect(result.current.profile?.diagnosis).toBe('Chronic low back pain'));
+
+    await act(async () => {
+      result.current.refetchAll();
+    });
+
+    expect(fetchMedicationDoses).not.toHaveBeenCalled();
+    expect(result.current.medicationOveruse).toBeUndefined();
+  });
+
+  it('loads and refetches medication overuse for a headache diagnosis', async () => {
+    db.diagnosis = 'Chronic migraine';
+    const { result } = renderHook(() => useTodayQueries(), { wrapper });
+    await waitFor(() => expect(result.current.medicationOveruse?.level).toBe('ok'));
+    expect(fetchMedicationDoses).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      result.current.refetchAll();
+    });
+
+    await waitFor(() => expect(fetchMedicationDoses).toHaveBeenCalledTimes(2));
+  });
+});
@@ -1,6 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useMedicationOveruse } from "@/hooks/useMedicationOveruse";
+import { isHeadacheCondition } from "@/lib/conditionDetection";
 
 export const useTodayQueries = () => {
   const { user } = useAuth();
@@ -11,7 +13,7 @@ export const useTodayQueries = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("pain_logs")
-        .select("id, logged_at, pain_level, activity, notes, medications, functional_impact, impact_tags, rx_taken, side_effects")
+        .select("id, logged_at, pain_level, pain_qualities, activity, notes, medications, functional_impact, impact_tags, rx_taken, side_effects")
         .eq("user_id", user!.id)
         .gte("logged_at", new Date().toISOString().split('T')[0])
         .lt("logged_at", new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0])
@@ -29,7 +31,7 @@ export const useTodayQueries = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("pain_logs")
-        .select("id, logged_at, pain_level, activity, notes, medications, functional_impact, impact_tags, rx_taken, side_effects")
+        .select("id, logged_at, pain_level, pain_qualities, activity, notes, medications, functional_impact, impact_tags, rx_taken, side_effects")
         .eq("user_id", user!.id)
         .gte("logged_at", new Date().toISOString().split('T')[0])
         .lt("logged_at", new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0])
@@ -93,12 +95,18 @@ export const useTodayQueries = () => {
     enabled: !!user?.id,
   });
 
+  // Q_MedicationOveruse, only meaningful for headache conditions
+  const isHeadache = isHeadacheCondition(profile.data?.diagnosis);
+  const medicationOveruse = useMedicationOveruse(new Date(), isHeadache);
+
   const refetchAll = () => {
     todayLogs.refetch();
     last3Logs.refetch();
     activeSession.refetch();
     lastLog.refetch();
     profile.refetch();
+    // refetch() runs even a disabled query
+    if (isHeadache) medicationOveruse.refetch();
   };
 
   return {
@@ -107,6 +115,8 @@ export const useTodayQueries = () => {
     activeSession: activeSession.data,
     lastLog: lastLog.data,
     profile: profile.data,
+    // Cached data stays behind when the diagnosis changes, so gate it here too
+    medicationOveruse: isHeadache ? medicationOveruse.data : undefined,
     isLoading: todayLogs.isLoading || last3Logs.isLoading || activeSession.isLoading || lastLog.isLoading || profile.isLoading,
     refetchAll,
   };
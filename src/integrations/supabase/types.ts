@@ -14,9 +14,49 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_conversation_threads: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          last_message: string | null
+          last_message_at: string
+          summarized_through: string | null
+          summary: string | null
+          summary_updated_at: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          last_message?: string | null
+          last_message_at?: string
+          summarized_through?: string | null
+          summary?: string | null
+          summary_updated_at?: string | null
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          last_message?: string | null
+          last_message_at?: string
+          summarized_through?: string | null
+          summary?: string | null
+          summary_updated_at?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       ai_conversations: {
         Row: {
           content: string
+          content_search: unknown | null
           conversation_id: string
           created_at: string
           id: string
@@ -53,6 +93,7 @@ export type Database = {
           created_at: string
           data_sources: Json | null
           description: string
+          fingerprint: string | null
           id: string
           insight_type: string
           is_dismissed: boolean | null
@@ -66,6 +107,7 @@ export type Database = {
           created_at?: string
           data_sources?: Json | null
           description: string
+          fingerprint?: string | null
           id?: string
           insight_type: string
           is_dismissed?: boolean | null
@@ -79,6 +121,7 @@ export type Database = {
           created_at?: string
           data_sources?: Json | null
           description?: string
+          fingerprint?: string | null
           id?: string
           insight_type?: string
           is_dismissed?: boolean | null
@@ -89,6 +132,96 @@ export type Database = {
         }
         Relationships: []
       }
+      medication_doses: {
+        Row: {
+          created_at: string
+          id: string
+          medication_id: string
+          pain_log_id: string | null
+          scheduled_for: string | null
+          status: string
+          taken_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          medication_id: string
+          pain_log_id?: string | null
+          scheduled_for?: string | null
+          status?: string
+          taken_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          medication_id?: string
+          pain_log_id?: string | null
+          scheduled_for?: string | null
+          status?: string
+          taken_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medication_doses_medication_id_fkey"
+            columns: ["medication_id"]
+            isOneToOne: false
+            referencedRelation: "medications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medication_doses_pain_log_id_fkey"
+            columns: ["pain_log_id"]
+            isOneToOne: false
+            referencedRelation: "pain_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medications: {
+        Row: {
+          created_at: string
+          form: string | null
+          id: string
+          is_prn: boolean
+          name: string
+          schedule: Json | null
+          started_on: string | null
+          stopped_on: string | null
+          strength: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          form?: string | null
+          id?: string
+          is_prn?: boolean
+          name: string
+          schedule?: Json | null
+          started_on?: string | null
+          stopped_on?: string | null
+          strength?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          form?: string | null
+          id?: string
+          is_prn?: boolean
+          name?: string
+          schedule?: Json | null
+          started_on?: string | null
+          stopped_on?: string | null
+          strength?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       pain_logs: {
         Row: {
           activity: string | null
@@ -97,12 +230,14 @@ export type Database = {
           id: string
           impact_tags: string[] | null
           journal_entry: string | null
+          location_intensities: Json | null
           logged_at: string
           medications: string[] | null
           mood: string | null
           notes: string | null
           pain_level: number
           pain_locations: string[] | null
+          pain_qualities: string[]
           pain_strategies: string[] | null
           rx_taken: boolean | null
           side_effects: string | null
@@ -119,12 +254,14 @@ export type Database = {
           id?: string
           impact_tags?: string[] | null
           journal_entry?: string | null
+          location_intensities?: Json | null
           logged_at?: string
           medications?: string[] | null
           mood?: string | null
           notes?: string | null
           pain_level: number
           pain_locations?: string[] | null
+          pain_qualities?: string[]
           pain_strategies?: string[] | null
           rx_taken?: boolean | null
           side_effects?: string | null
@@ -141,12 +278,14 @@ export type Database = {
           id?: string
           impact_tags?: string[] | null
           journal_entry?: string | null
+          location_intensities?: Json | null
           logged_at?: string
           medications?: string[] | null
           mood?: string | null
           notes?: string | null
           pain_level?: number
           pain_locations?: string[] | null
+          pain_qualities?: string[]
           pain_strategies?: string[] | null
           rx_taken?: boolean | null
           side_effects?: string | null
@@ -227,6 +366,152 @@ export type Database = {
         }
         Relationships: []
       }
+      questionnaire_responses: {
+        Row: {
+          answers: Json
+          completed_at: string
+          created_at: string
+          id: string
+          instrument: string
+          score: number
+          scores: Json
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          completed_at?: string
+          created_at?: string
+          id?: string
+          instrument: string
+          score: number
+          scores?: Json
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          completed_at?: string
+          created_at?: string
+          id?: string
+          instrument?: string
+          score?: number
+          scores?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      questionnaire_schedules: {
+        Row: {
+          created_at: string
+          id: string
+          instrument: string
+          interval_days: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          instrument: string
+          interval_days: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          instrument?: string
+          interval_days?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      share_link_access_log: {
+        Row: {
+          accessed_at: string
+          id: string
+          outcome: string
+          share_link_id: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          accessed_at?: string
+          id?: string
+          outcome: string
+          share_link_id: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          accessed_at?: string
+          id?: string
+          outcome?: string
+          share_link_id?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_link_access_log_share_link_id_fkey"
+            columns: ["share_link_id"]
+            isOneToOne: false
+            referencedRelation: "share_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          label: string | null
+          last_viewed_at: string | null
+          max_views: number | null
+          range_end: string
+          range_start: string
+          revoked_at: string | null
+          sections: string[]
+          token_hash: string
+          updated_at: string
+          user_id: string
+          view_count: number
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          label?: string | null
+          last_viewed_at?: string | null
+          max_views?: number | null
+          range_end: string
+          range_start: string
+          revoked_at?: string | null
+          sections?: string[]
+          token_hash: string
+          updated_at?: string
+          user_id: string
+          view_count?: number
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          label?: string | null
+          last_viewed_at?: string | null
+          max_views?: number | null
+          range_end?: string
+          range_start?: string
+          revoked_at?: string | null
+          sections?: string[]
+          token_hash?: string
+          updated_at?: string
+          user_id?: string
+          view_count?: number
+        }
+        Relationships: []
+      }
       user_ai_preferences: {
         Row: {
           ai_personality: string | null
@@ -237,6 +522,7 @@ export type Database = {
           learned_patterns: Json | null
           notification_preferences: Json | null
           preferred_communication_style: string | null
+          preferred_model: string | null
           updated_at: string
           user_id: string
         }
@@ -249,6 +535,7 @@ export type Database = {
           learned_patterns?: Json | null
           notification_preferences?: Json | null
           preferred_communication_style?: string | null
+          preferred_model?: string | null
           updated_at?: string
           user_id: string
         }
@@ -261,6 +548,7 @@ export type Database = {
           learned_patterns?: Json | null
           notification_preferences?: Json | null
           preferred_communication_style?: string | null
+          preferred_model?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -271,7 +559,26 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      canonical_pain_locations: {
+        Args: { p_locations: string[] }
+        Returns: string[]
+      }
+      canonical_terms: {
+        Args: { p_kind: string; p_values: string[] }
+        Returns: string[]
+      }
+      delete_user_data: {
+        Args: { p_user_id: string }
+        Returns: Json
+      }
+      get_shared_summary: {
+        Args: { p_token: string; p_user_agent?: string }
+        Returns: Json
+      }
+      recently_active_user_ids: {
+        Args: { p_since: string; p_after?: string; p_limit?: number }
+        Returns: string[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,119 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface AIChatMetadata {
+  suggestions?: string[];
+  insights?: string[];
+  conversationId?: string;
+}
+
+export interface ChatPainEntryArgs {
+  pain_level?: number;
+  pain_locations?: string[];
+  medications?: string[];
+  triggers?: string[];
+  notes?: string;
+}
+
+/**
+ * A write the companion proposed through a tool call. Arguments are validated
+ * server-side; nothing is saved until the user confirms it.
+ */
+export type ChatAction = {
+  id: string;
+  target?: { id: string; logged_at?: string; started_at?: string; pain_level?: number };
+} & (
+  | { tool: 'log_pain'; args: ChatPainEntryArgs & { pain_level: number; onset_at?: string } }
+  | { tool: 'update_last_entry'; args: ChatPainEntryArgs }
+  | { tool: 'resolve_session'; args: { end_level: number } }
+);
+
+/**
+ * Emergency guidance from the server-side red-flag checks. Shown as a card the
+ * user can't dismiss, whatever the model's reply says.
+ */
+export interface ChatEscalation {
+  level: 'emergency' | 'crisis' | 'urgent';
+  title: string;
+  guidance: string[];
+  contacts: Array<{ label: string; value: string }>;
+  flags: Array<{ code: string; label: string; evidence: string; source: 'message' | 'pain_logs' | 'proposed_entry' }>;
+}
+
+export type AIChatStreamEvent =
+  | { type: 'start'; conversationId: string }
+  | { type: 'token'; content: string }
+  | { type: 'action'; action: ChatAction }
+  | { type: 'escalation'; escalation: ChatEscalation }
+  | ({ type: 'done' } & AIChatMetadata)
+  | { type: 'error'; error: string };
+
+interface StreamAIChatOptions {
+  message: string;
+  conversationId?: string;
+  signal?: AbortSignal;
+  onEvent: (event: AIChatStreamEvent) => void;
+}
+
+/**
+ * Call the ai-chat function in streaming mode and forward each SSE frame.
+ * functions.invoke() can't be aborted, so this talks to the endpoint directly.
+ * Resolves with the final metadata frame, or null if the stream ended without one.
+ */
+export async function streamAIChat({ message, conversationId, signal, onEvent }: StreamAIChatOptions): Promise<AIChatMetadata | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not signed in');
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-chat`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    },
+    body: JSON.stringify({
+      message,
+      conversationId,
+      stream: true,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`ai-chat responded with ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let metadata: AIChatMetadata | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() ?? '';
+
+    for (const frame of frames) {
+      const data = frame.split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trim())
+        .join('');
+      if (!data) continue;
+
+      const event = JSON.parse(data) as AIChatStreamEvent;
+      if (event.type === 'done') {
+        metadata = {
+          suggestions: event.suggestions,
+          insights: event.insights,
+          conversationId: event.conversationId,
+        };
+      }
+      onEvent(event);
+    }
+  }
+
+  return metadata;
+}
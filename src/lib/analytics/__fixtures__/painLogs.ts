@@ -0,0 +1,50 @@
+import type { MedicationDoseRecord, PainLogRecord } from '../types';
+
+// pain_logs rows for the analytics tests. Timestamps carry no offset so they read as
+// local time, and the local days, hours and weekdays are the same in every time zone.
+
+const at = (date: string, time: string) => `${date}T${time}:00`;
+
+// Mon 5 Oct to Sun 11 Oct 2026, with one unrated entry on the Wednesday
+export const weekOfLogs: PainLogRecord[] = [
+  { id: 'mon-am', logged_at: at('2026-10-05', '08:00'), pain_level: 6, medications: ['advil'], functional_impact: 'Limited', impact_tags: ['job'] },
+  { id: 'mon-pm', logged_at: at('2026-10-05', '20:00'), pain_level: 4, functional_impact: 'None' },
+  { id: 'tue-am', logged_at: at('2026-10-06', '07:00'), pain_level: 8, functional_impact: 'Stopped activities', impact_tags: ['Work', 'sleeping'] },
+  { id: 'tue-noon', logged_at: at('2026-10-06', '13:00'), pain_level: 5, functional_impact: 'Limited', impact_tags: ['Work'] },
+  { id: 'tue-late', logged_at: at('2026-10-06', '23:00'), pain_level: 3 },
+  { id: 'wed-night', logged_at: at('2026-10-07', '02:00'), pain_level: 7, functional_impact: 'In bed', impact_tags: ['Sleep'] },
+  { id: 'wed-pm', logged_at: at('2026-10-07', '15:00'), pain_level: null, notes: 'Forgot to rate' },
+  { id: 'sun-am', logged_at: at('2026-10-11', '10:00'), pain_level: 2, functional_impact: 'None' },
+];
+
+const day = (offset: number) => {
+  const date = new Date(2026, 8, 1 + offset);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Sept 2026: six mornings with ibuprofen (7 -> 4 two hours later), six without
+// (7 -> 6 over the same two hours), and two tylenol doses too few to judge
+export const medicationLogs: PainLogRecord[] = [
+  ...[0, 1, 2, 3, 4, 5].flatMap(offset => [
+    { id: `ibu-${offset}`, logged_at: at(day(offset), '08:00'), pain_level: 7, medications: ['Ibuprofen'] },
+    { id: `ibu-${offset}-after`, logged_at: at(day(offset), '10:00'), pain_level: 4 },
+  ]),
+  ...[6, 7, 8, 9, 10, 11].flatMap(offset => [
+    { id: `none-${offset}`, logged_at: at(day(offset), '08:00'), pain_level: 7 },
+    { id: `none-${offset}-after`, logged_at: at(day(offset), '10:00'), pain_level: 6 },
+  ]),
+  ...[12, 13].flatMap(offset => [
+    { id: `tylenol-${offset}`, logged_at: at(day(offset), '08:00'), pain_level: 5, medications: ['Tylenol'] },
+    { id: `tylenol-${offset}-after`, logged_at: at(day(offset), '09:30'), pain_level: 4 },
+  ]),
+];
+
+// medication_doses rows against weekOfLogs
+export const weekOfDoses: MedicationDoseRecord[] = [
+  // Logged with the entry: replaces the names the entry was saved with
+  { pain_log_id: 'mon-am', taken_at: at('2026-10-05', '08:00'), name: 'Naproxen' },
+  // On its own 40 minutes after tue-noon: attaches to it
+  { pain_log_id: null, taken_at: at('2026-10-06', '13:40'), name: 'Ibuprofen' },
+  // On its own, more than an hour after any entry: left out
+  { pain_log_id: null, taken_at: at('2026-10-08', '12:00'), name: 'Ibuprofen' },
+];
@@ -0,0 +1,161 @@
+import { addDays, format, startOfDay, startOfWeek } from 'date-fns';
+
+/**
+ * A medication with its scheduled local times of day (HH:mm). As-needed
+ * medications have no times and never count as scheduled.
+ */
+export interface ScheduledMedication {
+  id: string;
+  name: string;
+  times: string[];
+  // yyyy-MM-dd; the schedule applies from started_on and up to the day before stopped_on
+  started_on: string | null;
+  stopped_on: string | null;
+}
+
+/**
+ * A medication_doses row as adherence needs it.
+ */
+export interface DoseResponse {
+  medication_id: string;
+  taken_at: string;
+  scheduled_for: string | null;
+  status: string;
+}
+
+export interface ScheduledDose {
+  medicationId: string;
+  name: string;
+  scheduledFor: Date;
+}
+
+export interface AdherenceCounts {
+  scheduled: number;
+  taken: number;
+  skipped: number;
+  // Scheduled doses with no answer and no dose logged near the time
+  missed: number;
+  // Share of scheduled doses taken, 0–100; null when nothing was scheduled
+  percentage: number | null;
+}
+
+export interface AdherenceWeek extends AdherenceCounts {
+  // Monday, yyyy-MM-dd
+  weekStart: string;
+}
+
+export interface MedicationAdherence extends AdherenceCounts {
+  medicationId: string;
+  name: string;
+}
+
+export interface AdherenceSummary extends AdherenceCounts {
+  weeks: AdherenceWeek[];
+  medications: MedicationAdherence[];
+}
+
+// A dose logged this close to a scheduled time, without answering the reminder, still counts
+const LOGGED_DOSE_MATCH_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Every scheduled dose between start and end, in local time, oldest first.
+ */
+export function scheduledDoses(medications: ScheduledMedication[], start: Date, end: Date): ScheduledDose[] {
+  const doses: ScheduledDose[] = [];
+
+  for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) {
+    const date = format(day, 'yyyy-MM-dd');
+    medications.forEach(medication => {
+      if (medication.started_on && medication.started_on > date) return;
+      if (medication.stopped_on && medication.stopped_on <= date) return;
+
+      medication.times.forEach(time => {
+        const [hours, minutes] = time.split(':').map(Number);
+        if (Number.isNaN(hours) || Number.isNaN(minutes)) return;
+        const scheduledFor = new Date(day);
+        scheduledFor.setHours(hours, minutes, 0, 0);
+        if (scheduledFor >= start && scheduledFor <= end) {
+          doses.push({ medicationId: medication.id, name: medication.name, scheduledFor });
+        }
+      });
+    });
+  }
+
+  return doses.sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+}
+
+const counts = (scheduled: number, taken: number, skipped: number): AdherenceCounts => ({
+  scheduled,
+  taken,
+  skipped,
+  missed: scheduled - taken - skipped,
+  percentage: scheduled > 0 ? (taken / scheduled) * 100 : null,
+});
+
+export type ScheduledDoseOutcome = 'taken' | 'skipped' | 'missed';
+
+/**
+ * What happened to each scheduled dose. It is answered by the dose record for that
+ * exact reminder (taken or skipped); failing that, a dose of the same medication
+ * logged within two hours of the time counts as taken.
+ */
+export function matchScheduledDoses(due: ScheduledDose[], responses: DoseResponse[]) {
+  const answers = new Map(
+    responses
+      .filter(response => response.scheduled_for)
+      .map(response => [`${response.medication_id}@${new Date(response.scheduled_for!).getTime()}`, response.status])
+  );
+  const logged = responses.filter(response => !response.scheduled_for && response.status === 'taken');
+  const used = new Set<DoseResponse>();
+
+  return due.map(dose => {
+    const answer = answers.get(`${dose.medicationId}@${dose.scheduledFor.getTime()}`);
+    if (answer === 'taken' || answer === 'skipped') return { dose, outcome: answer as ScheduledDoseOutcome };
+
+    const match = logged.find(response =>
+      !used.has(response) &&
+      response.medication_id === dose.medicationId &&
+      Math.abs(new Date(response.taken_at).getTime() - dose.scheduledFor.getTime()) <= LOGGED_DOSE_MATCH_MS
+    );
+    if (match) used.add(match);
+    return { dose, outcome: (match ? 'taken' : 'missed') as ScheduledDoseOutcome };
+  });
+}
+
+/**
+ * Percentage of scheduled doses taken, overall, per week and per medication.
+ * Only doses already due by `now` are counted.
+ */
+export function medicationAdherence(
+  medications: ScheduledMedication[],
+  responses: DoseResponse[],
+  start: Date,
+  end: Date,
+  now = new Date()
+): AdherenceSummary {
+  const outcomes = matchScheduledDoses(scheduledDoses(medications, start, end < now ? end : now), responses);
+
+  const tally = (group: typeof outcomes) => counts(
+    group.length,
+    group.filter(item => item.outcome === 'taken').length,
+    group.filter(item => item.outcome === 'skipped').length
+  );
+
+  const byWeek = new Map<string, typeof outcomes>();
+  const byMedication = new Map<string, typeof outcomes>();
+  outcomes.forEach(item => {
+    const week = format(startOfWeek(item.dose.scheduledFor, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    byWeek.set(week, [...(byWeek.get(week) || []), item]);
+    byMedication.set(item.dose.medicationId, [...(byMedication.get(item.dose.medicationId) || []), item]);
+  });
+
+  return {
+    ...tally(outcomes),
+    weeks: [...byWeek.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([weekStart, group]) => ({ weekStart, ...tally(group) })),
+    medications: [...byMedication.entries()]
+      .map(([medicationId, group]) => ({ medicationId, name: group[0].dose.name, ...tally(group) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { weekOfLogs } from './__fixtures__/painLogs';
+import { dailyAggregates, summarizePain } from './daily';
+import { toPainEntry } from './entries';
+
+const entries = weekOfLogs.map(toPainEntry);
+
+describe('dailyAggregates', () => {
+  it('averages rated entries per local day, in date order', () => {
+    const days = dailyAggregates([...entries].reverse());
+    expect(days.map(day => day.date)).toEqual(['2026-10-05', '2026-10-06', '2026-10-07', '2026-10-11']);
+    expect(days[0]).toEqual({ date: '2026-10-05', average: 5, max: 6, min: 4, count: 2 });
+    expect(days[1]).toMatchObject({ max: 8, min: 3, count: 3 });
+    expect(days[1].average).toBeCloseTo(16 / 3);
+  });
+
+  it('ignores unrated entries', () => {
+    expect(dailyAggregates(entries)[2]).toEqual({ date: '2026-10-07', average: 7, max: 7, min: 7, count: 1 });
+  });
+
+  it('is empty without rated entries', () => {
+    expect(dailyAggregates([])).toEqual([]);
+  });
+});
+
+describe('summarizePain', () => {
+  it('summarizes the range', () => {
+    expect(summarizePain(entries)).toEqual({ averagePain: 5, totalDays: 4, severeDays: 2 });
+  });
+
+  it('counts a day with only unrated entries towards totalDays', () => {
+    const unrated = toPainEntry({ id: 'thu', logged_at: '2026-10-08T09:00:00', pain_level: null });
+    expect(summarizePain([...entries, unrated]).totalDays).toBe(5);
+  });
+});
@@ -0,0 +1,51 @@
+import { mean, ratedEntries } from './entries';
+import type { PainEntry } from './types';
+
+export const SEVERE_PAIN_LEVEL = 7;
+
+export interface DailyAggregate {
+  date: string;
+  average: number;
+  max: number;
+  min: number;
+  count: number;
+}
+
+export interface PainSummary {
+  // Mean of all rated entries in the range
+  averagePain: number;
+  // Days with at least one entry, rated or not
+  totalDays: number;
+  // Days whose worst rated entry was SEVERE_PAIN_LEVEL or higher
+  severeDays: number;
+}
+
+/**
+ * Per-day average, worst and best pain, in date order.
+ */
+export function dailyAggregates(entries: PainEntry[]): DailyAggregate[] {
+  const days = new Map<string, number[]>();
+  ratedEntries(entries).forEach(entry => {
+    days.set(entry.date, [...(days.get(entry.date) || []), entry.painLevel]);
+  });
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, levels]) => ({
+      date,
+      average: mean(levels),
+      max: Math.max(...levels),
+      min: Math.min(...levels),
+      count: levels.length,
+    }));
+}
+
+export function summarizePain(entries: PainEntry[]): PainSummary {
+  const rated = ratedEntries(entries);
+
+  return {
+    averagePain: mean(rated.map(entry => entry.painLevel)),
+    totalDays: new Set(entries.map(entry => entry.date)).size,
+    severeDays: dailyAggregates(entries).filter(day => day.max >= SEVERE_PAIN_LEVEL).length,
+  };
+}
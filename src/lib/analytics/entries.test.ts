@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { weekOfDoses, weekOfLogs } from './__fixtures__/painLogs';
+import { applyMedicationDoses, ratedEntries, toPainEntry } from './entries';
+
+const entries = weekOfLogs.map(toPainEntry);
+const byId = (list: typeof entries, id: string) => list.find(entry => entry.id === id)!;
+
+describe('toPainEntry', () => {
+  it('dates entries by local day and reads impact tags in canonical form', () => {
+    const entry = byId(entries, 'tue-am');
+    expect(entry.date).toBe('2026-10-06');
+    expect(entry.impact_tags).toEqual(['Work', 'Sleep']);
+    expect(byId(entries, 'mon-am').impact_tags).toEqual(['Work']);
+  });
+
+  it('fills missing lists and notes', () => {
+    const entry = byId(entries, 'wed-pm');
+    expect(entry).toMatchObject({ painLevel: null, location: [], triggers: [], medications: [], notes: 'Forgot to rate' });
+  });
+});
+
+describe('applyMedicationDoses', () => {
+  const withDoses = applyMedicationDoses(entries, weekOfDoses);
+
+  it('takes medications from doses logged with the entry', () => {
+    expect(byId(withDoses, 'mon-am').medications).toEqual(['Naproxen']);
+  });
+
+  it('attaches a standalone dose to the latest entry in the hour before it', () => {
+    expect(byId(withDoses, 'tue-noon').medications).toEqual(['Ibuprofen']);
+    expect(byId(withDoses, 'tue-am').medications).toEqual([]);
+  });
+
+  it('leaves out standalone doses with no entry in the hour before', () => {
+    expect(withDoses.flatMap(entry => entry.medications)).toEqual(['Naproxen', 'Ibuprofen']);
+  });
+});
+
+describe('ratedEntries', () => {
+  it('drops unrated entries and sorts oldest first', () => {
+    const rated = ratedEntries([...entries].reverse());
+    expect(rated.map(entry => entry.id)).toEqual(['mon-am', 'mon-pm', 'tue-am', 'tue-noon', 'tue-late', 'wed-night', 'sun-am']);
+  });
+});
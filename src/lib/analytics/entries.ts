@@ -0,0 +1,82 @@
+import { format, parseISO } from 'date-fns';
+import { normalizePainLogTerms, normalizeTerm, normalizeTerms } from '@/lib/vocabulary';
+import type { MedicationDoseRecord, PainEntry, PainLogRecord } from './types';
+
+/**
+ * Convert a pain_logs row into the PainEntry shape used across analytics and cards.
+ * Locations, triggers, activities and impact tags are read in canonical form, so
+ * synonyms count together even in rows written before they were normalized on save.
+ */
+export function toPainEntry(log: PainLogRecord): PainEntry {
+  const locationIntensities = (log.location_intensities as Record<string, number> | null | undefined) ?? null;
+  return {
+    id: log.id,
+    date: format(parseISO(log.logged_at), 'yyyy-MM-dd'),
+    timestamp: log.logged_at,
+    painLevel: log.pain_level,
+    location: normalizeTerms('location', log.pain_locations || []),
+    triggers: normalizeTerms('trigger', log.triggers || []),
+    medications: log.medications || [],
+    notes: log.notes || '',
+    symptoms: [],
+    status: 'active',
+    activity: log.activity ? normalizeTerm('activity', log.activity) : log.activity,
+    functional_impact: log.functional_impact,
+    impact_tags: log.impact_tags && normalizeTerms('impact_tag', log.impact_tags),
+    side_effects: log.side_effects,
+    rx_taken: log.rx_taken,
+    location_intensities: normalizePainLogTerms({ location_intensities: locationIntensities }).location_intensities ?? null,
+    pain_qualities: log.pain_qualities ?? null,
+  };
+}
+
+// A dose recorded on its own counts against the latest entry this long before it
+const STANDALONE_DOSE_MATCH_MS = 60 * 60 * 1000;
+
+/**
+ * Take each entry's medications from the medication_doses table, so every card counts
+ * the same canonical names. Doses recorded on their own attach to the latest entry in
+ * the hour before them, which supplies the starting pain level; others are left out.
+ * Entries with no recorded doses of their own (still in the offline outbox) keep the
+ * names they were logged with.
+ */
+export function applyMedicationDoses(entries: PainEntry[], doses: MedicationDoseRecord[]): PainEntry[] {
+  const logged = new Map<string, Set<string>>();
+  const standalone = new Map<string, Set<string>>();
+  const add = (target: Map<string, Set<string>>, entryId: string, name: string) => {
+    if (!name) return;
+    target.set(entryId, (target.get(entryId) || new Set<string>()).add(name));
+  };
+
+  const chronological = [...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  doses.forEach(dose => {
+    if (dose.pain_log_id) {
+      add(logged, dose.pain_log_id, dose.name);
+      return;
+    }
+    const takenAt = new Date(dose.taken_at).getTime();
+    const before = chronological.filter(entry => {
+      const elapsed = takenAt - new Date(entry.timestamp).getTime();
+      return elapsed >= 0 && elapsed <= STANDALONE_DOSE_MATCH_MS;
+    });
+    if (before.length > 0) add(standalone, before[before.length - 1].id, dose.name);
+  });
+
+  return entries.map(entry => {
+    const own = logged.has(entry.id) ? [...logged.get(entry.id)!] : entry.medications;
+    const extra = [...(standalone.get(entry.id) || [])].filter(name => !own.includes(name));
+    return { ...entry, medications: [...own, ...extra] };
+  });
+}
+
+/**
+ * Entries that carry a pain level, oldest first.
+ */
+export function ratedEntries(entries: PainEntry[]) {
+  return entries
+    .filter((entry): entry is PainEntry & { painLevel: number } => entry.painLevel !== null && entry.painLevel !== undefined)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+export const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
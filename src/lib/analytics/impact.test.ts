@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { weekOfLogs } from './__fixtures__/painLogs';
+import { toPainEntry } from './entries';
+import { functionalImpactRollup, impactLevel } from './impact';
+
+const entries = weekOfLogs.map(toPainEntry);
+
+describe('impactLevel', () => {
+  it.each([
+    ['Stopped activities', 'stopped'],
+    ['In bed', 'bed'],
+    ['limited', 'limited'],
+    ['None', 'none'],
+    ['something else', null],
+    [null, null],
+  ])('reads %s as %s', (value, level) => {
+    expect(impactLevel(value)).toBe(level);
+  });
+});
+
+describe('functionalImpactRollup', () => {
+  it('counts each day at its worst recorded impact', () => {
+    const rollup = functionalImpactRollup(entries);
+    expect(rollup.totalDays).toBe(4);
+    expect(rollup.days).toEqual({ none: 1, limited: 1, stopped: 1, bed: 1 });
+    expect(rollup.percentages).toEqual({ none: 25, limited: 25, stopped: 25, bed: 25 });
+  });
+
+  it('counts canonical impact tags, most frequent first', () => {
+    expect(functionalImpactRollup(entries).topTags).toEqual([
+      { tag: 'Work', count: 3 },
+      { tag: 'Sleep', count: 2 },
+    ]);
+    expect(functionalImpactRollup(entries, 1).topTags).toHaveLength(1);
+  });
+
+  it('is empty without recorded impact', () => {
+    expect(functionalImpactRollup([]).percentages).toEqual({ none: 0, limited: 0, stopped: 0, bed: 0 });
+  });
+});
@@ -0,0 +1,61 @@
+import type { FunctionalImpactLevel, PainEntry } from './types';
+
+export interface FunctionalImpactRollup {
+  // Days with at least one functional impact recorded
+  totalDays: number;
+  // Days whose worst recorded impact was each level
+  days: Record<FunctionalImpactLevel, number>;
+  // The same, as a share of totalDays (0–100)
+  percentages: Record<FunctionalImpactLevel, number>;
+  topTags: Array<{ tag: string; count: number }>;
+}
+
+const IMPACT_RANKS: Record<FunctionalImpactLevel, number> = { none: 1, limited: 2, stopped: 3, bed: 4 };
+
+/**
+ * Map a free-text functional_impact value onto a level, matching loosely
+ * ("Stopped activities" -> stopped). Null when it matches none.
+ */
+export function impactLevel(value: string | null | undefined): FunctionalImpactLevel | null {
+  const lower = value?.toLowerCase() ?? '';
+  if (lower.includes('bed')) return 'bed';
+  if (lower.includes('stopped')) return 'stopped';
+  if (lower.includes('limited')) return 'limited';
+  if (lower.includes('none')) return 'none';
+  return null;
+}
+
+export function functionalImpactRollup(entries: PainEntry[], tagLimit = 5): FunctionalImpactRollup {
+  const worstByDay = new Map<string, FunctionalImpactLevel>();
+  entries.forEach(entry => {
+    const level = impactLevel(entry.functional_impact);
+    if (!level) return;
+    const current = worstByDay.get(entry.date);
+    if (!current || IMPACT_RANKS[level] > IMPACT_RANKS[current]) worstByDay.set(entry.date, level);
+  });
+
+  const days: Record<FunctionalImpactLevel, number> = { none: 0, limited: 0, stopped: 0, bed: 0 };
+  worstByDay.forEach(level => days[level]++);
+  const totalDays = worstByDay.size;
+  const percentage = (count: number) => (totalDays > 0 ? (count / totalDays) * 100 : 0);
+
+  const tagCounts = new Map<string, number>();
+  entries.forEach(entry => {
+    (entry.impact_tags || []).forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1));
+  });
+
+  return {
+    totalDays,
+    days,
+    percentages: {
+      none: percentage(days.none),
+      limited: percentage(days.limited),
+      stopped: percentage(days.stopped),
+      bed: percentage(days.bed),
+    },
+    topTags: [...tagCounts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, tagLimit),
+  };
+}
@@ -0,0 +1,14 @@
+// Pure pain analytics shared by the Insights cards, Records and the doctor summary,
+// so the same range always produces the same numbers everywhere.
+
+export * from './types';
+export * from './entries';
+export * from './daily';
+export * from './profiles';
+export * from './medications';
+export * from './impact';
+export * from './triggers';
+export * from './adherence';
+export * from './overuse';
+export * from './locations';
+export * from './qualities';
@@ -0,0 +1,40 @@
+import { mean } from './entries';
+import type { PainEntry } from './types';
+
+export interface LocationHeat {
+  location: string;
+  // Entries that named the location
+  entries: number;
+  // Mean pain there: the location's own rating when given, else the entry's level
+  averageIntensity: number;
+  // Highest pain recorded there
+  maxIntensity: number;
+}
+
+/**
+ * Pain per location over the entries, most often named first. Entries without a
+ * pain level or a rating for the location are counted but don't affect intensity.
+ */
+export function locationHeat(entries: PainEntry[]): LocationHeat[] {
+  const byLocation = new Map<string, { entries: number; levels: number[] }>();
+
+  entries.forEach(entry => {
+    new Set(entry.location).forEach(location => {
+      const current = byLocation.get(location) ?? { entries: 0, levels: [] };
+      const level = entry.location_intensities?.[location] ?? entry.painLevel;
+      byLocation.set(location, {
+        entries: current.entries + 1,
+        levels: typeof level === 'number' ? [...current.levels, level] : current.levels,
+      });
+    });
+  });
+
+  return [...byLocation.entries()]
+    .map(([location, { entries: count, levels }]) => ({
+      location,
+      entries: count,
+      averageIntensity: levels.length > 0 ? mean(levels) : 0,
+      maxIntensity: levels.length > 0 ? Math.max(...levels) : 0,
+    }))
+    .sort((a, b) => b.entries - a.entries || b.averageIntensity - a.averageIntensity);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { medicationLogs } from './__fixtures__/painLogs';
+import { toPainEntry } from './entries';
+import { bootstrapMeanCI, describeEffect, formatSignedDelta, medicationEffects, windowFor } from './medications';
+
+const entries = medicationLogs.map(toPainEntry);
+
+describe('medicationEffects', () => {
+  const effects = medicationEffects(entries);
+  const effectOf = (name: string) => effects.find(effect => effect.name === name)!;
+
+  it('subtracts the change seen without medication from the same starting level', () => {
+    const ibuprofen = effectOf('Ibuprofen');
+    expect(ibuprofen).toMatchObject({
+      status: 'ok',
+      window: { minHours: 1, maxHours: 4 },
+      dosePairs: 6,
+      matchedPairs: 6,
+      rawMeanDelta: -3,
+      effect: -2,
+      ci: [-2, -2],
+    });
+    expect(describeEffect(ibuprofen)).toBe('helps');
+  });
+
+  it('reports too few matched doses as insufficient data', () => {
+    const tylenol = effectOf('Tylenol');
+    expect(tylenol).toMatchObject({ status: 'insufficient_data', dosePairs: 2, matchedPairs: 0, rawMeanDelta: -1, effect: null, ci: null });
+    expect(describeEffect(tylenol)).toBe('insufficient_data');
+  });
+
+  it('lists estimated effects first', () => {
+    expect(effects.map(effect => effect.name)).toEqual(['Ibuprofen', 'Tylenol']);
+  });
+
+  it('honours minSamples', () => {
+    expect(medicationEffects(entries, { minSamples: 7 })[0].effect).toBeNull();
+  });
+
+  it('needs a follow-up inside the window', () => {
+    const narrow = medicationEffects(entries, { windows: { ibuprofen: { minHours: 3, maxHours: 4 } } });
+    expect(narrow.find(effect => effect.name === 'Ibuprofen')).toBeUndefined();
+  });
+});
+
+describe('windowFor', () => {
+  it('falls back to the default window for unknown drugs', () => {
+    expect(windowFor('gabapentin')).toEqual({ minHours: 2, maxHours: 4 });
+  });
+});
+
+describe('bootstrapMeanCI', () => {
+  it('is deterministic for a seed and brackets the mean', () => {
+    const values = [-3, -2, -1, -2, -4, 0];
+    const ci = bootstrapMeanCI(values, 500, 7);
+    expect(bootstrapMeanCI(values, 500, 7)).toEqual(ci);
+    expect(ci[0]).toBeLessThanOrEqual(-2);
+    expect(ci[1]).toBeGreaterThanOrEqual(-2);
+  });
+});
+
+describe('formatSignedDelta', () => {
+  it('signs with a true minus', () => {
+    expect(formatSignedDelta(-1.25)).toBe('−1.3');
+    expect(formatSignedDelta(0.5)).toBe('+0.5');
+  });
+});
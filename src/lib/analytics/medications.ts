@@ -0,0 +1,228 @@
+import { mean, ratedEntries } from './entries';
+import type { PainEntry } from './types';
+
+export interface ResponseWindow {
+  minHours: number;
+  maxHours: number;
+}
+
+export type MedicationEffectStatus = 'ok' | 'insufficient_data';
+
+export interface MedicationEffect {
+  name: string;
+  status: MedicationEffectStatus;
+  // Where the follow-up entry has to fall after the dose
+  window: ResponseWindow;
+  // Doses with a follow-up entry in the window
+  dosePairs: number;
+  // Of those, doses with at least one matched no-medication interval
+  matchedPairs: number;
+  // Mean raw change in pain after a dose; negative is relief
+  rawMeanDelta: number;
+  // Estimated effect: dose change minus the change over matched intervals without
+  // medication, averaged over matched doses. Null when there is too little data.
+  effect: number | null;
+  // 95% bootstrap interval for effect
+  ci: [number, number] | null;
+  // Share of paired doses with side effects noted, 0–100
+  sideEffectsRate: number;
+  rxCount: number;
+}
+
+export interface MedicationEffectOptions {
+  // Per-drug onset windows by lowercase name, merged over DEFAULT_ONSET_WINDOWS
+  windows?: Record<string, ResponseWindow>;
+  minSamples?: number;
+  bootstrapIterations?: number;
+  // Starting pain levels within this many points count as similar
+  matchCaliper?: number;
+}
+
+export const DEFAULT_RESPONSE_WINDOW: ResponseWindow = { minHours: 2, maxHours: 4 };
+
+// When a follow-up entry best reflects the dose, from typical onset to past peak effect
+export const DEFAULT_ONSET_WINDOWS: Record<string, ResponseWindow> = {
+  ibuprofen: { minHours: 1, maxHours: 4 },
+  naproxen: { minHours: 1, maxHours: 4 },
+  aspirin: { minHours: 1, maxHours: 3 },
+  acetaminophen: { minHours: 1, maxHours: 3 },
+  paracetamol: { minHours: 1, maxHours: 3 },
+  tylenol: { minHours: 1, maxHours: 3 },
+  sumatriptan: { minHours: 0.5, maxHours: 2 },
+  rizatriptan: { minHours: 0.5, maxHours: 2 },
+  codeine: { minHours: 1, maxHours: 3 },
+  tramadol: { minHours: 1, maxHours: 4 },
+};
+
+// Fewer matched doses than this gives an interval too wide to say anything
+export const MIN_MEDICATION_SAMPLES = 5;
+const BOOTSTRAP_ITERATIONS = 1000;
+const MATCH_CALIPER = 1;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface Interval {
+  startLevel: number;
+  delta: number;
+}
+
+export const formatWindow = (window: ResponseWindow) => `${window.minHours}–${window.maxHours}h`;
+
+export function windowFor(medication: string, windows: Record<string, ResponseWindow> = DEFAULT_ONSET_WINDOWS) {
+  return windows[medication.trim().toLowerCase()] ?? DEFAULT_RESPONSE_WINDOW;
+}
+
+// Deterministic PRNG (mulberry32), so the same data always gives the same interval
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string) {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Percentile bootstrap interval for the mean of `values`.
+ */
+export function bootstrapMeanCI(values: number[], iterations = BOOTSTRAP_ITERATIONS, seed = 1): [number, number] {
+  const random = seededRandom(seed);
+  const means: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    for (let j = 0; j < values.length; j++) {
+      sum += values[Math.floor(random() * values.length)];
+    }
+    means.push(sum / values.length);
+  }
+
+  means.sort((a, b) => a - b);
+  const at = (quantile: number) => means[Math.min(means.length - 1, Math.max(0, Math.floor(quantile * means.length)))];
+  return [at(0.025), at(0.975)];
+}
+
+type RatedEntry = PainEntry & { painLevel: number };
+
+// First entry after sorted[index] that falls inside the window
+function findFollowUp(sorted: RatedEntry[], index: number, window: ResponseWindow) {
+  const start = new Date(sorted[index].timestamp).getTime();
+  for (let i = index + 1; i < sorted.length; i++) {
+    const elapsed = new Date(sorted[i].timestamp).getTime() - start;
+    if (elapsed > window.maxHours * HOUR_MS) return null;
+    if (elapsed >= window.minHours * HOUR_MS) return { entry: sorted[i], index: i };
+  }
+  return null;
+}
+
+// Intervals of the same length with no medication at the start or in between:
+// how pain moved on its own from a given level
+function controlIntervals(sorted: RatedEntry[], window: ResponseWindow): Interval[] {
+  const intervals: Interval[] = [];
+
+  sorted.forEach((entry, index) => {
+    if (entry.medications.length > 0) return;
+    const followUp = findFollowUp(sorted, index, window);
+    if (!followUp) return;
+    const dosedInBetween = sorted.slice(index + 1, followUp.index).some(between => between.medications.length > 0);
+    if (dosedInBetween) return;
+    intervals.push({ startLevel: entry.painLevel, delta: followUp.entry.painLevel - entry.painLevel });
+  });
+
+  return intervals;
+}
+
+/**
+ * Estimate how much each medication changes pain beyond what happens without it.
+ *
+ * Every dose is paired with the first entry inside that drug's onset window, and its
+ * change is compared with no-medication intervals of the same length that started at a
+ * similar pain level. Matching on the starting level keeps regression to the mean (high
+ * pain tends to ease anyway) from being credited to the drug. Medications with fewer
+ * than `minSamples` matched doses are reported as insufficient data, with no effect.
+ */
+export function medicationEffects(entries: PainEntry[], options: MedicationEffectOptions = {}): MedicationEffect[] {
+  const windows = { ...DEFAULT_ONSET_WINDOWS, ...options.windows };
+  const minSamples = options.minSamples ?? MIN_MEDICATION_SAMPLES;
+  const iterations = options.bootstrapIterations ?? BOOTSTRAP_ITERATIONS;
+  const caliper = options.matchCaliper ?? MATCH_CALIPER;
+
+  const sorted = ratedEntries(entries);
+  const doses = new Map<string, { name: string; intervals: Interval[]; sideEffects: number; rxCount: number }>();
+
+  sorted.forEach((entry, index) => {
+    entry.medications.forEach(medication => {
+      const name = medication.trim();
+      if (!name) return;
+      const key = name.toLowerCase();
+
+      const followUp = findFollowUp(sorted, index, windowFor(key, windows));
+      if (!followUp) return;
+
+      const drug = doses.get(key) || { name, intervals: [], sideEffects: 0, rxCount: 0 };
+      drug.intervals.push({ startLevel: entry.painLevel, delta: followUp.entry.painLevel - entry.painLevel });
+      if (entry.side_effects && entry.side_effects.trim() !== '') drug.sideEffects++;
+      if (entry.rx_taken === true) drug.rxCount++;
+      doses.set(key, drug);
+    });
+  });
+
+  const controlsByWindow = new Map<string, Interval[]>();
+
+  return [...doses.entries()]
+    .map(([key, drug]): MedicationEffect => {
+      const window = windowFor(key, windows);
+      const windowKey = formatWindow(window);
+      if (!controlsByWindow.has(windowKey)) controlsByWindow.set(windowKey, controlIntervals(sorted, window));
+      const controls = controlsByWindow.get(windowKey)!;
+
+      const adjusted = drug.intervals.flatMap(dose => {
+        const matched = controls.filter(control => Math.abs(control.startLevel - dose.startLevel) <= caliper);
+        return matched.length > 0 ? [dose.delta - mean(matched.map(control => control.delta))] : [];
+      });
+      const enough = adjusted.length >= minSamples;
+
+      return {
+        name: drug.name,
+        status: enough ? 'ok' : 'insufficient_data',
+        window,
+        dosePairs: drug.intervals.length,
+        matchedPairs: adjusted.length,
+        rawMeanDelta: mean(drug.intervals.map(dose => dose.delta)),
+        effect: enough ? mean(adjusted) : null,
+        ci: enough ? bootstrapMeanCI(adjusted, iterations, hashString(key)) : null,
+        sideEffectsRate: (drug.sideEffects / drug.intervals.length) * 100,
+        rxCount: drug.rxCount,
+      };
+    })
+    // Estimated effects first, best relief first; then the rest by how close they are
+    .sort((a, b) => {
+      if (a.effect !== null && b.effect !== null) return a.effect - b.effect;
+      if (a.effect !== null) return -1;
+      if (b.effect !== null) return 1;
+      return b.matchedPairs - a.matchedPairs;
+    });
+}
+
+/**
+ * Plain-language reading of an estimate: only a confidence interval that excludes
+ * zero counts as a difference.
+ */
+export function describeEffect(effect: MedicationEffect): 'helps' | 'worse' | 'unclear' | 'insufficient_data' {
+  if (effect.status !== 'ok' || !effect.ci) return 'insufficient_data';
+  if (effect.ci[1] < 0) return 'helps';
+  if (effect.ci[0] > 0) return 'worse';
+  return 'unclear';
+}
+
+// Pain change with an explicit sign, using a true minus for display
+export const formatSignedDelta = (value: number) => `${value < 0 ? '−' : '+'}${Math.abs(value).toFixed(1)}`;
@@ -0,0 +1,130 @@
+import { format, subDays } from 'date-fns';
+import type { MedicationDoseRecord } from './types';
+import {
+  ACUTE_MEDICATION_CLASSES,
+  DEFAULT_OVERUSE_THRESHOLDS,
+  acuteMedicationClass,
+  type AcuteMedicationClass,
+  type OveruseThresholds,
+} from '../../../supabase/functions/_shared/acuteMedications.ts';
+
+// The classes and thresholds are shared with the chat context in the edge functions
+export {
+  ACUTE_MEDICATION_CLASSES,
+  DEFAULT_OVERUSE_THRESHOLDS,
+  acuteMedicationClass,
+  type AcuteMedicationClass,
+  type AcuteMedicationClassInfo,
+  type OveruseThresholds,
+} from '../../../supabase/functions/_shared/acuteMedications.ts';
+
+export interface MedicationOveruseOptions {
+  now?: Date;
+  windowDays?: number;
+  thresholds?: Partial<OveruseThresholds>;
+  // Warn this many days before a threshold is reached
+  approachMargin?: number;
+}
+
+export type OveruseStatus = 'ok' | 'approaching' | 'over';
+
+export interface OveruseClassCount {
+  medicationClass: AcuteMedicationClass;
+  label: string;
+  days: number;
+  threshold: number;
+  status: OveruseStatus;
+  // The medication names seen, as logged
+  medications: string[];
+}
+
+export interface MedicationOveruse {
+  // yyyy-MM-dd, inclusive
+  windowStart: string;
+  windowEnd: string;
+  windowDays: number;
+  // Classes used in the window, most days first
+  classes: OveruseClassCount[];
+  // Days with any acute medication
+  acuteDays: number;
+  combinedThreshold: number;
+  combinedStatus: OveruseStatus;
+  // The worst status of any class or the combined count
+  level: OveruseStatus;
+  warnings: string[];
+}
+
+const statusFor = (days: number, threshold: number, margin: number): OveruseStatus =>
+  days >= threshold ? 'over' : days > 0 && days >= threshold - margin ? 'approaching' : 'ok';
+
+const STATUS_ORDER: OveruseStatus[] = ['ok', 'approaching', 'over'];
+
+/**
+ * Acute-medication days per class over the rolling window ending at `now`, counted
+ * from logged doses by local day. A day counts once per class however many doses
+ * were taken.
+ */
+export function medicationOveruse(
+  doses: Pick<MedicationDoseRecord, 'taken_at' | 'name'>[],
+  options: MedicationOveruseOptions = {}
+): MedicationOveruse {
+  const now = options.now ?? new Date();
+  const windowDays = options.windowDays ?? 30;
+  const thresholds = { ...DEFAULT_OVERUSE_THRESHOLDS, ...options.thresholds };
+  const margin = options.approachMargin ?? 2;
+  const windowEnd = format(now, 'yyyy-MM-dd');
+  const windowStart = format(subDays(now, windowDays - 1), 'yyyy-MM-dd');
+
+  const daysByClass = new Map<AcuteMedicationClass, Set<string>>();
+  const namesByClass = new Map<AcuteMedicationClass, Set<string>>();
+  const acuteDays = new Set<string>();
+
+  doses.forEach(dose => {
+    const day = format(new Date(dose.taken_at), 'yyyy-MM-dd');
+    if (day < windowStart || day > windowEnd) return;
+    const medicationClass = acuteMedicationClass(dose.name);
+    if (!medicationClass) return;
+
+    acuteDays.add(day);
+    daysByClass.set(medicationClass, (daysByClass.get(medicationClass) || new Set()).add(day));
+    namesByClass.set(medicationClass, (namesByClass.get(medicationClass) || new Set()).add(dose.name.trim()));
+  });
+
+  const classes: OveruseClassCount[] = [...daysByClass.entries()]
+    .map(([medicationClass, days]) => ({
+      medicationClass,
+      label: ACUTE_MEDICATION_CLASSES[medicationClass].label,
+      days: days.size,
+      threshold: thresholds[medicationClass],
+      status: statusFor(days.size, thresholds[medicationClass], margin),
+      medications: [...(namesByClass.get(medicationClass) || [])],
+    }))
+    .sort((a, b) => b.days - a.days);
+
+  // Several classes can add up to overuse when none is overused alone
+  const combinedStatus = classes.length > 1 && classes.every(item => item.status !== 'over')
+    ? statusFor(acuteDays.size, thresholds.combined, margin)
+    : 'ok';
+
+  const warnings = classes
+    .filter(item => item.status !== 'ok')
+    .map(item => `${item.label} on ${item.days} of the last ${windowDays} days (${item.status === 'over' ? 'at or above' : 'close to'} the ${item.threshold}-day limit)`);
+  if (combinedStatus !== 'ok') {
+    warnings.push(`Acute medication of any kind on ${acuteDays.size} of the last ${windowDays} days (${combinedStatus === 'over' ? 'at or above' : 'close to'} the ${thresholds.combined}-day limit for several classes together)`);
+  }
+
+  const level = [combinedStatus, ...classes.map(item => item.status)]
+    .reduce((worst, status) => STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(worst) ? status : worst, 'ok' as OveruseStatus);
+
+  return {
+    windowStart,
+    windowEnd,
+    windowDays,
+    classes,
+    acuteDays: acuteDays.size,
+    combinedThreshold: thresholds.combined,
+    combinedStatus,
+    level,
+    warnings,
+  };
+}
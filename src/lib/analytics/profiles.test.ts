@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { weekOfLogs } from './__fixtures__/painLogs';
+import { toPainEntry } from './entries';
+import { timeOfDayProfile, timeOfDaySlot, weekdayProfile, worstBuckets } from './profiles';
+
+const entries = weekOfLogs.map(toPainEntry);
+
+describe('timeOfDaySlot', () => {
+  it.each([
+    ['2026-10-05T00:00:00', 'Night'],
+    ['2026-10-05T05:59:00', 'Night'],
+    ['2026-10-05T06:00:00', 'Morning'],
+    ['2026-10-05T12:00:00', 'Afternoon'],
+    ['2026-10-05T18:00:00', 'Evening'],
+    ['2026-10-05T23:59:00', 'Evening'],
+  ])('puts %s in %s', (timestamp, slot) => {
+    expect(timeOfDaySlot(timestamp)).toBe(slot);
+  });
+});
+
+describe('timeOfDayProfile', () => {
+  it('averages rated entries per slot, in slot order', () => {
+    const profile = timeOfDayProfile(entries);
+    expect(profile.map(bucket => [bucket.key, bucket.count])).toEqual([
+      ['Night', 1],
+      ['Morning', 3],
+      ['Afternoon', 1],
+      ['Evening', 2],
+    ]);
+    expect(profile[0].average).toBe(7);
+    expect(profile[1].average).toBeCloseTo(16 / 3);
+    expect(profile[3].average).toBe(3.5);
+  });
+
+  it('ranks the worst slots', () => {
+    expect(worstBuckets(timeOfDayProfile(entries))).toEqual(['Night', 'Morning']);
+  });
+});
+
+describe('weekdayProfile', () => {
+  it('averages per local weekday, Sunday first, keeping empty days', () => {
+    const profile = weekdayProfile(entries);
+    expect(profile.map(bucket => bucket.key)).toEqual([
+      'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday',
+    ]);
+    expect(profile.map(bucket => bucket.count)).toEqual([1, 2, 3, 1, 0, 0, 0]);
+    expect(profile[0].average).toBe(2);
+    expect(profile[4].average).toBe(0);
+  });
+
+  it('skips empty weekdays when ranking', () => {
+    expect(worstBuckets(weekdayProfile(entries), 7)).toEqual(['Wednesday', 'Tuesday', 'Monday', 'Sunday']);
+  });
+});
@@ -0,0 +1,56 @@
+import { mean, ratedEntries } from './entries';
+import type { PainEntry, TimeOfDaySlot } from './types';
+
+export interface ProfileBucket<T extends string> {
+  key: T;
+  // Mean pain of entries in the bucket, 0 when it has none
+  average: number;
+  count: number;
+}
+
+export const TIME_OF_DAY_SLOTS: TimeOfDaySlot[] = ['Night', 'Morning', 'Afternoon', 'Evening'];
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+/**
+ * Local-time slot: Night 0–6h, Morning 6–12h, Afternoon 12–18h, Evening 18–24h.
+ */
+export function timeOfDaySlot(timestamp: string): TimeOfDaySlot {
+  const hour = new Date(timestamp).getHours();
+  if (hour < 6) return 'Night';
+  if (hour < 12) return 'Morning';
+  if (hour < 18) return 'Afternoon';
+  return 'Evening';
+}
+
+function buildProfile<T extends string>(entries: PainEntry[], keys: readonly T[], keyOf: (entry: PainEntry) => T) {
+  const levels = new Map<T, number[]>(keys.map(key => [key, []]));
+  ratedEntries(entries).forEach(entry => levels.get(keyOf(entry))!.push(entry.painLevel));
+
+  return keys.map(key => ({ key, average: mean(levels.get(key)!), count: levels.get(key)!.length }));
+}
+
+/**
+ * Average pain per time-of-day slot, in TIME_OF_DAY_SLOTS order.
+ */
+export function timeOfDayProfile(entries: PainEntry[]): ProfileBucket<TimeOfDaySlot>[] {
+  return buildProfile(entries, TIME_OF_DAY_SLOTS, entry => timeOfDaySlot(entry.timestamp));
+}
+
+/**
+ * Average pain per local weekday, Sunday first.
+ */
+export function weekdayProfile(entries: PainEntry[]): ProfileBucket<Weekday>[] {
+  return buildProfile(entries, WEEKDAYS, entry => WEEKDAYS[new Date(entry.timestamp).getDay()]);
+}
+
+/**
+ * Keys of the buckets with the highest average pain, skipping empty ones.
+ */
+export function worstBuckets<T extends string>(profile: ProfileBucket<T>[], limit = 2): T[] {
+  return profile
+    .filter(bucket => bucket.count > 0)
+    .sort((a, b) => b.average - a.average)
+    .slice(0, limit)
+    .map(bucket => bucket.key);
+}
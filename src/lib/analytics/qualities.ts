@@ -0,0 +1,70 @@
+import { isNeuropathicQuality, painQualityLabel } from '@/lib/painQualities';
+import { mean } from './entries';
+import type { PainEntry } from './types';
+
+export interface PainQualityCount {
+  quality: string;
+  entries: number;
+  // Share of the entries that described the pain at all
+  percentage: number;
+  averagePain: number | null;
+}
+
+export interface PainQualityProfile {
+  // Entries with at least one quality picked
+  describedEntries: number;
+  qualities: PainQualityCount[];
+  // Described entries using at least one word typical of nerve pain
+  neuropathicEntries: number;
+  neuropathicPercentage: number;
+}
+
+/**
+ * How often each pain quality was picked, most frequent first, and how many
+ * entries used words typical of nerve pain. Entries without qualities are left out.
+ */
+export function painQualityProfile(entries: PainEntry[]): PainQualityProfile {
+  const described = entries.filter(entry => (entry.pain_qualities || []).length > 0);
+  const byQuality = new Map<string, { entries: number; levels: number[] }>();
+
+  described.forEach(entry => {
+    new Set(entry.pain_qualities).forEach(quality => {
+      const current = byQuality.get(quality) ?? { entries: 0, levels: [] };
+      byQuality.set(quality, {
+        entries: current.entries + 1,
+        levels: typeof entry.painLevel === 'number' ? [...current.levels, entry.painLevel] : current.levels,
+      });
+    });
+  });
+
+  const neuropathicEntries = described.filter(entry => entry.pain_qualities!.some(isNeuropathicQuality)).length;
+  const percentageOf = (count: number) => described.length > 0 ? (count / described.length) * 100 : 0;
+
+  return {
+    describedEntries: described.length,
+    qualities: [...byQuality.entries()]
+      .map(([quality, { entries: count, levels }]) => ({
+        quality,
+        entries: count,
+        percentage: percentageOf(count),
+        averagePain: levels.length > 0 ? mean(levels) : null,
+      }))
+      .sort((a, b) => b.entries - a.entries),
+    neuropathicEntries,
+    neuropathicPercentage: percentageOf(neuropathicEntries),
+  };
+}
+
+/**
+ * The profile as one line, e.g. "Burning 60%, Aching 40% of 10 described entries;
+ * nerve-type words in 60%". Null when no entry described the pain.
+ */
+export function formatPainQualities(profile: PainQualityProfile, limit = 4) {
+  if (profile.describedEntries === 0) return null;
+  const top = profile.qualities
+    .slice(0, limit)
+    .map(({ quality, percentage }) => `${painQualityLabel(quality)} ${percentage.toFixed(0)}%`)
+    .join(', ');
+  const entries = `${profile.describedEntries} described ${profile.describedEntries === 1 ? 'entry' : 'entries'}`;
+  return `${top} of ${entries}; nerve-type words in ${profile.neuropathicPercentage.toFixed(0)}%`;
+}
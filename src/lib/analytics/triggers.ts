@@ -0,0 +1,148 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { dailyAggregates } from './daily';
+import { mean } from './entries';
+import type { PainEntry } from './types';
+
+export type TriggerFactorKind = 'trigger' | 'activity' | 'impact_tag';
+
+// How much to trust an association, shown next to every result
+export type TriggerCaution = 'too_few' | 'could_be_chance' | 'consistent';
+
+export interface TriggerCorrelation {
+  // Kind plus lowercase label, stable across spellings
+  key: string;
+  kind: TriggerFactorKind;
+  label: string;
+  // Mean pain over the following days after days with the factor, minus after days without it
+  effect: number;
+  exposedMean: number;
+  comparisonMean: number;
+  // Days with the factor that had pain logged in the lag window
+  exposedDays: number;
+  comparisonDays: number;
+  caution: TriggerCaution;
+  // Entries that logged the factor on those days, for linking to Records
+  entryIds: string[];
+}
+
+export interface TriggerCorrelationOptions {
+  // Days after the factor to average pain over; [1, 2] is the following 24–48h
+  lagDays?: [number, number];
+  minSamples?: number;
+}
+
+export const TRIGGER_CAUTION_LABELS: Record<TriggerCaution, string> = {
+  too_few: 'Too few days to tell',
+  could_be_chance: 'Could be chance',
+  consistent: 'Consistent, but not proof of cause',
+};
+
+export const MIN_TRIGGER_SAMPLES = 5;
+const DEFAULT_LAG_DAYS: [number, number] = [1, 2];
+// Roughly a 95% interval excluding zero
+const CONSISTENT_Z = 2;
+
+interface Factor {
+  key: string;
+  kind: TriggerFactorKind;
+  label: string;
+}
+
+function entryFactors(entry: PainEntry): Factor[] {
+  const factor = (kind: TriggerFactorKind, value: string): Factor[] => {
+    const label = value.trim();
+    return label ? [{ key: `${kind}:${label.toLowerCase()}`, kind, label }] : [];
+  };
+
+  return [
+    ...entry.triggers.flatMap(trigger => factor('trigger', trigger)),
+    ...(entry.activity ? factor('activity', entry.activity) : []),
+    ...(entry.impact_tags || []).flatMap(tag => factor('impact_tag', tag)),
+  ];
+}
+
+function variance(values: number[]) {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Which triggers, activities and impact tags tend to come before higher pain.
+ *
+ * Works on calendar days: for every day with entries, the outcome is the mean of the
+ * daily average pain over the lag window (by default the next one or two days). Days
+ * where a factor was logged are compared with logged days where it wasn't. This is an
+ * association only: factors logged together, or logged because pain was already high,
+ * share the credit. Highest effect first; too few samples always rank last.
+ */
+export function triggerCorrelations(entries: PainEntry[], options: TriggerCorrelationOptions = {}): TriggerCorrelation[] {
+  const [fromDay, toDay] = options.lagDays ?? DEFAULT_LAG_DAYS;
+  const minSamples = options.minSamples ?? MIN_TRIGGER_SAMPLES;
+
+  const dailyAverage = new Map(dailyAggregates(entries).map(day => [day.date, day.average]));
+  const outcomeFor = (date: string) => {
+    const following: number[] = [];
+    for (let offset = fromDay; offset <= toDay; offset++) {
+      const average = dailyAverage.get(format(addDays(parseISO(date), offset), 'yyyy-MM-dd'));
+      if (average !== undefined) following.push(average);
+    }
+    return following.length > 0 ? mean(following) : null;
+  };
+
+  const factors = new Map<string, Factor & { days: Set<string>; entryIds: Set<string> }>();
+  const loggedDays = new Set<string>();
+
+  entries.forEach(entry => {
+    loggedDays.add(entry.date);
+    entryFactors(entry).forEach(({ key, kind, label }) => {
+      const factor = factors.get(key) || { key, kind, label, days: new Set<string>(), entryIds: new Set<string>() };
+      factor.days.add(entry.date);
+      factor.entryIds.add(entry.id);
+      factors.set(key, factor);
+    });
+  });
+
+  const outcomes = new Map<string, number>();
+  loggedDays.forEach(date => {
+    const outcome = outcomeFor(date);
+    if (outcome !== null) outcomes.set(date, outcome);
+  });
+
+  return [...factors.values()]
+    .map((factor): TriggerCorrelation | null => {
+      const exposed: number[] = [];
+      const comparison: number[] = [];
+      outcomes.forEach((outcome, date) => (factor.days.has(date) ? exposed : comparison).push(outcome));
+      if (exposed.length === 0 || comparison.length === 0) return null;
+
+      const effect = mean(exposed) - mean(comparison);
+      const standardError = Math.sqrt(variance(exposed) / exposed.length + variance(comparison) / comparison.length);
+      let caution: TriggerCaution = 'could_be_chance';
+      if (exposed.length < minSamples || comparison.length < minSamples) {
+        caution = 'too_few';
+      } else if (standardError > 0 ? Math.abs(effect) / standardError >= CONSISTENT_Z : effect !== 0) {
+        caution = 'consistent';
+      }
+
+      return {
+        key: factor.key,
+        kind: factor.kind,
+        label: factor.label,
+        effect,
+        exposedMean: mean(exposed),
+        comparisonMean: mean(comparison),
+        exposedDays: exposed.length,
+        comparisonDays: comparison.length,
+        caution,
+        entryIds: entries
+          .filter(entry => factor.entryIds.has(entry.id) && outcomes.has(entry.date))
+          .map(entry => entry.id),
+      };
+    })
+    .filter((result): result is TriggerCorrelation => result !== null)
+    .sort((a, b) => {
+      if ((a.caution === 'too_few') !== (b.caution === 'too_few')) return a.caution === 'too_few' ? 1 : -1;
+      return b.effect - a.effect;
+    });
+}
@@ -0,0 +1,60 @@
+/**
+ * A pain entry as the analytics functions and the cards built on them see it.
+ * Built from a pain_logs row with toPainEntry().
+ */
+export interface PainEntry {
+  id: string;
+  // Local calendar day, yyyy-MM-dd
+  date: string;
+  timestamp: string;
+  painLevel: number | null;
+  location: string[];
+  triggers: string[];
+  medications: string[];
+  notes: string;
+  symptoms: string[];
+  status: string;
+  activity?: string | null;
+  functional_impact?: string | null;
+  impact_tags?: string[] | null;
+  side_effects?: string | null;
+  rx_taken?: boolean | null;
+  // Pain 0–10 per location, when rated separately from the overall level
+  location_intensities?: Record<string, number> | null;
+  // Ids from PAIN_QUALITIES
+  pain_qualities?: string[] | null;
+}
+
+/**
+ * The pain_logs columns needed to build a PainEntry.
+ */
+export interface PainLogRecord {
+  id: string;
+  logged_at: string;
+  pain_level: number | null;
+  pain_locations?: string[] | null;
+  triggers?: string[] | null;
+  medications?: string[] | null;
+  notes?: string | null;
+  activity?: string | null;
+  functional_impact?: string | null;
+  impact_tags?: string[] | null;
+  side_effects?: string | null;
+  rx_taken?: boolean | null;
+  // jsonb, so typed loosely by the generated client
+  location_intensities?: unknown;
+  pain_qualities?: string[] | null;
+}
+
+/**
+ * A medication_doses row with its medication's name.
+ */
+export interface MedicationDoseRecord {
+  pain_log_id: string | null;
+  taken_at: string;
+  name: string;
+}
+
+export type TimeOfDaySlot = 'Night' | 'Morning' | 'Afternoon' | 'Evening';
+
+export type FunctionalImpactLevel = 'none' | 'limited' | 'stopped' | 'bed';
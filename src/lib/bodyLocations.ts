@@ -0,0 +1,91 @@
+/**
+ * The canonical body locations stored in pain_logs.pain_locations and
+ * profiles.default_pain_locations. Regions that come in pairs are stored with their
+ * side ("Left knee"), or by label when no side was given ("Knee"); others by label
+ * ("Lower back"). Values outside this list are still allowed as free text for anything
+ * the map can't show; other names for these regions are mapped to them in
+ * src/lib/vocabulary.ts.
+ */
+
+export type BodySide = 'left' | 'right';
+export type BodyView = 'front' | 'back';
+
+export interface BodyRegion {
+  id: string;
+  label: string;
+  // Has a left and a right
+  lateral: boolean;
+  views: BodyView[];
+  // SNOMED CT body structure, where the region has a clear one
+  snomed?: { code: string; display: string };
+}
+
+export const BODY_REGIONS: BodyRegion[] = [
+  { id: 'head', label: 'Head', lateral: false, views: ['front', 'back'], snomed: { code: '69536005', display: 'Head structure' } },
+  { id: 'forehead', label: 'Forehead', lateral: false, views: ['front'], snomed: { code: '52795006', display: 'Forehead structure' } },
+  { id: 'temple', label: 'Temple', lateral: true, views: ['front'] },
+  { id: 'eye', label: 'Eye', lateral: true, views: ['front'] },
+  { id: 'face', label: 'Face', lateral: false, views: ['front'] },
+  { id: 'jaw', label: 'Jaw', lateral: true, views: ['front'] },
+  { id: 'back_of_head', label: 'Back of head', lateral: false, views: ['back'] },
+  { id: 'neck', label: 'Neck', lateral: false, views: ['front', 'back'], snomed: { code: '45048000', display: 'Neck structure' } },
+  { id: 'shoulder', label: 'Shoulder', lateral: true, views: ['front', 'back'], snomed: { code: '16982005', display: 'Shoulder region structure' } },
+  { id: 'chest', label: 'Chest', lateral: false, views: ['front'], snomed: { code: '51185008', display: 'Thoracic structure' } },
+  { id: 'abdomen', label: 'Abdomen', lateral: false, views: ['front'], snomed: { code: '113345001', display: 'Abdominal structure' } },
+  { id: 'pelvis', label: 'Pelvis', lateral: false, views: ['front'] },
+  { id: 'upper_back', label: 'Upper back', lateral: false, views: ['back'], snomed: { code: '77568009', display: 'Structure of back of trunk' } },
+  { id: 'lower_back', label: 'Lower back', lateral: false, views: ['back'], snomed: { code: '37822005', display: 'Lower back structure' } },
+  { id: 'upper_arm', label: 'Upper arm', lateral: true, views: ['front', 'back'] },
+  { id: 'elbow', label: 'Elbow', lateral: true, views: ['front', 'back'] },
+  { id: 'forearm', label: 'Forearm', lateral: true, views: ['front', 'back'] },
+  { id: 'wrist', label: 'Wrist', lateral: true, views: ['front', 'back'] },
+  { id: 'hand', label: 'Hand', lateral: true, views: ['front', 'back'], snomed: { code: '85562004', display: 'Hand structure' } },
+  { id: 'hip', label: 'Hip', lateral: true, views: ['front', 'back'], snomed: { code: '29836001', display: 'Hip region structure' } },
+  { id: 'buttock', label: 'Buttock', lateral: true, views: ['back'] },
+  { id: 'thigh', label: 'Thigh', lateral: true, views: ['front', 'back'] },
+  { id: 'knee', label: 'Knee', lateral: true, views: ['front', 'back'], snomed: { code: '72696002', display: 'Knee region structure' } },
+  { id: 'shin', label: 'Shin', lateral: true, views: ['front'] },
+  { id: 'calf', label: 'Calf', lateral: true, views: ['back'] },
+  { id: 'ankle', label: 'Ankle', lateral: true, views: ['front', 'back'] },
+  { id: 'foot', label: 'Foot', lateral: true, views: ['front', 'back'], snomed: { code: '56459004', display: 'Foot structure' } },
+];
+
+const REGIONS_BY_ID = new Map(BODY_REGIONS.map(region => [region.id, region]));
+
+export function bodyRegion(id: string) {
+  return REGIONS_BY_ID.get(id);
+}
+
+/**
+ * The stored value for a region, e.g. "Left knee" or "Neck".
+ */
+export function locationName(regionId: string, side?: BodySide | null) {
+  const region = REGIONS_BY_ID.get(regionId);
+  if (!region) return regionId;
+  if (!region.lateral || !side) return region.label;
+  return `${side === 'left' ? 'Left' : 'Right'} ${region.label.toLowerCase()}`;
+}
+
+// Both sides of a paired region, left first
+export const bothSides = (regionId: string) => [locationName(regionId, 'left'), locationName(regionId, 'right')];
+
+// Every location the body map can show, in map order
+export const BODY_LOCATIONS: string[] = BODY_REGIONS.flatMap(region =>
+  region.lateral ? bothSides(region.id) : [region.label]
+);
+
+const LOCATION_PARTS = new Map<string, { region: BodyRegion; side: BodySide | null }>(
+  BODY_REGIONS.flatMap(region => [
+    [region.label.toLowerCase(), { region, side: null }] as const,
+    ...(region.lateral
+      ? (['left', 'right'] as BodySide[]).map(side => [locationName(region.id, side).toLowerCase(), { region, side }] as const)
+      : []),
+  ])
+);
+
+/**
+ * Region and side of a stored location, or null for free text.
+ */
+export function parseLocation(location: string) {
+  return LOCATION_PARTS.get(location.trim().toLowerCase()) ?? null;
+}
@@ -0,0 +1,565 @@
+import { jsPDF } from 'jspdf';
+import { addMonths, differenceInCalendarDays, eachDayOfInterval, endOfMonth, format, getDay, parseISO, startOfMonth } from 'date-fns';
+import {
+  dailyAggregates,
+  formatPainQualities,
+  formatSignedDelta,
+  formatWindow,
+  painQualityProfile,
+  summarizePain,
+  TRIGGER_CAUTION_LABELS,
+  type AdherenceSummary,
+  type FunctionalImpactRollup,
+  type MedicationEffect,
+  type MedicationOveruse,
+  type PainEntry,
+  type TriggerCorrelation
+} from '@/lib/analytics';
+import { formatDn4Result } from '@/lib/neuropathicScreening';
+import { formatQuestionnaireResult, latestResponses, type QuestionnaireResponse } from '@/lib/questionnaires';
+
+export type ReportSectionKey = 'dailyChart' | 'heatmap' | 'medications' | 'adherence' | 'impact' | 'triggers' | 'journal';
+
+export const REPORT_SECTIONS: Array<{ key: ReportSectionKey; label: string }> = [
+  { key: 'dailyChart', label: 'Daily pain chart' },
+  { key: 'heatmap', label: 'Calendar heatmap' },
+  { key: 'medications', label: 'Medication response' },
+  { key: 'adherence', label: 'Medication adherence' },
+  { key: 'impact', label: 'Functional impact' },
+  { key: 'triggers', label: 'Top triggers' },
+  { key: 'journal', label: 'Journal excerpts' },
+];
+
+/**
+ * Everything the report shows, computed by the caller with the same analytics as
+ * the on-screen summary so both always agree.
+ */
+export interface ClinicianReportData {
+  patient: { name: string | null; email: string | null; diagnosis: string | null };
+  startDate: Date;
+  endDate: Date;
+  entries: PainEntry[];
+  medicationEffects: MedicationEffect[];
+  adherence: AdherenceSummary | null;
+  overuse: MedicationOveruse | null;
+  impact: FunctionalImpactRollup;
+  triggers: TriggerCorrelation[];
+  excerpts: PainEntry[];
+  // Latest DN4 screening, if the patient has done one
+  screening?: { score: number; completed_at: string } | null;
+  // Completed questionnaires; each instrument's latest by the end date is shown
+  questionnaires?: QuestionnaireResponse[];
+}
+
+type RGB = [number, number, number];
+
+// A4 portrait, in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SPACE = 14;
+const LINE_HEIGHT = 4.6;
+
+const TEXT: RGB = [33, 37, 41];
+const MUTED: RGB = [108, 117, 125];
+const RULE: RGB = [222, 226, 230];
+const NO_DATA: RGB = [241, 243, 245];
+
+interface Layout {
+  doc: jsPDF;
+  y: number;
+}
+
+// The built-in fonts only cover WinAnsi; swap the symbols the analytics use and drop the rest
+export function pdfText(value: string) {
+  return value
+    .replace(/−/g, '-')
+    .replace(/≥/g, '>=')
+    .replace(/≤/g, '<=')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7e\xa0-\xff–—•…\n]/g, '');
+}
+
+// Green through amber to red over 0–10
+export function painColor(level: number): RGB {
+  const stops: Array<[number, RGB]> = [[0, [34, 197, 94]], [5, [234, 179, 8]], [10, [220, 38, 38]]];
+  const clamped = Math.min(Math.max(level, 0), 10);
+  const [lower, upper] = clamped <= 5 ? [stops[0], stops[1]] : [stops[1], stops[2]];
+  const t = (clamped - lower[0]) / (upper[0] - lower[0]);
+  return lower[1].map((channel, i) => Math.round(channel + (upper[1][i] - channel) * t)) as RGB;
+}
+
+function ensureSpace(layout: Layout, height: number) {
+  if (layout.y + height > PAGE_HEIGHT - MARGIN - FOOTER_SPACE) {
+    layout.doc.addPage();
+    layout.y = MARGIN;
+  }
+}
+
+function paragraph(layout: Layout, text: string, { size = 10, color = TEXT, bold = false } = {}) {
+  const { doc } = layout;
+  doc.setFont('helvetica', bold ? 'bold' : 'normal');
+  doc.setFontSize(size);
+  doc.setTextColor(...color);
+  const lines: string[] = doc.splitTextToSize(pdfText(text), CONTENT_WIDTH);
+  lines.forEach(line => {
+    ensureSpace(layout, LINE_HEIGHT);
+    doc.text(line, MARGIN, layout.y + 3.5);
+    layout.y += LINE_HEIGHT;
+  });
+}
+
+function sectionTitle(layout: Layout, title: string, minContent = 30) {
+  // Keep a title on the same page as the start of its content
+  ensureSpace(layout, 10 + minContent);
+  layout.y += 4;
+  const { doc } = layout;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.setTextColor(...TEXT);
+  doc.text(pdfText(title), MARGIN, layout.y + 4);
+  doc.setDrawColor(...RULE);
+  doc.setLineWidth(0.3);
+  doc.line(MARGIN, layout.y + 6, MARGIN + CONTENT_WIDTH, layout.y + 6);
+  layout.y += 9;
+}
+
+/**
+ * A table that wraps cell text and repeats its header after a page break.
+ * Widths are fractions of the content width.
+ */
+function table(layout: Layout, headers: string[], rows: string[][], widths: number[]) {
+  const { doc } = layout;
+  const columnWidths = widths.map(width => width * CONTENT_WIDTH);
+  const padding = 1.5;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    doc.setFont('helvetica', header ? 'bold' : 'normal');
+    doc.setFontSize(9);
+    const wrapped = cells.map((cell, i) => doc.splitTextToSize(pdfText(cell), columnWidths[i] - padding * 2) as string[]);
+    const height = Math.max(...wrapped.map(lines => lines.length)) * 4 + padding * 2;
+
+    if (layout.y + height > PAGE_HEIGHT - MARGIN - FOOTER_SPACE) {
+      doc.addPage();
+      layout.y = MARGIN;
+      if (!header) drawRow(headers, true);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+    }
+
+    if (header) {
+      doc.setFillColor(...NO_DATA);
+      doc.rect(MARGIN, layout.y, CONTENT_WIDTH, height, 'F');
+    }
+    doc.setTextColor(...TEXT);
+    let x = MARGIN;
+    wrapped.forEach((lines, i) => {
+      doc.text(lines, x + padding, layout.y + padding + 3);
+      x += columnWidths[i];
+    });
+    layout.y += height;
+    doc.setDrawColor(...RULE);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y);
+  };
+
+  drawRow(headers, true);
+  rows.forEach(row => drawRow(row, false));
+  layout.y += 2;
+}
+
+function header(layout: Layout, data: ClinicianReportData) {
+  const { doc } = layout;
+  const summary = summarizePain(data.entries);
+  const qualities = formatPainQualities(painQualityProfile(data.entries), 3);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(...TEXT);
+  doc.text('Pain report', MARGIN, layout.y + 7);
+  layout.y += 12;
+
+  const details = [
+    ['Patient', data.patient.name || data.patient.email || 'Not provided'],
+    ...(data.patient.name && data.patient.email ? [['Email', data.patient.email]] : []),
+    ['Condition', data.patient.diagnosis || 'Not provided'],
+    ['Period', `${format(data.startDate, 'MMM d, yyyy')} to ${format(data.endDate, 'MMM d, yyyy')} (${differenceInCalendarDays(data.endDate, data.startDate) + 1} days)`],
+    ...(qualities ? [['Pain quality', qualities]] : []),
+    ...(data.screening ? [['DN4 screen', `${formatDn4Result(data.screening)} (7 symptom items)`]] : []),
+    ...latestResponses(data.questionnaires ?? [], data.endDate).map(({ definition, latest, previous }) =>
+      [definition.shortName, formatQuestionnaireResult(definition, latest, previous)]
+    ),
+    ['Generated', format(new Date(), 'MMM d, yyyy HH:mm')],
+  ];
+  doc.setFontSize(10);
+  details.forEach(([label, value]) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...MUTED);
+    doc.text(label, MARGIN, layout.y + 3.5);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...TEXT);
+    const lines: string[] = doc.splitTextToSize(pdfText(value), CONTENT_WIDTH - 25);
+    doc.text(lines, MARGIN + 25, layout.y + 3.5);
+    layout.y += 5 * lines.length;
+  });
+
+  layout.y += 3;
+  const stats = [
+    ['Average pain', data.entries.length > 0 ? `${summary.averagePain.toFixed(1)}/10` : '-'],
+    ['Days logged', `${summary.totalDays}`],
+    ['Severe days (>=7)', `${summary.severeDays}`],
+    ['Entries', `${data.entries.length}`],
+  ];
+  const boxWidth = (CONTENT_WIDTH - 6) / stats.length;
+  stats.forEach(([label, value], i) => {
+    const x = MARGIN + i * (boxWidth + 2);
+    doc.setDrawColor(...RULE);
+    doc.setLineWidth(0.3);
+    doc.roundedRect(x, layout.y, boxWidth, 16, 1.5, 1.5, 'S');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.setTextColor(...TEXT);
+    doc.text(value, x + 3, layout.y + 7);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text(label, x + 3, layout.y + 12.5);
+  });
+  layout.y += 20;
+}
+
+function dailyChart(layout: Layout, data: ClinicianReportData) {
+  sectionTitle(layout, 'Daily pain', 70);
+  const { doc } = layout;
+  const days = dailyAggregates(data.entries);
+  if (days.length === 0) {
+    paragraph(layout, 'No rated entries in this period.', { color: MUTED });
+    return;
+  }
+
+  const chartLeft = MARGIN + 8;
+  const chartWidth = CONTENT_WIDTH - 8;
+  const chartTop = layout.y + 2;
+  const chartHeight = 55;
+  const totalDays = Math.max(differenceInCalendarDays(data.endDate, data.startDate), 1);
+  const xFor = (date: string) =>
+    chartLeft + (differenceInCalendarDays(parseISO(date), data.startDate) / totalDays) * chartWidth;
+  const yFor = (level: number) => chartTop + chartHeight - (level / 10) * chartHeight;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor(...MUTED);
+  doc.setLineWidth(0.15);
+  for (let level = 0; level <= 10; level += 2) {
+    doc.setDrawColor(...RULE);
+    doc.line(chartLeft, yFor(level), chartLeft + chartWidth, yFor(level));
+    doc.text(`${level}`, chartLeft - 2, yFor(level) + 1, { align: 'right' });
+  }
+
+  // Range of each day's entries behind the daily average
+  doc.setLineWidth(1.2);
+  days.forEach(day => {
+    doc.setDrawColor(...painColor(day.max).map(channel => Math.round(channel + (255 - channel) * 0.6)) as RGB);
+    doc.line(xFor(day.date), yFor(day.min), xFor(day.date), yFor(day.max) - 0.01);
+  });
+
+  doc.setDrawColor(...TEXT);
+  doc.setLineWidth(0.4);
+  days.slice(1).forEach((day, i) => {
+    doc.line(xFor(days[i].date), yFor(days[i].average), xFor(day.date), yFor(day.average));
+  });
+  days.forEach(day => {
+    doc.setFillColor(...painColor(day.average));
+    doc.circle(xFor(day.date), yFor(day.average), 0.9, 'F');
+  });
+
+  const tickEvery = Math.max(Math.ceil((totalDays + 1) / 8), 1);
+  eachDayOfInterval({ start: data.startDate, end: data.endDate })
+    .filter((_, i) => i % tickEvery === 0)
+    .forEach(day => {
+      doc.text(format(day, 'MMM d'), xFor(format(day, 'yyyy-MM-dd')), chartTop + chartHeight + 4, { align: 'center' });
+    });
+
+  layout.y = chartTop + chartHeight + 7;
+  paragraph(layout, 'Dots: daily average. Bars: lowest to highest entry that day.', { size: 8, color: MUTED });
+}
+
+function heatmap(layout: Layout, data: ClinicianReportData) {
+  sectionTitle(layout, 'Calendar', 50);
+  const { doc } = layout;
+  const averages = new Map(dailyAggregates(data.entries).map(day => [day.date, day.average]));
+  const rangeStart = format(data.startDate, 'yyyy-MM-dd');
+  const rangeEnd = format(data.endDate, 'yyyy-MM-dd');
+
+  const cell = 6;
+  const gap = 0.8;
+  const monthWidth = 7 * (cell + gap);
+  const monthsPerRow = 3;
+  const monthSpacing = (CONTENT_WIDTH - monthsPerRow * monthWidth) / (monthsPerRow - 1);
+  const monthHeight = 10 + 6 * (cell + gap);
+
+  const months: Date[] = [];
+  for (let month = startOfMonth(data.startDate); month <= data.endDate; month = addMonths(month, 1)) {
+    months.push(month);
+  }
+
+  months.forEach((month, index) => {
+    const column = index % monthsPerRow;
+    if (column === 0) {
+      if (index > 0) layout.y += monthHeight + 4;
+      ensureSpace(layout, monthHeight);
+    }
+    const left = MARGIN + column * (monthWidth + monthSpacing);
+    const top = layout.y;
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(...TEXT);
+    doc.text(format(month, 'MMMM yyyy'), left, top + 3);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(6);
+    doc.setTextColor(...MUTED);
+    ['M', 'T', 'W', 'T', 'F', 'S', 'S'].forEach((label, i) => {
+      doc.text(label, left + i * (cell + gap) + cell / 2, top + 7.5, { align: 'center' });
+    });
+
+    // Weeks start on Monday
+    const offset = (getDay(startOfMonth(month)) + 6) % 7;
+    eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).forEach((day, i) => {
+      const date = format(day, 'yyyy-MM-dd');
+      const slot = offset + i;
+      const x = left + (slot % 7) * (cell + gap);
+      const y = top + 9 + Math.floor(slot / 7) * (cell + gap);
+      const inRange = date >= rangeStart && date <= rangeEnd;
+      const average = averages.get(date);
+
+      if (average !== undefined) {
+        doc.setFillColor(...painColor(average));
+        doc.rect(x, y, cell, cell, 'F');
+        doc.setTextColor(255, 255, 255);
+      } else {
+        doc.setFillColor(...(inRange ? NO_DATA : ([255, 255, 255] as RGB)));
+        doc.rect(x, y, cell, cell, 'F');
+        doc.setTextColor(...(inRange ? MUTED : RULE));
+      }
+      doc.setFontSize(5.5);
+      doc.text(`${day.getDate()}`, x + cell / 2, y + cell / 2 + 1, { align: 'center' });
+    });
+  });
+  layout.y += monthHeight + 2;
+
+  // Legend
+  ensureSpace(layout, 8);
+  doc.setFontSize(7);
+  doc.setTextColor(...MUTED);
+  doc.text('Daily average:', MARGIN, layout.y + 3.5);
+  [0, 2, 4, 6, 8, 10].forEach((level, i) => {
+    const x = MARGIN + 20 + i * 12;
+    doc.setFillColor(...painColor(level));
+    doc.rect(x, layout.y + 0.5, 4, 4, 'F');
+    doc.text(`${level}`, x + 5, layout.y + 3.5);
+  });
+  doc.setFillColor(...NO_DATA);
+  doc.rect(MARGIN + 94, layout.y + 0.5, 4, 4, 'F');
+  doc.text('No entries', MARGIN + 99, layout.y + 3.5);
+  layout.y += 8;
+}
+
+function medications(layout: Layout, data: ClinicianReportData) {
+  sectionTitle(layout, 'Medication response');
+  if (data.medicationEffects.length === 0) {
+    paragraph(layout, 'No medications logged in this period.', { color: MUTED });
+  } else {
+    table(
+      layout,
+      ['Medication', 'Window', 'Effect vs. untreated', '95% CI', 'Doses', 'Side effects'],
+      data.medicationEffects.map(med => [
+        med.name,
+        formatWindow(med.window),
+        med.effect === null ? 'Insufficient data' : formatSignedDelta(med.effect),
+        med.ci ? `${formatSignedDelta(med.ci[0])} to ${formatSignedDelta(med.ci[1])}` : '-',
+        `${med.matchedPairs} of ${med.dosePairs}`,
+        `${med.sideEffectsRate.toFixed(0)}%`,
+      ]),
+      [0.24, 0.12, 0.2, 0.18, 0.12, 0.14]
+    );
+    paragraph(
+      layout,
+      'Effect is the change in pain after a dose minus the change over intervals at similar pain without medication; negative means relief.',
+      { size: 8, color: MUTED }
+    );
+  }
+
+  if (data.overuse && data.overuse.classes.length > 0) {
+    layout.y += 2;
+    paragraph(layout, `Acute medication days, ${data.overuse.windowDays} days to ${format(parseISO(data.overuse.windowEnd), 'MMM d, yyyy')}`, { bold: true, size: 9 });
+    table(
+      layout,
+      ['Class', 'Medications', 'Days', 'Limit'],
+      data.overuse.classes.map(item => [item.label, item.medications.join(', '), `${item.days}`, `${item.threshold}`]),
+      [0.28, 0.42, 0.15, 0.15]
+    );
+    if (data.overuse.level === 'over') {
+      paragraph(layout, 'At or above medication-overuse headache thresholds (ICHD-3).', { size: 9, color: [220, 38, 38] });
+    }
+  }
+}
+
+function adherence(layout: Layout, data: ClinicianReportData) {
+  sectionTitle(layout, 'Medication adherence');
+  const summary = data.adherence;
+  if (!summary || summary.percentage === null) {
+    paragraph(layout, 'No scheduled medications in this period.', { color: MUTED });
+    return;
+  }
+
+  paragraph(layout, `${summary.percentage.toFixed(0)}% of ${summary.scheduled} scheduled doses taken; ${summary.skipped} skipped, ${summary.missed} missed.`);
+  layout.y += 1;
+  table(
+    layout,
+    ['Week of', 'Scheduled', 'Taken', 'Skipped', 'Missed', 'Taken %'],
+    summary.weeks.map(week => [
+      format(parseISO(week.weekStart), 'MMM d'),
+      `${week.scheduled}`,
+      `${week.taken}`,
+      `${week.skipped}`,
+      `${week.missed}`,
+      week.percentage === null ? '-' : `${week.percentage.toFixed(0)}%`,
+    ]),
+    [0.2, 0.16, 0.16, 0.16, 0.16, 0.16]
+  );
+  table(
+    layout,
+    ['Medication', 'Scheduled', 'Taken', 'Taken %'],
+    summary.medications.map(med => [
+      med.name,
+      `${med.scheduled}`,
+      `${med.taken}`,
+      med.percentage === null ? '-' : `${med.percentage.toFixed(0)}%`,
+    ]),
+    [0.4, 0.2, 0.2, 0.2]
+  );
+}
+
+function impact(layout: Layout, data: ClinicianReportData) {
+  sectionTitle(layout, 'Functional impact');
+  const { doc } = layout;
+  if (data.impact.totalDays === 0) {
+    paragraph(layout, 'No functional impact recorded in this period.', { color: MUTED });
+    return;
+  }
+
+  paragraph(layout, `Worst impact per day, over ${data.impact.totalDays} days with impact recorded:`);
+  layout.y += 1;
+  const levels: Array<[keyof FunctionalImpactRollup['days'], string]> = [
+    ['none', 'No limitation'],
+    ['limited', 'Limited activities'],
+    ['stopped', 'Stopped activities'],
+    ['bed', 'Stayed in bed'],
+  ];
+  const barLeft = MARGIN + 38;
+  const barWidth = CONTENT_WIDTH - 60;
+  levels.forEach(([level, label]) => {
+    ensureSpace(layout, 7);
+    const percentage = data.impact.percentages[level];
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...TEXT);
+    doc.text(label, MARGIN, layout.y + 4);
+    doc.setFillColor(...NO_DATA);
+    doc.rect(barLeft, layout.y + 0.8, barWidth, 4, 'F');
+    doc.setFillColor(...painColor({ none: 1, limited: 5, stopped: 7.5, bed: 10 }[level]));
+    doc.rect(barLeft, layout.y + 0.8, (percentage / 100) * barWidth, 4, 'F');
+    doc.text(`${percentage.toFixed(0)}% (${data.impact.days[level]} days)`, barLeft + barWidth + 2, layout.y + 4);
+    layout.y += 6.5;
+  });
+
+  if (data.impact.topTags.length > 0) {
+    layout.y += 1;
+    paragraph(layout, `Most affected: ${data.impact.topTags.map(({ tag, count }) => `${tag} (${count})`).join(', ')}`, { size: 9 });
+  }
+}
+
+function triggers(layout: Layout, data: ClinicianReportData) {
+  sectionTitle(layout, 'Top triggers');
+  if (data.triggers.length === 0) {
+    paragraph(layout, 'Not enough logged triggers or activities to compare.', { color: MUTED });
+    return;
+  }
+
+  table(
+    layout,
+    ['Factor', 'Pain next 1–2 days', 'Without it', 'Difference', 'Days', 'Confidence'],
+    data.triggers.map(trigger => [
+      trigger.label,
+      trigger.exposedMean.toFixed(1),
+      trigger.comparisonMean.toFixed(1),
+      formatSignedDelta(trigger.effect),
+      `${trigger.exposedDays}`,
+      TRIGGER_CAUTION_LABELS[trigger.caution],
+    ]),
+    [0.22, 0.16, 0.13, 0.13, 0.1, 0.26]
+  );
+  paragraph(layout, 'Associations from self-reported data; they do not show cause.', { size: 8, color: MUTED });
+}
+
+function journal(layout: Layout, data: ClinicianReportData) {
+  sectionTitle(layout, 'Journal excerpts', 15);
+  if (data.excerpts.length === 0) {
+    paragraph(layout, 'No excerpts selected.', { color: MUTED });
+    return;
+  }
+
+  data.excerpts.forEach(entry => {
+    const level = entry.painLevel === null ? '' : ` · pain ${entry.painLevel}/10`;
+    paragraph(layout, `${format(new Date(entry.timestamp), 'EEE, MMM d yyyy, HH:mm')}${level}`, { size: 9, color: MUTED, bold: true });
+    paragraph(layout, entry.notes.trim(), { size: 10 });
+    layout.y += 2;
+  });
+}
+
+const SECTION_RENDERERS: Record<ReportSectionKey, (layout: Layout, data: ClinicianReportData) => void> = {
+  dailyChart,
+  heatmap,
+  medications,
+  adherence,
+  impact,
+  triggers,
+  journal,
+};
+
+function footers(doc: jsPDF) {
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7.5);
+    doc.setTextColor(...MUTED);
+    doc.text('Patient-reported data from PainPal. Not a diagnosis; review with the patient.', MARGIN, PAGE_HEIGHT - 8);
+    doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: 'right' });
+  }
+}
+
+/**
+ * Build the clinician PDF with the chosen sections, in REPORT_SECTIONS order.
+ * The header with patient details and headline numbers is always included.
+ */
+export function buildClinicianReport(data: ClinicianReportData, sections: ReportSectionKey[]): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: 'Pain report', creator: 'PainPal' });
+  const layout: Layout = { doc, y: MARGIN };
+
+  header(layout, data);
+  REPORT_SECTIONS
+    .filter(section => sections.includes(section.key))
+    .forEach(section => SECTION_RENDERERS[section.key](layout, data));
+  footers(doc);
+
+  return doc;
+}
+
+export function clinicianReportFilename(startDate: Date, endDate: Date) {
+  return `pain-report-${format(startDate, 'yyyy-MM-dd')}-to-${format(endDate, 'yyyy-MM-dd')}.pdf`;
+}
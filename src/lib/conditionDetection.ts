@@ -1,3 +1,6 @@
+import { BODY_LOCATIONS } from "@/lib/bodyLocations";
+import { mapLocations, normalizeTerms } from "@/lib/vocabulary";
+
 export interface ConditionDefaults {
   painLocations: string[];
   relevantBodyAreas: string[];
@@ -6,61 +9,59 @@ export interface ConditionDefaults {
   description: string;
 }
 
-// General body areas fallback
-export const GENERAL_BODY_AREAS = [
-  "Head", "Neck", "Shoulders", "Upper back", "Lower back", 
-  "Chest", "Arms", "Elbows", "Wrists", "Hands", 
-  "Hips", "Thighs", "Knees", "Calves", "Ankles", "Feet"
-];
+// General body areas fallback: the whole map
+export const GENERAL_BODY_AREAS = BODY_LOCATIONS;
 
+// Locations and triggers are written as people name them and mapped to their canonical names;
+// locations are suggestions on the body map, so a paired area covers both sides
 export const CONDITION_MAPPINGS: Record<string, ConditionDefaults> = {
   migraine: {
-    painLocations: ["Forehead", "Temples", "Back of head", "Behind eyes", "Neck"],
-    relevantBodyAreas: ["Forehead", "Temples", "Back of head", "Behind eyes", "Face", "Jaw", "Neck", "Shoulders"],
+    painLocations: mapLocations(["Forehead", "Temples", "Back of head", "Behind eyes", "Neck"]),
+    relevantBodyAreas: mapLocations(["Forehead", "Temples", "Back of head", "Behind eyes", "Face", "Jaw", "Neck", "Shoulders"]),
     painIsConsistent: true,
-    commonTriggers: ["Stress", "Bright lights", "Loud noises", "Weather changes", "Certain foods", "Lack of sleep", "Dehydration"],
+    commonTriggers: normalizeTerms('trigger', ["Stress", "Bright lights", "Loud noises", "Weather changes", "Certain foods", "Lack of sleep", "Dehydration"]),
     description: "Migraines often affect specific areas of the head, face, and neck."
   },
   headache: {
-    painLocations: ["Forehead", "Temples", "Back of head", "Neck"],
-    relevantBodyAreas: ["Forehead", "Temples", "Back of head", "Behind eyes", "Face", "Jaw", "Neck", "Shoulders"],
+    painLocations: mapLocations(["Forehead", "Temples", "Back of head", "Neck"]),
+    relevantBodyAreas: mapLocations(["Forehead", "Temples", "Back of head", "Behind eyes", "Face", "Jaw", "Neck", "Shoulders"]),
     painIsConsistent: true,
-    commonTriggers: ["Stress", "Eye strain", "Dehydration", "Poor posture", "Lack of sleep"],
+    commonTriggers: normalizeTerms('trigger', ["Stress", "Eye strain", "Dehydration", "Poor posture", "Lack of sleep"]),
     description: "Headaches typically occur in specific head and neck regions."
   },
   arthritis: {
-    painLocations: ["Hands", "Fingers", "Wrists", "Knees", "Ankles"],
-    relevantBodyAreas: ["Hands", "Fingers", "Wrists", "Elbows", "Shoulders", "Knees", "Ankles", "Hips", "Feet", "Toes"],
+    painLocations: mapLocations(["Hands", "Fingers", "Wrists", "Knees", "Ankles"]),
+    relevantBodyAreas: mapLocations(["Hands", "Fingers", "Wrists", "Elbows", "Shoulders", "Knees", "Ankles", "Hips", "Feet", "Toes"]),
     painIsConsistent: true,
-    commonTriggers: ["Weather changes", "Cold temperatures", "Physical activity", "Barometric pressure", "Overuse"],
+    commonTriggers: normalizeTerms('trigger', ["Weather changes", "Cold temperatures", "Physical activity", "Barometric pressure", "Overuse"]),
     description: "Arthritis commonly affects joints throughout the body."
   },
   fibromyalgia: {
-    painLocations: ["Shoulders", "Upper back", "Lower back", "Neck", "Arms"],
-    relevantBodyAreas: ["Neck", "Shoulders", "Upper back", "Lower back", "Arms", "Hips", "Thighs", "Chest"],
+    painLocations: mapLocations(["Shoulders", "Upper back", "Lower back", "Neck", "Arms"]),
+    relevantBodyAreas: mapLocations(["Neck", "Shoulders", "Upper back", "Lower back", "Arms", "Hips", "Thighs", "Chest"]),
     painIsConsistent: false,
-    commonTriggers: ["Stress", "Sleep disruption", "Physical exertion", "Weather changes", "Emotional stress"],
+    commonTriggers: normalizeTerms('trigger', ["Stress", "Sleep disruption", "Physical exertion", "Weather changes", "Emotional stress"]),
     description: "Fibromyalgia involves widespread muscle and soft tissue pain."
   },
   "back pain": {
-    painLocations: ["Lower back", "Upper back"],
-    relevantBodyAreas: ["Upper back", "Lower back", "Hips", "Neck", "Shoulders"],
+    painLocations: mapLocations(["Lower back", "Upper back"]),
+    relevantBodyAreas: mapLocations(["Upper back", "Lower back", "Hips", "Neck", "Shoulders"]),
     painIsConsistent: true,
-    commonTriggers: ["Poor posture", "Physical activity", "Lifting", "Sitting too long", "Stress"],
+    commonTriggers: normalizeTerms('trigger', ["Poor posture", "Physical activity", "Lifting", "Sitting too long", "Stress"]),
     description: "Back pain usually affects the spine and surrounding muscle areas."
   },
   sciatica: {
-    painLocations: ["Lower back", "Hips", "Thighs"],
-    relevantBodyAreas: ["Lower back", "Hips", "Thighs", "Calves", "Feet"],
+    painLocations: mapLocations(["Lower back", "Hips", "Thighs"]),
+    relevantBodyAreas: mapLocations(["Lower back", "Hips", "Thighs", "Calves", "Feet"]),
     painIsConsistent: true,
-    commonTriggers: ["Sitting", "Bending", "Coughing", "Sneezing", "Physical activity"],
+    commonTriggers: normalizeTerms('trigger', ["Sitting", "Bending", "Coughing", "Sneezing", "Physical activity"]),
     description: "Sciatica typically follows the nerve path from lower back down through the legs."
   },
   "chronic pain": {
     painLocations: [],
     relevantBodyAreas: GENERAL_BODY_AREAS,
     painIsConsistent: false,
-    commonTriggers: ["Stress", "Weather changes", "Physical activity", "Sleep disruption"],
+    commonTriggers: normalizeTerms('trigger', ["Stress", "Weather changes", "Physical activity", "Sleep disruption"]),
     description: "Chronic pain can vary greatly between individuals."
   }
 };
@@ -117,4 +118,10 @@ export function getSmartDefaults(diagnosis: string): Partial<ConditionDefaults>
     };
   }
   return detected;
-}
\ No newline at end of file
+}
+
+// Headache disorders, where frequent acute medication can itself worsen headaches
+export function isHeadacheCondition(diagnosis: string | null | undefined): boolean {
+  const detected = detectCondition(diagnosis ?? "");
+  return detected === CONDITION_MAPPINGS.migraine || detected === CONDITION_MAPPINGS.headache;
+}
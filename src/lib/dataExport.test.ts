@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EXPORT_TABLES } from './dataExport';
+
+// The client touches localStorage when it loads; only the table list is used here
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const migrations = import.meta.glob<string>('../../supabase/migrations/*.sql', { query: '?raw', import: 'default', eager: true });
+
+// Body of the latest definition of a function, since later migrations replace earlier ones
+function latestFunctionBody(name: string) {
+  const definitions = Object.keys(migrations)
+    .sort()
+    .map(path => migrations[path].match(new RegExp(`FUNCTION public\\.${name}\\([\\s\\S]*?\\$function\\$([\\s\\S]*?)\\$function\\$`)))
+    .filter(Boolean);
+  return definitions[definitions.length - 1]?.[1] ?? null;
+}
+
+describe('delete_user_data', () => {
+  const body = latestFunctionBody('delete_user_data');
+  const deletes = [...(body ?? '').matchAll(/DELETE FROM public\.(\w+) WHERE (\w+) = p_user_id;/g)]
+    .map(([, table, column]) => ({ table, column }));
+
+  it('is defined in a migration', () => {
+    expect(body).not.toBeNull();
+  });
+
+  it.each(EXPORT_TABLES)('deletes $table by $ownerColumn', ({ table, ownerColumn }) => {
+    expect(deletes).toContainEqual({ table, column: ownerColumn });
+  });
+
+  it('reports a count for every table it deletes from', () => {
+    deletes.forEach(({ table }) => expect(body).toContain(`jsonb_build_object('${table}', affected)`));
+  });
+});
@@ -0,0 +1,89 @@
+import JSZip from 'jszip';
+import { format } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type TableName = keyof Database['public']['Tables'];
+
+/**
+ * Every table holding a user's data, with the column that identifies the owner.
+ * Account deletion in the delete-account function covers the same list.
+ */
+export const EXPORT_TABLES: Array<{ table: TableName; ownerColumn: 'id' | 'user_id'; description: string }> = [
+  { table: 'profiles', ownerColumn: 'id', description: 'Profile and onboarding answers' },
+  { table: 'pain_logs', ownerColumn: 'user_id', description: 'Pain entries' },
+  { table: 'pain_sessions', ownerColumn: 'user_id', description: 'Pain episodes from start to resolution' },
+  { table: 'medications', ownerColumn: 'user_id', description: 'Medication list and schedules' },
+  { table: 'medication_doses', ownerColumn: 'user_id', description: 'Doses taken or skipped' },
+  { table: 'questionnaire_responses', ownerColumn: 'user_id', description: 'Completed questionnaires and their scores' },
+  { table: 'questionnaire_schedules', ownerColumn: 'user_id', description: 'How often each questionnaire is repeated' },
+  { table: 'ai_conversation_threads', ownerColumn: 'user_id', description: 'Chat threads' },
+  { table: 'ai_conversations', ownerColumn: 'user_id', description: 'Chat messages' },
+  { table: 'ai_insights', ownerColumn: 'user_id', description: 'Generated insights' },
+  { table: 'user_ai_preferences', ownerColumn: 'user_id', description: 'Companion memory and notification settings' },
+  { table: 'share_links', ownerColumn: 'user_id', description: 'Read-only links shared with clinicians (token hashes only)' },
+  { table: 'share_link_access_log', ownerColumn: 'user_id', description: 'Each time a shared link was opened' },
+];
+
+const PAGE_SIZE = 1000;
+
+// The table varies at runtime, which the generated types can't follow
+const untypedClient = supabase as unknown as SupabaseClient;
+
+async function fetchAllRows(table: TableName, ownerColumn: string, userId: string) {
+  const rows: Record<string, unknown>[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await untypedClient
+      .from(table)
+      .select('*')
+      .eq(ownerColumn, userId)
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as Record<string, unknown>[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows as RFC 4180 CSV. Arrays and objects are written as JSON in their cell.
+ */
+export function toCsv(rows: Record<string, unknown>[]) {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return [columns.join(','), ...rows.map(row => columns.map(column => csvCell(row[column])).join(','))].join('\r\n');
+}
+
+/**
+ * A ZIP with each table as JSON and CSV, plus a manifest listing what's in it.
+ */
+export async function buildDataExport(userId: string, now = new Date()): Promise<Blob> {
+  const zip = new JSZip();
+  const files: Array<{ table: string; description: string; rows: number; files: string[] }> = [];
+
+  for (const { table, ownerColumn, description } of EXPORT_TABLES) {
+    const rows = await fetchAllRows(table, ownerColumn, userId);
+    zip.file(`json/${table}.json`, JSON.stringify(rows, null, 2));
+    zip.file(`csv/${table}.csv`, toCsv(rows));
+    files.push({ table, description, rows: rows.length, files: [`json/${table}.json`, `csv/${table}.csv`] });
+  }
+
+  zip.file('manifest.json', JSON.stringify({
+    app: 'PainPal',
+    user_id: userId,
+    exported_at: now.toISOString(),
+    format: 'One JSON and one CSV file per table. Timestamps are UTC (ISO 8601).',
+    tables: files,
+  }, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+export const dataExportFilename = (now = new Date()) => `painpal-data-${format(now, 'yyyy-MM-dd')}.zip`;
@@ -0,0 +1,18 @@
+/**
+ * Save a Blob as a file through a temporary link.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadJson(data: unknown, filename: string, type = 'application/json') {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type }), filename);
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Database } from '@/integrations/supabase/types';
+import { buildFhirBundle, type FhirBundle } from './fhir';
+import { toMedication } from './medications';
+import { validateR4Bundle } from './testing/fhirR4Validator';
+
+// The client touches localStorage when it loads; buildFhirBundle never queries
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+type PainLogRow = Database['public']['Tables']['pain_logs']['Row'];
+type MedicationRow = Database['public']['Tables']['medications']['Row'];
+type DoseRow = Database['public']['Tables']['medication_doses']['Row'];
+
+const USER = '0b6d7c1e-5f0a-4a53-9c1e-2f8a6b4d3e01';
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+const painLog = (n: number, overrides: Partial<PainLogRow> = {}): PainLogRow => ({
+  id: uuid(n),
+  user_id: USER,
+  logged_at: '2026-10-05T08:30:00+00:00',
+  created_at: '2026-10-05T08:31:12.482+00:00',
+  updated_at: '2026-10-05T08:31:12.482+00:00',
+  pain_level: 6,
+  pain_locations: null,
+  pain_qualities: [],
+  triggers: null,
+  medications: null,
+  notes: null,
+  journal_entry: null,
+  activity: null,
+  functional_impact: null,
+  impact_tags: null,
+  location_intensities: null,
+  mood: null,
+  pain_strategies: null,
+  rx_taken: null,
+  side_effects: null,
+  strategy_effectiveness_score: null,
+  weather: null,
+  ...overrides,
+});
+
+const medication = (n: number, overrides: Partial<MedicationRow> = {}) => toMedication({
+  id: uuid(n),
+  user_id: USER,
+  name: 'Ibuprofen',
+  strength: null,
+  form: null,
+  is_prn: true,
+  schedule: null,
+  started_on: null,
+  stopped_on: null,
+  created_at: '2026-09-01T10:00:00+00:00',
+  updated_at: '2026-09-01T10:00:00+00:00',
+  ...overrides,
+});
+
+const dose = (n: number, overrides: Partial<DoseRow> = {}): DoseRow => ({
+  id: uuid(n),
+  user_id: USER,
+  medication_id: uuid(100),
+  pain_log_id: null,
+  scheduled_for: null,
+  status: 'taken',
+  taken_at: '2026-10-05T09:00:00+00:00',
+  created_at: '2026-10-05T09:00:00+00:00',
+  ...overrides,
+});
+
+function fixtureBundle() {
+  return buildFhirBundle({
+    profile: { id: USER, display_name: 'Sam Rivera', email: 'sam@example.com' },
+    painLogs: [
+      painLog(1, { pain_locations: ['Left knee'], notes: 'After the stairs' }),
+      painLog(2, { pain_level: 0, pain_locations: ['Lower back', 'Neck'], journal_entry: '  ' }),
+      painLog(3, { pain_level: 10, updated_at: '2026-10-06T07:00:00+00:00', notes: '', journal_entry: 'Rough night' }),
+      painLog(4, { pain_locations: ['somewhere odd'] }),
+    ],
+    medications: [
+      medication(100, { strength: '400 mg', form: 'tablet' }),
+      medication(101, { name: 'Amitriptyline', is_prn: false, schedule: { frequency: 'twice daily' }, started_on: '2026-09-01' }),
+      medication(102, { name: 'Naproxen', is_prn: false, schedule: { times: ['21:00', '07:30'] }, started_on: '2026-08-01', stopped_on: '2026-09-15' }),
+      medication(103, { name: 'Gabapentin', is_prn: false, schedule: { frequency: '' } }),
+    ],
+    doses: [
+      dose(200, { pain_log_id: uuid(1) }),
+      dose(201, { medication_id: uuid(101), status: 'skipped', scheduled_for: '2026-10-05T20:00:00+00:00' }),
+      // Its entry is outside the range, so not in the bundle
+      dose(202, { pain_log_id: uuid(999) }),
+      // Its medication has since been deleted
+      dose(203, { medication_id: uuid(998) }),
+    ],
+    generatedAt: new Date('2026-10-19T12:00:00Z'),
+  });
+}
+
+const resources = (bundle: FhirBundle, type: string) =>
+  bundle.entry.map(entry => entry.resource).filter(resource => resource.resourceType === type);
+
+describe('buildFhirBundle', () => {
+  it('passes the R4 checks', () => {
+    expect(validateR4Bundle(fixtureBundle())).toEqual([]);
+  });
+
+  it('passes the R4 checks with nothing but the patient', () => {
+    const bundle = buildFhirBundle({ profile: { id: USER, display_name: null, email: null }, painLogs: [], medications: [], doses: [] });
+    expect(validateR4Bundle(bundle)).toEqual([]);
+    expect(bundle.entry).toHaveLength(1);
+  });
+
+  it('passes the R4 checks as JSON, the way it is downloaded', () => {
+    expect(validateR4Bundle(JSON.parse(JSON.stringify(fixtureBundle())))).toEqual([]);
+  });
+
+  it('writes one resource per row', () => {
+    const bundle = fixtureBundle();
+    expect(resources(bundle, 'Patient')).toHaveLength(1);
+    expect(resources(bundle, 'Observation')).toHaveLength(4);
+    expect(resources(bundle, 'MedicationStatement')).toHaveLength(4);
+    expect(resources(bundle, 'MedicationAdministration')).toHaveLength(4);
+  });
+
+  it('resolves every urn:uuid reference to an entry in the bundle', () => {
+    const bundle = fixtureBundle();
+    const urls = new Set(bundle.entry.map(entry => entry.fullUrl));
+    const references = JSON.stringify(bundle).match(/"reference":"[^"]+"/g)!.map(match => match.slice(13, -1));
+
+    expect(references.length).toBeGreaterThan(0);
+    references.forEach(reference => expect(urls).toContain(reference));
+  });
+
+  it('drops links to entries outside the bundle', () => {
+    const administrations = resources(fixtureBundle(), 'MedicationAdministration');
+    expect(administrations.find(resource => resource.id === uuid(200))).toMatchObject({
+      supportingInformation: [{ reference: `urn:uuid:${uuid(1)}` }],
+    });
+    expect(administrations.find(resource => resource.id === uuid(202))).not.toHaveProperty('supportingInformation');
+  });
+
+  it('codes a single known location and keeps several as text', () => {
+    const observations = resources(fixtureBundle(), 'Observation');
+    expect(observations[0]).toMatchObject({ bodySite: { coding: [{ system: 'http://snomed.info/sct' }], text: 'Left knee' } });
+    expect(observations[1]).toMatchObject({ bodySite: { text: 'Lower back, Neck' } });
+    expect(observations[1]).not.toHaveProperty('note');
+    expect(observations[2]).toMatchObject({ status: 'amended', note: [{ text: 'Rough night' }] });
+    expect(observations[3]).toMatchObject({ bodySite: { text: 'somewhere odd' } });
+  });
+});
+
+describe('validateR4Bundle', () => {
+  // The checks have to catch what they claim to, or the passes above mean nothing
+  const broken = (mutate: (bundle: FhirBundle) => void) => {
+    const bundle = JSON.parse(JSON.stringify(fixtureBundle())) as FhirBundle;
+    mutate(bundle);
+    return validateR4Bundle(bundle);
+  };
+  const observation = (bundle: FhirBundle) => bundle.entry[1].resource as unknown as Record<string, unknown>;
+
+  it('reports a reference that does not resolve', () => {
+    expect(broken(bundle => bundle.entry.splice(0, 1))).toEqual(
+      expect.arrayContaining([expect.stringMatching(/subject\.reference: .* does not resolve/)])
+    );
+  });
+
+  it('reports a reference to the wrong resource type', () => {
+    expect(broken(bundle => {
+      (observation(bundle).subject as { reference: string }).reference = bundle.entry[2].fullUrl;
+    })).toEqual([expect.stringMatching(/points at a Observation/)]);
+  });
+
+  it('reports a code outside its value set', () => {
+    expect(broken(bundle => { observation(bundle).status = 'done'; })).toEqual([expect.stringMatching(/status: "done" is not in the value set/)]);
+  });
+
+  it('reports a missing required element', () => {
+    expect(broken(bundle => { delete observation(bundle).code; })).toEqual(
+      expect.arrayContaining([expect.stringMatching(/\.code: is required/)])
+    );
+  });
+
+  it('reports malformed primitives and empty elements', () => {
+    const issues = broken(bundle => {
+      observation(bundle).effectiveDateTime = '2026-10-05 08:30';
+      observation(bundle).note = [];
+    });
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.stringMatching(/effectiveDateTime: not a valid dateTime/),
+      expect.stringMatching(/note: is an empty array/),
+    ]));
+  });
+
+  it('reports duplicate fullUrls', () => {
+    expect(broken(bundle => { bundle.entry.push(bundle.entry[1]); })).toEqual([expect.stringMatching(/duplicate/)]);
+  });
+});
@@ -0,0 +1,261 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { parseLocation } from '@/lib/bodyLocations';
+import { toMedication, scheduledTimes, type Medication } from '@/lib/medications';
+
+type PainLogRow = Database['public']['Tables']['pain_logs']['Row'];
+type DoseRow = Database['public']['Tables']['medication_doses']['Row'];
+type ProfileRow = Database['public']['Tables']['profiles']['Row'];
+
+// The subset of FHIR R4 this export writes. Field names and value sets follow the spec.
+
+interface Coding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Reference {
+  reference: string;
+  display?: string;
+}
+
+interface Annotation {
+  text: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id: string;
+  name?: Array<{ text: string }>;
+  telecom?: Array<{ system: 'email'; value: string }>;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id: string;
+  status: 'final' | 'amended';
+  category: CodeableConcept[];
+  code: CodeableConcept;
+  subject: Reference;
+  effectiveDateTime: string;
+  issued?: string;
+  valueQuantity: { value: number; unit: string; system: string; code: string };
+  bodySite?: CodeableConcept;
+  note?: Annotation[];
+}
+
+export interface FhirMedicationStatement {
+  resourceType: 'MedicationStatement';
+  id: string;
+  status: 'active' | 'completed';
+  medicationCodeableConcept: CodeableConcept;
+  subject: Reference;
+  effectivePeriod?: { start?: string; end?: string };
+  dateAsserted: string;
+  dosage?: Array<{
+    text?: string;
+    asNeededBoolean: boolean;
+    timing?: { repeat: { timeOfDay: string[] } };
+  }>;
+}
+
+export interface FhirMedicationAdministration {
+  resourceType: 'MedicationAdministration';
+  id: string;
+  status: 'completed' | 'not-done';
+  statusReason?: CodeableConcept[];
+  medicationCodeableConcept: CodeableConcept;
+  subject: Reference;
+  effectiveDateTime: string;
+  supportingInformation?: Reference[];
+}
+
+type FhirResource = FhirPatient | FhirObservation | FhirMedicationStatement | FhirMedicationAdministration;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: Array<{ fullUrl: string; resource: FhirResource }>;
+}
+
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+// LOINC 72514-3: Pain severity - 0-10 verbal numeric rating [Score] - Reported
+const PAIN_SEVERITY: CodeableConcept = {
+  coding: [{ system: LOINC, code: '72514-3', display: 'Pain severity - 0-10 verbal numeric rating [Score] - Reported' }],
+  text: 'Pain severity (0-10)',
+};
+
+const urn = (id: string) => `urn:uuid:${id}`;
+
+/**
+ * One location gets its body map region's SNOMED code when it has one, with the side
+ * kept in the text. Several go in as text, since codings in one CodeableConcept must
+ * all mean the same thing.
+ */
+function bodySite(locations: string[] | null): CodeableConcept | undefined {
+  const names = (locations || []).map(location => location.trim()).filter(Boolean);
+  if (names.length === 0) return undefined;
+  const snomed = names.length === 1 ? parseLocation(names[0])?.region.snomed : undefined;
+  return snomed
+    ? { coding: [{ system: SNOMED, ...snomed }], text: names[0] }
+    : { text: names.join(', ') };
+}
+
+function medicationConcept(medication: Pick<Medication, 'name' | 'strength' | 'form'> | undefined): CodeableConcept {
+  if (!medication) return { text: 'Unknown medication' };
+  return { text: [medication.name, medication.strength, medication.form].filter(Boolean).join(' ') };
+}
+
+export function painLogToObservation(log: PainLogRow, patientId: string): FhirObservation {
+  const notes = [log.notes, log.journal_entry].map(text => text?.trim()).filter(Boolean) as string[];
+  const site = bodySite(log.pain_locations);
+  return {
+    resourceType: 'Observation',
+    id: log.id,
+    status: log.updated_at && log.updated_at !== log.created_at ? 'amended' : 'final',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'survey', display: 'Survey' }] }],
+    code: PAIN_SEVERITY,
+    subject: { reference: urn(patientId) },
+    effectiveDateTime: log.logged_at,
+    issued: log.created_at,
+    valueQuantity: { value: log.pain_level, unit: 'score', system: UCUM, code: '{score}' },
+    ...(site && { bodySite: site }),
+    ...(notes.length > 0 && { note: notes.map(text => ({ text })) }),
+  };
+}
+
+export function medicationToStatement(medication: Medication, patientId: string, asOf: Date): FhirMedicationStatement {
+  const today = format(asOf, 'yyyy-MM-dd');
+  const stopped = !!medication.stopped_on && medication.stopped_on <= today;
+  const times = scheduledTimes(medication);
+  const effectivePeriod = {
+    ...(medication.started_on && { start: medication.started_on }),
+    ...(medication.stopped_on && { end: medication.stopped_on }),
+  };
+
+  return {
+    resourceType: 'MedicationStatement',
+    id: medication.id,
+    status: stopped ? 'completed' : 'active',
+    medicationCodeableConcept: medicationConcept(medication),
+    subject: { reference: urn(patientId) },
+    ...(Object.keys(effectivePeriod).length > 0 && { effectivePeriod }),
+    dateAsserted: asOf.toISOString(),
+    dosage: [{
+      ...(medication.is_prn ? { text: 'As needed' } : medication.schedule?.frequency && { text: medication.schedule.frequency }),
+      asNeededBoolean: medication.is_prn,
+      // FHIR time is hh:mm:ss
+      ...(times.length > 0 && { timing: { repeat: { timeOfDay: times.map(time => `${time}:00`) } } }),
+    }],
+  };
+}
+
+export function doseToAdministration(dose: DoseRow, medication: Medication | undefined, patientId: string): FhirMedicationAdministration {
+  const skipped = dose.status === 'skipped';
+  return {
+    resourceType: 'MedicationAdministration',
+    id: dose.id,
+    status: skipped ? 'not-done' : 'completed',
+    ...(skipped && { statusReason: [{ text: 'Skipped by patient' }] }),
+    medicationCodeableConcept: medicationConcept(medication),
+    subject: { reference: urn(patientId) },
+    effectiveDateTime: dose.scheduled_for && skipped ? dose.scheduled_for : dose.taken_at,
+    ...(dose.pain_log_id && { supportingInformation: [{ reference: urn(dose.pain_log_id) }] }),
+  };
+}
+
+interface FhirExportInput {
+  profile: Pick<ProfileRow, 'id' | 'display_name' | 'email'>;
+  painLogs: PainLogRow[];
+  medications: Medication[];
+  doses: DoseRow[];
+  generatedAt?: Date;
+}
+
+/**
+ * A FHIR R4 collection Bundle: the patient, one Observation per pain entry, a
+ * MedicationStatement per medication and a MedicationAdministration per dose.
+ * Resources reference each other by urn:uuid, so the bundle stands alone.
+ */
+export function buildFhirBundle({ profile, painLogs, medications, doses, generatedAt = new Date() }: FhirExportInput): FhirBundle {
+  const patient: FhirPatient = {
+    resourceType: 'Patient',
+    id: profile.id,
+    ...(profile.display_name && { name: [{ text: profile.display_name }] }),
+    ...(profile.email && { telecom: [{ system: 'email' as const, value: profile.email }] }),
+  };
+  const medicationsById = new Map(medications.map(medication => [medication.id, medication]));
+  const exportedLogs = new Set(painLogs.map(log => log.id));
+
+  const resources: FhirResource[] = [
+    patient,
+    ...painLogs.map(log => painLogToObservation(log, profile.id)),
+    ...medications.map(medication => medicationToStatement(medication, profile.id, generatedAt)),
+    ...doses.map(dose => doseToAdministration(
+      // Only point at entries that are in this bundle
+      dose.pain_log_id && !exportedLogs.has(dose.pain_log_id) ? { ...dose, pain_log_id: null } : dose,
+      medicationsById.get(dose.medication_id),
+      profile.id
+    )),
+  ];
+
+  return {
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    type: 'collection',
+    timestamp: generatedAt.toISOString(),
+    entry: resources.map(resource => ({ fullUrl: urn(resource.id), resource })),
+  };
+}
+
+/**
+ * Fetch a user's entries, medications and doses for a date range and bundle them.
+ */
+export async function fetchFhirBundle(userId: string, start: Date, end: Date): Promise<FhirBundle> {
+  const [profileResult, logsResult, medicationsResult, dosesResult] = await Promise.all([
+    supabase.from('profiles').select('id, display_name, email').eq('id', userId).single(),
+    supabase
+      .from('pain_logs')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('logged_at', start.toISOString())
+      .lte('logged_at', end.toISOString())
+      .order('logged_at', { ascending: true }),
+    supabase.from('medications').select('*').eq('user_id', userId).order('name', { ascending: true }),
+    supabase
+      .from('medication_doses')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('taken_at', start.toISOString())
+      .lte('taken_at', end.toISOString())
+      .order('taken_at', { ascending: true }),
+  ]);
+
+  for (const result of [profileResult, logsResult, medicationsResult, dosesResult]) {
+    if (result.error) throw result.error;
+  }
+
+  return buildFhirBundle({
+    profile: profileResult.data,
+    painLogs: logsResult.data || [],
+    medications: (medicationsResult.data || []).map(toMedication),
+    doses: dosesResult.data || [],
+  });
+}
+
+export function fhirBundleFilename(start: Date, end: Date) {
+  return `pain-fhir-${format(start, 'yyyy-MM-dd')}-to-${format(end, 'yyyy-MM-dd')}.json`;
+}
@@ -0,0 +1,109 @@
+import { format } from 'date-fns';
+import type { ScheduledDose } from '@/lib/analytics';
+
+export type ReminderAction = 'taken' | 'skipped' | 'snooze' | 'open';
+
+export interface ReminderMessage {
+  type: 'medication-reminder';
+  action: ReminderAction;
+  medicationId: string;
+  scheduledFor: string;
+}
+
+const SERVICE_WORKER_URL = '/medication-reminders-sw.js';
+const NOTIFIED_KEY = 'painpal-reminders-notified';
+const SNOOZED_KEY = 'painpal-reminders-snoozed';
+// Local bookkeeping older than this is dropped
+const KEEP_MS = 2 * 24 * 60 * 60 * 1000;
+
+export const SNOOZE_MINUTES = 10;
+
+// Not in every lib.dom version yet
+type ReminderNotificationOptions = NotificationOptions & {
+  actions?: Array<{ action: string; title: string }>;
+  requireInteraction?: boolean;
+};
+
+export const reminderKey = (medicationId: string, scheduledFor: Date | string) =>
+  `${medicationId}@${new Date(scheduledFor).toISOString()}`;
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export function isReminderMessage(value: unknown): value is ReminderMessage {
+  const message = value as ReminderMessage | null;
+  return !!message && message.type === 'medication-reminder' && !!message.medicationId && !!message.scheduledFor;
+}
+
+export async function registerReminderWorker() {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error('Error registering reminder service worker:', error);
+    return null;
+  }
+}
+
+/**
+ * Show a system notification for a due dose. With the service worker it carries
+ * Taken / Skip / Snooze actions; without one it is a plain notification that
+ * brings the app forward, where `onFallbackClick` can offer the same choices.
+ */
+export async function showDoseNotification(
+  dose: ScheduledDose,
+  detail: string | null,
+  onFallbackClick: () => void
+) {
+  const title = `Time for ${dose.name}`;
+  const body = [detail, `Scheduled for ${format(dose.scheduledFor, 'h:mm a')}`].filter(Boolean).join(' · ');
+  const tag = reminderKey(dose.medicationId, dose.scheduledFor);
+
+  const registration = await registerReminderWorker();
+  if (registration) {
+    const options: ReminderNotificationOptions = {
+      body,
+      tag,
+      requireInteraction: true,
+      data: { medicationId: dose.medicationId, scheduledFor: dose.scheduledFor.toISOString() },
+      actions: [
+        { action: 'taken', title: 'Taken' },
+        { action: 'skipped', title: 'Skip' },
+        { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+      ],
+    };
+    await registration.showNotification(title, options);
+    return;
+  }
+
+  const notification = new Notification(title, { body, tag });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+    onFallbackClick();
+  };
+}
+
+function readTimestamps(key: string): Record<string, number> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || '{}');
+    const cutoff = Date.now() - KEEP_MS;
+    return Object.fromEntries(
+      Object.entries(stored).filter((entry): entry is [string, number] => typeof entry[1] === 'number' && entry[1] > cutoff)
+    );
+  } catch {
+    return {};
+  }
+}
+
+function writeTimestamp(key: string, reminder: string, value: number) {
+  localStorage.setItem(key, JSON.stringify({ ...readTimestamps(key), [reminder]: value }));
+}
+
+// Per device, so reloading the app doesn't repeat a reminder that was already shown
+export const notifiedReminders = () => readTimestamps(NOTIFIED_KEY);
+export const markNotified = (reminder: string) => writeTimestamp(NOTIFIED_KEY, reminder, Date.now());
+
+// When each snoozed reminder should come back
+export const snoozedReminders = () => readTimestamps(SNOOZED_KEY);
+export const snoozeReminder = (reminder: string) =>
+  writeTimestamp(SNOOZED_KEY, reminder, Date.now() + SNOOZE_MINUTES * 60 * 1000);
@@ -0,0 +1,101 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { MedicationDoseRecord, ScheduledMedication } from '@/lib/analytics';
+
+type MedicationRow = Database['public']['Tables']['medications']['Row'];
+
+export interface MedicationSchedule {
+  // Free text as the user wrote it, e.g. "twice daily"
+  frequency?: string;
+  // Local times of day, HH:mm
+  times?: string[];
+}
+
+export interface Medication extends Omit<MedicationRow, 'schedule'> {
+  schedule: MedicationSchedule | null;
+}
+
+// Reminder times used when a schedule has a frequency but no times set yet
+const DEFAULT_TIMES_BY_FREQUENCY: Record<string, string[]> = {
+  'once daily': ['08:00'],
+  'twice daily': ['08:00', '20:00'],
+  'three times daily': ['08:00', '14:00', '20:00'],
+  'four times daily': ['08:00', '12:00', '16:00', '20:00'],
+  'every 4 hours': ['08:00', '12:00', '16:00', '20:00'],
+  'every 6 hours': ['06:00', '12:00', '18:00', '00:00'],
+  'every 8 hours': ['06:00', '14:00', '22:00'],
+  'every 12 hours': ['08:00', '20:00'],
+};
+
+export const MEDICATION_FORMS = ['tablet', 'capsule', 'liquid', 'injection', 'patch', 'inhaler', 'cream', 'other'];
+
+export function toMedication(row: MedicationRow): Medication {
+  const schedule = row.schedule && typeof row.schedule === 'object' && !Array.isArray(row.schedule)
+    ? (row.schedule as MedicationSchedule)
+    : null;
+  return { ...row, schedule };
+}
+
+export function defaultScheduleTimes(frequency: string | undefined) {
+  return DEFAULT_TIMES_BY_FREQUENCY[frequency?.trim().toLowerCase() ?? ''] ?? [];
+}
+
+/**
+ * The local times a scheduled medication is due each day, HH:mm, earliest first.
+ * As-needed medications have none.
+ */
+export function scheduledTimes(medication: Medication) {
+  if (medication.is_prn || !medication.schedule) return [];
+  const times = medication.schedule.times?.length ? medication.schedule.times : defaultScheduleTimes(medication.schedule.frequency);
+  return [...times].sort();
+}
+
+export function toScheduledMedication(medication: Medication): ScheduledMedication {
+  return {
+    id: medication.id,
+    name: medication.name,
+    times: scheduledTimes(medication),
+    started_on: medication.started_on,
+    stopped_on: medication.stopped_on,
+  };
+}
+
+/**
+ * Still being taken on the given day: not stopped, or stopped later.
+ */
+export function isActiveMedication(medication: Pick<Medication, 'stopped_on'>, day = format(new Date(), 'yyyy-MM-dd')) {
+  return !medication.stopped_on || medication.stopped_on > day;
+}
+
+/**
+ * Names for a picker: the user's active medications, plus any already selected so
+ * editing an old entry never drops a medication that has since been stopped.
+ */
+export function medicationPickerOptions(medications: Medication[], selected: string[] = []) {
+  const names = medications.filter(medication => isActiveMedication(medication)).map(medication => medication.name);
+  const extra = selected.filter(name => !names.some(option => option.toLowerCase() === name.toLowerCase()));
+  return [...names, ...extra];
+}
+
+/**
+ * Doses taken in a time range, with the medication's name, for the analytics.
+ * Reminders answered as skipped are left out.
+ */
+export async function fetchMedicationDoses(userId: string, startISO: string, endISO: string): Promise<MedicationDoseRecord[]> {
+  const { data, error } = await supabase
+    .from('medication_doses')
+    .select('pain_log_id, taken_at, medications(name)')
+    .eq('user_id', userId)
+    .eq('status', 'taken')
+    .gte('taken_at', startISO)
+    .lte('taken_at', endISO)
+    .order('taken_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(dose => ({
+    pain_log_id: dose.pain_log_id,
+    taken_at: dose.taken_at,
+    name: dose.medications?.name ?? '',
+  }));
+}
@@ -0,0 +1,61 @@
+import { format } from 'date-fns';
+
+/**
+ * The seven symptom questions of the DN4 (Douleur Neuropathique 4) questionnaire,
+ * which patients can answer themselves. The full DN4 adds three items from a
+ * clinician's examination; on the seven alone a score of 3 or more suggests a
+ * neuropathic component (Bouhassira et al., 2005). A screen, not a diagnosis.
+ */
+export const DN4_INSTRUMENT = 'dn4';
+
+export const DN4_QUESTIONS = [
+  {
+    prompt: 'Does the pain have one or more of these characteristics?',
+    items: [
+      { id: 'burning', label: 'Burning' },
+      { id: 'painful_cold', label: 'Painful cold' },
+      { id: 'electric_shocks', label: 'Electric shocks' },
+    ],
+  },
+  {
+    prompt: 'Is the pain associated with one or more of these symptoms in the same area?',
+    items: [
+      { id: 'tingling', label: 'Tingling' },
+      { id: 'pins_and_needles', label: 'Pins and needles' },
+      { id: 'numbness', label: 'Numbness' },
+      { id: 'itching', label: 'Itching' },
+    ],
+  },
+] as const;
+
+export type Dn4Item = typeof DN4_QUESTIONS[number]['items'][number]['id'];
+
+export type Dn4Answers = Partial<Record<Dn4Item, boolean>>;
+
+export const DN4_ITEMS: Dn4Item[] = DN4_QUESTIONS.flatMap(question => question.items.map(item => item.id));
+
+export const DN4_MAX_SCORE = DN4_ITEMS.length;
+
+export const DN4_POSITIVE_SCORE = 3;
+
+/**
+ * One point per "yes". Complete once every item has an answer.
+ */
+export function scoreDn4(answers: Dn4Answers) {
+  const score = DN4_ITEMS.filter(item => answers[item] === true).length;
+  return {
+    score,
+    complete: DN4_ITEMS.every(item => answers[item] !== undefined),
+    positive: score >= DN4_POSITIVE_SCORE,
+  };
+}
+
+/**
+ * A saved screening as one line for the doctor summary and report.
+ */
+export function formatDn4Result(result: { score: number; completed_at: string }) {
+  const reading = result.score >= DN4_POSITIVE_SCORE
+    ? `suggests a neuropathic component (${DN4_POSITIVE_SCORE} or more)`
+    : `below the cutoff of ${DN4_POSITIVE_SCORE}`;
+  return `${result.score}/${DN4_MAX_SCORE} on ${format(new Date(result.completed_at), 'MMM d, yyyy')}, ${reading}`;
+}
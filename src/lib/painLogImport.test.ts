@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import appExport from './__fixtures__/imports/app-export.json?raw';
+import european from './__fixtures__/imports/european.csv?raw';
+import spreadsheet from './__fixtures__/imports/spreadsheet.csv?raw';
+import {
+  guessColumnMapping,
+  importPainLogs,
+  parseCsv,
+  parseImportFile,
+  prepareImport,
+  type ImportOptions,
+} from './painLogImport';
+
+const db = vi.hoisted(() => ({
+  existing: [] as Array<{ logged_at: string; pain_level: number }>,
+  inserted: [] as unknown[],
+  // Insert calls to refuse before accepting again
+  refuse: 0,
+}));
+
+vi.mock('@/integrations/supabase/client', () => {
+  const select = () => {
+    const builder = {
+      eq: () => builder,
+      gte: () => builder,
+      lte: () => builder,
+      order: () => builder,
+      range: async () => ({ data: db.existing, error: null }),
+    };
+    return builder;
+  };
+  return {
+    supabase: {
+      from: () => ({
+        select,
+        insert: async (rows: unknown[]) => {
+          if (db.refuse > 0) {
+            db.refuse--;
+            return { error: { message: 'duplicate key value violates unique constraint' } };
+          }
+          db.inserted.push(...rows);
+          return { error: null };
+        },
+      }),
+    },
+  };
+});
+
+const USER = 'user-1';
+
+function prepare(filename: string, text: string, options: ImportOptions) {
+  const file = parseImportFile(filename, text);
+  return { file, mapping: guessColumnMapping(file.columns), ...prepareImport(file, guessColumnMapping(file.columns), options, USER) };
+}
+
+describe('spreadsheet CSV', () => {
+  const result = prepare('spreadsheet.csv', spreadsheet, { timezone: 'America/New_York', dateOrder: 'mdy' });
+
+  it('guesses the columns from their names', () => {
+    expect(result.mapping).toMatchObject({
+      logged_at: 'Date',
+      time: 'Time',
+      pain_level: 'Pain (0-10)',
+      pain_locations: 'Location',
+      triggers: 'Triggers',
+      medications: 'Meds',
+      notes: 'Notes',
+      activity: null,
+      rx_taken: null,
+    });
+  });
+
+  it('imports valid rows in file order, in canonical form', () => {
+    expect(result.valid).toEqual([
+      {
+        user_id: USER,
+        logged_at: '2026-03-02T13:15:00.000Z',
+        pain_level: 6,
+        pain_locations: ['Lower back', 'Left knee'],
+        triggers: ['Stress'],
+        medications: ['Ibuprofen 400mg'],
+        notes: 'Woke up stiff, better after a walk',
+        activity: null,
+        functional_impact: null,
+        impact_tags: [],
+        side_effects: null,
+        rx_taken: null,
+      },
+      expect.objectContaining({ logged_at: '2026-03-03T12:00:00.000Z', pain_level: 7, pain_locations: ['Left knee'] }),
+    ]);
+  });
+
+  it('drops a repeat of an earlier row', () => {
+    expect(result.repeated).toBe(1);
+  });
+
+  it('rejects bad rows with their row number and reason', () => {
+    expect(result.rejected.map(({ row, reason }) => ({ row, reason }))).toEqual([
+      { row: 2, reason: 'Pain level 4.5 is not a whole number' },
+      { row: 5, reason: 'Missing pain level' },
+      { row: 6, reason: 'Pain level 12 is outside 0–10' },
+      { row: 7, reason: 'Couldn\'t read the date "2026-02-30 10:00"' },
+      { row: 8, reason: 'Date is in the future' },
+    ]);
+    expect(result.rejected[1].values).toMatchObject({ Date: '2026-03-04', Notes: 'No level' });
+  });
+
+  it('keeps the file row of each valid entry', () => {
+    expect(result.validRows.map(({ row }) => row)).toEqual([1, 3]);
+    expect(result.validRows[1].values).toMatchObject({ Date: '03/03/2026', Time: '07:00' });
+  });
+});
+
+describe('semicolon CSV with day-first dates', () => {
+  const result = prepare('european.csv', european, { timezone: 'Europe/Berlin', dateOrder: 'dmy' });
+
+  it('reads the delimiter, decimal commas and "/10" levels', () => {
+    expect(result.rejected).toEqual([]);
+    expect(result.valid.map(log => log.pain_level)).toEqual([6, 3, 4]);
+    expect(result.valid[0]).toMatchObject({
+      pain_locations: ['Head', 'Neck'],
+      medications: ['Sumatriptan'],
+      rx_taken: true,
+    });
+    expect(result.valid[1]).toMatchObject({ pain_locations: ['Left knee'], rx_taken: false });
+    expect(result.valid[2]).toMatchObject({ pain_locations: [], rx_taken: null });
+  });
+
+  it('reads wall-clock times in the chosen zone, across a DST change', () => {
+    expect(result.valid.map(log => log.logged_at)).toEqual([
+      '2026-03-05T13:30:00.000Z',
+      '2026-03-28T22:15:00.000Z',
+      // 02:30 does not exist on the night clocks go forward, so it moves on to 03:30 summer time
+      '2026-03-29T01:30:00.000Z',
+    ]);
+  });
+
+  it('rejects every row when the zone is unknown', () => {
+    const file = parseImportFile('european.csv', european);
+    const prepared = prepareImport(file, guessColumnMapping(file.columns), { timezone: 'Mars/Olympus', dateOrder: 'dmy' }, USER);
+    expect(prepared.valid).toEqual([]);
+    expect(prepared.rejected.map(rejected => rejected.reason)).toEqual(Array(3).fill('Unknown time zone "Mars/Olympus"'));
+  });
+});
+
+describe('app JSON export', () => {
+  const result = prepare('app-export.json', appExport, { timezone: 'UTC', dateOrder: 'ymd' });
+
+  it('finds the entry list and skips items that are not entries', () => {
+    expect(result.file.rows).toHaveLength(3);
+    expect(result.mapping).toMatchObject({
+      logged_at: 'timestamp',
+      pain_level: 'intensity',
+      pain_locations: 'locations',
+      medications: 'medications',
+      notes: 'comment',
+      functional_impact: 'impact',
+      impact_tags: 'affected',
+      rx_taken: 'rx',
+    });
+  });
+
+  it('reads lists, booleans and epoch timestamps', () => {
+    expect(result.valid).toEqual([
+      expect.objectContaining({
+        logged_at: '2026-04-01T07:45:00.000Z',
+        pain_level: 5,
+        pain_locations: ['Lower back', 'Right hip'],
+        medications: ['Naproxen'],
+        functional_impact: 'limited',
+        impact_tags: ['Work', 'Sleep'],
+        rx_taken: true,
+        notes: 'Desk day',
+      }),
+      expect.objectContaining({ logged_at: '2026-04-03T08:00:00.000Z', pain_level: 8, functional_impact: null }),
+    ]);
+    expect(result.rejected.map(({ row, reason }) => ({ row, reason }))).toEqual([{ row: 3, reason: 'Missing pain level' }]);
+  });
+
+  it('says when there is no list of entries', () => {
+    expect(() => parseImportFile('export.json', '{"app": "PainDiary"}')).toThrow('No list of entries found');
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes, CRLF and a byte order mark', () => {
+    expect(parseCsv('﻿a,b\r\n"x, ""y""",z\r\n\r\n')).toEqual([['a', 'b'], ['x, "y"', 'z']]);
+  });
+});
+
+describe('importPainLogs', () => {
+  beforeEach(() => {
+    db.existing = [];
+    db.inserted = [];
+    db.refuse = 0;
+  });
+
+  it('skips entries already in the account', async () => {
+    const { valid, validRows } = prepare('spreadsheet.csv', spreadsheet, { timezone: 'America/New_York', dateOrder: 'mdy' });
+    db.existing = [{ logged_at: '2026-03-02T13:15:42+00:00', pain_level: 6 }];
+
+    const result = await importPainLogs(USER, { valid, validRows });
+
+    expect(result).toEqual({ inserted: 1, duplicates: 1, failed: [] });
+  });
+
+  it('handles a file too large to spread into Math.min', async () => {
+    const start = Date.UTC(2020, 0, 1);
+    const logs = Array.from({ length: 200_000 }, (_, index) => ({
+      user_id: USER,
+      logged_at: new Date(start + index * 60_000).toISOString(),
+      pain_level: index % 11,
+    }));
+
+    const result = await importPainLogs(USER, { valid: logs, validRows: logs.map((log, index) => ({ row: index + 1, values: {} })) });
+
+    expect(result).toEqual({ inserted: 200_000, duplicates: 0, failed: [] });
+  });
+
+  it('reports the rows of a refused batch with the database error', async () => {
+    const logs = Array.from({ length: 250 }, (_, index) => ({
+      user_id: USER,
+      logged_at: new Date(Date.UTC(2026, 0, 1) + index * 60_000).toISOString(),
+      pain_level: 5,
+    }));
+    db.refuse = 1;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await importPainLogs(USER, { valid: logs, validRows: logs.map((log, index) => ({ row: index + 2, values: { n: index } })) });
+
+    expect(result.inserted).toBe(50);
+    expect(result.failed).toHaveLength(200);
+    expect(result.failed[0]).toEqual({ row: 2, reason: "Couldn't save: duplicate key value violates unique constraint", values: { n: 0 } });
+    expect(result.failed[199].row).toBe(201);
+    expect(db.inserted).toHaveLength(50);
+  });
+});
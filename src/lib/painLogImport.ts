@@ -0,0 +1,470 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { normalizeTerm, normalizeTerms } from '@/lib/vocabulary';
+
+type PainLogInsert = Database['public']['Tables']['pain_logs']['Insert'];
+
+/**
+ * Importing history from spreadsheets and other apps. Everything up to the insert is
+ * pure and works on file text, so a fixture file can be run through parseImportFile,
+ * guessColumnMapping and prepareImport without a browser or database.
+ */
+
+export type ImportField =
+  | 'logged_at'
+  | 'time'
+  | 'pain_level'
+  | 'pain_locations'
+  | 'triggers'
+  | 'medications'
+  | 'notes'
+  | 'activity'
+  | 'functional_impact'
+  | 'impact_tags'
+  | 'side_effects'
+  | 'rx_taken';
+
+export const IMPORT_FIELDS: Array<{ key: ImportField; label: string; required?: boolean; synonyms: string[] }> = [
+  { key: 'logged_at', label: 'Date / time', required: true, synonyms: ['logged_at', 'timestamp', 'datetime', 'date_time', 'date', 'day', 'recorded', 'recorded_at', 'created_at', 'start', 'start_time'] },
+  { key: 'time', label: 'Time (if separate)', synonyms: ['time', 'time_of_day', 'hour'] },
+  { key: 'pain_level', label: 'Pain level', required: true, synonyms: ['pain_level', 'pain', 'level', 'intensity', 'severity', 'score', 'pain_score', 'nrs', 'rating'] },
+  { key: 'pain_locations', label: 'Locations', synonyms: ['pain_locations', 'locations', 'location', 'body_part', 'body_parts', 'area', 'areas', 'site'] },
+  { key: 'triggers', label: 'Triggers', synonyms: ['triggers', 'trigger', 'causes', 'factors'] },
+  { key: 'medications', label: 'Medications', synonyms: ['medications', 'medication', 'meds', 'med', 'drugs', 'medicine', 'treatment'] },
+  { key: 'notes', label: 'Notes', synonyms: ['notes', 'note', 'comment', 'comments', 'description', 'journal', 'details'] },
+  { key: 'activity', label: 'Activity', synonyms: ['activity', 'activities', 'doing'] },
+  { key: 'functional_impact', label: 'Functional impact', synonyms: ['functional_impact', 'impact', 'disability'] },
+  { key: 'impact_tags', label: 'Impact areas', synonyms: ['impact_tags', 'impacted', 'affected'] },
+  { key: 'side_effects', label: 'Side effects', synonyms: ['side_effects', 'side_effect', 'adverse_effects'] },
+  { key: 'rx_taken', label: 'Prescription taken', synonyms: ['rx_taken', 'rx', 'prescription', 'prescription_taken'] },
+];
+
+// Column name for each field, or null when the file has none
+export type ColumnMapping = Record<ImportField, string | null>;
+
+// How to read dates like 03/04/2025 that don't say which part is the month
+export type DateOrder = 'ymd' | 'mdy' | 'dmy';
+
+export interface ImportOptions {
+  // IANA zone for timestamps without an offset, e.g. "Europe/Berlin"
+  timezone: string;
+  dateOrder: DateOrder;
+}
+
+export interface ParsedImportFile {
+  columns: string[];
+  // Row values by column name, in file order
+  rows: Array<Record<string, unknown>>;
+}
+
+export interface RejectedImportRow {
+  // 1-based, counting data rows only
+  row: number;
+  reason: string;
+  values: Record<string, unknown>;
+}
+
+export interface PreparedImport {
+  valid: PainLogInsert[];
+  // The file row behind each valid entry, in the same order
+  validRows: Array<Pick<RejectedImportRow, 'row' | 'values'>>;
+  rejected: RejectedImportRow[];
+  // Rows that repeat another row in the same file
+  repeated: number;
+}
+
+export interface ImportResult {
+  inserted: number;
+  // Already in the account, so skipped
+  duplicates: number;
+  // Valid rows whose batch the database refused, with its error
+  failed: RejectedImportRow[];
+}
+
+const FUNCTIONAL_IMPACT_LEVELS = ['none', 'limited', 'stopped', 'bed'];
+const LIST_SEPARATOR = /\s*[;|,]\s*/;
+export const IMPORT_BATCH_SIZE = 200;
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, quotes ("") and newlines. Also reads
+ * semicolon- and tab-separated exports, picking whichever delimiter the header uses most.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const header = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: header.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines, including the usual trailing newline
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Read a .csv or .json export into rows keyed by column. JSON may be an array of
+ * objects or an object holding one under a key such as "entries" or "logs".
+ */
+export function parseImportFile(filename: string, text: string): ParsedImportFile {
+  if (/\.json$/i.test(filename) || /^\s*[[{]/.test(text)) {
+    const data: unknown = JSON.parse(text.replace(/^\uFEFF/, ''));
+    const list = Array.isArray(data)
+      ? data
+      : Object.values((data ?? {}) as Record<string, unknown>).find(Array.isArray);
+    if (!list) throw new Error('No list of entries found in this JSON file');
+
+    const rows = list.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item));
+    const columns = [...new Set(rows.flatMap(item => Object.keys(item)))];
+    return { columns, rows };
+  }
+
+  const [header, ...lines] = parseCsv(text);
+  if (!header) throw new Error('This file is empty');
+  const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`);
+  return {
+    columns,
+    rows: lines.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))),
+  };
+}
+
+const normalizeColumnName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Best guess at which column holds each field, from common names. The user can
+ * change any of it in the preview.
+ */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const taken = new Set<string>();
+  const mapping = {} as ColumnMapping;
+
+  IMPORT_FIELDS.forEach(field => {
+    const match = field.synonyms
+      .map(synonym => columns.find(column => !taken.has(column) && normalizeColumnName(column) === synonym))
+      .find(Boolean)
+      // Fall back to names like "Pain (0-10)" or "Entry date"
+      ?? columns.find(column => !taken.has(column) && field.synonyms.some(synonym => normalizeColumnName(column).split('_').includes(synonym)));
+    mapping[field.key] = match ?? null;
+    if (match) taken.add(match);
+  });
+
+  return mapping;
+}
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of a zone from UTC at an instant, in ms
+function zoneOffset(instant: number, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in the given zone refers to. Times skipped by a DST
+ * change resolve to the later offset.
+ */
+export function zonedTimeToUtc(
+  parts: { year: number; month: number; day: number; hour: number; minute: number; second: number },
+  timezone: string
+): Date {
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  let instant = wall - zoneOffset(wall, timezone);
+  // A second pass settles times near a DST change
+  instant = wall - zoneOffset(instant, timezone);
+  return new Date(instant);
+}
+
+const DATE_PATTERNS: Record<DateOrder, RegExp> = {
+  ymd: /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/,
+  mdy: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/,
+  dmy: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/,
+};
+
+function parseDatePart(value: string, dateOrder: DateOrder) {
+  const iso = value.match(DATE_PATTERNS.ymd);
+  if (iso) return { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+
+  const match = value.match(DATE_PATTERNS[dateOrder === 'ymd' ? 'mdy' : dateOrder]);
+  if (!match) return null;
+  const [first, second] = [Number(match[1]), Number(match[2])];
+  const year = Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+  return dateOrder === 'dmy'
+    ? { year, month: second, day: first }
+    : { year, month: first, day: second };
+}
+
+function parseTimePart(value: string) {
+  if (!value) return { hour: 12, minute: 0, second: 0 };
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?(?::(\d{2})(?:\.\d+)?)?\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+
+  let hour = Number(match[1]);
+  const meridiem = match[4]?.toLowerCase().replace(/\./g, '');
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  const minute = Number(match[2] ?? 0);
+  const second = Number(match[3] ?? 0);
+  if (hour > 23 || minute > 59 || second > 59) return null;
+  return { hour, minute, second };
+}
+
+/**
+ * Read a date, optionally with a separate time. Values with a UTC offset or Z are
+ * exact; anything else is wall-clock time in options.timezone. Dates without a time
+ * are placed at noon so they stay on the same day in nearby zones.
+ */
+export function parseImportTimestamp(dateValue: unknown, timeValue: unknown, options: ImportOptions): Date | null {
+  // Spreadsheet JSON exports sometimes use epoch milliseconds
+  if (typeof dateValue === 'number') {
+    const date = new Date(dateValue < 1e11 ? dateValue * 1000 : dateValue);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  if (typeof dateValue !== 'string' || !dateValue.trim()) return null;
+
+  const raw = [dateValue.trim(), typeof timeValue === 'string' ? timeValue.trim() : ''].filter(Boolean).join(' ');
+
+  if (/(?:z|[+-]\d{2}:?\d{2})$/i.test(raw) && /^\d{4}-\d{2}-\d{2}[t ]\d/i.test(raw)) {
+    const date = new Date(raw.replace(' ', 'T'));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const [, datePart, timePart = ''] = raw.match(/^(\S+)(?:[t\s]+(.+))?$/i) ?? [];
+  const day = datePart ? parseDatePart(datePart, options.dateOrder) : null;
+  const time = parseTimePart(timePart);
+  if (!day || !time) return null;
+  if (day.month < 1 || day.month > 12 || day.day < 1 || day.day > 31) return null;
+
+  const date = zonedTimeToUtc({ ...day, ...time }, options.timezone);
+  // Rejects dates like February 30, which Date.UTC would roll into March
+  const check = new Date(Date.UTC(day.year, day.month - 1, day.day));
+  if (check.getUTCMonth() !== day.month - 1) return null;
+  return date;
+}
+
+function toText(value: unknown) {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean);
+  return toText(value).split(LIST_SEPARATOR).filter(Boolean);
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const text = toText(value).toLowerCase();
+  if (['yes', 'y', 'true', '1', 'x'].includes(text)) return true;
+  if (['no', 'n', 'false', '0'].includes(text)) return false;
+  return null;
+}
+
+/**
+ * Check one row and turn it into a pain_logs insert, or say why it can't be.
+ */
+export function importRow(
+  values: Record<string, unknown>,
+  mapping: ColumnMapping,
+  options: ImportOptions
+): { log: Omit<PainLogInsert, 'user_id'> } | { reason: string } {
+  const value = (field: ImportField) => (mapping[field] ? values[mapping[field]!] : undefined);
+
+  const levelText = toText(value('pain_level')).replace(/\s*\/\s*10$/, '').replace(',', '.');
+  if (!levelText) return { reason: 'Missing pain level' };
+  const level = Number(levelText);
+  if (!Number.isFinite(level)) return { reason: `Pain level "${levelText}" is not a number` };
+  if (level < 0 || level > 10) return { reason: `Pain level ${level} is outside 0–10` };
+  // Rounding a half point would silently change what the user recorded
+  if (!Number.isInteger(level)) return { reason: `Pain level ${levelText} is not a whole number` };
+
+  if (!toText(value('logged_at'))) return { reason: 'Missing date' };
+  const loggedAt = parseImportTimestamp(value('logged_at'), value('time'), options);
+  if (!loggedAt) return { reason: `Couldn't read the date "${`${toText(value('logged_at'))} ${toText(value('time'))}`.trim()}"` };
+  if (loggedAt.getTime() > Date.now() + 60 * 60 * 1000) return { reason: 'Date is in the future' };
+
+  const impact = toText(value('functional_impact')).toLowerCase();
+
+  return {
+    log: {
+      logged_at: loggedAt.toISOString(),
+      pain_level: level,
+      pain_locations: normalizeTerms('location', toList(value('pain_locations'))),
+      triggers: normalizeTerms('trigger', toList(value('triggers'))),
+      medications: toList(value('medications')),
+      notes: toText(value('notes')) || null,
+      activity: normalizeTerm('activity', toText(value('activity'))),
+      functional_impact: FUNCTIONAL_IMPACT_LEVELS.includes(impact) ? impact : null,
+      impact_tags: normalizeTerms('impact_tag', toList(value('impact_tags'))),
+      side_effects: toText(value('side_effects')) || null,
+      rx_taken: toBoolean(value('rx_taken')),
+    },
+  };
+}
+
+/**
+ * Entries count as the same when they share the minute and pain level, which is as
+ * precise as most exports are.
+ */
+export const importDedupeKey = (loggedAt: string, painLevel: number) =>
+  `${new Date(loggedAt).toISOString().slice(0, 16)}|${painLevel}`;
+
+/**
+ * Validate every row, dropping repeats within the file. Rows are checked in the
+ * order given so rejected row numbers match the file.
+ */
+export function prepareImport(
+  file: ParsedImportFile,
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  userId: string
+): PreparedImport {
+  const valid: PainLogInsert[] = [];
+  const validRows: PreparedImport['validRows'] = [];
+  const rejected: RejectedImportRow[] = [];
+  const seen = new Set<string>();
+  let repeated = 0;
+
+  if (!isValidTimezone(options.timezone)) {
+    return {
+      valid,
+      validRows,
+      rejected: file.rows.map((values, index) => ({ row: index + 1, reason: `Unknown time zone "${options.timezone}"`, values })),
+      repeated,
+    };
+  }
+
+  file.rows.forEach((values, index) => {
+    const result = importRow(values, mapping, options);
+    if ('reason' in result) {
+      rejected.push({ row: index + 1, reason: result.reason, values });
+      return;
+    }
+    const key = importDedupeKey(result.log.logged_at!, result.log.pain_level);
+    if (seen.has(key)) {
+      repeated++;
+      return;
+    }
+    seen.add(key);
+    valid.push({ ...result.log, user_id: userId });
+    validRows.push({ row: index + 1, values });
+  });
+
+  return { valid, validRows, rejected, repeated };
+}
+
+const EXISTING_PAGE_SIZE = 1000;
+
+async function fetchExistingKeys(userId: string, from: string, to: string) {
+  const keys = new Set<string>();
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('pain_logs')
+      .select('logged_at, pain_level')
+      .eq('user_id', userId)
+      .gte('logged_at', from)
+      .lte('logged_at', to)
+      .order('logged_at')
+      .range(page * EXISTING_PAGE_SIZE, (page + 1) * EXISTING_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    (data || []).forEach(log => keys.add(importDedupeKey(log.logged_at, log.pain_level)));
+    if (!data || data.length < EXISTING_PAGE_SIZE) return keys;
+  }
+}
+
+/**
+ * Insert prepared rows in batches, skipping any already in the account. The rows of a
+ * batch the database refuses are reported as failed with its error, and the rest carry on.
+ */
+export async function importPainLogs(
+  userId: string,
+  prepared: Pick<PreparedImport, 'valid' | 'validRows'>,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> {
+  const logs = prepared.valid;
+  if (logs.length === 0) return { inserted: 0, duplicates: 0, failed: [] };
+
+  // Folded rather than spread into Math.min/max, which overflows the stack on large files
+  const times = logs.map(log => new Date(log.logged_at!).getTime());
+  const earliest = times.reduce((min, time) => Math.min(min, time), Infinity);
+  const latest = times.reduce((max, time) => Math.max(max, time), -Infinity);
+  // Whole minutes either side, since keys ignore seconds
+  const existing = await fetchExistingKeys(
+    userId,
+    new Date(Math.floor(earliest / 60000) * 60000).toISOString(),
+    new Date(Math.floor(latest / 60000) * 60000 + 60000).toISOString()
+  );
+  const fresh = logs
+    .map((log, index) => ({ log, source: prepared.validRows[index] }))
+    .filter(({ log }) => !existing.has(importDedupeKey(log.logged_at!, log.pain_level)));
+
+  let inserted = 0;
+  const failed: RejectedImportRow[] = [];
+  for (let start = 0; start < fresh.length; start += IMPORT_BATCH_SIZE) {
+    const batch = fresh.slice(start, start + IMPORT_BATCH_SIZE);
+    const { error } = await supabase.from('pain_logs').insert(batch.map(({ log }) => log));
+    if (error) {
+      console.error('Error importing pain logs:', error);
+      failed.push(...batch.map(({ source }) => ({ ...source, reason: `Couldn't save: ${error.message}` })));
+    } else {
+      inserted += batch.length;
+    }
+    onProgress?.(start + batch.length, fresh.length);
+  }
+
+  return { inserted, duplicates: logs.length - fresh.length, failed };
+}
@@ -0,0 +1,345 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type PainLogInsert = Database['public']['Tables']['pain_logs']['Insert'];
+type PainLogUpdate = Database['public']['Tables']['pain_logs']['Update'];
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+export interface OutboxEntry {
+  id: string;
+  op: OutboxOperation;
+  logId: string;
+  userId: string;
+  payload: PainLogInsert | PainLogUpdate | null;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  // Set when the server refused the write. The entry is kept (and skipped by
+  // replay) so the user can edit or retry it instead of losing it.
+  rejectedAt?: number;
+}
+
+export type OutboxEvent =
+  | { type: 'changed' }
+  | { type: 'synced'; entries: OutboxEntry[] }
+  | { type: 'rejected'; entry: OutboxEntry; message: string };
+
+export interface FlushResult {
+  synced: string[];
+  rejected: string[];
+  pending: number;
+}
+
+const DB_NAME = 'painpal-offline';
+const DB_VERSION = 1;
+const STORE = 'pain_log_outbox';
+
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// Fallback for environments without IndexedDB (private mode in some browsers)
+const memoryStore = new Map<string, OutboxEntry>();
+const listeners = new Set<(event: OutboxEvent) => void>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let flushInFlight: Promise<FlushResult> | null = null;
+let lastCreatedAt = 0;
+let replayingEntryId: string | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('userId', 'userId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Error opening offline outbox:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then((db) => new Promise<T>((resolve, reject) => {
+    if (!db) {
+      reject(new Error('IndexedDB unavailable'));
+      return;
+    }
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+async function putEntry(entry: OutboxEntry) {
+  if (!(await openDb())) {
+    memoryStore.set(entry.id, entry);
+    return;
+  }
+  await runRequest('readwrite', (store) => store.put(entry));
+}
+
+async function deleteEntry(id: string) {
+  if (!(await openDb())) {
+    memoryStore.delete(id);
+    return;
+  }
+  await runRequest('readwrite', (store) => store.delete(id));
+}
+
+function emit(event: OutboxEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+/**
+ * Subscribe to outbox changes. Returns an unsubscribe function.
+ */
+export function subscribeToOutbox(listener: (event: OutboxEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * List queued operations for a user, oldest first (replay order)
+ */
+export async function getOutboxEntries(userId: string): Promise<OutboxEntry[]> {
+  let entries: OutboxEntry[];
+  if (!(await openDb())) {
+    entries = Array.from(memoryStore.values());
+  } else {
+    entries = await runRequest('readonly', (store) => store.index('userId').getAll(userId));
+  }
+  return entries
+    .filter((entry) => entry.userId === userId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Drop every queued operation for a user, e.g. once their account is deleted
+ */
+export async function clearOutbox(userId: string) {
+  const entries = await getOutboxEntries(userId);
+  await Promise.all(entries.map((entry) => deleteEntry(entry.id)));
+  emit({ type: 'changed' });
+}
+
+/**
+ * Queue a pain log write. Operations on a log that is still waiting to be
+ * inserted are folded into the pending insert so replay stays idempotent.
+ * Editing a rejected write folds the edit in and queues it for another try.
+ */
+export async function enqueuePainLogOperation(
+  op: OutboxOperation,
+  userId: string,
+  logId: string,
+  payload: PainLogInsert | PainLogUpdate | null = null
+): Promise<OutboxEntry | null> {
+  // The entry currently on the wire is about to be removed, so it can't absorb new changes
+  const existing = (await getOutboxEntries(userId))
+    .filter((entry) => entry.logId === logId && entry.id !== replayingEntryId);
+  const pendingInsert = existing.find((entry) => entry.op === 'insert');
+  const pendingUpdate = existing.find((entry) => entry.op === 'update');
+
+  if (op === 'update' && (pendingInsert || pendingUpdate)) {
+    const target = pendingInsert || pendingUpdate!;
+    const merged = target.rejectedAt
+      ? { ...resetForRetry(target), payload: { ...target.payload, ...payload } }
+      : { ...target, payload: { ...target.payload, ...payload } };
+    await putEntry(merged);
+    emit({ type: 'changed' });
+    return merged;
+  }
+
+  if (op === 'delete') {
+    await Promise.all(existing.map((entry) => deleteEntry(entry.id)));
+    if (pendingInsert) {
+      // Never reached the server, nothing left to delete
+      emit({ type: 'changed' });
+      return null;
+    }
+  }
+
+  // Strictly increasing so entries queued in the same millisecond keep their order
+  const now = Math.max(Date.now(), lastCreatedAt + 1);
+  lastCreatedAt = now;
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    op,
+    logId,
+    userId,
+    payload,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+  await putEntry(entry);
+  emit({ type: 'changed' });
+  return entry;
+}
+
+function resetForRetry(entry: OutboxEntry): OutboxEntry {
+  const { rejectedAt: _rejectedAt, lastError: _lastError, ...rest } = entry;
+  return { ...rest, attempts: 0, nextAttemptAt: Date.now() };
+}
+
+/**
+ * Queue a rejected write for another try, unchanged
+ */
+export async function retryOutboxEntry(userId: string, id: string) {
+  const entry = (await getOutboxEntries(userId)).find((item) => item.id === id);
+  if (!entry?.rejectedAt) return;
+  await putEntry(resetForRetry(entry));
+  emit({ type: 'changed' });
+}
+
+/**
+ * Drop a rejected write the user no longer wants
+ */
+export async function discardOutboxEntry(userId: string, id: string) {
+  const entry = (await getOutboxEntries(userId)).find((item) => item.id === id);
+  if (!entry) return;
+  await deleteEntry(entry.id);
+  emit({ type: 'changed' });
+}
+
+/**
+ * Exponential backoff with jitter, capped at MAX_BACKOFF_MS
+ */
+export function getBackoffDelay(attempts: number): number {
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+  return Math.round(exponential * (0.75 + Math.random() * 0.5));
+}
+
+// Network failures surface from supabase-js as status 0. 401/403 usually mean
+// the session expired while offline; the write goes through once it refreshes.
+function isRetryable(status: number) {
+  return status === 0 || status === 401 || status === 403 || status === 408 || status === 429 || status >= 500;
+}
+
+async function replay(entry: OutboxEntry) {
+  if (entry.op === 'insert') {
+    return supabase
+      .from('pain_logs')
+      .upsert(entry.payload as PainLogInsert, { onConflict: 'id', ignoreDuplicates: true });
+  }
+  if (entry.op === 'update') {
+    return supabase
+      .from('pain_logs')
+      .update(entry.payload as PainLogUpdate)
+      .eq('id', entry.logId)
+      .eq('user_id', entry.userId);
+  }
+  return supabase
+    .from('pain_logs')
+    .delete()
+    .eq('id', entry.logId)
+    .eq('user_id', entry.userId);
+}
+
+async function flush(userId: string, force: boolean): Promise<FlushResult> {
+  const result: FlushResult = { synced: [], rejected: [], pending: 0 };
+  const entries = (await getOutboxEntries(userId)).filter((entry) => !entry.rejectedAt);
+  const syncedEntries: OutboxEntry[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+
+    // Replay strictly in order: a waiting entry holds back everything after it
+    if (!force && entry.nextAttemptAt > Date.now()) {
+      result.pending = entries.length - i;
+      break;
+    }
+
+    replayingEntryId = entry.id;
+    const { error, status } = await replay(entry).finally(() => {
+      replayingEntryId = null;
+    });
+
+    if (!error) {
+      await deleteEntry(entry.id);
+      result.synced.push(entry.id);
+      syncedEntries.push(entry);
+      continue;
+    }
+
+    if (isRetryable(status)) {
+      const attempts = entry.attempts + 1;
+      await putEntry({
+        ...entry,
+        attempts,
+        nextAttemptAt: Date.now() + getBackoffDelay(attempts),
+        lastError: error.message,
+      });
+      result.pending = entries.length - i;
+      break;
+    }
+
+    // The server refused the write; retrying as is would not change the outcome
+    console.error('Offline pain log rejected by server:', error);
+    const rejected = { ...entry, rejectedAt: Date.now(), lastError: error.message };
+    await putEntry(rejected);
+    result.rejected.push(entry.id);
+    emit({ type: 'rejected', entry: rejected, message: error.message });
+  }
+
+  if (syncedEntries.length > 0) {
+    emit({ type: 'synced', entries: syncedEntries });
+  }
+  emit({ type: 'changed' });
+  return result;
+}
+
+/**
+ * Replay queued operations for a user. Concurrent callers share one run.
+ * Pass force to ignore backoff timers (e.g. when the browser comes back online).
+ */
+export function flushOutbox(userId: string, { force = false } = {}): Promise<FlushResult> {
+  // Entries queued after the current run started still need a pass of their own
+  if (flushInFlight) return flushInFlight.then(() => flushOutbox(userId, { force }));
+
+  flushInFlight = flush(userId, force).finally(() => {
+    flushInFlight = null;
+  });
+  return flushInFlight;
+}
+
+/**
+ * Overlay queued operations on rows fetched from the server so the UI
+ * reflects writes that have not synced yet.
+ */
+export function applyOutboxEntries<T extends { id: string }>(rows: T[], entries: OutboxEntry[]): T[] {
+  let result = [...rows];
+
+  entries.forEach((entry) => {
+    if (entry.op === 'insert') {
+      if (!result.some((row) => row.id === entry.logId)) {
+        result.unshift({ ...(entry.payload as object), id: entry.logId } as unknown as T);
+      }
+    } else if (entry.op === 'update') {
+      result = result.map((row) => (row.id === entry.logId ? { ...row, ...(entry.payload as object) } : row));
+    } else {
+      result = result.filter((row) => row.id !== entry.logId);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,32 @@
+/**
+ * Words for what pain feels like, stored by id in pain_logs.pain_qualities.
+ * Burning, electric, shooting and tingling pain are typical of nerve (neuropathic)
+ * pain; the others of pain from tissue such as muscle or joints (nociceptive).
+ * Keep the ids in step with the pain_logs_pain_qualities_known constraint.
+ */
+export const PAIN_QUALITIES = [
+  { id: 'aching', label: 'Aching', neuropathic: false },
+  { id: 'throbbing', label: 'Throbbing', neuropathic: false },
+  { id: 'stabbing', label: 'Stabbing', neuropathic: false },
+  { id: 'sharp', label: 'Sharp', neuropathic: false },
+  { id: 'pressing', label: 'Pressing', neuropathic: false },
+  { id: 'cramping', label: 'Cramping', neuropathic: false },
+  { id: 'burning', label: 'Burning', neuropathic: true },
+  { id: 'electric', label: 'Electric', neuropathic: true },
+  { id: 'shooting', label: 'Shooting', neuropathic: true },
+  { id: 'tingling', label: 'Tingling', neuropathic: true },
+] as const;
+
+export type PainQuality = typeof PAIN_QUALITIES[number]['id'];
+
+export function isPainQuality(value: string): value is PainQuality {
+  return PAIN_QUALITIES.some(quality => quality.id === value);
+}
+
+export function painQualityLabel(id: string) {
+  return PAIN_QUALITIES.find(quality => quality.id === id)?.label ?? id;
+}
+
+export function isNeuropathicQuality(id: string) {
+  return PAIN_QUALITIES.some(quality => quality.id === id && quality.neuropathic);
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { QUESTIONNAIRE_IDS } from './index';
+
+const migrations = import.meta.glob<string>('../../../supabase/migrations/*.sql', { query: '?raw', import: 'default', eager: true });
+
+describe('questionnaire_schedules_instrument_known', () => {
+  // The latest definition, since later migrations replace earlier ones
+  const definition = Object.keys(migrations)
+    .sort()
+    .map(path => migrations[path].match(/questionnaire_schedules_instrument_known\s+CHECK \(instrument IN \(([^)]*)\)\)/))
+    .filter(Boolean)
+    .pop();
+
+  it('allows exactly the defined instruments to be scheduled', () => {
+    const allowed = [...(definition?.[1] ?? '').matchAll(/'(\w+)'/g)].map(([, id]) => id);
+    expect(allowed.sort()).toEqual([...QUESTIONNAIRE_IDS].sort());
+  });
+});
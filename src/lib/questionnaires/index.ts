@@ -0,0 +1,36 @@
+// Standardized questionnaires: instruments are JSON definitions (./instruments),
+// checked against the schema when loaded and scored by the same engine.
+// Add an instrument by dropping in its JSON, listing it here and in the
+// instrument constraints on questionnaire_responses and questionnaire_schedules.
+
+import bpi from './instruments/bpi.json';
+import hit6 from './instruments/hit6.json';
+import midas from './instruments/midas.json';
+import promisPainInterference from './instruments/promis-pain-interference-4a.json';
+import { questionnaireSchema, type QuestionnaireDefinition, type QuestionnaireResponse } from './schema';
+
+export * from './schema';
+export * from './scoring';
+export * from './schedule';
+
+export const QUESTIONNAIRES: QuestionnaireDefinition[] = [bpi, hit6, midas, promisPainInterference]
+  .map(definition => questionnaireSchema.parse(definition));
+
+export function getQuestionnaire(id: string) {
+  return QUESTIONNAIRES.find(definition => definition.id === id) ?? null;
+}
+
+export const QUESTIONNAIRE_IDS = QUESTIONNAIRES.map(definition => definition.id);
+
+/**
+ * Each instrument's latest response on or before a date, with the one before it
+ * for comparison. Instruments never taken by then are left out.
+ */
+export function latestResponses(responses: QuestionnaireResponse[], asOf: Date) {
+  return QUESTIONNAIRES.flatMap(definition => {
+    const taken = responses
+      .filter(response => response.instrument === definition.id && new Date(response.completed_at) <= asOf)
+      .sort((a, b) => new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime());
+    return taken.length > 0 ? [{ definition, latest: taken[0], previous: taken[1] ?? null }] : [];
+  });
+}
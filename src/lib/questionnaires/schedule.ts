@@ -0,0 +1,44 @@
+import { addDays } from 'date-fns';
+import type { QuestionnaireResponse } from './schema';
+
+export const SCHEDULE_OPTIONS = [
+  { days: 7, label: 'Weekly' },
+  { days: 14, label: 'Every 2 weeks' },
+  { days: 30, label: 'Monthly' },
+  { days: 90, label: 'Every 3 months' },
+];
+
+export interface QuestionnaireSchedule {
+  instrument: string;
+  interval_days: number;
+  created_at: string;
+}
+
+/**
+ * When a scheduled questionnaire is next due: one interval after it was last
+ * completed, or as soon as it is scheduled if it never has been.
+ */
+export function nextDueDate(schedule: QuestionnaireSchedule, responses: QuestionnaireResponse[]) {
+  const last = responses
+    .filter(response => response.instrument === schedule.instrument)
+    .reduce<string | null>((latest, response) => (!latest || response.completed_at > latest ? response.completed_at : latest), null);
+  return last ? addDays(new Date(last), schedule.interval_days) : new Date(schedule.created_at);
+}
+
+/**
+ * Schedules due on or before the given time, most overdue first.
+ */
+export function dueQuestionnaires(
+  schedules: QuestionnaireSchedule[],
+  responses: QuestionnaireResponse[],
+  now: Date = new Date()
+) {
+  return schedules
+    .map(schedule => ({ ...schedule, dueAt: nextDueDate(schedule, responses) }))
+    .filter(schedule => schedule.dueAt <= now)
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+export function scheduleLabel(intervalDays: number) {
+  return SCHEDULE_OPTIONS.find(option => option.days === intervalDays)?.label ?? `Every ${intervalDays} days`;
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+/**
+ * The JSON format instruments are written in (see ./instruments). Answers are
+ * numbers: the point on a scale, an option's value or a count.
+ */
+const responseSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('scale'),
+    min: z.number().int(),
+    max: z.number().int(),
+    minLabel: z.string(),
+    maxLabel: z.string(),
+  }),
+  z.object({
+    type: z.literal('options'),
+    options: z.array(z.object({ label: z.string(), value: z.number() })).min(2),
+  }),
+  z.object({
+    type: z.literal('count'),
+    min: z.number().int(),
+    max: z.number().int(),
+    unit: z.string(),
+  }),
+]);
+
+const itemSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  response: responseSchema,
+});
+
+const scoreSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  method: z.enum(['sum', 'mean']),
+  items: z.array(z.string()).min(1),
+  // Fewer answers than this leave the score blank; defaults to every item
+  minAnswered: z.number().int().positive().optional(),
+  // Scale a sum with missing answers up to the full item count, rounding up
+  prorate: z.boolean().optional(),
+  // Raw score to reported score, e.g. a PROMIS raw sum to its T-score
+  lookup: z.record(z.number()).optional(),
+  decimals: z.number().int().min(0).default(0),
+  // Range the score can take, used for charts
+  min: z.number(),
+  max: z.number(),
+  // Interpretation by lowest score, ascending
+  bands: z.array(z.object({ min: z.number(), label: z.string() })).optional(),
+});
+
+export const questionnaireSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  shortName: z.string(),
+  description: z.string(),
+  // Shown before the questions, e.g. "the last 24 hours"
+  recallPeriod: z.string(),
+  recallDays: z.number().int().positive(),
+  // Suggested schedule when the user turns one on
+  defaultIntervalDays: z.number().int().positive(),
+  copyright: z.string(),
+  items: z.array(itemSchema).min(1),
+  scores: z.array(scoreSchema).min(1),
+  primaryScore: z.string(),
+  // Scores charted together on Insights; they should share a range
+  trendScores: z.array(z.string()).min(1),
+}).superRefine((definition, ctx) => {
+  const itemIds = new Set(definition.items.map(item => item.id));
+  const scoreIds = new Set(definition.scores.map(score => score.id));
+  definition.scores.forEach(score => score.items
+    .filter(id => !itemIds.has(id))
+    .forEach(id => ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Score ${score.id} uses unknown item ${id}` })));
+  [definition.primaryScore, ...definition.trendScores]
+    .filter(id => !scoreIds.has(id))
+    .forEach(id => ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown score ${id}` }));
+});
+
+export type QuestionnaireDefinition = z.infer<typeof questionnaireSchema>;
+export type QuestionnaireItem = QuestionnaireDefinition['items'][number];
+export type QuestionnaireScore = QuestionnaireDefinition['scores'][number];
+
+// Item id to answer
+export type QuestionnaireAnswers = Record<string, number>;
+
+/**
+ * A completed questionnaire as stored in questionnaire_responses.
+ */
+export interface QuestionnaireResponse {
+  instrument: string;
+  scores: Record<string, number | null>;
+  completed_at: string;
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { getQuestionnaire, type QuestionnaireAnswers } from './index';
+import { computeScore, formatQuestionnaireResult, scoreBand, scoreQuestionnaire } from './scoring';
+
+const instrument = (id: string) => getQuestionnaire(id)!;
+const scoreOf = (id: string, scoreId: string) => instrument(id).scores.find(score => score.id === scoreId)!;
+
+// Answers to items in order, leaving out any given as undefined
+const answers = (ids: string[], values: Array<number | undefined>): QuestionnaireAnswers =>
+  Object.fromEntries(ids.flatMap((id, index) => (values[index] === undefined ? [] : [[id, values[index]!]])));
+
+describe('BPI', () => {
+  const severity = scoreOf('bpi', 'severity');
+  const interference = scoreOf('bpi', 'interference');
+
+  it('scores severity as the mean of the four pain items, to one decimal', () => {
+    expect(computeScore(severity, answers(severity.items, [8, 2, 5, 6]))).toBe(5.3);
+  });
+
+  it('needs every severity item', () => {
+    expect(computeScore(severity, answers(severity.items, [8, 2, 5]))).toBeNull();
+  });
+
+  it('scores interference as the mean of the answered items', () => {
+    expect(computeScore(interference, answers(interference.items, [6, 7, 5, 6, 8, 4, 7]))).toBe(6.1);
+    expect(computeScore(interference, answers(interference.items, [6, 7, undefined, 5, undefined, 6]))).toBe(6);
+  });
+
+  it('needs at least four of the seven interference items', () => {
+    expect(interference.minAnswered).toBe(4);
+    expect(computeScore(interference, answers(interference.items, [6, 7, 5]))).toBeNull();
+  });
+
+  it('counts a zero as an answer', () => {
+    expect(computeScore(interference, answers(interference.items, [0, 0, 0, 0]))).toBe(0);
+  });
+
+  it('reports interference as the primary score, complete only with every item', () => {
+    const definition = instrument('bpi');
+    const all = answers(definition.items.map(item => item.id), [8, 2, 5, 6, 6, 7, 5, 6, 8, 4, 7]);
+    expect(scoreQuestionnaire(definition, all)).toEqual({
+      scores: { severity: 5.3, interference: 6.1 },
+      primary: 6.1,
+      complete: true,
+    });
+
+    const { sleep: _sleep, ...partial } = all;
+    expect(scoreQuestionnaire(definition, partial)).toMatchObject({ primary: 6.5, complete: false });
+  });
+});
+
+describe('HIT-6', () => {
+  const total = scoreOf('hit6', 'total');
+
+  it('sums the six items', () => {
+    expect(computeScore(total, answers(total.items, [10, 10, 8, 11, 8, 11]))).toBe(58);
+    expect(computeScore(total, answers(total.items, [10, 10, 8, 11, 8]))).toBeNull();
+  });
+
+  it.each([
+    [36, 'Little or no impact'],
+    [49, 'Little or no impact'],
+    [50, 'Some impact'],
+    [55, 'Some impact'],
+    [56, 'Substantial impact'],
+    [59, 'Substantial impact'],
+    [60, 'Severe impact'],
+    [78, 'Severe impact'],
+  ])('puts %i in "%s"', (value, band) => {
+    expect(scoreBand(total, value)).toBe(band);
+  });
+
+  it('has no band without a score', () => {
+    expect(scoreBand(total, null)).toBeNull();
+  });
+});
+
+describe('MIDAS', () => {
+  const total = scoreOf('midas', 'total');
+
+  it('sums the five disability items, leaving out headache days and pain', () => {
+    const definition = instrument('midas');
+    const all = answers(definition.items.map(item => item.id), [2, 3, 1, 4, 2, 14, 6]);
+    expect(scoreQuestionnaire(definition, all).scores).toEqual({ total: 12, headache_days: 14, average_pain: 6 });
+    expect(scoreBand(total, 12)).toBe('Grade III, moderate disability');
+  });
+
+  it.each([
+    [0, 'Grade I, little or no disability'],
+    [5, 'Grade I, little or no disability'],
+    [6, 'Grade II, mild disability'],
+    [10, 'Grade II, mild disability'],
+    [11, 'Grade III, moderate disability'],
+    [20, 'Grade III, moderate disability'],
+    [21, 'Grade IV, severe disability'],
+    [270, 'Grade IV, severe disability'],
+  ])('grades %i as "%s"', (value, band) => {
+    expect(scoreBand(total, value)).toBe(band);
+  });
+});
+
+describe('PROMIS Pain Interference 4a', () => {
+  const tScore = scoreOf('promis_pi_4a', 't_score');
+
+  it.each([
+    [[1, 1, 1, 1], 41.6, 'Within normal limits'],
+    [[2, 2, 2, 2], 55.6, 'Mild'],
+    [[3, 3, 2, 4], 61.2, 'Moderate'],
+    [[5, 5, 4, 4], 69.7, 'Moderate'],
+    [[5, 5, 5, 5], 75.6, 'Severe'],
+  ])('looks up the T-score for %j', (values, expected, band) => {
+    const value = computeScore(tScore, answers(tScore.items, values));
+    expect(value).toBe(expected);
+    expect(scoreBand(tScore, value)).toBe(band);
+  });
+
+  it('prorates a partly answered form to four items, rounding up', () => {
+    // 7 over two items -> 14
+    expect(computeScore(tScore, answers(tScore.items, [3, 4]))).toBe(63.8);
+    // 8 over three items -> 10.67 -> 11
+    expect(computeScore(tScore, answers(tScore.items, [2, undefined, 3, 3]))).toBe(59.9);
+  });
+
+  it('needs at least two answers', () => {
+    expect(computeScore(tScore, answers(tScore.items, [4]))).toBeNull();
+  });
+
+  it('has a T-score for every possible raw score', () => {
+    for (let raw = 4; raw <= 20; raw++) {
+      expect(tScore.lookup?.[String(raw)]).toEqual(expect.any(Number));
+    }
+  });
+});
+
+describe('formatQuestionnaireResult', () => {
+  it('lists each score with its band and the change in the primary score', () => {
+    const definition = instrument('hit6');
+    const line = formatQuestionnaireResult(
+      definition,
+      { instrument: 'hit6', scores: { total: 58 }, completed_at: '2026-10-03T12:00:00' },
+      { instrument: 'hit6', scores: { total: 62 }, completed_at: '2026-09-05T12:00:00' }
+    );
+    expect(line).toBe('Total 58 (Substantial impact) (Oct 3, 2026; past 4 weeks; total was 62 on Sep 5)');
+  });
+});
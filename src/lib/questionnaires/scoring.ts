@@ -0,0 +1,92 @@
+import { format } from 'date-fns';
+import type {
+  QuestionnaireAnswers,
+  QuestionnaireDefinition,
+  QuestionnaireResponse,
+  QuestionnaireScore
+} from './schema';
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * One score from the answers, or null when too few of its items were answered or
+ * a raw score has no entry in the lookup table.
+ */
+export function computeScore(score: QuestionnaireScore, answers: QuestionnaireAnswers): number | null {
+  const values = score.items
+    .map(id => answers[id])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+  if (values.length === 0 || values.length < (score.minAnswered ?? score.items.length)) return null;
+
+  const sum = values.reduce((total, value) => total + value, 0);
+  let raw = score.method === 'mean' ? sum / values.length : sum;
+  if (score.method === 'sum' && score.prorate && values.length < score.items.length) {
+    raw = Math.ceil((sum * score.items.length) / values.length);
+  }
+
+  if (score.lookup) {
+    const looked = score.lookup[String(raw)];
+    return looked === undefined ? null : round(looked, score.decimals);
+  }
+  return round(raw, score.decimals);
+}
+
+/**
+ * Every score of the instrument. Complete once each item has an answer; a score
+ * may still be available before that.
+ */
+export function scoreQuestionnaire(definition: QuestionnaireDefinition, answers: QuestionnaireAnswers) {
+  const scores = Object.fromEntries(
+    definition.scores.map(score => [score.id, computeScore(score, answers)])
+  ) as Record<string, number | null>;
+
+  return {
+    scores,
+    primary: scores[definition.primaryScore] ?? null,
+    complete: definition.items.every(item => typeof answers[item.id] === 'number'),
+  };
+}
+
+/**
+ * The band a value falls in, e.g. "Substantial impact" for a HIT-6 of 58.
+ */
+export function scoreBand(score: QuestionnaireScore, value: number | null) {
+  if (value === null || !score.bands) return null;
+  return [...score.bands].reverse().find(band => value >= band.min)?.label ?? null;
+}
+
+export function formatScoreValue(score: QuestionnaireScore, value: number | null) {
+  return value === null ? '-' : value.toFixed(score.decimals);
+}
+
+/**
+ * A response as one line for the doctor summary and report, e.g. "Pain severity 5.3,
+ * Pain interference 6.1 (Oct 3, 2026; last 24 hours)". With an earlier response the
+ * primary score's change is added.
+ */
+export function formatQuestionnaireResult(
+  definition: QuestionnaireDefinition,
+  response: QuestionnaireResponse,
+  previous?: QuestionnaireResponse | null
+) {
+  const scores = definition.scores
+    .map(score => {
+      const value = response.scores[score.id] ?? null;
+      if (value === null) return null;
+      const band = scoreBand(score, value);
+      return `${score.label} ${formatScoreValue(score, value)}${band ? ` (${band})` : ''}`;
+    })
+    .filter(Boolean)
+    .join(', ');
+
+  const primary = definition.scores.find(score => score.id === definition.primaryScore)!;
+  const before = previous?.scores[primary.id] ?? null;
+  const change = previous && before !== null
+    ? `; ${primary.label.toLowerCase()} was ${formatScoreValue(primary, before)} on ${format(new Date(previous.completed_at), 'MMM d')}`
+    : '';
+
+  return `${scores || 'Not scored'} (${format(new Date(response.completed_at), 'MMM d, yyyy')}; ${definition.recallPeriod}${change})`;
+}
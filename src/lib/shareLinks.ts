@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { DoseResponse, MedicationDoseRecord, PainLogRecord } from '@/lib/analytics';
+import type { ReportSectionKey } from '@/lib/clinicianReport';
+import { toMedication, type Medication } from '@/lib/medications';
+
+type MedicationRow = Database['public']['Tables']['medications']['Row'];
+
+export type ShareLink = Database['public']['Tables']['share_links']['Row'];
+export type ShareLinkAccess = Database['public']['Tables']['share_link_access_log']['Row'];
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'used_up';
+
+export const SHARE_LINK_EXPIRY_OPTIONS = [
+  { label: '24 hours', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+];
+
+export const SHARE_ACCESS_OUTCOME_LABELS: Record<string, string> = {
+  granted: 'Viewed',
+  expired: 'Refused: expired',
+  revoked: 'Refused: revoked',
+  view_limit: 'Refused: view limit reached',
+};
+
+/**
+ * What the public view gets back from get_shared_summary. Fields of a pain log
+ * outside the granted sections are simply absent.
+ */
+export type SharedSummary =
+  | { status: 'not_found' | 'expired' | 'revoked' | 'view_limit' }
+  | {
+    status: 'granted';
+    link: {
+      label: string | null;
+      range_start: string;
+      range_end: string;
+      sections: ReportSectionKey[];
+      expires_at: string;
+    };
+    patient: { display_name: string | null; diagnosis: string | null } | null;
+    pain_logs: PainLogRecord[];
+    medications: Medication[];
+    doses: Array<MedicationDoseRecord & DoseResponse>;
+  };
+
+// 32 random bytes, base64url: long enough that links can't be guessed
+export function generateShareToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Matches encode(sha256(...), 'hex') in get_shared_summary
+export async function hashShareToken(token: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export const shareLinkUrl = (token: string) => `${window.location.origin}/shared/${token}`;
+
+export function shareLinkStatus(link: ShareLink, now = new Date()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (new Date(link.expires_at) <= now) return 'expired';
+  if (link.max_views !== null && link.view_count >= link.max_views) return 'used_up';
+  return 'active';
+}
+
+/**
+ * Open a share link. Works signed out; the database function checks the token,
+ * logs the access and returns only what the link grants.
+ */
+export async function fetchSharedSummary(token: string): Promise<SharedSummary> {
+  const { data, error } = await supabase.rpc('get_shared_summary', {
+    p_token: token,
+    p_user_agent: navigator.userAgent,
+  });
+
+  if (error) throw error;
+  const summary = data as unknown as SharedSummary;
+  if (summary.status !== 'granted') return summary;
+  // Only the columns a clinician needs are sent; toMedication just normalizes schedule
+  return {
+    ...summary,
+    medications: summary.medications.map(medication => toMedication(medication as unknown as MedicationRow)),
+  };
+}
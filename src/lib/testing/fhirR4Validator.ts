@@ -0,0 +1,188 @@
+// Offline checks of the FHIR R4 rules the export relies on, for tests: required
+// elements and cardinality, primitive formats, the required-binding value sets of the
+// resources we write, no empty elements, and urn:uuid references that resolve inside
+// the bundle. A stand-in for the HL7 validator, which needs the network and a JVM.
+
+type Json = Record<string, unknown>;
+
+// Primitive formats from https://hl7.org/fhir/R4/datatypes.html
+const ID = /^[A-Za-z0-9\-.]{1,64}$/;
+const DATE = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+const DATE_TIME = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00)))?)?)?$/;
+const INSTANT = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00))$/;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?$/;
+const URN_UUID = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const URI = /^\S+$/;
+
+// Required bindings
+export const R4_VALUE_SETS = {
+  bundleType: ['document', 'message', 'transaction', 'transaction-response', 'batch', 'batch-response', 'history', 'searchset', 'collection'],
+  contactPointSystem: ['phone', 'fax', 'email', 'pager', 'url', 'sms', 'other'],
+  observationStatus: ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'],
+  medicationStatementStatus: ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken'],
+  medicationAdministrationStatus: ['in-progress', 'not-done', 'on-hold', 'completed', 'entered-in-error', 'stopped', 'unknown'],
+};
+
+// Reference targets each resource type may point at
+const REFERENCE_TARGETS: Record<string, Record<string, string[]>> = {
+  Observation: { subject: ['Patient'] },
+  MedicationStatement: { subject: ['Patient'] },
+  MedicationAdministration: { subject: ['Patient'], supportingInformation: ['Observation'] },
+};
+
+const isObject = (value: unknown): value is Json => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Every problem found in a bundle, as "path: message". Empty when it is valid.
+ */
+export function validateR4Bundle(bundle: unknown): string[] {
+  const issues: string[] = [];
+  const issue = (path: string, message: string) => issues.push(`${path}: ${message}`);
+
+  const primitive = (path: string, value: unknown, format: RegExp, name: string) => {
+    if (typeof value !== 'string' || !format.test(value)) issue(path, `not a valid ${name}: ${JSON.stringify(value)}`);
+  };
+  const required = (resource: Json, path: string, field: string) => {
+    if (resource[field] === undefined) issue(`${path}.${field}`, 'is required');
+    return resource[field];
+  };
+  const code = (path: string, value: unknown, valueSet: string[]) => {
+    if (typeof value !== 'string' || !valueSet.includes(value)) issue(path, `${JSON.stringify(value)} is not in the value set`);
+  };
+  const list = (path: string, value: unknown, each: (item: unknown, path: string) => void) => {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) return issue(path, 'must be an array');
+    value.forEach((item, index) => each(item, `${path}[${index}]`));
+  };
+
+  const coding = (value: unknown, path: string) => {
+    if (!isObject(value)) return issue(path, 'must be a Coding');
+    primitive(`${path}.system`, value.system, URI, 'uri');
+    if (typeof value.code !== 'string' || !/^[^\s]+( [^\s]+)*$/.test(value.code)) issue(`${path}.code`, 'not a valid code');
+  };
+  const concept = (value: unknown, path: string) => {
+    if (!isObject(value)) return issue(path, 'must be a CodeableConcept');
+    list(`${path}.coding`, value.coding, coding);
+    if (value.coding === undefined && value.text === undefined) issue(path, 'has neither coding nor text');
+  };
+  const references: Array<{ path: string; reference: unknown; allowed: string[] }> = [];
+  const reference = (value: unknown, path: string, allowed: string[]) => {
+    if (!isObject(value)) return issue(path, 'must be a Reference');
+    references.push({ path, reference: value.reference, allowed });
+  };
+
+  // Elements may not be empty, and null is not a JSON value in FHIR
+  const noEmpty = (value: unknown, path: string) => {
+    if (value === null) return issue(path, 'is null');
+    if (typeof value === 'string' && value.trim() === '') return issue(path, 'is an empty string');
+    if (Array.isArray(value)) {
+      if (value.length === 0) issue(path, 'is an empty array');
+      value.forEach((item, index) => noEmpty(item, `${path}[${index}]`));
+    } else if (isObject(value)) {
+      if (Object.keys(value).length === 0) issue(path, 'is an empty object');
+      Object.entries(value).forEach(([key, item]) => {
+        if (item === undefined) issue(`${path}.${key}`, 'is undefined');
+        else noEmpty(item, `${path}.${key}`);
+      });
+    }
+  };
+
+  const validators: Record<string, (resource: Json, path: string) => void> = {
+    Patient: (resource, path) => {
+      list(`${path}.telecom`, resource.telecom, (item, itemPath) => {
+        if (isObject(item)) code(`${itemPath}.system`, item.system, R4_VALUE_SETS.contactPointSystem);
+      });
+    },
+    Observation: (resource, path) => {
+      code(`${path}.status`, required(resource, path, 'status'), R4_VALUE_SETS.observationStatus);
+      concept(required(resource, path, 'code'), `${path}.code`);
+      list(`${path}.category`, resource.category, concept);
+      reference(resource.subject, `${path}.subject`, REFERENCE_TARGETS.Observation.subject);
+      if (resource.effectiveDateTime !== undefined) primitive(`${path}.effectiveDateTime`, resource.effectiveDateTime, DATE_TIME, 'dateTime');
+      if (resource.issued !== undefined) primitive(`${path}.issued`, resource.issued, INSTANT, 'instant');
+      if (resource.valueQuantity !== undefined) {
+        const quantity = resource.valueQuantity as Json;
+        if (typeof quantity.value !== 'number' || !Number.isFinite(quantity.value)) issue(`${path}.valueQuantity.value`, 'must be a number');
+        // A coded unit needs its system
+        if (quantity.code !== undefined && quantity.system === undefined) issue(`${path}.valueQuantity`, 'code without system');
+      }
+      if (resource.bodySite !== undefined) concept(resource.bodySite, `${path}.bodySite`);
+      list(`${path}.note`, resource.note, (note, notePath) => {
+        if (!isObject(note) || typeof note.text !== 'string') issue(`${notePath}.text`, 'is required');
+      });
+    },
+    MedicationStatement: (resource, path) => {
+      code(`${path}.status`, required(resource, path, 'status'), R4_VALUE_SETS.medicationStatementStatus);
+      if (resource.medicationCodeableConcept === undefined && resource.medicationReference === undefined) issue(`${path}.medication[x]`, 'is required');
+      if (resource.medicationCodeableConcept !== undefined) concept(resource.medicationCodeableConcept, `${path}.medicationCodeableConcept`);
+      reference(required(resource, path, 'subject'), `${path}.subject`, REFERENCE_TARGETS.MedicationStatement.subject);
+      if (resource.dateAsserted !== undefined) primitive(`${path}.dateAsserted`, resource.dateAsserted, DATE_TIME, 'dateTime');
+      if (isObject(resource.effectivePeriod)) {
+        const { start, end } = resource.effectivePeriod;
+        if (start !== undefined) primitive(`${path}.effectivePeriod.start`, start, DATE_TIME, 'dateTime');
+        if (end !== undefined) primitive(`${path}.effectivePeriod.end`, end, DATE_TIME, 'dateTime');
+        // per-1: start <= end; both are dates here, which compare as text
+        if (typeof start === 'string' && typeof end === 'string' && DATE.test(start) && DATE.test(end) && start > end) {
+          issue(`${path}.effectivePeriod`, 'start is after end');
+        }
+      }
+      list(`${path}.dosage`, resource.dosage, (dosage, dosagePath) => {
+        if (!isObject(dosage)) return issue(dosagePath, 'must be a Dosage');
+        if (dosage.asNeededBoolean !== undefined && typeof dosage.asNeededBoolean !== 'boolean') issue(`${dosagePath}.asNeededBoolean`, 'must be a boolean');
+        const timing = dosage.timing as Json | undefined;
+        list(`${dosagePath}.timing.repeat.timeOfDay`, (timing?.repeat as Json | undefined)?.timeOfDay, (time, timePath) => {
+          primitive(timePath, time, TIME, 'time');
+        });
+      });
+    },
+    MedicationAdministration: (resource, path) => {
+      code(`${path}.status`, required(resource, path, 'status'), R4_VALUE_SETS.medicationAdministrationStatus);
+      if (resource.medicationCodeableConcept === undefined && resource.medicationReference === undefined) issue(`${path}.medication[x]`, 'is required');
+      if (resource.medicationCodeableConcept !== undefined) concept(resource.medicationCodeableConcept, `${path}.medicationCodeableConcept`);
+      list(`${path}.statusReason`, resource.statusReason, concept);
+      reference(required(resource, path, 'subject'), `${path}.subject`, REFERENCE_TARGETS.MedicationAdministration.subject);
+      if (resource.effectiveDateTime === undefined && resource.effectivePeriod === undefined) issue(`${path}.effective[x]`, 'is required');
+      if (resource.effectiveDateTime !== undefined) primitive(`${path}.effectiveDateTime`, resource.effectiveDateTime, DATE_TIME, 'dateTime');
+      list(`${path}.supportingInformation`, resource.supportingInformation, (item, itemPath) => {
+        reference(item, itemPath, REFERENCE_TARGETS.MedicationAdministration.supportingInformation);
+      });
+    },
+  };
+
+  if (!isObject(bundle) || bundle.resourceType !== 'Bundle') return ['Bundle: resourceType must be "Bundle"'];
+  noEmpty(bundle, 'Bundle');
+  if (bundle.id !== undefined) primitive('Bundle.id', bundle.id, ID, 'id');
+  code('Bundle.type', required(bundle, 'Bundle', 'type'), R4_VALUE_SETS.bundleType);
+  if (bundle.timestamp !== undefined) primitive('Bundle.timestamp', bundle.timestamp, INSTANT, 'instant');
+
+  const resourcesByUrl = new Map<string, Json>();
+  list('Bundle.entry', bundle.entry, (entry, path) => {
+    if (!isObject(entry) || !isObject(entry.resource)) return issue(path, 'has no resource');
+    const { resource } = entry;
+    const resourcePath = `${path}.resource`;
+
+    // bdl-7: fullUrl is unique; a urn:uuid fullUrl names the resource's id
+    if (typeof entry.fullUrl !== 'string') return issue(`${path}.fullUrl`, 'is required in a collection');
+    if (resourcesByUrl.has(entry.fullUrl)) issue(`${path}.fullUrl`, `duplicate ${entry.fullUrl}`);
+    resourcesByUrl.set(entry.fullUrl, resource);
+    if (entry.fullUrl.startsWith('urn:uuid:')) {
+      primitive(`${path}.fullUrl`, entry.fullUrl, URN_UUID, 'urn:uuid');
+      if (entry.fullUrl !== `urn:uuid:${resource.id}`) issue(`${path}.fullUrl`, 'does not match the resource id');
+    }
+
+    primitive(`${resourcePath}.id`, resource.id, ID, 'id');
+    const validate = validators[resource.resourceType as string];
+    if (!validate) return issue(`${resourcePath}.resourceType`, `unexpected ${JSON.stringify(resource.resourceType)}`);
+    validate(resource, `${resourcePath}(${resource.resourceType})`);
+  });
+
+  references.forEach(({ path, reference: value, allowed }) => {
+    if (typeof value !== 'string') return issue(`${path}.reference`, 'is required');
+    if (!value.startsWith('urn:uuid:')) return issue(`${path}.reference`, `${value} is not a urn:uuid, so it cannot resolve offline`);
+    const target = resourcesByUrl.get(value);
+    if (!target) return issue(`${path}.reference`, `${value} does not resolve in the bundle`);
+    if (!allowed.includes(target.resourceType as string)) issue(`${path}.reference`, `points at a ${target.resourceType}`);
+  });
+
+  return issues;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocation } from './bodyLocations';
+import { findTerms, mapLocations, normalizePainLogTerms, normalizeTerms, vocabularyNames, type VocabularyKind } from './vocabulary';
+
+const migrations = import.meta.glob<string>('../../supabase/migrations/*.sql', { query: '?raw', import: 'default', eager: true });
+
+describe('location names', () => {
+  it('keeps a paired region without a side unsided', () => {
+    expect(normalizeTerms('location', ['knee', 'Knees', 'SHOULDERS', 'behind the eyes'])).toEqual(['Knee', 'Shoulder', 'Eye']);
+  });
+
+  it('keeps a limb without a side as the limb', () => {
+    expect(normalizeTerms('location', ['arm', 'Legs'])).toEqual(['Arm', 'Leg']);
+  });
+
+  it('maps names with a side to that side only', () => {
+    expect(normalizeTerms('location', ['left knees', 'Right fingers'])).toEqual(['Left knee', 'Right hand']);
+    expect(normalizeTerms('location', ['right arm'])).toEqual(['Right upper arm', 'Right forearm']);
+  });
+
+  it('keeps unknown names as typed', () => {
+    expect(normalizeTerms('location', ['  lower   back ', 'Left  big toe'])).toEqual(['Lower back', 'Left big toe']);
+  });
+
+  it('moves ratings to the canonical name without adding a side', () => {
+    expect(normalizePainLogTerms({ location_intensities: { knee: 6, 'left leg': 4 } }).location_intensities).toEqual({
+      Knee: 6,
+      'Left thigh': 4,
+      'Left shin': 4,
+    });
+  });
+
+  it('finds sided and unsided names in text', () => {
+    expect(findTerms('location', 'my left shoulder and my knee')).toEqual(['Left shoulder', 'Knee']);
+  });
+
+  it('reads an unsided paired region as the region', () => {
+    expect(parseLocation('Knee')).toMatchObject({ region: { id: 'knee' }, side: null });
+    expect(parseLocation('Left knee')).toMatchObject({ region: { id: 'knee' }, side: 'left' });
+  });
+});
+
+describe('mapLocations', () => {
+  it('covers both sides of unsided names, for highlighting only', () => {
+    expect(mapLocations(['Knees', 'Lower back', 'left knee'])).toEqual(['Left knee', 'Right knee', 'Lower back']);
+    expect(mapLocations(['arms'])).toEqual(['Left upper arm', 'Left forearm', 'Right upper arm', 'Right forearm']);
+  });
+});
+
+describe('public.canonical_terms', () => {
+  // The latest definition, since later migrations replace earlier ones
+  const definition = Object.keys(migrations)
+    .sort()
+    .map(path => migrations[path].match(/FUNCTION public\.canonical_terms\([\s\S]*?VALUES\n([\s\S]*?)\n {2}\),\n {2}inputs AS/))
+    .filter(Boolean)
+    .pop();
+  const rows = [...(definition?.[1] ?? '').matchAll(/\('(\w+)', '((?:[^']|'')*)', ARRAY\[(.*?)\]\)/g)]
+    .map(([, kind, name, labels]) => [kind, name.replace(/''/g, "'"), [...labels.matchAll(/'((?:[^']|'')*)'/g)].map(([, label]) => label.replace(/''/g, "'"))]);
+
+  it.each(['location', 'trigger', 'activity', 'impact_tag'] as VocabularyKind[])('lists the same %s names as vocabulary.ts', kind => {
+    expect(rows.filter(([rowKind]) => rowKind === kind).map(([, name, labels]) => [name, labels]))
+      .toEqual(vocabularyNames(kind));
+  });
+});
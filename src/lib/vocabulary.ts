@@ -0,0 +1,298 @@
+import { BODY_REGIONS, locationName, type BodySide } from '@/lib/bodyLocations';
+
+/**
+ * Canonical names for the free-text lists on a pain entry: locations, triggers,
+ * activities and impact tags. Each term has a stable id, the label that is stored and
+ * shown, and synonyms that are rewritten to the label on write. Values that match no
+ * term are kept as typed.
+ *
+ * public.canonical_terms applies the same names in the database (on write and in the
+ * backfill); regenerate its list in a new migration when terms or synonyms change here.
+ * vocabulary.test.ts fails until the two match.
+ */
+
+export type VocabularyKind = 'location' | 'trigger' | 'activity' | 'impact_tag';
+
+export interface VocabularyTerm {
+  id: string;
+  label: string;
+  synonyms: string[];
+}
+
+// Other names for a body region. For paired regions these name the region without a
+// side, and each also gets sided forms ("left fingers").
+const REGION_SYNONYMS: Record<string, string[]> = {
+  head: ['whole head', 'scalp', 'headache'],
+  temple: ['temples'],
+  eye: ['eyes', 'behind eye', 'behind eyes', 'behind the eyes', 'eye pain'],
+  face: ['cheek', 'cheeks'],
+  jaw: ['jaws', 'tmj'],
+  back_of_head: ['back of the head', 'back of my head', 'base of skull', 'base of the skull', 'occipital'],
+  neck: ['cervical spine'],
+  shoulder: ['shoulders'],
+  chest: ['ribs'],
+  abdomen: ['stomach', 'belly', 'tummy'],
+  pelvis: ['groin'],
+  upper_back: ['mid back', 'middle back', 'thoracic spine'],
+  lower_back: ['back', 'low back', 'lumbar', 'lumbar spine'],
+  upper_arm: ['upper arms'],
+  elbow: ['elbows'],
+  forearm: ['forearms'],
+  wrist: ['wrists'],
+  hand: ['hands', 'finger', 'fingers'],
+  hip: ['hips'],
+  buttock: ['buttocks', 'glute', 'glutes'],
+  thigh: ['thighs'],
+  knee: ['knees'],
+  shin: ['shins'],
+  calf: ['calves'],
+  ankle: ['ankles'],
+  foot: ['feet', 'toe', 'toes'],
+};
+
+// Limbs drawn as several regions
+const COMPOSITE_REGIONS: Record<string, { label: string; names: string[]; regions: string[] }> = {
+  arm: { label: 'Arm', names: ['arm', 'arms'], regions: ['upper_arm', 'forearm'] },
+  leg: { label: 'Leg', names: ['leg', 'legs'], regions: ['thigh', 'shin'] },
+};
+
+const SIDES: BodySide[] = ['left', 'right'];
+
+// A paired region or limb named without a side is stored as named ("Knee", "Arm"):
+// which side hurts is something only the person can say, so it is never filled in
+export const LOCATION_TERMS: VocabularyTerm[] = [
+  ...BODY_REGIONS.flatMap(region => {
+    const synonyms = REGION_SYNONYMS[region.id] ?? [];
+    if (!region.lateral) {
+      return [{ id: region.id, label: region.label, synonyms }];
+    }
+    return [
+      { id: region.id, label: region.label, synonyms },
+      ...SIDES.map(side => ({
+        id: `${side}_${region.id}`,
+        label: locationName(region.id, side),
+        synonyms: synonyms.map(synonym => `${side} ${synonym}`),
+      })),
+    ];
+  }),
+  ...Object.entries(COMPOSITE_REGIONS).map(([id, { label, names }]) => ({
+    id,
+    label,
+    synonyms: names.filter(name => name !== label.toLowerCase()),
+  })),
+];
+
+export const TRIGGER_TERMS: VocabularyTerm[] = [
+  { id: 'stress', label: 'Stress', synonyms: ['stressed', 'emotional stress', 'work stress', 'anxiety'] },
+  { id: 'poor_sleep', label: 'Poor sleep', synonyms: ['sleep', 'bad sleep', 'lack of sleep', 'not enough sleep', 'sleep disruption', 'insomnia', 'tired', 'tiredness'] },
+  { id: 'dehydration', label: 'Dehydration', synonyms: ['dehydrated', 'not enough water'] },
+  { id: 'bright_lights', label: 'Bright lights', synonyms: ['bright light', 'lights', 'glare'] },
+  { id: 'loud_noises', label: 'Loud noises', synonyms: ['loud noise', 'noise'] },
+  { id: 'screen_time', label: 'Screen time', synonyms: ['screen', 'screens', 'computer'] },
+  { id: 'eye_strain', label: 'Eye strain', synonyms: ['eyestrain'] },
+  { id: 'weather', label: 'Weather changes', synonyms: ['weather', 'weather change', 'storm'] },
+  { id: 'barometric_pressure', label: 'Barometric pressure', synonyms: ['pressure change', 'air pressure'] },
+  { id: 'cold', label: 'Cold temperatures', synonyms: ['cold', 'cold weather'] },
+  { id: 'certain_foods', label: 'Certain foods', synonyms: ['diet', 'food', 'foods'] },
+  { id: 'skipped_meals', label: 'Skipped meals', synonyms: ['skipped meal', 'missed meal', 'hunger'] },
+  { id: 'alcohol', label: 'Alcohol', synonyms: ['wine', 'beer'] },
+  { id: 'caffeine', label: 'Caffeine', synonyms: ['coffee', 'caffeine withdrawal'] },
+  { id: 'hormones', label: 'Hormones', synonyms: ['hormonal', 'period', 'menstruation'] },
+  { id: 'physical_activity', label: 'Physical activity', synonyms: ['exercise', 'physical exertion', 'exertion'] },
+  { id: 'overuse', label: 'Overuse', synonyms: ['repetitive strain'] },
+  { id: 'poor_posture', label: 'Poor posture', synonyms: ['posture', 'bad posture'] },
+  { id: 'sitting', label: 'Sitting too long', synonyms: ['sitting', 'prolonged sitting'] },
+  { id: 'lifting', label: 'Lifting', synonyms: ['heavy lifting'] },
+  { id: 'bending', label: 'Bending', synonyms: [] },
+  { id: 'coughing', label: 'Coughing', synonyms: ['cough'] },
+  { id: 'sneezing', label: 'Sneezing', synonyms: ['sneeze'] },
+];
+
+export const ACTIVITY_TERMS: VocabularyTerm[] = [
+  { id: 'working', label: 'Working', synonyms: ['work', 'at work', 'office', 'desk work', 'computer work'] },
+  { id: 'driving', label: 'Driving', synonyms: ['drive', 'commute', 'commuting'] },
+  { id: 'exercise', label: 'Exercise', synonyms: ['exercising', 'workout', 'gym', 'running', 'sports'] },
+  { id: 'walking', label: 'Walking', synonyms: ['walk', 'hiking'] },
+  { id: 'sitting', label: 'Sitting', synonyms: ['sat'] },
+  { id: 'standing', label: 'Standing', synonyms: ['stood'] },
+  { id: 'resting', label: 'Resting', synonyms: ['rest', 'relaxing', 'lying down', 'in bed'] },
+  { id: 'sleeping', label: 'Sleeping', synonyms: ['sleep', 'asleep', 'napping', 'nap'] },
+  { id: 'housework', label: 'Housework', synonyms: ['household', 'chores', 'cleaning', 'cooking'] },
+  { id: 'gardening', label: 'Gardening', synonyms: ['garden', 'yard work'] },
+  { id: 'lifting', label: 'Lifting', synonyms: ['carrying'] },
+];
+
+export const IMPACT_TAG_TERMS: VocabularyTerm[] = [
+  { id: 'work', label: 'Work', synonyms: ['job', 'working', 'school'] },
+  { id: 'driving', label: 'Driving', synonyms: ['drive'] },
+  { id: 'sleep', label: 'Sleep', synonyms: ['sleeping'] },
+  { id: 'exercise', label: 'Exercise', synonyms: ['exercising', 'sports'] },
+  { id: 'household', label: 'Household', synonyms: ['housework', 'chores'] },
+  { id: 'mood', label: 'Mood', synonyms: ['emotional'] },
+  { id: 'other', label: 'Other', synonyms: [] },
+];
+
+export const VOCABULARY: Record<VocabularyKind, VocabularyTerm[]> = {
+  location: LOCATION_TERMS,
+  trigger: TRIGGER_TERMS,
+  activity: ACTIVITY_TERMS,
+  impact_tag: IMPACT_TAG_TERMS,
+};
+
+/**
+ * Lookup form of a name: lower case, with runs of spaces, hyphens and underscores
+ * collapsed to one space. Mirrored in public.canonical_terms.
+ */
+export function termKey(value: string) {
+  return value.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+}
+
+// Names that cover several locations: a limb with its side ("left arm")
+function locationGroups(): Array<[string, string[]]> {
+  return Object.values(COMPOSITE_REGIONS).flatMap(({ names, regions }) =>
+    names.flatMap(name => SIDES.map(side => [`${side} ${name}`, regions.map(id => locationName(id, side))] as [string, string[]]))
+  );
+}
+
+// Body map locations of each location stored without a side
+const UNSIDED_LOCATIONS = new Map<string, string[]>([
+  ...BODY_REGIONS.filter(region => region.lateral)
+    .map(region => [region.label, SIDES.map(side => locationName(region.id, side))] as [string, string[]]),
+  ...Object.values(COMPOSITE_REGIONS)
+    .map(({ label, regions }) => [label, SIDES.flatMap(side => regions.map(id => locationName(id, side)))] as [string, string[]]),
+]);
+
+// Every known name by kind, each with the labels it stands for
+const NAMES = Object.fromEntries(
+  (Object.keys(VOCABULARY) as VocabularyKind[]).map(kind => {
+    const names = new Map<string, string[]>();
+    const add = (name: string, labels: string[]) => {
+      const key = termKey(name);
+      if (!names.has(key)) names.set(key, labels);
+    };
+    // Labels first, so a label never loses to another term's synonym
+    VOCABULARY[kind].forEach(term => add(term.label, [term.label]));
+    VOCABULARY[kind].forEach(term => term.synonyms.forEach(synonym => add(synonym, [term.label])));
+    if (kind === 'location') locationGroups().forEach(([name, labels]) => add(name, labels));
+    return [kind, names];
+  })
+) as Record<VocabularyKind, Map<string, string[]>>;
+
+const TERMS_BY_LABEL = Object.fromEntries(
+  (Object.keys(VOCABULARY) as VocabularyKind[]).map(kind =>
+    [kind, new Map(VOCABULARY[kind].map(term => [term.label, term]))]
+  )
+) as Record<VocabularyKind, Map<string, VocabularyTerm>>;
+
+/**
+ * Every name the vocabulary knows for a kind and the labels it stands for, for the
+ * database mirror.
+ */
+export function vocabularyNames(kind: VocabularyKind): Array<[string, string[]]> {
+  return [...NAMES[kind].entries()];
+}
+
+/**
+ * Canonical labels for a list of values, in order and without duplicates. Synonyms
+ * become their label, names covering several locations expand to each of them, and
+ * anything unknown is kept with its spacing tidied.
+ */
+export function normalizeTerms(kind: VocabularyKind, values: string[]): string[] {
+  const result = values.flatMap(value => {
+    const key = termKey(value);
+    if (!key) return [];
+    return NAMES[kind].get(key) ?? [value.replace(/\s+/g, ' ').trim()];
+  });
+  return [...new Set(result)];
+}
+
+// Canonical label of a single value, or null when it is blank
+export function normalizeTerm(kind: VocabularyKind, value: string) {
+  return normalizeTerms(kind, [value])[0] ?? null;
+}
+
+export const canonicalLocations = (locations: string[]) => normalizeTerms('location', locations);
+
+/**
+ * The body map areas a list of locations covers, for highlighting and suggesting areas.
+ * Unlike canonicalLocations, "Knee" or "Arm" covers both sides, so use it only for what
+ * is shown, never for what is stored.
+ */
+export function mapLocations(locations: string[]) {
+  return [...new Set(canonicalLocations(locations).flatMap(location => UNSIDED_LOCATIONS.get(location) ?? [location]))];
+}
+
+/**
+ * The term a stored label belongs to, or undefined for free text.
+ */
+export function vocabularyTerm(kind: VocabularyKind, label: string) {
+  return TERMS_BY_LABEL[kind].get(label);
+}
+
+/**
+ * Grouping key for a value: its term's id, or the lookup form of free text, so
+ * "Lower back", "lower back" and "lumbar" all count as one.
+ */
+export function termId(kind: VocabularyKind, value: string) {
+  const label = normalizeTerm(kind, value);
+  if (!label) return '';
+  return vocabularyTerm(kind, label)?.id ?? termKey(label);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest names first, so "back of head" is found before "back"
+const NAMES_BY_LENGTH = Object.fromEntries(
+  (Object.keys(VOCABULARY) as VocabularyKind[]).map(kind => [
+    kind,
+    [...NAMES[kind].entries()]
+      .sort(([a], [b]) => b.length - a.length)
+      .map(([name, labels]) => ({ pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g'), labels })),
+  ])
+) as Record<VocabularyKind, Array<{ pattern: RegExp; labels: string[] }>>;
+
+/**
+ * Terms mentioned in a message, e.g. "my left knee and lower back" gives
+ * ["Left knee", "Lower back"]. Each part of the text counts once.
+ */
+export function findTerms(kind: VocabularyKind, text: string): string[] {
+  let remaining = text.toLowerCase().replace(/[\s_-]+/g, ' ');
+  const found: string[] = [];
+  NAMES_BY_LENGTH[kind].forEach(({ pattern, labels }) => {
+    if (pattern.test(remaining)) {
+      found.push(...labels);
+      remaining = remaining.replace(pattern, ' | ');
+    }
+    pattern.lastIndex = 0;
+  });
+  return [...new Set(found)];
+}
+
+export interface PainLogTerms {
+  pain_locations?: string[] | null;
+  location_intensities?: Record<string, number> | null;
+  triggers?: string[] | null;
+  activity?: string | null;
+  impact_tags?: string[] | null;
+}
+
+/**
+ * A pain log write with its terms in canonical form. Only fields present are touched,
+ * so partial updates stay partial. Ratings follow their location's new name.
+ */
+export function normalizePainLogTerms<T extends PainLogTerms>(log: T): T {
+  return {
+    ...log,
+    ...(log.pain_locations && { pain_locations: normalizeTerms('location', log.pain_locations) }),
+    ...(log.location_intensities && {
+      location_intensities: Object.fromEntries(
+        Object.entries(log.location_intensities).flatMap(([location, level]) =>
+          normalizeTerms('location', [location]).map(label => [label, level])
+        )
+      ),
+    }),
+    ...(log.triggers && { triggers: normalizeTerms('trigger', log.triggers) }),
+    ...(typeof log.activity === 'string' && { activity: normalizeTerm('activity', log.activity) }),
+    ...(log.impact_tags && { impact_tags: normalizeTerms('impact_tag', log.impact_tags) }),
+  };
+}
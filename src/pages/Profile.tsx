@@ -4,19 +4,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { User, Settings, Pill, MapPin, Edit } from "lucide-react";
-
-interface Medication {
-  name: string;
-  dosage: string;
-  frequency: string;
-}
+import { BodyMapSelector } from "@/components/BodyMapSelector";
+import { MemoryCard } from "@/components/MemoryCard";
+import { MedicationListCard } from "@/components/MedicationListCard";
+import { ShareLinksCard } from "@/components/ShareLinksCard";
+import { YourDataCard } from "@/components/YourDataCard";
+import { User, Settings, MapPin, Edit } from "lucide-react";
 
 interface Profile {
   display_name: string;
@@ -24,15 +21,8 @@ interface Profile {
   diagnosis: string;
   default_pain_locations: string[];
   pain_is_consistent: boolean;
-  current_medications: Medication[];
 }
 
-const BODY_AREAS = [
-  "Head", "Neck", "Shoulders", "Upper back", "Lower back", 
-  "Chest", "Arms", "Elbows", "Wrists", "Hands", 
-  "Hips", "Thighs", "Knees", "Calves", "Ankles", "Feet"
-];
-
 const Profile = () => {
   const { user, loading: authLoading } = useAuth();
   const { toast } = useToast();
@@ -43,16 +33,8 @@ const Profile = () => {
     email: "",
     diagnosis: "",
     default_pain_locations: [],
-    pain_is_consistent: false,
-    current_medications: []
+    pain_is_consistent: false
   });
-  const [newMed, setNewMed] = useState<Medication>({ name: "", dosage: "", frequency: "" });
-
-  const frequencies = [
-    "As needed", "Once daily", "Twice daily", "Three times daily",
-    "Four times daily", "Every 4 hours", "Every 6 hours", "Every 8 hours",
-    "Every 12 hours", "Weekly", "Other"
-  ];
 
   useEffect(() => {
     if (user) {
@@ -75,8 +57,7 @@ const Profile = () => {
         email: data.email || "",
         diagnosis: data.diagnosis || "",
         default_pain_locations: data.default_pain_locations || [],
-        pain_is_consistent: data.pain_is_consistent || false,
-        current_medications: (data.current_medications as unknown as Medication[]) || []
+        pain_is_consistent: data.pain_is_consistent || false
       });
     } catch (error) {
       console.error('Error fetching profile:', error);
@@ -99,8 +80,7 @@ const Profile = () => {
           display_name: profile.display_name,
           diagnosis: profile.diagnosis,
           default_pain_locations: profile.default_pain_locations,
-          pain_is_consistent: profile.pain_is_consistent,
-          current_medications: profile.current_medications as any
+          pain_is_consistent: profile.pain_is_consistent
         })
         .eq('id', user?.id);
 
@@ -122,32 +102,6 @@ const Profile = () => {
     }
   };
 
-  const togglePainLocation = (location: string) => {
-    setProfile(prev => ({
-      ...prev,
-      default_pain_locations: prev.default_pain_locations.includes(location)
-        ? prev.default_pain_locations.filter(l => l !== location)
-        : [...prev.default_pain_locations, location]
-    }));
-  };
-
-  const addMedication = () => {
-    if (newMed.name.trim()) {
-      setProfile(prev => ({
-        ...prev,
-        current_medications: [...prev.current_medications, { ...newMed }]
-      }));
-      setNewMed({ name: "", dosage: "", frequency: "" });
-    }
-  };
-
-  const removeMedication = (index: number) => {
-    setProfile(prev => ({
-      ...prev,
-      current_medications: prev.current_medications.filter((_, i) => i !== index)
-    }));
-  };
-
   if (authLoading || loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -234,18 +188,10 @@ const Profile = () => {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                {BODY_AREAS.map((area) => (
-                  <Badge
-                    key={area}
-                    variant={profile.default_pain_locations.includes(area) ? "default" : "outline"}
-                    className="cursor-pointer p-3 text-center justify-center hover:bg-primary/80"
-                    onClick={() => togglePainLocation(area)}
-                  >
-                    {area}
-                  </Badge>
-                ))}
-              </div>
+              <BodyMapSelector
+                selected={profile.default_pain_locations}
+                onChange={(locations) => setProfile(prev => ({ ...prev, default_pain_locations: locations }))}
+              />
               <div className="flex items-center space-x-2">
                 <Switch
                   id="consistent-pain"
@@ -259,93 +205,23 @@ const Profile = () => {
             </CardContent>
           </Card>
 
-          {/* Medications */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Pill className="h-5 w-5 icon-default" />
-                Current Medications
-              </CardTitle>
-              <CardDescription>
-                Keep track of your pain management medications
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="med-name">Medication Name</Label>
-                  <Input
-                    id="med-name"
-                    placeholder="e.g., Ibuprofen"
-                    value={newMed.name}
-                    onChange={(e) => setNewMed(prev => ({ ...prev, name: e.target.value }))}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="med-dosage">Dosage</Label>
-                  <Input
-                    id="med-dosage"
-                    placeholder="e.g., 200mg"
-                    value={newMed.dosage}
-                    onChange={(e) => setNewMed(prev => ({ ...prev, dosage: e.target.value }))}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="med-frequency">Frequency</Label>
-                  <Select
-                    value={newMed.frequency}
-                    onValueChange={(value) => setNewMed(prev => ({ ...prev, frequency: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="How often?" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {frequencies.map((freq) => (
-                        <SelectItem key={freq} value={freq}>
-                          {freq}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              <Button 
-                onClick={addMedication} 
-                disabled={!newMed.name.trim()}
-                className="w-full"
-              >
-                Add Medication
-              </Button>
-
-              {profile.current_medications.length > 0 && (
-                <div className="space-y-2">
-                  <h4 className="font-medium">Your Medications</h4>
-                  {profile.current_medications.map((med, index) => (
-                    <div key={index} className="flex items-center justify-between p-3 bg-muted rounded-lg">
-                      <div>
-                        <span className="font-medium">{med.name}</span>
-                        {med.dosage && <span className="text-muted-foreground ml-2">{med.dosage}</span>}
-                        {med.frequency && <span className="text-muted-foreground ml-2">• {med.frequency}</span>}
-                      </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeMedication(index)}
-                      >
-                        Remove
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
+          {/* Medications, saved as soon as they change */}
+          <MedicationListCard />
 
           <div className="flex justify-center">
             <Button onClick={saveProfile} disabled={saving} size="lg">
               {saving ? "Saving..." : "Save Changes"}
             </Button>
           </div>
+
+          {/* Companion memory, saved as soon as it changes */}
+          <MemoryCard />
+
+          {/* Read-only links created from the doctor summary */}
+          <ShareLinksCard />
+
+          {/* Export everything, or delete the account */}
+          <YourDataCard />
         </div>
       </div>
     </div>
@@ -0,0 +1,334 @@
+import { useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { eachDayOfInterval, format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { PainChart } from "@/components/PainChart";
+import { FileDown } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  applyMedicationDoses,
+  dailyAggregates,
+  formatSignedDelta,
+  formatWindow,
+  functionalImpactRollup,
+  medicationAdherence,
+  medicationEffects,
+  summarizePain,
+  toPainEntry,
+  triggerCorrelations,
+  TRIGGER_CAUTION_LABELS
+} from "@/lib/analytics";
+import { buildClinicianReport, clinicianReportFilename, painColor } from "@/lib/clinicianReport";
+import { toScheduledMedication } from "@/lib/medications";
+import { fetchSharedSummary, type SharedSummary as SharedSummaryData } from "@/lib/shareLinks";
+
+const REFUSED_MESSAGES: Record<Exclude<SharedSummaryData['status'], 'granted'>, string> = {
+  not_found: "This link isn't valid. Check that it was copied in full.",
+  expired: "This link has expired. Ask the patient for a new one.",
+  revoked: "The patient has revoked this link.",
+  view_limit: "This link has been opened the maximum number of times. Ask the patient for a new one.",
+};
+
+type GrantedSummary = Extract<SharedSummaryData, { status: 'granted' }>;
+
+// Public, read-only view of a share link. Works signed out; nothing here writes.
+const SharedSummary = () => {
+  const { token } = useParams<{ token: string }>();
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["shared-summary", token],
+    queryFn: () => fetchSharedSummary(token!),
+    enabled: !!token,
+    // Every fetch counts as a view, so never refetch on focus or retry silently
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto p-4 space-y-4">
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading summary...</p>
+        ) : isError || !data ? (
+          <RefusedCard message="Something went wrong opening this link. Please try again." />
+        ) : data.status !== 'granted' ? (
+          <RefusedCard message={REFUSED_MESSAGES[data.status]} />
+        ) : (
+          <GrantedView summary={data} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const RefusedCard = ({ message }: { message: string }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Shared summary unavailable</CardTitle>
+      <CardDescription>{message}</CardDescription>
+    </CardHeader>
+  </Card>
+);
+
+const GrantedView = ({ summary }: { summary: GrantedSummary }) => {
+  const { toast } = useToast();
+  const { link, patient } = summary;
+  const sections = link.sections;
+
+  const report = useMemo(() => {
+    const startDate = parseISO(link.range_start);
+    const endDate = parseISO(link.range_end);
+    const taken = summary.doses.filter(dose => dose.status === 'taken');
+    const entries = applyMedicationDoses(summary.pain_logs.map(toPainEntry), taken);
+    const scheduled = summary.medications.map(toScheduledMedication);
+    return {
+      entries,
+      stats: summarizePain(entries),
+      daily: dailyAggregates(entries),
+      effects: medicationEffects(entries),
+      adherence: scheduled.some(med => med.times.length > 0)
+        ? medicationAdherence(scheduled, summary.doses, startDate, endDate)
+        : null,
+      impact: functionalImpactRollup(entries, 3),
+      triggers: triggerCorrelations(entries).slice(0, 5),
+      excerpts: entries.filter(entry => entry.notes.trim()),
+      startDate,
+      endDate,
+    };
+  }, [summary, link.range_start, link.range_end]);
+
+  const { startDate, endDate } = report;
+
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleDownloadPdf = () => {
+    setIsExporting(true);
+    try {
+      const doc = buildClinicianReport(
+        {
+          patient: { name: patient?.display_name ?? null, email: null, diagnosis: patient?.diagnosis ?? null },
+          startDate,
+          endDate,
+          entries: report.entries,
+          medicationEffects: report.effects,
+          adherence: report.adherence,
+          overuse: null,
+          impact: report.impact,
+          triggers: report.triggers,
+          excerpts: report.excerpts,
+        },
+        sections
+      );
+      doc.save(clinicianReportFilename(startDate, endDate));
+    } catch (error) {
+      console.error('Error generating PDF report:', error);
+      toast({
+        title: "Failed to create PDF",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const dailyByDate = new Map(report.daily.map(day => [day.date, day]));
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>{patient?.display_name || "Patient"}: pain summary</CardTitle>
+          <CardDescription>
+            {format(startDate, 'MMM d, yyyy')} to {format(endDate, 'MMM d, yyyy')}
+            {patient?.diagnosis && ` · ${patient.diagnosis}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <div className="grid grid-cols-3 gap-2">
+            <Stat label="Avg daily pain" value={`${report.stats.averagePain.toFixed(1)}/10`} />
+            <Stat label="Severe days (≥7)" value={`${report.stats.severeDays} of ${report.stats.totalDays}`} />
+            <Stat label="Entries" value={String(report.entries.length)} />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Read-only, shared by the patient. Link expires {format(parseISO(link.expires_at), 'MMM d, yyyy HH:mm')}.
+            </p>
+            <Button variant="outline" size="sm" onClick={handleDownloadPdf} disabled={isExporting}>
+              <FileDown className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {sections.includes('dailyChart') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Daily pain</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PainChart
+              painData={summary.pain_logs.map(log => ({ id: log.id, logged_at: log.logged_at, pain_level: log.pain_level }))}
+              startDate={startDate}
+              endDate={endDate}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {sections.includes('heatmap') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Calendar heatmap</CardTitle>
+            <CardDescription>Average pain per day; grey days have no entries</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-1">
+              {eachDayOfInterval({ start: startDate, end: endDate }).map(day => {
+                const aggregate = dailyByDate.get(format(day, 'yyyy-MM-dd'));
+                return (
+                  <div
+                    key={day.toISOString()}
+                    title={`${format(day, 'EEE MMM d')}: ${aggregate ? `${aggregate.average.toFixed(1)}/10` : 'no entries'}`}
+                    className={`h-5 w-5 rounded-sm ${aggregate ? '' : 'bg-muted'}`}
+                    style={aggregate ? { backgroundColor: `rgb(${painColor(aggregate.average).join(', ')})` } : undefined}
+                  />
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {sections.includes('medications') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Medication response</CardTitle>
+            <CardDescription>Change in pain after a dose vs. untreated intervals at similar pain</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {report.effects.length === 0 ? (
+              <p className="text-muted-foreground">No medications recorded in this period.</p>
+            ) : report.effects.map(med => (
+              <p key={med.name}>
+                <span className="font-medium">{med.name}:</span>{' '}
+                {med.effect === null || !med.ci
+                  ? `insufficient data (n=${med.matchedPairs} comparable doses)`
+                  : `${formatSignedDelta(med.effect)}, ${formatWindow(med.window)} (95% CI ${formatSignedDelta(med.ci[0])} to ${formatSignedDelta(med.ci[1])}, n=${med.matchedPairs}); side effects ${med.sideEffectsRate.toFixed(0)}%`}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {sections.includes('adherence') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Medication adherence</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {!report.adherence || report.adherence.percentage === null ? (
+              <p className="text-muted-foreground">No scheduled doses in this period.</p>
+            ) : (
+              <>
+                <p>
+                  <span className="font-medium">{report.adherence.percentage.toFixed(0)}%</span> of {report.adherence.scheduled} scheduled doses taken
+                  ({report.adherence.skipped} skipped, {report.adherence.missed} missed)
+                </p>
+                {report.adherence.medications.map(med => (
+                  <p key={med.medicationId} className="text-muted-foreground">
+                    {med.name}: {med.percentage?.toFixed(0)}% ({med.taken}/{med.scheduled})
+                  </p>
+                ))}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {sections.includes('impact') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Functional impact</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {report.impact.totalDays === 0 ? (
+              <p className="text-muted-foreground">No functional impact recorded in this period.</p>
+            ) : (
+              <>
+                <p>
+                  Of {report.impact.totalDays} days: limited {report.impact.percentages.limited.toFixed(0)}%,
+                  stopped activities {report.impact.percentages.stopped.toFixed(0)}%,
+                  in bed {report.impact.percentages.bed.toFixed(0)}%
+                </p>
+                {report.impact.topTags.length > 0 && (
+                  <p className="text-muted-foreground">
+                    Top factors: {report.impact.topTags.map(({ tag }) => tag).join(', ')}
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {sections.includes('triggers') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Top triggers</CardTitle>
+            <CardDescription>Mean pain over the following 24–48h, with vs. without the factor</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {report.triggers.length === 0 ? (
+              <p className="text-muted-foreground">Not enough data to compare triggers.</p>
+            ) : report.triggers.map(trigger => (
+              <p key={trigger.key}>
+                <span className="font-medium">{trigger.label}:</span>{' '}
+                {formatSignedDelta(trigger.effect)} ({trigger.exposedDays} days){' '}
+                <span className="text-muted-foreground">· {TRIGGER_CAUTION_LABELS[trigger.caution]}</span>
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {sections.includes('journal') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Journal</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {report.excerpts.length === 0 ? (
+              <p className="text-muted-foreground">No notes in this period.</p>
+            ) : report.excerpts.map(entry => (
+              <div key={entry.id}>
+                <p className="text-xs text-muted-foreground">
+                  {format(parseISO(entry.timestamp), 'MMM d, HH:mm')}
+                  {entry.painLevel !== null && ` · pain ${entry.painLevel}/10`}
+                </p>
+                <p className="whitespace-pre-wrap">{entry.notes}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <p className="text-xs text-muted-foreground text-center">
+        Generated by PainPal from the patient's own tracking. Not a diagnosis.
+      </p>
+    </>
+  );
+};
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-3 bg-muted rounded-lg">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="font-medium">{value}</p>
+  </div>
+);
+
+export default SharedSummary;
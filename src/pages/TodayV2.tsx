@@ -3,6 +3,9 @@ import { useAuth } from "@/hooks/useAuth";
 import { useTodayQueries } from "@/hooks/useTodayQueries";
 import { usePainLogs } from "@/hooks/usePainLogs";
 import { useToast } from "@/hooks/use-toast";
+import { useMedications } from "@/hooks/useMedications";
+import { medicationPickerOptions } from "@/lib/medications";
+import { isHeadacheCondition } from "@/lib/conditionDetection";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { Label } from "@/components/ui/label";
@@ -12,13 +15,17 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { TodayV2Sparkline } from "@/components/TodayV2Sparkline";
+import { MedicationOveruseCard } from "@/components/MedicationOveruseCard";
+import { PainQualityPicker } from "@/components/PainQualityPicker";
+import { QuestionnaireDueCard } from "@/components/QuestionnaireDueCard";
 import { Edit3, Trash2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 
 const TodayV2 = () => {
   const { user } = useAuth();
-  const { todayLogs, last3Logs, activeSession, lastLog, profile, refetchAll } = useTodayQueries();
-  const { updatePainLog, deletePainLog } = usePainLogs();
+  const { todayLogs, last3Logs, activeSession, lastLog, profile, medicationOveruse, refetchAll } = useTodayQueries();
+  const { savePainLog, updatePainLog, deletePainLog } = usePainLogs();
+  const { medications } = useMedications();
   const { toast } = useToast();
 
   // State
@@ -36,6 +43,7 @@ const TodayV2 = () => {
   // New functional impact state
   const [functionalImpact, setFunctionalImpact] = useState<string>("none");
   const [impactTags, setImpactTags] = useState<string[]>([]);
+  const [painQualities, setPainQualities] = useState<string[]>([]);
   const [rxTaken, setRxTaken] = useState<boolean>(false);
   const [sideEffects, setSideEffects] = useState<string>("");
   
@@ -49,6 +57,7 @@ const TodayV2 = () => {
   const [editTime, setEditTime] = useState<string>("");
   const [editFunctionalImpact, setEditFunctionalImpact] = useState<string>("none");
   const [editImpactTags, setEditImpactTags] = useState<string[]>([]);
+  const [editPainQualities, setEditPainQualities] = useState<string[]>([]);
   const [editRxTaken, setEditRxTaken] = useState<boolean>(false);
   const [editSideEffects, setEditSideEffects] = useState<string>("");
 
@@ -62,22 +71,9 @@ const TodayV2 = () => {
 
   const painEmojis = ['😊', '😊', '😐', '😐', '😟', '😟', '😣', '😫', '😰', '😱', '😭'];
   
-  // Combine profile medications with default options
-  const profileMedications = Array.isArray(profile?.current_medications) 
-    ? profile.current_medications.map(med => {
-        if (typeof med === 'string') return med;
-        if (typeof med === 'object' && med !== null && 'name' in med) {
-          return (med as { name: string }).name;
-        }
-        return '';
-      }).filter(Boolean)
-    : [];
-  const defaultMedOptions = ['Ibuprofen', 'Acetaminofen', 'Aspirin', 'Naproxen'];
-  const medOptions = [
-    ...profileMedications.filter((med: string) => !defaultMedOptions.includes(med)),
-    ...defaultMedOptions,
-    'Other'
-  ];
+  // The user's active medications, from the medications table
+  const medOptions = [...medicationPickerOptions(medications, selectedMeds.filter(med => med !== 'Other')), 'Other'];
+  const editMedOptions = medicationPickerOptions(medications, editMeds);
 
   const handlePainLevelSelect = (level: number) => {
     setPainLevel(level);
@@ -121,26 +117,8 @@ const TodayV2 = () => {
       let finalMedications = [...selectedMeds];
       if (otherMedication.trim()) {
         finalMedications = finalMedications.filter(med => med !== 'Other');
+        // Saving the log adds it to the medications table
         finalMedications.push(otherMedication.trim());
-        
-        // Optionally update profile with new medication
-        const currentMeds = Array.isArray(profile?.current_medications) ? profile.current_medications : [];
-        const medicationNames = currentMeds.map(med => {
-          if (typeof med === 'string') return med;
-          if (typeof med === 'object' && med !== null && 'name' in med) {
-            return (med as { name: string }).name;
-          }
-          return '';
-        }).filter(Boolean);
-        
-        if (!medicationNames.includes(otherMedication.trim())) {
-          const newMedication = { name: otherMedication.trim(), dosage: '', frequency: '' };
-          const updatedMeds = [...currentMeds, newMedication];
-          await supabase
-            .from('profiles')
-            .update({ current_medications: updatedMeds })
-            .eq('id', user.id);
-        }
       } else {
         finalMedications = finalMedications.filter(med => med !== 'Other');
       }
@@ -157,10 +135,11 @@ const TodayV2 = () => {
         if (sessionError) console.error('Error creating session:', sessionError);
       }
 
-      // Prepare payload for logging and insertion
-      const painLogPayload = {
-        user_id: user.id,
+      // Saved through the offline outbox so check-ins survive a dropped connection
+      const saved = await savePainLog({
         pain_level: painLevel,
+        pain_locations: [],
+        pain_qualities: painQualities,
         activity: selectedActivity || null,
         medications: finalMedications,
         notes: notes || null,
@@ -168,16 +147,9 @@ const TodayV2 = () => {
         impact_tags: impactTags,
         rx_taken: rxTaken,
         side_effects: sideEffects || null
-      };
-
-      console.log('Saving pain log with payload:', painLogPayload);
-
-      // Insert pain log
-      const { error: logError } = await supabase
-        .from('pain_logs')
-        .insert(painLogPayload);
+      });
 
-      if (logError) throw logError;
+      if (!saved) return;
 
       // Reset state
       setPainLevel(null);
@@ -190,11 +162,11 @@ const TodayV2 = () => {
       setShowOtherMedInput(false);
       setFunctionalImpact("none");
       setImpactTags([]);
+      setPainQualities([]);
       setRxTaken(false);
       setSideEffects("");
 
       refetchAll();
-      toast({ description: "Check-in saved" });
     } catch (error: any) {
       console.error('Error saving check-in:', error);
       toast({ 
@@ -233,6 +205,7 @@ const TodayV2 = () => {
     setEditNotes(log.notes || "");
     setEditFunctionalImpact(log.functional_impact || "none");
     setEditImpactTags(log.impact_tags || []);
+    setEditPainQualities(log.pain_qualities || []);
     setEditRxTaken(log.rx_taken || false);
     setEditSideEffects(log.side_effects || "");
     
@@ -254,6 +227,7 @@ const TodayV2 = () => {
       notes: editNotes,
       functional_impact: editFunctionalImpact,
       impact_tags: editImpactTags,
+      pain_qualities: editPainQualities,
       rx_taken: editRxTaken,
       side_effects: editSideEffects || null,
     });
@@ -344,6 +318,14 @@ const TodayV2 = () => {
           </div>
         )}
 
+        {/* Medication Overuse Warning */}
+        {isHeadacheCondition(profile?.diagnosis) && medicationOveruse && medicationOveruse.level !== 'ok' && (
+          <MedicationOveruseCard overuse={medicationOveruse} />
+        )}
+
+        {/* Scheduled questionnaires */}
+        <QuestionnaireDueCard />
+
         {/* Mini Sparkline Card */}
         <div className="p-4 rounded-lg bg-card border border-border">
           <div className="flex justify-between items-center mb-3">
@@ -434,7 +416,7 @@ const TodayV2 = () => {
                     onClick={() => setMedsSheetOpen(true)}
                     className="text-xs sm:text-sm text-primary"
                   >
-                    + Add meds/notes
+                    + Add details
                   </Button>
                 </div>
               </div>
@@ -452,12 +434,20 @@ const TodayV2 = () => {
         <Sheet open={medsSheetOpen} onOpenChange={setMedsSheetOpen}>
           <SheetContent className="p-6 bg-card border-border" aria-describedby="medsDesc">
             <div id="medsDesc" className="sr-only">
-              Select your medications and optionally add notes.
+              Describe the pain, select your medications and optionally add notes.
             </div>
             <SheetHeader>
-              <SheetTitle className="text-foreground">Medications & Notes</SheetTitle>
+              <SheetTitle className="text-foreground">Details</SheetTitle>
             </SheetHeader>
             <div className="mt-6 space-y-6">
+              {/* What does the pain feel like? */}
+              <div>
+                <Label className="text-sm font-medium mb-3 block text-foreground">
+                  What does it feel like? (optional)
+                </Label>
+                <PainQualityPicker value={painQualities} onChange={setPainQualities} />
+              </div>
+
               {/* How is the pain affecting you? */}
               <div>
                 <Label className="text-sm font-medium mb-3 block text-foreground">
@@ -724,6 +714,14 @@ const TodayV2 = () => {
                 />
               </div>
 
+              {/* Pain quality */}
+              <div>
+                <Label className="text-sm font-medium mb-3 block text-foreground">
+                  What did it feel like?
+                </Label>
+                <PainQualityPicker value={editPainQualities} onChange={setEditPainQualities} />
+              </div>
+
               {/* Activity */}
               <div>
                 <Label htmlFor="editActivity" className="text-sm font-medium mb-3 block" style={{ color: '#E9E7FF' }}>
@@ -769,7 +767,7 @@ const TodayV2 = () => {
                       Which medications?
                     </Label>
                     <div className="flex flex-wrap gap-2">
-                      {medOptions.map((med) => (
+                      {editMedOptions.map((med) => (
                         <Button
                           key={med}
                           variant="outline"
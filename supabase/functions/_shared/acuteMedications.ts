@@ -0,0 +1,62 @@
+// Acute-medication classes and ICHD-3 medication-overuse thresholds. The single definition
+// behind both the chat context (medicationOveruse.ts) and the app's overuse warning
+// (src/lib/analytics/overuse.ts imports it from here), so it must stay plain TypeScript
+// with no URL imports.
+
+export type AcuteMedicationClass = 'triptan' | 'ergot' | 'opioid' | 'combination_analgesic' | 'simple_analgesic';
+
+export interface AcuteMedicationClassInfo {
+  label: string;
+  // Lowercase generic and common brand names; a medication belongs to the class when its name contains one
+  names: string[];
+}
+
+// Checked in order, so combination products match before their simple-analgesic ingredients
+export const ACUTE_MEDICATION_CLASSES: Record<AcuteMedicationClass, AcuteMedicationClassInfo> = {
+  triptan: {
+    label: 'Triptans',
+    names: ['triptan', 'imitrex', 'maxalt', 'zomig', 'relpax', 'amerge', 'frova', 'axert', 'treximet'],
+  },
+  ergot: {
+    label: 'Ergots',
+    names: ['ergotamine', 'dihydroergotamine', 'cafergot', 'migranal', 'trudhesa'],
+  },
+  opioid: {
+    label: 'Opioids',
+    names: ['codeine', 'tramadol', 'oxycodone', 'hydrocodone', 'morphine', 'tapentadol', 'hydromorphone', 'fentanyl', 'percocet', 'vicodin', 'ultram'],
+  },
+  combination_analgesic: {
+    label: 'Combination analgesics',
+    names: ['excedrin', 'fioricet', 'fiorinal', 'butalbital', 'solpadeine', 'syndol'],
+  },
+  simple_analgesic: {
+    label: 'Simple analgesics',
+    names: ['ibuprofen', 'naproxen', 'aspirin', 'acetaminophen', 'paracetamol', 'diclofenac', 'ketoprofen', 'tylenol', 'advil', 'motrin', 'aleve', 'panadol', 'nurofen'],
+  },
+};
+
+/**
+ * Days per window at which each class, or several classes together, count as
+ * overuse. Defaults follow ICHD-3 medication-overuse headache criteria.
+ */
+export interface OveruseThresholds extends Record<AcuteMedicationClass, number> {
+  // Days with any acute medication, when more than one class was used
+  combined: number;
+}
+
+export const DEFAULT_OVERUSE_THRESHOLDS: OveruseThresholds = {
+  triptan: 10,
+  ergot: 10,
+  opioid: 10,
+  combination_analgesic: 10,
+  simple_analgesic: 15,
+  combined: 10,
+};
+
+export function acuteMedicationClass(name: string): AcuteMedicationClass | null {
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) return null;
+  const match = (Object.entries(ACUTE_MEDICATION_CLASSES) as [AcuteMedicationClass, AcuteMedicationClassInfo][])
+    .find(([, info]) => info.names.some((candidate) => normalized.includes(candidate)));
+  return match ? match[0] : null;
+}
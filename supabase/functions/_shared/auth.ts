@@ -0,0 +1,24 @@
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2.50.4';
+
+// Resolve the caller from the bearer token in the Authorization header.
+// Returns null when the header is missing or the token is not a valid user session
+// (the anon key alone is a valid JWT but carries no user).
+export async function getAuthenticatedUser(req: Request, supabase: SupabaseClient): Promise<User | null> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = authHeader.slice('Bearer '.length).trim();
+  if (!token) {
+    return null;
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    console.warn('Rejected request with invalid session:', error?.message);
+    return null;
+  }
+
+  return data.user;
+}
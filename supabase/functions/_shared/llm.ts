@@ -0,0 +1,348 @@
+// Provider-agnostic chat completions for edge functions.
+// The active provider is chosen with the LLM_PROVIDER env var ('openai' | 'anthropic' | 'mock');
+// the model can be overridden per user, but only with one the provider lists.
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // Raw JSON as produced by the model; validate before use
+  arguments: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export type CompletionEvent =
+  | { type: 'text'; content: string }
+  | { type: 'tool_call'; call: ToolCall };
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model?: string | null;
+  maxTokens?: number;
+  temperature?: number;
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: string;
+  defaultModel: string;
+  models: string[];
+  // Resolves once the upstream accepted the request, so HTTP errors surface before streaming starts
+  stream(request: CompletionRequest): Promise<AsyncIterable<CompletionEvent>>;
+}
+
+const DEFAULT_MAX_TOKENS = 800;
+const DEFAULT_TEMPERATURE = 0.7;
+
+export function resolveModel(provider: LLMProvider, requested?: string | null): string {
+  return requested && provider.models.includes(requested) ? requested : provider.defaultModel;
+}
+
+/**
+ * Run a completion to the end and return the text plus any tool calls.
+ */
+export async function complete(provider: LLMProvider, request: CompletionRequest) {
+  let content = '';
+  const toolCalls: ToolCall[] = [];
+
+  for await (const event of await provider.stream(request)) {
+    if (event.type === 'text') content += event.content;
+    else toolCalls.push(event.call);
+  }
+
+  return { content, toolCalls };
+}
+
+// Yield the payload of each `data:` line in a server-sent event stream
+async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) {
+          yield trimmed.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+    await body.cancel().catch(() => {});
+  }
+}
+
+async function ensureOk(response: Response, providerName: string) {
+  if (!response.ok) {
+    const errorData = await response.text();
+    console.error(`${providerName} API error:`, errorData);
+    throw new Error(`${providerName} API error: ${response.status}`);
+  }
+}
+
+function toOpenAIMessage(message: ChatMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function createOpenAIProvider(apiKey: string): LLMProvider {
+  const provider: LLMProvider = {
+    name: 'openai',
+    defaultModel: 'gpt-4.1-2025-04-14',
+    models: ['gpt-4.1-2025-04-14', 'gpt-4.1-mini-2025-04-14', 'gpt-4o-mini'],
+
+    async stream(request) {
+      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: resolveModel(provider, request.model),
+          messages: request.messages.map(toOpenAIMessage),
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          tools: request.tools?.length
+            ? request.tools.map((tool) => ({ type: 'function', function: tool }))
+            : undefined,
+          stream: true,
+        }),
+        signal: request.signal,
+      });
+      await ensureOk(response, 'OpenAI');
+
+      return (async function* () {
+        // Tool call arguments arrive in fragments keyed by index
+        const pendingCalls = new Map<number, ToolCall>();
+
+        for await (const data of readEventData(response.body!)) {
+          if (data === '[DONE]') break;
+          try {
+            const delta = JSON.parse(data).choices?.[0]?.delta;
+            if (delta?.content) {
+              yield { type: 'text' as const, content: delta.content as string };
+            }
+            for (const fragment of delta?.tool_calls ?? []) {
+              const call = pendingCalls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+              call.id = fragment.id ?? call.id;
+              call.name = fragment.function?.name ?? call.name;
+              call.arguments += fragment.function?.arguments ?? '';
+              pendingCalls.set(fragment.index, call);
+            }
+          } catch (parseError) {
+            console.error('Error parsing OpenAI stream chunk:', parseError);
+          }
+        }
+
+        for (const call of pendingCalls.values()) {
+          yield { type: 'tool_call' as const, call };
+        }
+      })();
+    },
+  };
+
+  return provider;
+}
+
+// Anthropic takes the system prompt separately and carries tool traffic as content blocks;
+// consecutive tool results have to share a single user turn
+function toAnthropicMessages(messages: ChatMessage[]) {
+  const result: Array<{ role: 'user' | 'assistant'; content: unknown }> = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = result[result.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: safeParse(call.arguments),
+          })),
+        ],
+      });
+    } else {
+      result.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return result;
+}
+
+function safeParse(json: string) {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function createAnthropicProvider(apiKey: string): LLMProvider {
+  const provider: LLMProvider = {
+    name: 'anthropic',
+    defaultModel: 'claude-sonnet-4-20250514',
+    models: ['claude-sonnet-4-20250514', 'claude-3-5-haiku-20241022'],
+
+    async stream(request) {
+      const system = request.messages
+        .filter((message) => message.role === 'system')
+        .map((message) => message.content)
+        .join('\n\n');
+
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: resolveModel(provider, request.model),
+          system: system || undefined,
+          messages: toAnthropicMessages(request.messages),
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          tools: request.tools?.length
+            ? request.tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+            : undefined,
+          stream: true,
+        }),
+        signal: request.signal,
+      });
+      await ensureOk(response, 'Anthropic');
+
+      return (async function* () {
+        const pendingCalls = new Map<number, ToolCall>();
+
+        for await (const data of readEventData(response.body!)) {
+          try {
+            const event = JSON.parse(data);
+            if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+              pendingCalls.set(event.index, { id: event.content_block.id, name: event.content_block.name, arguments: '' });
+            } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+              yield { type: 'text' as const, content: event.delta.text as string };
+            } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+              const call = pendingCalls.get(event.index);
+              if (call) call.arguments += event.delta.partial_json;
+            } else if (event.type === 'content_block_stop' && pendingCalls.has(event.index)) {
+              yield { type: 'tool_call' as const, call: pendingCalls.get(event.index)! };
+              pendingCalls.delete(event.index);
+            } else if (event.type === 'message_stop') {
+              return;
+            }
+          } catch (parseError) {
+            console.error('Error parsing Anthropic stream chunk:', parseError);
+          }
+        }
+      })();
+    },
+  };
+
+  return provider;
+}
+
+// Deterministic echo provider for local development and tests: no network, no key.
+// A user message of the form `/tool_name {"json": "args"}` produces that tool call,
+// so tool flows can be exercised without a real model.
+function createMockProvider(): LLMProvider {
+  let callCount = 0;
+
+  return {
+    name: 'mock',
+    defaultModel: 'mock-echo',
+    models: ['mock-echo'],
+
+    async stream(request) {
+      const last = request.messages[request.messages.length - 1];
+      const events: CompletionEvent[] = [];
+
+      const toolCommand = last?.role === 'user' ? last.content.match(/^\/(\w+)\s*(\{[\s\S]*\})?\s*$/) : null;
+      if (last?.role === 'tool') {
+        events.push({ type: 'text', content: `[mock] Tool result: ${last.content}` });
+      } else if (toolCommand && request.tools?.some((tool) => tool.name === toolCommand[1])) {
+        callCount += 1;
+        events.push({
+          type: 'tool_call',
+          call: { id: `mock-call-${callCount}`, name: toolCommand[1], arguments: toolCommand[2] || '{}' },
+        });
+      } else {
+        const reply = `[mock] You said: "${last?.content ?? ''}". ` +
+          `I received ${request.messages.length} message(s) as context.`;
+        reply.split(/(?<= )/).forEach((word) => events.push({ type: 'text', content: word }));
+      }
+
+      return (async function* () {
+        for (const event of events) {
+          if (request.signal?.aborted) return;
+          yield event;
+        }
+      })();
+    },
+  };
+}
+
+export function getLLMProvider(): LLMProvider {
+  const providerName = (Deno.env.get('LLM_PROVIDER') || 'openai').toLowerCase();
+
+  switch (providerName) {
+    case 'mock':
+      return createMockProvider();
+    case 'anthropic': {
+      const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
+      if (!apiKey) throw new Error('Anthropic API key not configured');
+      return createAnthropicProvider(apiKey);
+    }
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('OpenAI API key not configured');
+      return createOpenAIProvider(apiKey);
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+}
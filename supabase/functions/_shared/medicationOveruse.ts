@@ -0,0 +1,69 @@
+import {
+  ACUTE_MEDICATION_CLASSES,
+  DEFAULT_OVERUSE_THRESHOLDS,
+  acuteMedicationClass,
+  type AcuteMedicationClass,
+} from './acuteMedications.ts';
+
+// Acute-medication day counts for the chat context, so the assistant knows when a user
+// is near medication-overuse-headache territory. The classes and thresholds are the
+// ones behind the app's warning (src/lib/analytics/overuse.ts).
+
+// Warn this many days before a threshold is reached
+const APPROACH_MARGIN = 2;
+
+export const OVERUSE_WINDOW_DAYS = 30;
+
+export interface DoseRow {
+  taken_at: string;
+  medications: { name: string } | null;
+}
+
+// The caller's calendar day, so a late-evening dose isn't counted on the next UTC day
+function localDay(iso: string, timezone?: string) {
+  try {
+    return new Date(iso).toLocaleDateString('en-CA', timezone ? { timeZone: timezone } : undefined);
+  } catch {
+    return iso.slice(0, 10);
+  }
+}
+
+/**
+ * Prompt section with acute-medication days per class over the last 30 days, or an
+ * empty string when none were logged.
+ */
+export function formatOveruseForPrompt(doses: DoseRow[], timezone?: string): string {
+  const daysByClass = new Map<AcuteMedicationClass, Set<string>>();
+  const acuteDays = new Set<string>();
+
+  doses.forEach((dose) => {
+    const medicationClass = dose.medications ? acuteMedicationClass(dose.medications.name) : null;
+    if (!medicationClass) return;
+    const day = localDay(dose.taken_at, timezone);
+    acuteDays.add(day);
+    daysByClass.set(medicationClass, (daysByClass.get(medicationClass) || new Set()).add(day));
+  });
+
+  if (daysByClass.size === 0) return '';
+
+  const counts = [...daysByClass.entries()].sort(([, a], [, b]) => b.size - a.size);
+  const over = counts.filter(([medicationClass, days]) => days.size >= DEFAULT_OVERUSE_THRESHOLDS[medicationClass]);
+  const near = counts.filter(([medicationClass, days]) =>
+    days.size < DEFAULT_OVERUSE_THRESHOLDS[medicationClass] && days.size >= DEFAULT_OVERUSE_THRESHOLDS[medicationClass] - APPROACH_MARGIN
+  );
+  const combinedOver = over.length === 0 && counts.length > 1 && acuteDays.size >= DEFAULT_OVERUSE_THRESHOLDS.combined;
+
+  let section = `\n\nACUTE MEDICATION USE (last ${OVERUSE_WINDOW_DAYS} days):`;
+  counts.forEach(([medicationClass, days]) => {
+    section += `\n- ${ACUTE_MEDICATION_CLASSES[medicationClass].label}: ${days.size} days (overuse limit ${DEFAULT_OVERUSE_THRESHOLDS[medicationClass]})`;
+  });
+  section += `\n- Any acute medication: ${acuteDays.size} days`;
+
+  if (over.length > 0 || combinedOver) {
+    section += `\n- This is at or above medication-overuse-headache thresholds. If they have headaches, gently mention that frequent acute medication can make headaches more frequent and suggest reviewing it with their doctor. Never tell them to stop a prescribed medication.`;
+  } else if (near.length > 0) {
+    section += `\n- Close to medication-overuse-headache thresholds. If it comes up, mention it gently and suggest keeping an eye on medication days.`;
+  }
+
+  return section;
+}
@@ -0,0 +1,207 @@
+import { complete, type LLMProvider } from './llm.ts';
+
+// Long-term memory kept in user_ai_preferences.learned_patterns:
+//   { facts: MemoryFact[], forgotten: string[] }
+// Facts are short durable statements about the user ("walking helps"), extracted after
+// each exchange and injected into the system prompt. Users can edit or delete them from
+// their profile; deleted facts are remembered as `forgotten` so they aren't relearned.
+
+export type MemoryCategory = 'helps' | 'triggers' | 'preferences' | 'context';
+
+export interface MemoryFact {
+  id: string;
+  text: string;
+  category: MemoryCategory;
+  created_at: string;
+  updated_at: string;
+  // ai_conversations rows the fact was learned from
+  source_message_ids: string[];
+  edited_by_user?: boolean;
+}
+
+export interface LearnedPatterns {
+  facts: MemoryFact[];
+  forgotten: string[];
+}
+
+interface ExtractedFact {
+  text: string;
+  category: MemoryCategory;
+  // Existing fact this one corrects or supersedes
+  replaces?: string;
+}
+
+const CATEGORIES: MemoryCategory[] = ['helps', 'triggers', 'preferences', 'context'];
+const MAX_FACTS = 40;
+const MAX_FORGOTTEN = 100;
+const MAX_FACT_LENGTH = 160;
+const MAX_FACTS_PER_EXCHANGE = 3;
+
+const EXTRACTION_PROMPT = `You maintain a short list of durable facts about a person living with pain, learned from their chats with a pain companion.
+
+From the latest exchange, extract only facts that will still be true and useful in future conversations:
+- what helps their pain (e.g. "Walking helps their back pain")
+- what triggers or worsens it (e.g. "Flares after long drives")
+- how they like to be spoken to (e.g. "Prefers brief answers")
+- stable context about their life or care (e.g. "Works night shifts", "Sees a physio on Tuesdays")
+
+Do not extract one-off readings ("pain is 6 today"), anything already in the known facts, guesses, or anything the user did not say themselves.
+If the exchange corrects a known fact, return the corrected fact with "replaces" set to that fact's id.
+
+Reply with JSON only, no prose:
+{"facts": [{"text": "...", "category": "helps" | "triggers" | "preferences" | "context", "replaces": "<id, optional>"}]}
+Return {"facts": []} when there is nothing worth remembering.`;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Read learned_patterns defensively; older rows hold `{}` or arbitrary JSON.
+ */
+export function readLearnedPatterns(value: unknown): LearnedPatterns {
+  const raw = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  const facts = Array.isArray(raw.facts)
+    ? raw.facts.filter((fact): fact is MemoryFact =>
+      !!fact && typeof fact.id === 'string' && typeof fact.text === 'string' && fact.text.trim() !== '')
+    : [];
+  const forgotten = Array.isArray(raw.forgotten)
+    ? raw.forgotten.filter((text): text is string => typeof text === 'string')
+    : [];
+  return { ...raw, facts, forgotten };
+}
+
+export function formatMemoryForPrompt(facts: MemoryFact[]) {
+  if (facts.length === 0) return '';
+
+  const labels: Record<MemoryCategory, string> = {
+    helps: 'Helps',
+    triggers: 'Triggers',
+    preferences: 'Preference',
+    context: 'Context',
+  };
+  return `\n\nWHAT YOU REMEMBER ABOUT THE USER (from earlier conversations; the user can review these in their profile):
+${facts.map((fact) => `- ${labels[fact.category] ?? 'Context'}: ${fact.text}`).join('\n')}
+- Use these naturally; don't recite the list. If the user contradicts one, trust what they say now.`;
+}
+
+function parseExtraction(content: string): ExtractedFact[] {
+  // Models sometimes wrap JSON in a code fence despite instructions
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) return [];
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (!Array.isArray(parsed?.facts)) return [];
+    return parsed.facts
+      .filter((fact: unknown): fact is Record<string, unknown> => !!fact && typeof fact === 'object')
+      .map((fact: Record<string, unknown>) => ({
+        text: typeof fact.text === 'string' ? fact.text.trim().slice(0, MAX_FACT_LENGTH) : '',
+        category: CATEGORIES.includes(fact.category as MemoryCategory) ? fact.category as MemoryCategory : 'context',
+        replaces: typeof fact.replaces === 'string' ? fact.replaces : undefined,
+      }))
+      .filter((fact: ExtractedFact) => fact.text !== '')
+      .slice(0, MAX_FACTS_PER_EXCHANGE);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Ask the model for durable facts in one exchange. Returns [] on any failure:
+ * memory is best-effort and must never break a chat.
+ */
+export async function extractFacts(
+  llm: LLMProvider,
+  { model, userMessage, reply, memory }: { model: string; userMessage: string; reply: string; memory: LearnedPatterns }
+): Promise<ExtractedFact[]> {
+  const knownList = memory.facts.length > 0
+    ? memory.facts.map((fact) => `- [${fact.id}] ${fact.text}`).join('\n')
+    : '(none yet)';
+  // The user deleted these; the model shouldn't bring them back in other words
+  const forgottenList = memory.forgotten.length > 0
+    ? `\n\nThe user asked you to forget these, never extract them again:\n${memory.forgotten.slice(-20).map((text) => `- ${text}`).join('\n')}`
+    : '';
+
+  try {
+    const { content } = await complete(llm, {
+      model,
+      maxTokens: 300,
+      temperature: 0,
+      messages: [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        {
+          role: 'user',
+          content: `Known facts:\n${knownList}${forgottenList}\n\nUser: ${userMessage}\n\nCompanion: ${reply}`,
+        },
+      ],
+    });
+    return parseExtraction(content);
+  } catch (error) {
+    console.error('Memory extraction failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Fold newly extracted facts into the stored ones. Duplicates only gain the new
+ * source messages; facts the user edited are never replaced by the model.
+ */
+export function mergeFacts(
+  current: LearnedPatterns,
+  extracted: ExtractedFact[],
+  sourceMessageIds: string[],
+  now = new Date()
+): { patterns: LearnedPatterns; changed: boolean } {
+  const timestamp = now.toISOString();
+  const forgotten = new Set(current.forgotten.map(normalize));
+  const facts = [...current.facts];
+  let changed = false;
+
+  for (const candidate of extracted) {
+    const key = normalize(candidate.text);
+    if (!key || forgotten.has(key)) continue;
+
+    const duplicateIndex = facts.findIndex((fact) => normalize(fact.text) === key);
+    if (duplicateIndex !== -1) {
+      const duplicate = facts[duplicateIndex];
+      facts[duplicateIndex] = {
+        ...duplicate,
+        updated_at: timestamp,
+        source_message_ids: [...new Set([...duplicate.source_message_ids, ...sourceMessageIds])],
+      };
+      changed = true;
+      continue;
+    }
+
+    const replacedIndex = facts.findIndex((fact) => fact.id === candidate.replaces && !fact.edited_by_user);
+    if (replacedIndex !== -1) {
+      const replaced = facts[replacedIndex];
+      facts[replacedIndex] = {
+        ...replaced,
+        text: candidate.text,
+        category: candidate.category,
+        updated_at: timestamp,
+        source_message_ids: [...new Set([...replaced.source_message_ids, ...sourceMessageIds])],
+      };
+    } else {
+      facts.push({
+        id: crypto.randomUUID(),
+        text: candidate.text,
+        category: candidate.category,
+        created_at: timestamp,
+        updated_at: timestamp,
+        source_message_ids: sourceMessageIds,
+      });
+    }
+    changed = true;
+  }
+
+  // Keep the most recently confirmed facts when over the cap
+  const capped = facts
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    .slice(0, MAX_FACTS);
+
+  return {
+    patterns: { ...current, facts: capped, forgotten: current.forgotten.slice(-MAX_FORGOTTEN) },
+    changed,
+  };
+}
@@ -0,0 +1,268 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.4';
+import type { ToolDefinition } from './llm.ts';
+
+// Tools the companion can call. Writes are never executed here: they come back to the
+// client as proposals and only reach pain_logs / pain_sessions once the user confirms.
+// get_stats is read-only and runs server-side so the model can answer with real numbers.
+
+export type WriteToolName = 'log_pain' | 'update_last_entry' | 'resolve_session';
+export type StatsRange = 'today' | '7d' | '30d' | '90d';
+
+export interface PainEntryArgs {
+  pain_level?: number;
+  pain_locations?: string[];
+  medications?: string[];
+  triggers?: string[];
+  notes?: string;
+}
+
+export interface LogPainArgs extends PainEntryArgs {
+  pain_level: number;
+  onset_at?: string;
+}
+
+export interface ResolveSessionArgs {
+  end_level: number;
+}
+
+export interface ProposedAction {
+  id: string;
+  tool: WriteToolName;
+  args: LogPainArgs | PainEntryArgs | ResolveSessionArgs;
+  // Row the action applies to, resolved when it was proposed so the user sees what changes
+  target?: { id: string; logged_at?: string; started_at?: string; pain_level?: number };
+}
+
+type ValidationResult<T> = { ok: true; args: T } | { ok: false; error: string };
+
+const STATS_RANGES: StatsRange[] = ['today', '7d', '30d', '90d'];
+const MAX_LIST_ITEMS = 10;
+const MAX_ITEM_LENGTH = 60;
+const MAX_NOTES_LENGTH = 1000;
+const MAX_ONSET_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const painLevelSchema = { type: 'integer', minimum: 0, maximum: 10, description: 'Pain intensity on a 0-10 scale' };
+const stringListSchema = (description: string) => ({ type: 'array', items: { type: 'string' }, description });
+
+const entryProperties = {
+  pain_level: painLevelSchema,
+  pain_locations: stringListSchema('Body areas in plain words, e.g. "lower back", "left knee"'),
+  medications: stringListSchema('Medications taken for this pain, e.g. "Naproxen"'),
+  triggers: stringListSchema('Likely triggers the user mentioned, e.g. "poor sleep"'),
+  notes: { type: 'string', description: 'Short free-text note in the user\'s own words' },
+};
+
+export const PAIN_TOOLS: ToolDefinition[] = [
+  {
+    name: 'log_pain',
+    description: 'Propose a new pain entry from what the user just described. The user confirms before it is saved.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...entryProperties,
+        onset_at: {
+          type: 'string',
+          description: 'ISO 8601 timestamp with offset for when this pain started, only if the user said (e.g. "since lunch")',
+        },
+      },
+      required: ['pain_level'],
+    },
+  },
+  {
+    name: 'update_last_entry',
+    description: 'Propose changes to the user\'s most recent pain entry, e.g. a corrected level or a medication they forgot. Only include fields that change.',
+    parameters: {
+      type: 'object',
+      properties: entryProperties,
+    },
+  },
+  {
+    name: 'get_stats',
+    description: 'Look up summary statistics of the user\'s pain entries for a time range before answering questions about them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        range: { type: 'string', enum: STATS_RANGES },
+      },
+      required: ['range'],
+    },
+  },
+  {
+    name: 'resolve_session',
+    description: 'Propose ending the user\'s current pain episode when they say the pain has gone or settled.',
+    parameters: {
+      type: 'object',
+      properties: {
+        end_level: { ...painLevelSchema, description: 'Pain level at the end of the episode (0 if gone)' },
+      },
+      required: ['end_level'],
+    },
+  },
+];
+
+export function isWriteTool(name: string): name is WriteToolName {
+  return name === 'log_pain' || name === 'update_last_entry' || name === 'resolve_session';
+}
+
+function parseArguments(raw: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function validatePainLevel(value: unknown, field: string): string | null {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 10) {
+    return `${field} must be a whole number from 0 to 10`;
+  }
+  return null;
+}
+
+// Trim, drop blanks and duplicates; anything that isn't a list of strings is an error
+function cleanList(value: unknown, field: string): { list?: string[]; error?: string } {
+  if (value === undefined) return {};
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    return { error: `${field} must be a list of strings` };
+  }
+  const list = [...new Set(value.map((item: string) => item.trim().slice(0, MAX_ITEM_LENGTH)).filter(Boolean))];
+  return { list: list.slice(0, MAX_LIST_ITEMS) };
+}
+
+function validateEntryFields(input: Record<string, unknown>): ValidationResult<PainEntryArgs> {
+  const args: PainEntryArgs = {};
+
+  if (input.pain_level !== undefined) {
+    const error = validatePainLevel(input.pain_level, 'pain_level');
+    if (error) return { ok: false, error };
+    args.pain_level = input.pain_level as number;
+  }
+
+  for (const field of ['pain_locations', 'medications', 'triggers'] as const) {
+    const { list, error } = cleanList(input[field], field);
+    if (error) return { ok: false, error };
+    if (list) args[field] = list;
+  }
+
+  if (input.notes !== undefined) {
+    if (typeof input.notes !== 'string') return { ok: false, error: 'notes must be a string' };
+    const notes = input.notes.trim().slice(0, MAX_NOTES_LENGTH);
+    if (notes) args.notes = notes;
+  }
+
+  return { ok: true, args };
+}
+
+export function validateLogPain(raw: string, now = new Date()): ValidationResult<LogPainArgs> {
+  const input = parseArguments(raw);
+  if (!input) return { ok: false, error: 'Arguments must be a JSON object' };
+  if (input.pain_level === undefined) return { ok: false, error: 'pain_level is required' };
+
+  const result = validateEntryFields(input);
+  if (!result.ok) return result;
+  const args = result.args as LogPainArgs;
+
+  if (input.onset_at !== undefined) {
+    const onset = new Date(String(input.onset_at));
+    if (isNaN(onset.getTime())) return { ok: false, error: 'onset_at must be an ISO 8601 timestamp' };
+    // A few minutes of slack for clock skew between the model's idea of "now" and ours
+    if (onset.getTime() > now.getTime() + 5 * 60 * 1000) return { ok: false, error: 'onset_at cannot be in the future' };
+    if (now.getTime() - onset.getTime() > MAX_ONSET_AGE_MS) return { ok: false, error: 'onset_at is more than a week ago' };
+    args.onset_at = onset.toISOString();
+  }
+
+  return { ok: true, args };
+}
+
+export function validateUpdateLastEntry(raw: string): ValidationResult<PainEntryArgs> {
+  const input = parseArguments(raw);
+  if (!input) return { ok: false, error: 'Arguments must be a JSON object' };
+
+  const result = validateEntryFields(input);
+  if (result.ok && Object.keys(result.args).length === 0) {
+    return { ok: false, error: 'Provide at least one field to change' };
+  }
+  return result;
+}
+
+export function validateResolveSession(raw: string): ValidationResult<ResolveSessionArgs> {
+  const input = parseArguments(raw);
+  if (!input) return { ok: false, error: 'Arguments must be a JSON object' };
+
+  const error = validatePainLevel(input.end_level, 'end_level');
+  if (error) return { ok: false, error };
+  return { ok: true, args: { end_level: input.end_level as number } };
+}
+
+export function validateGetStats(raw: string): ValidationResult<{ range: StatsRange }> {
+  const input = parseArguments(raw);
+  if (!input) return { ok: false, error: 'Arguments must be a JSON object' };
+  if (!STATS_RANGES.includes(input.range as StatsRange)) {
+    return { ok: false, error: `range must be one of ${STATS_RANGES.join(', ')}` };
+  }
+  return { ok: true, args: { range: input.range as StatsRange } };
+}
+
+function rangeStart(range: StatsRange, now: Date) {
+  if (range === 'today') {
+    const start = new Date(now);
+    start.setUTCHours(0, 0, 0, 0);
+    return start;
+  }
+  const days = parseInt(range, 10);
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Most frequent values, first spelling kept. Locations, triggers, activities and impact
+ * tags are stored in canonical form (public.normalize_pain_log_terms), so synonyms are
+ * already one value; case and spacing are folded for anything typed freely.
+ */
+export function topCounts(values: string[], limit = 3) {
+  const counts = new Map<string, { name: string; count: number }>();
+  values.forEach((value) => {
+    const name = value.replace(/\s+/g, ' ').trim();
+    if (!name) return;
+    const key = name.toLowerCase();
+    const current = counts.get(key);
+    counts.set(key, { name: current?.name ?? name, count: (current?.count ?? 0) + 1 });
+  });
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+/**
+ * Summary statistics for the get_stats tool, scoped to one user.
+ */
+export async function getPainStats(supabase: SupabaseClient, userId: string, range: StatsRange) {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('pain_logs')
+    .select('pain_level, pain_locations, medications, triggers, logged_at')
+    .eq('user_id', userId)
+    .gte('logged_at', rangeStart(range, now).toISOString())
+    .order('logged_at', { ascending: true });
+
+  if (error) throw error;
+  const logs = data || [];
+
+  if (logs.length === 0) {
+    return { range, entries: 0 };
+  }
+
+  const levels = logs.map((log) => log.pain_level);
+  return {
+    range,
+    entries: logs.length,
+    days_logged: new Set(logs.map((log) => log.logged_at.split('T')[0])).size,
+    average_pain: Math.round((levels.reduce((sum, level) => sum + level, 0) / levels.length) * 10) / 10,
+    min_pain: Math.min(...levels),
+    max_pain: Math.max(...levels),
+    latest: { pain_level: logs[logs.length - 1].pain_level, logged_at: logs[logs.length - 1].logged_at },
+    top_locations: topCounts(logs.flatMap((log) => log.pain_locations || [])),
+    top_medications: topCounts(logs.flatMap((log) => log.medications || [])),
+    top_triggers: topCounts(logs.flatMap((log) => log.triggers || [])),
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { buildEscalation, detectBaselineJump, detectMessageRedFlags, type PainLogSample } from './redFlags.ts';
+
+const codes = (text: string) => detectMessageRedFlags(text).map((flag) => flag.code);
+
+describe('detectMessageRedFlags', () => {
+  it.each([
+    'im not doing well i want to die',
+    'I am not sleeping and I want to kill myself',
+    'I have no energy and want to die',
+    "Nothing's helping, no sleep, I can't go on",
+    "I'm not suicidal, I just wish I was dead",
+    'No. I want to end it all',
+  ])('flags suicidal ideation despite a nearby negation: %s', (text) => {
+    expect(codes(text)).toContain('suicidal_ideation');
+  });
+
+  it('escalates suicidal ideation as a crisis', () => {
+    const escalation = buildEscalation(detectMessageRedFlags('I have no energy and want to die'));
+    expect(escalation?.level).toBe('crisis');
+  });
+
+  it.each([
+    ['no chest pain today', 'chest_pain'],
+    ['I never had chest pain with this', 'chest_pain'],
+    ["I don't have chest pain, just my back", 'chest_pain'],
+    ['not having any sudden numbness', 'neurological_deficit'],
+    ['no thunderclap, it built up slowly', 'thunderclap_headache'],
+  ])('respects a negation of the phrase itself: %s', (text, code) => {
+    expect(codes(text)).not.toContain(code);
+  });
+
+  it('only lets a negation cancel the occurrence it governs', () => {
+    expect(codes('no chest pain yesterday but now my chest hurts')).toContain('chest_pain');
+  });
+
+  it.each([
+    'I have no appetite and chest pain since this morning',
+    'Not great. Chest pain when I climb stairs',
+  ])('does not treat an unrelated negation as cancelling a symptom: %s', (text) => {
+    expect(codes(text)).toContain('chest_pain');
+  });
+
+  it.each([
+    'the numbness in my feet is back as usual',
+    'My usual numbness in my toes from the neuropathy',
+    'numb hands in the morning again',
+    'both arms are numb after sleeping on them',
+    'numbness in both legs when I sit too long',
+    'my left foot is always numb from the neuropathy',
+    'My usual numbness in my right hand is back',
+    'the right leg has been numb for years since the surgery',
+  ])('ignores routine numbness: %s', (text) => {
+    expect(codes(text)).not.toContain('neurological_deficit');
+  });
+
+  it.each([
+    'sudden numbness in my arm',
+    'new numbness in my left hand since lunch',
+    'my leg went numb out of nowhere',
+    'numbness down the left side of my face',
+    "I can't lift my arm",
+    'my left arm is numb',
+    'numbness down my right side',
+    'I have numbness in one arm',
+    'my right leg went numb an hour ago. My feet are always a bit numb though',
+  ])('flags new, sudden or one-sided numbness and weakness: %s', (text) => {
+    expect(codes(text)).toContain('neurological_deficit');
+  });
+
+  it('matches regardless of case and curly apostrophes', () => {
+    expect(codes('I CAN’T GO ON')).toContain('suicidal_ideation');
+  });
+
+  it('returns nothing for an ordinary update', () => {
+    expect(detectMessageRedFlags('Back is a 5 today, the stretches helped a bit')).toEqual([]);
+  });
+});
+
+describe('detectBaselineJump', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+  const baseline: PainLogSample[] = [2, 3, 3, 4, 3].map((pain_level, index) => ({
+    id: `log-${index}`,
+    logged_at: daysAgo(index + 2),
+    pain_level,
+  }));
+
+  it('flags a proposed level far above the usual one', () => {
+    expect(detectBaselineJump(baseline, { proposedLevel: 9, now })?.source).toBe('proposed_entry');
+    expect(detectBaselineJump(baseline, { proposedLevel: 6, now })).toBeNull();
+  });
+
+  it('flags a recent entry far above the usual one', () => {
+    const logs = [{ id: 'flare', logged_at: daysAgo(0.1), pain_level: 9 }, ...baseline];
+    expect(detectBaselineJump(logs, { now })?.pain_log_id).toBe('flare');
+  });
+
+  it('needs enough history for a baseline', () => {
+    expect(detectBaselineJump(baseline.slice(0, 3), { proposedLevel: 10, now })).toBeNull();
+  });
+});
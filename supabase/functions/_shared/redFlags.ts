@@ -0,0 +1,296 @@
+// Deterministic safety checks for the chat. They run on the user's message and pain
+// history before the model is called, and on every entry the model proposes to log,
+// so an escalation never depends on the model noticing. The reply text itself is not
+// scanned: advice like "if you get chest pain, call 911" would trip the phrase rules.
+// Matches are deliberately broad: a false alarm costs a card, a miss can cost much more.
+
+export type EscalationLevel = 'emergency' | 'crisis' | 'urgent';
+
+export type RedFlagCode =
+  | 'thunderclap_headache'
+  | 'neurological_deficit'
+  | 'chest_pain'
+  | 'suicidal_ideation'
+  | 'cauda_equina'
+  | 'fever_stiff_neck'
+  | 'baseline_jump';
+
+export interface RedFlag {
+  code: RedFlagCode;
+  level: EscalationLevel;
+  label: string;
+  // The words that triggered it, or a description of the pain-log evidence
+  evidence: string;
+  source: 'message' | 'pain_logs' | 'proposed_entry';
+  // The entry behind a pain_logs flag
+  pain_log_id?: string;
+}
+
+export interface EscalationContact {
+  label: string;
+  value: string;
+}
+
+export interface Escalation {
+  level: EscalationLevel;
+  title: string;
+  guidance: string[];
+  contacts: EscalationContact[];
+  flags: RedFlag[];
+}
+
+export interface PainLogSample {
+  id: string;
+  logged_at: string;
+  pain_level: number;
+}
+
+interface PhraseRule {
+  code: Exclude<RedFlagCode, 'baseline_jump'>;
+  level: EscalationLevel;
+  label: string;
+  patterns: RegExp[];
+}
+
+// Long-standing numbness ("my left foot is always numb from the neuropathy") is the user's
+// baseline, so a one-sided limb phrase only counts when nothing in its sentence says so
+const CHRONIC_NUMBNESS = String.raw`\b(always|usual(ly)?|chronic|again|for (months|years)|neuropath(y|ic))\b`;
+const oneSidedNumbness = (phrase: string) =>
+  new RegExp(String.raw`(?<!${CHRONIC_NUMBNESS}[^.!?]*)${phrase}(?![^.!?]*${CHRONIC_NUMBNESS})`);
+
+const PHRASE_RULES: PhraseRule[] = [
+  {
+    code: 'suicidal_ideation',
+    level: 'crisis',
+    label: 'Thoughts of suicide or self-harm',
+    patterns: [
+      /\b(kill|hurt|harm) (myself|me)\b/,
+      /\bsuicid(e|al)\b/,
+      /\bend (it all|my life)\b/,
+      /\b(want|wish) (to|i could|i was|i were) (die|dead|not (be )?(here|alive))\b/,
+      /\bno (reason|point) (to|in) (live|living|go on|going on)\b/,
+      /\bbetter off (dead|without me)\b/,
+      /\bcan'?t go on\b/,
+    ],
+  },
+  {
+    code: 'thunderclap_headache',
+    level: 'emergency',
+    label: 'Sudden, severe headache',
+    patterns: [
+      /\bworst (headache|head pain|pain) (of|in) my life\b/,
+      /\bthunderclap\b/,
+      /\b(sudden|suddenly|out of nowhere)\b.{0,40}\b(worst|explosive|excruciating|severe)\b.{0,20}\bheadache\b/,
+      /\bheadache\b.{0,40}\b(came on|started|hit)\b.{0,20}\b(suddenly|instantly|in seconds|like a thunderclap)\b/,
+    ],
+  },
+  {
+    code: 'neurological_deficit',
+    level: 'emergency',
+    label: 'New numbness, weakness or problems speaking or seeing',
+    patterns: [
+      // Numbness alone is routine for many users; it has to be new, sudden or one-sided
+      /\b(sudden|suddenly|new|out of nowhere|all of a sudden)\b.{0,30}\bnumb(ness)?\b/,
+      /\bnumb(ness)?\b.{0,30}\b(suddenly|out of nowhere|all of a sudden)\b/,
+      /\b(can'?t|cannot|unable to) (move|feel|lift) my (arm|leg|hand|foot|face)\b/,
+      /\b(one side|left side|right side|half) of my (face|body)\b/,
+      oneSidedNumbness(String.raw`\b(left|right|one) (arm|leg|hand|foot)\b.{0,25}\bnumb(ness)?\b`),
+      oneSidedNumbness(String.raw`\bnumb(ness)?\b.{0,25}\b(left|right|one) (arm|leg|hand|foot|side)\b`),
+      /\bface (is )?droop(ing|y)?\b/,
+      /\bslurr(ed|ing) (speech|words)\b/,
+      /\b(lost|losing|loss of) (my )?(vision|sight)\b/,
+      /\bsudden(ly)? (weak|weakness|confus(ed|ion)|blind)\b/,
+    ],
+  },
+  {
+    code: 'chest_pain',
+    level: 'emergency',
+    label: 'Chest pain',
+    patterns: [
+      /\bchest (pain|tightness|pressure|hurts)\b/,
+      /\b(pain|pressure|tightness) in my chest\b/,
+      /\bmy chest (hurts|is tight|feels tight)\b/,
+      /\bheart attack\b/,
+    ],
+  },
+  {
+    code: 'cauda_equina',
+    level: 'emergency',
+    label: 'Back pain with bladder, bowel or saddle symptoms',
+    patterns: [
+      /\b(lost|losing|loss of|can'?t control) (my )?(bladder|bowel)( control)?\b/,
+      /\bsaddle (numbness|anaesthesia|anesthesia)\b/,
+      /\b(wet|peed|soiled) myself\b/,
+    ],
+  },
+  {
+    code: 'fever_stiff_neck',
+    level: 'urgent',
+    label: 'Headache with fever and a stiff neck',
+    patterns: [
+      /\bstiff neck\b.{0,60}\bfever\b/,
+      /\bfever\b.{0,60}\bstiff neck\b/,
+    ],
+  },
+];
+
+// "no chest pain", "never had chest pain", "not having any sudden numbness": the negation
+// has to govern the matched phrase itself, so only a couple of filler words may sit in
+// between. "I'm not sleeping and I want to die" is not negated.
+const NEGATION = /\b(no|not|without|never|nor|denies|don'?t have|didn'?t have|haven'?t had|isn'?t|wasn'?t)( (any|a|had|have|having|been|felt|feel|feeling|getting|got|really)){0,2} ?$/;
+
+const BASELINE_WINDOW_DAYS = 30;
+const MIN_BASELINE_LOGS = 5;
+// A level this far above the user's usual pain, and at least this high, is a sudden jump
+const BASELINE_JUMP = 4;
+const BASELINE_JUMP_MIN_LEVEL = 8;
+
+const LEVEL_ORDER: EscalationLevel[] = ['crisis', 'emergency', 'urgent'];
+
+export function detectMessageRedFlags(text: string): RedFlag[] {
+  const normalized = text.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ');
+  const flags: RedFlag[] = [];
+
+  for (const rule of PHRASE_RULES) {
+    const match = rule.patterns
+      .flatMap((pattern) => [...normalized.matchAll(new RegExp(pattern.source, 'g'))])
+      // Never talk ourselves out of a crisis: "I'm not suicidal, I just want to die" still counts
+      .find((candidate) => rule.level === 'crisis' || !NEGATION.test(normalized.slice(0, candidate.index)));
+    if (match) {
+      flags.push({ code: rule.code, level: rule.level, label: rule.label, evidence: match[0], source: 'message' });
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Median pain level over the baseline window, excluding the last day so a flare
+ * doesn't raise its own baseline. Null when there is too little history.
+ */
+export function painBaseline(logs: PainLogSample[], now = new Date()) {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const levels = logs
+    .filter((log) => {
+      const age = now.getTime() - new Date(log.logged_at).getTime();
+      return age > dayMs && age <= BASELINE_WINDOW_DAYS * dayMs;
+    })
+    .map((log) => log.pain_level)
+    .sort((a, b) => a - b);
+
+  if (levels.length < MIN_BASELINE_LOGS) return null;
+  const middle = Math.floor(levels.length / 2);
+  return levels.length % 2 ? levels[middle] : (levels[middle - 1] + levels[middle]) / 2;
+}
+
+/**
+ * A pain level far above the user's baseline: from entries logged in the last day,
+ * or from a level the model is about to propose logging.
+ */
+export function detectBaselineJump(
+  logs: PainLogSample[],
+  { proposedLevel, now = new Date() }: { proposedLevel?: number; now?: Date } = {}
+): RedFlag | null {
+  const baseline = painBaseline(logs, now);
+  if (baseline === null) return null;
+
+  const isJump = (level: number) => level >= BASELINE_JUMP_MIN_LEVEL && level - baseline >= BASELINE_JUMP;
+
+  if (proposedLevel !== undefined && isJump(proposedLevel)) {
+    return {
+      code: 'baseline_jump',
+      level: 'urgent',
+      label: 'Pain far above your usual level',
+      evidence: `Reported ${proposedLevel}/10 against a usual level of about ${baseline}/10`,
+      source: 'proposed_entry',
+    };
+  }
+
+  const recent = logs.find((log) =>
+    now.getTime() - new Date(log.logged_at).getTime() <= 24 * 60 * 60 * 1000 && isJump(log.pain_level)
+  );
+  if (!recent) return null;
+
+  return {
+    code: 'baseline_jump',
+    level: 'urgent',
+    label: 'Pain far above your usual level',
+    evidence: `Logged ${recent.pain_level}/10 against a usual level of about ${baseline}/10`,
+    source: 'pain_logs',
+    pain_log_id: recent.id,
+  };
+}
+
+/**
+ * Combine flags into the payload the app shows. One flag per code; the most serious
+ * level decides the guidance.
+ */
+export function buildEscalation(flags: RedFlag[]): Escalation | null {
+  const unique = flags.filter((flag, index) => flags.findIndex((other) => other.code === flag.code) === index);
+  if (unique.length === 0) return null;
+
+  const level = LEVEL_ORDER.find((candidate) => unique.some((flag) => flag.level === candidate))!;
+  const hasEmergencySign = unique.some((flag) => flag.level === 'emergency');
+
+  if (level === 'crisis') {
+    return {
+      level,
+      title: "You don't have to face this alone",
+      guidance: [
+        'If you might act on thoughts of harming yourself, call your local emergency number now or go to the nearest emergency department.',
+        'You can talk to someone right now, day or night, free and in confidence.',
+        ...(hasEmergencySign ? ['Some of what you described can also be a medical emergency, so please get help straight away.'] : []),
+      ],
+      contacts: [
+        { label: 'Emergency services', value: '911 (US) · 999 (UK) · 112 (EU)' },
+        { label: 'Suicide & Crisis Lifeline (US)', value: 'Call or text 988' },
+        { label: 'Samaritans (UK & Ireland)', value: '116 123' },
+      ],
+      flags: unique,
+    };
+  }
+
+  if (level === 'emergency') {
+    return {
+      level,
+      title: 'This may need emergency care',
+      guidance: [
+        'Call your local emergency number or go to the nearest emergency department now.',
+        "Don't drive yourself. If you can, have someone stay with you.",
+        'Note when the symptoms started; it helps the team treating you.',
+      ],
+      contacts: [{ label: 'Emergency services', value: '911 (US) · 999 (UK) · 112 (EU)' }],
+      flags: unique,
+    };
+  }
+
+  return {
+    level,
+    title: 'Please get medical advice today',
+    guidance: [
+      'Contact your doctor or an urgent care service today about this change.',
+      'If it gets rapidly worse, or you notice numbness, weakness, confusion or chest pain, call your local emergency number.',
+    ],
+    contacts: [
+      { label: 'Non-emergency advice', value: 'Your doctor · NHS 111 (UK)' },
+      { label: 'Emergency services', value: '911 (US) · 999 (UK) · 112 (EU)' },
+    ],
+    flags: unique,
+  };
+}
+
+/**
+ * Instructions added to the system prompt when the pre-check fired, so the reply
+ * supports the escalation card instead of contradicting it.
+ */
+export function formatSafetyPrompt(escalation: Escalation) {
+  const flags = escalation.flags.map((flag) => `- ${flag.label} (${flag.evidence})`).join('\n');
+  const tone = escalation.level === 'crisis'
+    ? 'Respond with warmth and without judgement. Acknowledge how hard things are, ask if they are safe right now, and encourage them to reach the crisis contacts shown in the app.'
+    : 'Clearly and calmly advise them to seek the care described in the app now. Do not suggest waiting, home remedies or logging as a substitute.';
+
+  return `\n\nSAFETY ALERT (detected automatically, the app is showing an emergency guidance card):
+${flags}
+- ${tone}
+- Keep it short. Do not diagnose, and do not tell them the symptoms are probably nothing.`;
+}
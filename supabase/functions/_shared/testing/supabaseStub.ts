@@ -0,0 +1,245 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.4';
+
+// In-memory stand-in for the service-role client, for handler tests.
+// Like the real service role it sees every row: nothing is filtered unless the
+// handler asks for it, so a missing user_id filter shows up as leaked rows.
+// Every query is recorded with its filters so tests can also check the scoping.
+
+type Row = Record<string, unknown>;
+type FilterOp = 'eq' | 'is' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains';
+
+export interface RecordedFilter {
+  column: string;
+  op: FilterOp;
+  value: unknown;
+}
+
+export interface RecordedQuery {
+  table: string;
+  action: 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+  filters: RecordedFilter[];
+  values?: Row | Row[];
+}
+
+export interface SupabaseStubOptions {
+  tables?: Record<string, Row[]>;
+  // Bearer token -> user id
+  sessions?: Record<string, string>;
+  // Storage bucket -> object paths
+  storage?: Record<string, string[]>;
+  rpc?: Record<string, (args: Record<string, unknown>) => { data: unknown; error: { message: string } | null }>;
+}
+
+const compare = (a: unknown, b: unknown) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+// JSONB @> containment: objects by key, arrays by element
+function contains(haystack: unknown, needle: unknown): boolean {
+  if (Array.isArray(needle)) {
+    return Array.isArray(haystack) && needle.every((item) => haystack.some((candidate) => contains(candidate, item)));
+  }
+  if (needle && typeof needle === 'object') {
+    if (!haystack || typeof haystack !== 'object') return false;
+    return Object.entries(needle).every(([key, value]) => contains((haystack as Row)[key], value));
+  }
+  return haystack === needle;
+}
+
+function matches(row: Row, filter: RecordedFilter) {
+  const value = row[filter.column];
+  switch (filter.op) {
+    case 'eq': return value === filter.value;
+    case 'is': return (value ?? null) === filter.value;
+    case 'gt': return value != null && compare(value, filter.value) > 0;
+    case 'gte': return value != null && compare(value, filter.value) >= 0;
+    case 'lt': return value != null && compare(value, filter.value) < 0;
+    case 'lte': return value != null && compare(value, filter.value) <= 0;
+    case 'in': return (filter.value as unknown[]).includes(value);
+    case 'contains': return contains(value, filter.value);
+  }
+}
+
+export function createSupabaseStub(options: SupabaseStubOptions = {}) {
+  const tables: Record<string, Row[]> = Object.fromEntries(
+    Object.entries(options.tables ?? {}).map(([name, rows]) => [name, rows.map((row) => ({ ...row }))])
+  );
+  const storage: Record<string, string[]> = Object.fromEntries(
+    Object.entries(options.storage ?? {}).map(([bucket, paths]) => [bucket, [...paths]])
+  );
+  const queries: RecordedQuery[] = [];
+  const rpcCalls: { name: string; args: Record<string, unknown> }[] = [];
+  const deletedUsers: string[] = [];
+
+  const from = (table: string) => {
+    const query: RecordedQuery = { table, action: 'select', filters: [] };
+    let returning = false;
+    let single: 'single' | 'maybeSingle' | null = null;
+    let order: { column: string; ascending: boolean } | null = null;
+    let limit: number | null = null;
+    let upsertConflict: string[] = [];
+    let executed: Promise<unknown> | null = null;
+
+    const execute = () => {
+      queries.push(query);
+      const rows = (tables[table] ??= []);
+      const selected = () => rows.filter((row) => query.filters.every((filter) => matches(row, filter)));
+      let result: Row[] = [];
+
+      if (query.action === 'select') {
+        result = selected();
+      } else if (query.action === 'insert' || query.action === 'upsert') {
+        const values = Array.isArray(query.values) ? query.values : [query.values!];
+        for (const value of values) {
+          const existing = query.action === 'upsert' && upsertConflict.length > 0
+            ? rows.find((row) => upsertConflict.every((column) => row[column] === value[column]))
+            : undefined;
+          if (existing) {
+            Object.assign(existing, value);
+            result.push(existing);
+          } else {
+            const row = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...value };
+            rows.push(row);
+            result.push(row);
+          }
+        }
+      } else if (query.action === 'update') {
+        result = selected();
+        result.forEach((row) => Object.assign(row, query.values));
+      } else {
+        result = selected();
+        tables[table] = rows.filter((row) => !result.includes(row));
+      }
+
+      if (order) {
+        const { column, ascending } = order;
+        result = [...result].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+      }
+      if (limit !== null) result = result.slice(0, limit);
+      const data = result.map((row) => ({ ...row }));
+
+      if (query.action !== 'select' && !returning) return { data: null, error: null };
+      if (single === 'maybeSingle') return { data: data[0] ?? null, error: null };
+      if (single === 'single') {
+        return data.length === 1
+          ? { data: data[0], error: null }
+          : { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+      }
+      return { data, error: null };
+    };
+
+    const filter = (op: FilterOp) => (column: string, value: unknown) => {
+      query.filters.push({ column, op, value });
+      return builder;
+    };
+
+    const builder = {
+      select: () => {
+        if (query.action !== 'select') returning = true;
+        return builder;
+      },
+      insert: (values: Row | Row[]) => {
+        query.action = 'insert';
+        query.values = values;
+        return builder;
+      },
+      upsert: (values: Row | Row[], upsertOptions: { onConflict?: string } = {}) => {
+        query.action = 'upsert';
+        query.values = values;
+        upsertConflict = upsertOptions.onConflict?.split(',') ?? ['id'];
+        return builder;
+      },
+      update: (values: Row) => {
+        query.action = 'update';
+        query.values = values;
+        return builder;
+      },
+      delete: () => {
+        query.action = 'delete';
+        return builder;
+      },
+      eq: filter('eq'),
+      is: filter('is'),
+      gt: filter('gt'),
+      gte: filter('gte'),
+      lt: filter('lt'),
+      lte: filter('lte'),
+      in: filter('in'),
+      contains: filter('contains'),
+      order: (column: string, orderOptions: { ascending?: boolean } = {}) => {
+        order = { column, ascending: orderOptions.ascending ?? true };
+        return builder;
+      },
+      limit: (count: number) => {
+        limit = count;
+        return builder;
+      },
+      single: () => {
+        single = 'single';
+        return builder;
+      },
+      maybeSingle: () => {
+        single = 'maybeSingle';
+        return builder;
+      },
+      then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) => {
+        executed ??= Promise.resolve().then(execute);
+        return executed.then(resolve, reject);
+      },
+    };
+    return builder;
+  };
+
+  const client = {
+    from,
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      rpcCalls.push({ name, args });
+      const handler = options.rpc?.[name];
+      return handler ? handler(args) : { data: null, error: { message: `Unknown function ${name}` } };
+    },
+    auth: {
+      getUser: async (token: string) => {
+        const userId = options.sessions?.[token];
+        return userId
+          ? { data: { user: { id: userId } }, error: null }
+          : { data: { user: null }, error: { message: 'Invalid JWT' } };
+      },
+      admin: {
+        deleteUser: async (userId: string) => {
+          deletedUsers.push(userId);
+          return { data: {}, error: null };
+        },
+      },
+    },
+    storage: {
+      listBuckets: async () => ({ data: Object.keys(storage).map((id) => ({ id })), error: null }),
+      from: (bucket: string) => ({
+        // One level of a folder: files have an id, subfolders don't
+        list: async (folder: string, { limit = 100, offset = 0 } = {}) => {
+          const names = new Map<string, boolean>();
+          for (const path of storage[bucket] ?? []) {
+            if (!path.startsWith(`${folder}/`)) continue;
+            const [name, ...rest] = path.slice(folder.length + 1).split('/');
+            names.set(name, rest.length === 0);
+          }
+          const items = [...names].map(([name, isFile]) => ({ name, id: isFile ? `${folder}/${name}` : null }));
+          return { data: items.slice(offset, offset + limit), error: null };
+        },
+        remove: async (paths: string[]) => {
+          storage[bucket] = (storage[bucket] ?? []).filter((path) => !paths.includes(path));
+          return { data: paths.map((name) => ({ name })), error: null };
+        },
+      }),
+    },
+  };
+
+  return {
+    client: client as unknown as SupabaseClient,
+    tables,
+    storage,
+    queries,
+    rpcCalls,
+    deletedUsers,
+  };
+}
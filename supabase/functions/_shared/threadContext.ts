@@ -0,0 +1,161 @@
+import { complete, type ChatMessage, type LLMProvider } from './llm.ts';
+
+// Conversation context for a chat thread: a rolling summary of older messages (kept on
+// ai_conversation_threads) plus the recent messages verbatim, sent as real turns.
+// Once the unsummarized part of a thread passes SUMMARY_TRIGGER_TOKENS, the oldest of
+// it is folded into the summary so the verbatim window stays within budget.
+
+export interface StoredMessage {
+  message_type: string;
+  content: string;
+  created_at: string;
+}
+
+export interface ThreadSummary {
+  summary: string | null;
+  summarized_through: string | null;
+}
+
+// Rough but provider-neutral: about four characters per token for English text
+const CHARS_PER_TOKEN = 4;
+// Verbatim history sent with each request, newest messages first to be kept
+export const HISTORY_TOKEN_BUDGET = 3000;
+// Unsummarized history beyond this is folded into the summary after the reply
+export const SUMMARY_TRIGGER_TOKENS = 4000;
+// What stays verbatim after summarizing, so the model still sees the last few turns exactly
+const KEEP_RECENT_TOKENS = 1500;
+const MIN_RECENT_MESSAGES = 4;
+const MAX_SUMMARY_TOKENS = 500;
+
+const SUMMARY_PROMPT = `You keep a running summary of a conversation between a person living with pain and their pain companion, PainPal.
+
+Update the summary with the new messages. Keep what matters for continuing the conversation:
+- symptoms, pain levels, locations and timings the user described
+- medications, treatments and what they did or didn't help
+- advice given, plans agreed and questions still open
+- anything the user asked PainPal to remember or not to do
+
+Write in the third person ("The user..."), as plain prose or short bullet points, at most 250 words.
+Drop small talk and anything superseded by later messages. Reply with the summary only.`;
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+const messageTokens = (message: StoredMessage) => estimateTokens(message.content) + 4;
+
+/**
+ * Turn stored messages into chat turns: drops empty messages (replies that were only
+ * action proposals) and merges consecutive same-role messages, which some providers reject.
+ */
+export function toChatTurns(messages: StoredMessage[]): ChatMessage[] {
+  const turns: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+
+  for (const message of messages) {
+    if (!message.content.trim()) continue;
+    const role = message.message_type === 'user' ? 'user' : 'assistant';
+    const previous = turns[turns.length - 1];
+    if (previous?.role === role) {
+      previous.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role, content: message.content });
+    }
+  }
+
+  // A thread should open with the user speaking
+  while (turns[0]?.role === 'assistant') turns.shift();
+  return turns;
+}
+
+/**
+ * The newest messages that fit in the token budget, oldest first.
+ */
+export function selectRecentWindow(messages: StoredMessage[], budget = HISTORY_TOKEN_BUDGET) {
+  const window: StoredMessage[] = [];
+  let used = 0;
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const tokens = messageTokens(messages[index]);
+    if (used + tokens > budget && window.length > 0) break;
+    window.unshift(messages[index]);
+    used += tokens;
+  }
+
+  return window;
+}
+
+/**
+ * The summary as a system turn, followed by the recent messages as user/assistant turns.
+ */
+export function buildHistoryMessages(thread: ThreadSummary | null, unsummarized: StoredMessage[]): ChatMessage[] {
+  const window = selectRecentWindow(unsummarized);
+  const omitted = unsummarized.length - window.length;
+  const history: ChatMessage[] = [];
+
+  if (thread?.summary) {
+    history.push({
+      role: 'system',
+      content: `SUMMARY OF THE EARLIER CONVERSATION (older messages are not shown):\n${thread.summary}`,
+    });
+  } else if (omitted > 0) {
+    history.push({
+      role: 'system',
+      content: `This conversation has ${omitted} earlier message(s) that are not shown.`,
+    });
+  }
+
+  return [...history, ...toChatTurns(window)];
+}
+
+/**
+ * Which unsummarized messages should be folded into the summary now, if any.
+ * The most recent KEEP_RECENT_TOKENS (and at least MIN_RECENT_MESSAGES) stay verbatim.
+ */
+export function messagesToSummarize(unsummarized: StoredMessage[]): StoredMessage[] {
+  const total = unsummarized.reduce((sum, message) => sum + messageTokens(message), 0);
+  if (total <= SUMMARY_TRIGGER_TOKENS) return [];
+
+  let kept = 0;
+  let keptTokens = 0;
+  let splitIndex = unsummarized.length;
+  while (splitIndex > 0) {
+    const tokens = messageTokens(unsummarized[splitIndex - 1]);
+    if (kept >= MIN_RECENT_MESSAGES && keptTokens + tokens > KEEP_RECENT_TOKENS) break;
+    keptTokens += tokens;
+    kept++;
+    splitIndex--;
+  }
+
+  return unsummarized.slice(0, splitIndex);
+}
+
+/**
+ * Fold messages into the previous summary. Throws if the provider fails, so the caller
+ * keeps the old summary and retries after a later exchange.
+ */
+export async function summarizeMessages(
+  llm: LLMProvider,
+  { model, previousSummary, messages }: { model: string; previousSummary: string | null; messages: StoredMessage[] }
+) {
+  const transcript = messages
+    .filter((message) => message.content.trim())
+    .map((message) => `${message.message_type === 'user' ? 'User' : 'PainPal'}: ${message.content}`)
+    .join('\n\n');
+
+  const { content } = await complete(llm, {
+    model,
+    maxTokens: MAX_SUMMARY_TOKENS,
+    temperature: 0.2,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `Current summary:\n${previousSummary || '(none yet)'}\n\nNew messages:\n${transcript}`,
+      },
+    ],
+  });
+
+  const summary = content.trim();
+  if (!summary) throw new Error('Empty summary');
+  return summary;
+}
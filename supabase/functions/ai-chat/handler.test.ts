@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CompletionRequest, LLMProvider } from '../_shared/llm.ts';
+import { createSupabaseStub, type RecordedQuery } from '../_shared/testing/supabaseStub.ts';
+import { handleChatRequest } from './handler.ts';
+
+const USER_A = 'a0000000-0000-4000-8000-000000000001';
+const USER_B = 'b0000000-0000-4000-8000-000000000002';
+const B_CONVERSATION = 'c0000000-0000-4000-8000-0000000000b1';
+
+const recent = (hoursAgo: number) => new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
+
+// Everything below belongs to user B; user A has no data yet
+const seed = () => ({
+  profiles: [{ id: USER_B, diagnosis: 'B-only diagnosis', default_pain_locations: ['Left knee'] }],
+  pain_logs: [{ id: 'log-b', user_id: USER_B, pain_level: 9, pain_locations: ['Left knee'], triggers: ['B-only trigger'], logged_at: recent(2) }],
+  ai_conversations: [
+    { id: 'msg-b1', user_id: USER_B, conversation_id: B_CONVERSATION, message_type: 'user', content: 'B-only secret message', created_at: recent(3) },
+    { id: 'msg-b2', user_id: USER_B, conversation_id: B_CONVERSATION, message_type: 'assistant', content: 'B-only reply', created_at: recent(3) },
+  ],
+  ai_conversation_threads: [{ user_id: USER_B, conversation_id: B_CONVERSATION, summary: 'B-only summary', summarized_through: null }],
+  user_ai_preferences: [{
+    user_id: USER_B,
+    learned_patterns: { facts: [{ id: 'f1', text: 'B-only remembered fact', category: 'context' }] },
+  }],
+  medications: [{ user_id: USER_B, name: 'B-only medication', is_prn: false, stopped_on: null }],
+});
+
+function createLLMStub(reply = 'Thanks for checking in.') {
+  const requests: CompletionRequest[] = [];
+  const llm: LLMProvider = {
+    name: 'stub',
+    defaultModel: 'stub-model',
+    models: ['stub-model'],
+    async stream(request) {
+      requests.push(request);
+      return (async function* () {
+        yield { type: 'text' as const, content: reply };
+      })();
+    },
+  };
+  return { llm, requests };
+}
+
+function setup() {
+  const initial = seed();
+  const db = createSupabaseStub({ tables: initial, sessions: { 'token-a': USER_A, 'token-b': USER_B } });
+  const { llm, requests } = createLLMStub();
+  const send = (body: unknown, token: string | null = 'token-a') => handleChatRequest(
+    new Request('http://localhost/ai-chat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    }),
+    { getClient: () => db.client, getLLM: () => llm }
+  );
+  return { db, initial, requests, send };
+}
+
+// profiles is keyed by the user id itself; every other table by user_id
+const isScopedTo = (query: RecordedQuery, userId: string) => {
+  if (query.action === 'insert' || query.action === 'upsert') {
+    const rows = Array.isArray(query.values) ? query.values : [query.values!];
+    return rows.every((row) => row.user_id === userId);
+  }
+  const column = query.table === 'profiles' ? 'id' : 'user_id';
+  return query.filters.some((filter) => filter.op === 'eq' && filter.column === column && filter.value === userId);
+};
+
+describe('ai-chat handler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('refuses requests without a session', async () => {
+    const { db, requests, send } = setup();
+
+    const response = await send({ message: 'hello' }, null);
+
+    expect(response.status).toBe(401);
+    expect(db.queries).toHaveLength(0);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('refuses an invalid token', async () => {
+    const { db, requests, send } = setup();
+
+    const response = await send({ message: 'hello' }, 'forged-token');
+
+    expect(response.status).toBe(401);
+    expect(db.queries).toHaveLength(0);
+    expect(requests).toHaveLength(0);
+  });
+
+  it.each([
+    ['a missing message', {}],
+    ['a non-string message', { message: 42 }],
+    ['an empty message', { message: '   ' }],
+    ['a non-string conversationId', { message: 'hi', conversationId: 7 }],
+    ['a body that is not an object', '"hello"'],
+    ['a body that is not JSON', 'not json'],
+  ])('returns 400 for %s', async (_case, body) => {
+    const { db, requests, send } = setup();
+
+    const response = await send(body);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toEqual(expect.any(String));
+    expect(db.queries).toHaveLength(0);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("never reads or writes another user's data, whatever the body names", async () => {
+    const { db, initial, requests, send } = setup();
+
+    const response = await send({
+      message: 'How has my pain been?',
+      conversationId: B_CONVERSATION,
+      userId: USER_B,
+      user_id: USER_B,
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).content).toBe('Thanks for checking in.');
+
+    // Nothing of B's reached the model
+    const prompts = JSON.stringify(requests);
+    expect(prompts).not.toContain('B-only');
+
+    // Every query was filtered to, or wrote as, the caller
+    expect(db.queries.length).toBeGreaterThan(0);
+    expect(db.queries.filter((query) => !isScopedTo(query, USER_A))).toEqual([]);
+
+    // B's rows are untouched, and what was stored belongs to A
+    const rowsOf = (userId: string) => Object.fromEntries(
+      Object.entries(db.tables).map(([table, rows]) => [
+        table,
+        rows.filter((row) => (table === 'profiles' ? row.id : row.user_id) === userId),
+      ]).filter(([, rows]) => rows.length > 0)
+    );
+    expect(rowsOf(USER_B)).toEqual(initial);
+    const stored = db.tables.ai_conversations.filter((row) => row.user_id === USER_A);
+    expect(stored.map((row) => row.message_type)).toEqual(['user', 'assistant']);
+  });
+
+  it("does not escalate on another user's pain history", async () => {
+    const { send } = setup();
+
+    const response = await send({ message: 'Just saying hi' });
+    const body = await response.json();
+
+    // B's level 9 entry would be a baseline jump if it were read
+    expect(body.escalation).toBeNull();
+  });
+});
@@ -0,0 +1,922 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.4';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getAuthenticatedUser } from '../_shared/auth.ts';
+import { resolveModel, type ChatMessage, type LLMProvider, type ToolCall } from '../_shared/llm.ts';
+import {
+  PAIN_TOOLS,
+  getPainStats,
+  isWriteTool,
+  topCounts,
+  validateGetStats,
+  validateLogPain,
+  validateResolveSession,
+  validateUpdateLastEntry,
+  type ProposedAction,
+} from '../_shared/painTools.ts';
+import { extractFacts, formatMemoryForPrompt, mergeFacts, readLearnedPatterns } from '../_shared/memory.ts';
+import {
+  buildEscalation,
+  detectBaselineJump,
+  detectMessageRedFlags,
+  formatSafetyPrompt,
+  type Escalation,
+  type RedFlag,
+} from '../_shared/redFlags.ts';
+import { buildHistoryMessages, messagesToSummarize, summarizeMessages, type StoredMessage } from '../_shared/threadContext.ts';
+import { formatOveruseForPrompt, OVERUSE_WINDOW_DAYS, type DoseRow } from '../_shared/medicationOveruse.ts';
+
+interface ChatRequest {
+  message: string;
+  conversationId?: string;
+  stream?: boolean;
+  // IANA zone of the caller, so relative times like "since lunch" resolve correctly
+  timezone?: string;
+}
+
+type ChatEvent =
+  | { type: 'token'; content: string }
+  | { type: 'action'; action: ProposedAction }
+  | { type: 'escalation'; escalation: Escalation };
+
+interface ToolOutcome {
+  // Fed back to the model as the tool result
+  result: string;
+  action?: ProposedAction;
+}
+
+const MAX_TOOL_ROUNDS = 3;
+// Unsummarized messages loaded per request; the token budget decides how many are sent
+const HISTORY_FETCH_LIMIT = 100;
+
+interface UserProfile {
+  diagnosis?: string;
+  default_pain_locations?: string[];
+  pain_is_consistent?: boolean;
+}
+
+interface MedicationRecord {
+  name: string;
+  strength: string | null;
+  form: string | null;
+  is_prn: boolean;
+  schedule: { frequency?: string } | null;
+  stopped_on: string | null;
+}
+
+// Built per request, so a missing key surfaces as a 500 like any other failure
+export interface ChatDependencies {
+  getClient: () => SupabaseClient;
+  getLLM: () => LLMProvider;
+}
+
+const describeMedication = (med: MedicationRecord) => {
+  const details = [med.name, med.strength, med.form].filter(Boolean).join(' ');
+  const timing = med.is_prn ? 'as needed' : med.schedule?.frequency;
+  return timing ? `${details} - ${timing}` : details;
+};
+
+const badRequest = (error: string) => new Response(JSON.stringify({ error }), {
+  status: 400,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+});
+
+// Reads only what the handler uses; anything else in the body is ignored
+function parseChatRequest(body: unknown): ChatRequest | string {
+  if (!body || typeof body !== 'object') return 'Request body must be a JSON object';
+  const { message, conversationId, stream, timezone } = body as Record<string, unknown>;
+
+  if (typeof message !== 'string' || !message.trim()) return 'message must be a non-empty string';
+  if (conversationId !== undefined && conversationId !== null && typeof conversationId !== 'string') {
+    return 'conversationId must be a string';
+  }
+  if (timezone !== undefined && timezone !== null && typeof timezone !== 'string') {
+    return 'timezone must be a string';
+  }
+
+  return {
+    message,
+    conversationId: conversationId || undefined,
+    stream: stream === true,
+    timezone: timezone || undefined,
+  };
+}
+
+export async function handleChatRequest(req: Request, deps: ChatDependencies): Promise<Response> {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const llm = deps.getLLM();
+    const supabase = deps.getClient();
+
+    // The service-role client bypasses RLS, so every query below must be scoped
+    // to the user verified from the caller's JWT — never to anything in the body
+    const user = await getAuthenticatedUser(req, supabase);
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const userId = user.id;
+
+    const parsed = parseChatRequest(await req.json().catch(() => null));
+    if (typeof parsed === 'string') return badRequest(parsed);
+
+    const { message, conversationId, stream, timezone } = parsed;
+    const receivedAt = new Date().toISOString();
+
+    console.log('Processing chat request:', { userId, conversationId, messageLength: message.length });
+
+    // Fetch comprehensive user context
+    const [profileResponse, medicationsResponse, painHistoryResponse, conversationHistoryResponse, threadResponse, preferencesResponse, activeSessionResponse, dosesResponse] = await Promise.all([
+      // User profile
+      supabase
+        .from('profiles')
+        .select('diagnosis, default_pain_locations, pain_is_consistent, common_triggers')
+        .eq('id', userId)
+        .single(),
+
+      // Medications list, including stopped ones so they can be filtered by date below
+      supabase
+        .from('medications')
+        .select('name, strength, form, is_prn, schedule, stopped_on')
+        .eq('user_id', userId)
+        .order('name', { ascending: true }),
+      
+      // Recent pain history (last 30 days)
+      supabase
+        .from('pain_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('logged_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
+        .order('logged_at', { ascending: false })
+        .limit(50),
+      
+      // Recent conversation history, newest first
+      conversationId ? supabase
+        .from('ai_conversations')
+        .select('message_type, content, created_at')
+        .eq('user_id', userId)
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_FETCH_LIMIT) : { data: [] },
+
+      // Rolling summary of anything older
+      conversationId ? supabase
+        .from('ai_conversation_threads')
+        .select('summary, summarized_through')
+        .eq('user_id', userId)
+        .eq('conversation_id', conversationId)
+        .maybeSingle() : { data: null },
+      
+      // User AI preferences
+      supabase
+        .from('user_ai_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .single(),
+
+      // Ongoing pain episode, the target of resolve_session
+      supabase
+        .from('pain_sessions')
+        .select('id, started_at, start_level')
+        .eq('user_id', userId)
+        .is('resolved_at', null)
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+
+      // Doses taken, for acute-medication days
+      supabase
+        .from('medication_doses')
+        .select('taken_at, medications(name)')
+        .eq('user_id', userId)
+        .eq('status', 'taken')
+        .gte('taken_at', new Date(Date.now() - OVERUSE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString())
+    ]);
+
+    const profile = profileResponse.data;
+    const today = receivedAt.slice(0, 10);
+    const currentMedications = ((medicationsResponse.data || []) as MedicationRecord[])
+      .filter((med) => !med.stopped_on || med.stopped_on > today);
+    const painHistory = painHistoryResponse.data || [];
+    const thread = threadResponse.data;
+    // Oldest first, without what the summary already covers
+    const conversationHistory: StoredMessage[] = (conversationHistoryResponse.data || [])
+      .reverse()
+      .filter((msg) => !thread?.summarized_through || new Date(msg.created_at) > new Date(thread.summarized_through));
+    const preferences = preferencesResponse.data;
+    const activeSession = activeSessionResponse.data;
+    const memory = readLearnedPatterns(preferences?.learned_patterns);
+
+    console.log('Context gathered:', {
+      hasProfile: !!profile,
+      painHistoryCount: painHistory.length,
+      conversationHistoryCount: conversationHistory.length,
+      hasSummary: !!thread?.summary,
+      hasPreferences: !!preferences,
+      rememberedFacts: memory.facts.length
+    });
+
+    // Analyze pain patterns
+    const painAnalysis = analyzePainPatterns(painHistory);
+    console.log('Pain analysis:', painAnalysis);
+
+    // Build comprehensive AI context
+    let systemPrompt = `You are PainPal, an advanced AI pain companion that provides personalized support for pain management. You are empathetic, knowledgeable, supportive, and remember previous conversations.
+
+CORE PERSONALITY:
+- Warm, understanding, and non-judgmental
+- Medically informed but never replace professional medical advice
+- Proactive in offering insights and suggestions
+- Remember and reference previous conversations naturally
+
+CAPABILITIES:
+- Analyze pain patterns and trends
+- Provide personalized suggestions based on user history
+- Offer evidence-based pain management strategies
+- Support medication tracking and effectiveness analysis
+- Detect concerning patterns and recommend professional consultation`;
+    
+    if (profile) {
+      systemPrompt += `\n\nUSER PROFILE:`;
+      
+      if (profile.diagnosis) {
+        systemPrompt += `\n- Condition: ${profile.diagnosis}`;
+      }
+      
+      if (profile.default_pain_locations?.length > 0) {
+        systemPrompt += `\n- Typical pain areas: ${profile.default_pain_locations.join(', ')}`;
+        systemPrompt += `\n- Pain pattern: ${profile.pain_is_consistent ? 'Usually consistent in these areas' : 'Pain varies in location'}`;
+      }
+      
+      if (currentMedications.length > 0) {
+        systemPrompt += `\n- Current medications: ${currentMedications.map(describeMedication).join(', ')}`;
+      }
+
+      if (profile.common_triggers?.length > 0) {
+        systemPrompt += `\n- Known triggers: ${profile.common_triggers.join(', ')}`;
+      }
+    }
+
+    // Add pain pattern analysis
+    if (painAnalysis.hasData) {
+      systemPrompt += `\n\nRECENT PAIN PATTERNS (Last 30 days):
+- Average pain level: ${painAnalysis.averagePain.toFixed(1)}/10
+- Most affected areas: ${painAnalysis.topLocations.join(', ')}
+- Common triggers: ${painAnalysis.commonTriggers.join(', ')}
+- Trend: ${painAnalysis.trend}`;
+
+      if (painAnalysis.insights.length > 0) {
+        systemPrompt += `\n- Key insights: ${painAnalysis.insights.join('; ')}`;
+      }
+    }
+
+    systemPrompt += formatOveruseForPrompt((dosesResponse.data || []) as DoseRow[], timezone);
+
+    // Add AI preferences
+    if (preferences) {
+      systemPrompt += `\n\nUSER PREFERENCES:
+- Communication style: ${preferences.preferred_communication_style}
+- AI personality: ${preferences.ai_personality}`;
+    }
+
+    systemPrompt += formatMemoryForPrompt(memory.facts);
+
+    systemPrompt += `\n\nIMPORTANT GUIDELINES:
+- Reference previous conversations naturally when relevant
+- Provide specific, actionable advice based on their condition and history
+- Suggest logging pain when appropriate
+- Alert to concerning patterns (e.g., sudden increases, new symptoms)
+- Always remind that you don't replace professional medical advice
+- Be proactive in offering relevant insights from their pain history`;
+
+    systemPrompt += `\n\nTOOLS:
+- Current time: ${formatNow(timezone)}
+- When the user describes their pain (a level, where it hurts, medication taken), call log_pain with what they said. Don't invent values they didn't give.
+- Use update_last_entry when they correct or add to their most recent entry, and resolve_session when an ongoing episode has ended.
+- These tools only propose a change: the user confirms it in the app. Say what you prepared and ask them to confirm; never claim it is already saved.
+- Call get_stats before quoting numbers about their history.`;
+
+    if (profile?.pain_is_consistent === false) {
+      systemPrompt += `\n- Their pain moves around, so ask where it hurts before logging if they didn't say.`;
+    } else if (profile?.default_pain_locations?.length > 0) {
+      systemPrompt += `\n- If they don't mention a location, use their typical areas: ${profile.default_pain_locations.join(', ')}.`;
+    }
+
+    // Safety pre-check: red-flag language in the message, or a recent entry far above baseline.
+    // A jump escalates once a day; after that it is already logged as a warning insight.
+    const preFlags = detectMessageRedFlags(message);
+    const recentJump = detectBaselineJump(painHistory);
+    if (recentJump && !(await hasRecentJumpEscalation(supabase, userId))) {
+      preFlags.push(recentJump);
+    }
+    const preEscalation = buildEscalation(preFlags);
+    if (preEscalation) {
+      console.log('Red flags detected before reply:', preFlags.map((flag) => flag.code));
+    }
+
+    systemPrompt += `\n- ${activeSession ? `Ongoing pain episode started ${activeSession.started_at} at level ${activeSession.start_level}.` : 'There is no ongoing pain episode.'}`;
+
+    if (preEscalation) systemPrompt += formatSafetyPrompt(preEscalation);
+
+    const newConversationId = conversationId || crypto.randomUUID();
+    // Per-user model choice; falls back to the provider default if it isn't one the provider offers
+    const chatModel = resolveModel(llm, preferences?.preferred_model);
+
+    // Persist both sides of the exchange. Partial replies (client cancelled
+    // mid-stream) are stored too so the thread reads the way the user saw it.
+    // Returns the IDs of the stored messages.
+    const storeExchange = async (aiResponse: string, extraMetadata: Record<string, unknown> = {}): Promise<string[]> => {
+      try {
+        const stored = await Promise.all([
+          supabase.from('ai_conversations').insert({
+            user_id: userId,
+            conversation_id: newConversationId,
+            message_type: 'user',
+            content: message,
+            // Explicit timestamps keep the pair in order when the thread is reopened
+            created_at: receivedAt,
+            metadata: { timestamp: receivedAt }
+          }).select('id').single(),
+          aiResponse || extraMetadata.actions ? supabase.from('ai_conversations').insert({
+            user_id: userId,
+            conversation_id: newConversationId,
+            message_type: 'assistant',
+            content: aiResponse,
+            created_at: new Date().toISOString(),
+            metadata: {
+              provider: llm.name,
+              model: chatModel,
+              timestamp: new Date().toISOString(),
+              pain_analysis: painAnalysis,
+              ...extraMetadata
+            }
+          }).select('id').single() : Promise.resolve(null)
+        ]);
+
+        // Update user preferences with last interaction
+        if (preferences) {
+          await supabase
+            .from('user_ai_preferences')
+            .update({ last_interaction: new Date().toISOString() })
+            .eq('user_id', userId);
+        } else {
+          // Create default preferences if they don't exist
+          await supabase
+            .from('user_ai_preferences')
+            .insert({
+              user_id: userId,
+              last_interaction: new Date().toISOString()
+            });
+        }
+
+        console.log('Conversation stored successfully');
+        return stored.map((response) => response?.data?.id).filter(Boolean);
+      } catch (dbError) {
+        console.error('Database storage error:', dbError);
+        // Continue even if storage fails
+        return [];
+      }
+    };
+
+    // Learn durable facts from a finished exchange into learned_patterns
+    const rememberExchange = async (aiResponse: string, sourceMessageIds: string[]) => {
+      const extracted = await extractFacts(llm, {
+        model: chatModel,
+        userMessage: message,
+        reply: aiResponse,
+        memory
+      });
+      if (extracted.length === 0) return;
+
+      // Re-read so edits made in the profile while the model was replying aren't lost
+      const { data: latest, error: latestError } = await supabase
+        .from('user_ai_preferences')
+        .select('learned_patterns')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (latestError) {
+        console.error('Error loading memory:', latestError);
+        return;
+      }
+
+      const { patterns, changed } = mergeFacts(readLearnedPatterns(latest?.learned_patterns), extracted, sourceMessageIds);
+      if (!changed) return;
+
+      const { error } = await supabase
+        .from('user_ai_preferences')
+        .update({ learned_patterns: patterns })
+        .eq('user_id', userId);
+      if (error) console.error('Error saving memory:', error);
+      else console.log('Memory updated:', { facts: patterns.facts.length });
+    };
+
+    // Fold the oldest unsummarized messages into the thread summary once they pass the budget
+    const updateThreadSummary = async () => {
+      try {
+        const { data: current, error: threadError } = await supabase
+          .from('ai_conversation_threads')
+          .select('summary, summarized_through')
+          .eq('user_id', userId)
+          .eq('conversation_id', newConversationId)
+          .maybeSingle();
+        if (threadError) throw threadError;
+        if (!current) return;
+
+        let query = supabase
+          .from('ai_conversations')
+          .select('message_type, content, created_at')
+          .eq('user_id', userId)
+          .eq('conversation_id', newConversationId)
+          .order('created_at', { ascending: true })
+          .limit(HISTORY_FETCH_LIMIT * 2);
+        if (current.summarized_through) query = query.gt('created_at', current.summarized_through);
+        const { data: unsummarized, error: messagesError } = await query;
+        if (messagesError) throw messagesError;
+
+        const toSummarize = messagesToSummarize(unsummarized || []);
+        if (toSummarize.length === 0) return;
+
+        const summary = await summarizeMessages(llm, {
+          model: chatModel,
+          previousSummary: current.summary,
+          messages: toSummarize
+        });
+
+        // Only advance from the state we read, so overlapping requests can't roll the summary back
+        let update = supabase
+          .from('ai_conversation_threads')
+          .update({
+            summary,
+            summarized_through: toSummarize[toSummarize.length - 1].created_at,
+            summary_updated_at: new Date().toISOString()
+          })
+          .eq('user_id', userId)
+          .eq('conversation_id', newConversationId);
+        update = current.summarized_through
+          ? update.eq('summarized_through', current.summarized_through)
+          : update.is('summarized_through', null);
+        const { error } = await update;
+        if (error) throw error;
+
+        console.log('Thread summary updated:', { summarizedMessages: toSummarize.length });
+      } catch (summaryError) {
+        // The previous summary stays; the next exchange tries again
+        console.error('Error updating thread summary:', summaryError);
+      }
+    };
+
+    // Record an escalation as a warning insight, pointing at the messages and entries behind it
+    const logEscalation = async (escalation: Escalation, messageIds: string[]) => {
+      const labels = escalation.flags.map((flag) => flag.label);
+      const { error } = await supabase.from('ai_insights').insert({
+        user_id: userId,
+        insight_type: 'warning',
+        title: `Safety check: ${labels[0]}${labels.length > 1 ? ` and ${labels.length - 1} more` : ''}`,
+        description: `In a chat on ${new Date(receivedAt).toDateString()}, PainPal flagged: ${labels.join('; ')}. ${escalation.guidance[0]}`,
+        confidence_score: 1,
+        data_sources: [
+          ...messageIds,
+          ...escalation.flags.map((flag) => flag.pain_log_id).filter(Boolean)
+        ],
+        metadata: {
+          generated_by: 'ai-chat-safety',
+          level: escalation.level,
+          flags: escalation.flags,
+          conversation_id: newConversationId
+        }
+      });
+      if (error) console.error('Error logging escalation insight:', error);
+    };
+
+    // Work that shouldn't hold up the reply
+    const afterExchange = (
+      aiResponse: string,
+      messageIds: string[],
+      { partial, escalation }: { partial: boolean; escalation: Escalation | null }
+    ) => runInBackground(Promise.all([
+      // A reply the user cut off isn't a reliable source of facts
+      !partial && aiResponse ? rememberExchange(aiResponse, messageIds) : null,
+      updateThreadSummary(),
+      escalation ? logEscalation(escalation, messageIds) : null
+    ]));
+
+    // Abort the upstream completion as soon as the caller goes away
+    const upstreamController = new AbortController();
+    req.signal?.addEventListener('abort', () => upstreamController.abort());
+
+    // Validate tool arguments and either run the tool (reads) or turn it into a proposal (writes)
+    const handleToolCall = async (call: ToolCall): Promise<ToolOutcome> => {
+      if (call.name === 'get_stats') {
+        const validation = validateGetStats(call.arguments);
+        if (!validation.ok) return { result: JSON.stringify({ error: validation.error }) };
+        try {
+          const stats = await getPainStats(supabase, userId, validation.args.range);
+          return { result: JSON.stringify(stats) };
+        } catch (statsError) {
+          console.error('Error computing pain stats:', statsError);
+          return { result: JSON.stringify({ error: 'Stats are unavailable right now' }) };
+        }
+      }
+
+      if (!isWriteTool(call.name)) {
+        return { result: JSON.stringify({ error: `Unknown tool: ${call.name}` }) };
+      }
+
+      let action: ProposedAction;
+      if (call.name === 'log_pain') {
+        const validation = validateLogPain(call.arguments);
+        if (!validation.ok) return { result: JSON.stringify({ error: validation.error }) };
+        action = { id: call.id, tool: 'log_pain', args: validation.args };
+      } else if (call.name === 'update_last_entry') {
+        const validation = validateUpdateLastEntry(call.arguments);
+        if (!validation.ok) return { result: JSON.stringify({ error: validation.error }) };
+        const lastEntry = painHistory[0];
+        if (!lastEntry) return { result: JSON.stringify({ error: 'The user has no recent entry to update' }) };
+        action = {
+          id: call.id,
+          tool: 'update_last_entry',
+          args: validation.args,
+          target: { id: lastEntry.id, logged_at: lastEntry.logged_at, pain_level: lastEntry.pain_level },
+        };
+      } else {
+        const validation = validateResolveSession(call.arguments);
+        if (!validation.ok) return { result: JSON.stringify({ error: validation.error }) };
+        if (!activeSession) return { result: JSON.stringify({ error: 'There is no ongoing pain episode to resolve' }) };
+        action = {
+          id: call.id,
+          tool: 'resolve_session',
+          args: validation.args,
+          target: { id: activeSession.id, started_at: activeSession.started_at, pain_level: activeSession.start_level },
+        };
+      }
+
+      return {
+        result: JSON.stringify({ status: 'awaiting_user_confirmation' }),
+        action,
+      };
+    };
+
+    // Earlier turns go in as real messages (after the summary, if the thread has one)
+    const chatMessages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...buildHistoryMessages(thread, conversationHistory),
+      { role: 'user', content: message }
+    ];
+
+    const conversation = withSafetyChecks(runConversation(llm, {
+      model: chatModel,
+      messages: chatMessages,
+      tools: PAIN_TOOLS,
+      maxTokens: 800,
+      temperature: 0.7,
+      signal: upstreamController.signal,
+    }, handleToolCall), preFlags, (action) => {
+      // Safety post-check: a level the model is about to log that is far above baseline
+      const level = (action.args as { pain_level?: number }).pain_level;
+      return action.tool !== 'resolve_session' && level !== undefined
+        ? detectBaselineJump(painHistory, { proposedLevel: level })
+        : null;
+    });
+
+    // Generate intelligent suggestions based on context
+    const suggestions = generateContextualSuggestions(message, profile, currentMedications, painAnalysis, conversationHistory);
+
+    if (stream) {
+      return new Response(
+        streamCompletion(conversation, {
+          conversationId: newConversationId,
+          onCancel: () => upstreamController.abort(),
+          onComplete: async (aiResponse, { partial, actions, escalation }) => {
+            const messageIds = await storeExchange(aiResponse, {
+              ...(partial ? { partial: true } : {}),
+              ...(actions.length > 0 ? { actions } : {}),
+              ...(escalation ? { escalation } : {})
+            });
+            await afterExchange(aiResponse, messageIds, { partial, escalation });
+            return {
+              suggestions,
+              conversationId: newConversationId,
+              insights: painAnalysis.insights
+            };
+          }
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+          },
+        }
+      );
+    }
+
+    let aiResponse = '';
+    const actions: ProposedAction[] = [];
+    let escalation: Escalation | null = null;
+    for await (const event of conversation) {
+      if (event.type === 'token') aiResponse += event.content;
+      else if (event.type === 'action') actions.push(event.action);
+      else escalation = event.escalation;
+    }
+
+    const messageIds = await storeExchange(aiResponse, {
+      ...(actions.length > 0 ? { actions } : {}),
+      ...(escalation ? { escalation } : {})
+    });
+    await afterExchange(aiResponse, messageIds, { partial: false, escalation });
+
+    return new Response(JSON.stringify({ 
+      content: aiResponse,
+      actions,
+      escalation,
+      suggestions,
+      conversationId: newConversationId,
+      insights: painAnalysis.insights
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in ai-chat function:', error);
+    return new Response(JSON.stringify({ 
+      error: error.message || 'An error occurred processing your request',
+      suggestions: [
+        "How is my pain today?",
+        "Log a pain entry", 
+        "Show my pain patterns",
+        "Tell me about my medication effectiveness"
+      ]
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// Drive the model through up to MAX_TOOL_ROUNDS of tool calls, yielding text as it
+// streams and a proposal for every validated write tool call
+async function* runConversation(
+  llm: LLMProvider,
+  request: Parameters<LLMProvider['stream']>[0],
+  handleToolCall: (call: ToolCall) => Promise<ToolOutcome>
+): AsyncGenerator<ChatEvent> {
+  const messages = [...request.messages];
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+
+    // Out of rounds: ask for a plain answer
+    const tools = round < MAX_TOOL_ROUNDS ? request.tools : undefined;
+    for await (const event of await llm.stream({ ...request, messages, tools })) {
+      if (event.type === 'text') {
+        content += event.content;
+        yield { type: 'token', content: event.content };
+      } else {
+        toolCalls.push(event.call);
+      }
+    }
+
+    if (toolCalls.length === 0) return;
+
+    messages.push({ role: 'assistant', content, toolCalls });
+    for (const call of toolCalls) {
+      const outcome = await handleToolCall(call);
+      console.log('Tool call handled:', { tool: call.name, proposed: !!outcome.action });
+      if (outcome.action) yield { type: 'action', action: outcome.action };
+      messages.push({ role: 'tool', toolCallId: call.id, content: outcome.result });
+    }
+  }
+}
+
+// Let the response go out first where the runtime can finish work afterwards (Supabase Edge Runtime);
+// elsewhere the caller simply waits for the task
+function runInBackground(task: Promise<unknown>) {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime;
+  if (!runtime) return task;
+  runtime.waitUntil(task);
+  return Promise.resolve();
+}
+
+// Emit the pre-check escalation before any text, then check each proposed entry as it
+// arrives; new flags re-emit the escalation with everything found so far
+async function* withSafetyChecks(
+  events: AsyncIterable<ChatEvent>,
+  initialFlags: RedFlag[],
+  checkAction: (action: ProposedAction) => RedFlag | null
+): AsyncGenerator<ChatEvent> {
+  const flags = [...initialFlags];
+  const initial = buildEscalation(flags);
+  if (initial) yield { type: 'escalation', escalation: initial };
+
+  for await (const event of events) {
+    yield event;
+    if (event.type !== 'action') continue;
+
+    const flag = checkAction(event.action);
+    if (flag && !flags.some((existing) => existing.code === flag.code)) {
+      flags.push(flag);
+      console.log('Red flag detected in proposed entry:', flag.code);
+      yield { type: 'escalation', escalation: buildEscalation(flags)! };
+    }
+  }
+}
+
+// Whether a baseline jump was escalated in the last day, whether from an entry or a proposed one
+async function hasRecentJumpEscalation(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from('ai_insights')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('insight_type', 'warning')
+    .contains('metadata', { generated_by: 'ai-chat-safety', flags: [{ code: 'baseline_jump' }] })
+    .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+    .limit(1);
+  if (error) {
+    console.error('Error checking previous escalations:', error);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+function formatNow(timezone?: string) {
+  const now = new Date();
+  try {
+    if (timezone) {
+      return `${now.toLocaleString('en-US', { timeZone: timezone, dateStyle: 'full', timeStyle: 'short' })} (${timezone}); ISO ${now.toISOString()}`;
+    }
+  } catch {
+    // Unknown zone name, fall through to UTC
+  }
+  return `${now.toISOString()} (UTC)`;
+}
+
+interface StreamOptions {
+  conversationId: string;
+  onCancel: () => void;
+  onComplete: (
+    content: string,
+    status: { partial: boolean; actions: ProposedAction[]; escalation: Escalation | null }
+  ) => Promise<Record<string, unknown>>;
+}
+
+// Re-emit the conversation as our own SSE frames:
+//   {type:'start', conversationId} -> ({type:'token', content} | {type:'action', action} | {type:'escalation', escalation})*
+//   -> {type:'done', ...metadata}
+// If the client disconnects, whatever was generated so far is handed to onComplete as partial.
+function streamCompletion(events: AsyncIterable<ChatEvent>, options: StreamOptions) {
+  const encoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+  let content = '';
+  const actions: ProposedAction[] = [];
+  let escalation: Escalation | null = null;
+  let finished = false;
+
+  const frame = (payload: Record<string, unknown>) => encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+
+  const finish = async (partial: boolean) => {
+    if (finished) return null;
+    finished = true;
+    return options.onComplete(content, { partial, actions, escalation });
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(frame({ type: 'start', conversationId: options.conversationId }));
+    },
+
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+
+        if (!done) {
+          if (value.type === 'token') {
+            content += value.content;
+          } else if (value.type === 'action') {
+            actions.push(value.action);
+          } else {
+            escalation = value.escalation;
+          }
+          controller.enqueue(frame(value));
+          return;
+        }
+
+        const metadata = await finish(false);
+        // Cancelled while the reply was being stored
+        if (metadata === null) return;
+        controller.enqueue(frame({ type: 'done', ...metadata }));
+        controller.close();
+      } catch (error) {
+        // Reads fail once cancel() aborts the upstream request; that path already stored the partial reply
+        if (finished) return;
+        console.error('Error streaming AI response:', error);
+        await finish(true);
+        controller.enqueue(frame({ type: 'error', error: 'The response was interrupted' }));
+        controller.close();
+      }
+    },
+
+    async cancel() {
+      console.log('Client cancelled stream, storing partial response');
+      options.onCancel();
+      await iterator.return?.();
+      await finish(true);
+    }
+  });
+}
+
+// Pain pattern analysis function
+function analyzePainPatterns(painHistory: any[]) {
+  if (!painHistory || painHistory.length === 0) {
+    return {
+      hasData: false,
+      averagePain: 0,
+      topLocations: [],
+      commonTriggers: [],
+      trend: 'No data available',
+      insights: []
+    };
+  }
+
+  const recentLogs = painHistory.slice(0, 30);
+  const averagePain = recentLogs.reduce((sum, log) => sum + log.pain_level, 0) / recentLogs.length;
+
+  // Stored names are canonical, so each place or trigger is counted under one name
+  const topLocations = topCounts(recentLogs.flatMap(log => log.pain_locations || []))
+    .map(({ name }) => name);
+  const commonTriggers = topCounts(recentLogs.flatMap(log => log.triggers || []))
+    .map(({ name }) => name);
+
+  // Analyze trend
+  const recentAvg = recentLogs.slice(0, 7).reduce((sum, log) => sum + log.pain_level, 0) / Math.min(7, recentLogs.length);
+  const olderAvg = recentLogs.slice(7, 14).reduce((sum, log) => sum + log.pain_level, 0) / Math.min(7, recentLogs.slice(7, 14).length);
+  
+  let trend = 'Stable';
+  if (recentAvg > olderAvg + 0.5) trend = 'Increasing';
+  else if (recentAvg < olderAvg - 0.5) trend = 'Decreasing';
+
+  // Generate insights
+  const insights = [];
+  if (averagePain > 7) insights.push('High pain levels detected');
+  if (trend === 'Increasing') insights.push('Pain levels trending upward');
+  if (trend === 'Decreasing') insights.push('Pain levels improving');
+  if (topLocations.length > 0) insights.push(`Most affected: ${topLocations[0]}`);
+
+  return {
+    hasData: true,
+    averagePain,
+    topLocations,
+    commonTriggers,
+    trend,
+    insights
+  };
+}
+
+// Generate contextual suggestions
+function generateContextualSuggestions(message: string, profile: any, medications: MedicationRecord[], painAnalysis: any, conversationHistory: any[]) {
+  const suggestions = [];
+  const msgLower = message.toLowerCase();
+
+  // Pain logging suggestions
+  if (msgLower.includes('pain') && !msgLower.includes('log')) {
+    suggestions.push("Log my current pain level");
+  }
+
+  // Pattern analysis suggestions
+  if (painAnalysis.hasData) {
+    if (painAnalysis.trend === 'Increasing') {
+      suggestions.push("What's causing my pain to increase?");
+    }
+    if (painAnalysis.commonTriggers.length > 0) {
+      suggestions.push(`Tell me about my ${painAnalysis.commonTriggers[0]} trigger`);
+    }
+  }
+
+  // Medication suggestions
+  if (medications.length > 0) {
+    suggestions.push("How effective are my medications?");
+  }
+
+  // Condition-specific suggestions
+  if (profile?.diagnosis) {
+    suggestions.push(`Tips for managing ${profile.diagnosis}`);
+  }
+
+  // Default suggestions if none generated
+  if (suggestions.length === 0) {
+    suggestions.push(
+      "How is my pain today?",
+      "Log a pain entry",
+      "Show my pain patterns",
+      "Medication effectiveness review"
+    );
+  }
+
+  return suggestions.slice(0, 4); // Limit to 4 suggestions
+}
\ No newline at end of file
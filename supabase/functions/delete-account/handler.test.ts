@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseStub } from '../_shared/testing/supabaseStub.ts';
+import { handleDeleteAccountRequest } from './handler.ts';
+
+const USER_A = 'a0000000-0000-4000-8000-000000000001';
+const USER_B = 'b0000000-0000-4000-8000-000000000002';
+
+// More of A's attachments than one storage page, some in a subfolder
+const A_FILES = [
+  ...Array.from({ length: 120 }, (_, index) => `${USER_A}/photo-${index}.jpg`),
+  `${USER_A}/exports/2026-10.zip`,
+];
+const B_FILES = [`${USER_B}/photo-0.jpg`];
+
+function setup(rpcError: { message: string } | null = null) {
+  const db = createSupabaseStub({
+    sessions: { 'token-a': USER_A, 'token-b': USER_B },
+    storage: { attachments: [...A_FILES, ...B_FILES], exports: [`${USER_A}/report.pdf`] },
+    rpc: {
+      delete_user_data: () => (rpcError ? { data: null, error: rpcError } : { data: { pain_logs: 3, profiles: 1 }, error: null }),
+    },
+  });
+  const send = (body: unknown, token: string | null = 'token-a') => handleDeleteAccountRequest(
+    new Request('http://localhost/delete-account', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    }),
+    { getClient: () => db.client }
+  );
+  // Nothing of anyone's was touched
+  const untouched = () => {
+    expect(db.rpcCalls).toEqual([]);
+    expect(db.deletedUsers).toEqual([]);
+    expect(db.storage.attachments).toHaveLength(A_FILES.length + B_FILES.length);
+    expect(db.storage.exports).toHaveLength(1);
+  };
+  return { db, send, untouched };
+}
+
+describe('delete-account handler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('refuses requests without a session', async () => {
+    const { send, untouched } = setup();
+
+    const response = await send({ confirmation: 'DELETE' }, null);
+
+    expect(response.status).toBe(401);
+    untouched();
+  });
+
+  it('refuses an invalid token', async () => {
+    const { send, untouched } = setup();
+
+    const response = await send({ confirmation: 'DELETE' }, 'forged-token');
+
+    expect(response.status).toBe(401);
+    untouched();
+  });
+
+  it.each([
+    ['no confirmation', {}],
+    ['a lower-case confirmation', { confirmation: 'delete' }],
+    ['another phrase', { confirmation: 'yes' }],
+    ['a null body', 'null'],
+    ['a body that is not JSON', 'DELETE'],
+  ])('requires the confirmation phrase: %s', async (_case, body) => {
+    const { send, untouched } = setup();
+
+    const response = await send(body);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Type DELETE to confirm');
+    untouched();
+  });
+
+  it("deletes the caller's storage, rows and auth user, and nobody else's", async () => {
+    const { db, send } = setup();
+
+    const response = await send({ confirmation: 'DELETE', userId: USER_B });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      deleted: true,
+      storageObjects: A_FILES.length + 1,
+      rows: { pain_logs: 3, profiles: 1 },
+    });
+    expect(db.storage.attachments).toEqual(B_FILES);
+    expect(db.storage.exports).toEqual([]);
+    expect(db.rpcCalls).toEqual([{ name: 'delete_user_data', args: { p_user_id: USER_A } }]);
+    expect(db.deletedUsers).toEqual([USER_A]);
+  });
+
+  it('keeps the auth user when deleting the rows fails, so the request can be retried', async () => {
+    const { db, send } = setup({ message: 'deadlock detected' });
+
+    const response = await send({ confirmation: 'DELETE' });
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe('deadlock detected');
+    expect(db.deletedUsers).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.4';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getAuthenticatedUser } from '../_shared/auth.ts';
+
+// Permanently deletes the calling user's account:
+//   1. every storage object under "<user id>/" in every bucket,
+//   2. every row they own, via public.delete_user_data (one transaction),
+//   3. the auth user, which signs them out everywhere.
+// Each step is safe to repeat, so a failed request can simply be retried.
+//
+// The body must repeat the confirmation phrase the user typed, so a stray call
+// with a valid session can't delete anything.
+
+interface DeleteRequest {
+  confirmation?: string;
+}
+
+const DELETE_CONFIRMATION = 'DELETE';
+const STORAGE_PAGE_SIZE = 100;
+
+export interface DeleteAccountDependencies {
+  getClient: () => SupabaseClient;
+}
+
+export async function handleDeleteAccountRequest(req: Request, deps: DeleteAccountDependencies): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+  try {
+    const supabase = deps.getClient();
+
+    const user = await getAuthenticatedUser(req, supabase);
+    if (!user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json().catch(() => null) as DeleteRequest | null;
+    if (body?.confirmation !== DELETE_CONFIRMATION) {
+      return json({ error: `Type ${DELETE_CONFIRMATION} to confirm` }, 400);
+    }
+
+    console.log('Deleting account:', { userId: user.id });
+
+    const storageObjects = await deleteUserStorage(supabase, user.id);
+
+    const { data: rows, error: dataError } = await supabase.rpc('delete_user_data', { p_user_id: user.id });
+    if (dataError) throw dataError;
+
+    const { error: authError } = await supabase.auth.admin.deleteUser(user.id);
+    if (authError) throw authError;
+
+    console.log('Account deleted:', { userId: user.id, storageObjects, rows });
+    return json({ deleted: true, storageObjects, rows });
+  } catch (error) {
+    console.error('Error in delete-account function:', error);
+    return json({ error: error.message || 'An error occurred deleting the account' }, 500);
+  }
+}
+
+// Objects are kept under a folder named after the user id
+async function deleteUserStorage(supabase: SupabaseClient, userId: string) {
+  const { data: buckets, error } = await supabase.storage.listBuckets();
+  if (error) throw error;
+
+  let removed = 0;
+  for (const bucket of buckets || []) {
+    const paths = await listObjects(supabase, bucket.id, userId);
+    for (let start = 0; start < paths.length; start += STORAGE_PAGE_SIZE) {
+      const { error: removeError } = await supabase.storage
+        .from(bucket.id)
+        .remove(paths.slice(start, start + STORAGE_PAGE_SIZE));
+      if (removeError) throw removeError;
+    }
+    removed += paths.length;
+  }
+  return removed;
+}
+
+// Every object path below a folder; entries without an id are subfolders
+async function listObjects(supabase: SupabaseClient, bucketId: string, folder: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucketId)
+      .list(folder, { limit: STORAGE_PAGE_SIZE, offset });
+    if (error) throw error;
+
+    for (const item of data || []) {
+      const path = `${folder}/${item.name}`;
+      if (item.id) {
+        paths.push(path);
+      } else {
+        paths.push(...await listObjects(supabase, bucketId, path));
+      }
+    }
+    if (!data || data.length < STORAGE_PAGE_SIZE) return paths;
+  }
+}
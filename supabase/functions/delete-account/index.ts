@@ -0,0 +1,7 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.4';
+import { handleDeleteAccountRequest } from './handler.ts';
+
+serve((req) => handleDeleteAccountRequest(req, {
+  getClient: () => createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!),
+}));
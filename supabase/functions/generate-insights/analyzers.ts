@@ -0,0 +1,207 @@
+// Deterministic rules that turn a user's recent pain logs into insight candidates.
+// Every candidate lists the pain_logs IDs it was derived from and carries a
+// fingerprint; the same finding on a later run maps to the same fingerprint.
+
+export interface PainLogRow {
+  id: string;
+  logged_at: string;
+  pain_level: number;
+  pain_locations: string[] | null;
+  medications: string[] | null;
+  triggers: string[] | null;
+}
+
+export type InsightType = 'pattern' | 'trend' | 'warning' | 'medication_analysis';
+
+export interface InsightCandidate {
+  fingerprint: string;
+  insight_type: InsightType;
+  title: string;
+  description: string;
+  confidence_score: number;
+  data_sources: string[];
+  metadata: Record<string, unknown>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const MIN_LOGS_FOR_PATTERNS = 5;
+const MIN_MEDICATION_PAIRS = 3;
+const HIGH_PAIN_LEVEL = 8;
+
+// Confidence grows with sample size and effect size, but never claims certainty
+function confidence(sampleSize: number, effect: number) {
+  const sampleFactor = Math.min(sampleSize, 20) / 20;
+  const effectFactor = Math.min(Math.max(effect, 0), 1);
+  const score = 0.35 + sampleFactor * 0.35 + effectFactor * 0.25;
+  return Math.round(Math.min(score, 0.95) * 100) / 100;
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function timeOfDay(iso: string, timezone: string) {
+  const hour = Number(new Date(iso).toLocaleString('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: timezone }));
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+}
+
+// Compare the last 7 days with the 7 before
+export function analyzeTrend(logs: PainLogRow[], now: Date): InsightCandidate[] {
+  const recent = logs.filter((log) => now.getTime() - new Date(log.logged_at).getTime() <= 7 * DAY_MS);
+  const previous = logs.filter((log) => {
+    const age = now.getTime() - new Date(log.logged_at).getTime();
+    return age > 7 * DAY_MS && age <= 14 * DAY_MS;
+  });
+
+  if (recent.length < 3 || previous.length < 3) return [];
+
+  const recentAvg = average(recent.map((log) => log.pain_level));
+  const previousAvg = average(previous.map((log) => log.pain_level));
+  const change = recentAvg - previousAvg;
+  if (Math.abs(change) < 1) return [];
+
+  const direction = change > 0 ? 'increasing' : 'decreasing';
+  return [{
+    fingerprint: `trend:${direction}`,
+    insight_type: 'trend',
+    title: direction === 'increasing' ? 'Pain has been rising this week' : 'Pain has been easing this week',
+    description: `Your average pain over the last 7 days is ${round1(recentAvg)}/10, compared with ${round1(previousAvg)}/10 the week before.`,
+    confidence_score: confidence(recent.length + previous.length, Math.abs(change) / 3),
+    data_sources: [...recent, ...previous].map((log) => log.id),
+    metadata: { recent_average: round1(recentAvg), previous_average: round1(previousAvg), change: round1(change) },
+  }];
+}
+
+// When pain is at its worst, and which triggers go with higher pain
+export function analyzePatterns(logs: PainLogRow[], timezone: string): InsightCandidate[] {
+  if (logs.length < MIN_LOGS_FOR_PATTERNS) return [];
+  const candidates: InsightCandidate[] = [];
+
+  const highPainLogs = logs.filter((log) => log.pain_level >= 6);
+  if (highPainLogs.length >= 4) {
+    const buckets = new Map<string, PainLogRow[]>();
+    highPainLogs.forEach((log) => {
+      const bucket = timeOfDay(log.logged_at, timezone);
+      buckets.set(bucket, [...(buckets.get(bucket) || []), log]);
+    });
+    const [bucket, bucketLogs] = [...buckets.entries()].sort(([, a], [, b]) => b.length - a.length)[0];
+    const share = bucketLogs.length / highPainLogs.length;
+
+    if (share >= 0.5) {
+      candidates.push({
+        fingerprint: `pattern:time_of_day:${bucket}`,
+        insight_type: 'pattern',
+        title: `Your worst pain tends to come in the ${bucket}`,
+        description: `${bucketLogs.length} of your ${highPainLogs.length} entries at 6/10 or above were logged in the ${bucket}.`,
+        confidence_score: confidence(highPainLogs.length, (share - 0.25) / 0.75),
+        data_sources: bucketLogs.map((log) => log.id),
+        metadata: { bucket, share: round1(share) },
+      });
+    }
+  }
+
+  const triggerNames = new Set(logs.flatMap((log) => log.triggers || []).map((trigger) => trigger.toLowerCase()));
+  triggerNames.forEach((trigger) => {
+    const withTrigger = logs.filter((log) => (log.triggers || []).some((item) => item.toLowerCase() === trigger));
+    const withoutTrigger = logs.filter((log) => !withTrigger.includes(log));
+    if (withTrigger.length < 3 || withoutTrigger.length < 3) return;
+
+    const difference = average(withTrigger.map((log) => log.pain_level)) - average(withoutTrigger.map((log) => log.pain_level));
+    if (difference < 1.5) return;
+
+    candidates.push({
+      fingerprint: `pattern:trigger:${trigger}`,
+      insight_type: 'pattern',
+      title: `Higher pain when "${trigger}" is noted`,
+      description: `Entries mentioning ${trigger} average ${round1(difference)} points higher than entries without it (${withTrigger.length} vs ${withoutTrigger.length} entries). This is an association, not proof of cause.`,
+      confidence_score: confidence(withTrigger.length, difference / 4),
+      data_sources: withTrigger.map((log) => log.id),
+      metadata: { trigger, difference: round1(difference), with_count: withTrigger.length, without_count: withoutTrigger.length },
+    });
+  });
+
+  return candidates;
+}
+
+// Frequent severe pain in the last week
+export function analyzeWarnings(logs: PainLogRow[], now: Date): InsightCandidate[] {
+  const severe = logs.filter((log) =>
+    log.pain_level >= HIGH_PAIN_LEVEL && now.getTime() - new Date(log.logged_at).getTime() <= 7 * DAY_MS
+  );
+  if (severe.length < 3) return [];
+
+  const days = new Set(severe.map((log) => log.logged_at.split('T')[0])).size;
+  return [{
+    fingerprint: 'warning:frequent_severe_pain',
+    insight_type: 'warning',
+    title: 'Frequent severe pain this week',
+    description: `You logged pain of ${HIGH_PAIN_LEVEL}/10 or higher ${severe.length} times across ${days} day${days !== 1 ? 's' : ''} in the last week. Consider checking in with your healthcare provider.`,
+    confidence_score: confidence(severe.length * 3, severe.length / 7),
+    data_sources: severe.map((log) => log.id),
+    metadata: { severe_count: severe.length, days },
+  }];
+}
+
+// Pain change 2-4 hours after a logged dose, per medication
+export function analyzeMedications(logs: PainLogRow[]): InsightCandidate[] {
+  const sorted = [...logs].sort((a, b) => new Date(a.logged_at).getTime() - new Date(b.logged_at).getTime());
+  const pairs = new Map<string, { deltas: number[]; sources: string[] }>();
+
+  sorted.forEach((log, index) => {
+    if (!log.medications?.length) return;
+    const takenAt = new Date(log.logged_at).getTime();
+    const followUp = sorted.slice(index + 1).find((next) => {
+      const elapsed = new Date(next.logged_at).getTime() - takenAt;
+      return elapsed >= 2 * HOUR_MS && elapsed <= 4 * HOUR_MS;
+    });
+    if (!followUp) return;
+
+    log.medications.forEach((medication) => {
+      const key = medication.trim().toLowerCase();
+      if (!key) return;
+      const entry = pairs.get(key) || { deltas: [], sources: [] };
+      entry.deltas.push(followUp.pain_level - log.pain_level);
+      entry.sources.push(log.id, followUp.id);
+      pairs.set(key, entry);
+    });
+  });
+
+  const candidates: InsightCandidate[] = [];
+  pairs.forEach(({ deltas, sources }, medication) => {
+    if (deltas.length < MIN_MEDICATION_PAIRS) return;
+
+    const meanDelta = average(deltas);
+    const improved = deltas.filter((delta) => delta < 0).length;
+    const name = medication.charAt(0).toUpperCase() + medication.slice(1);
+    const effect = meanDelta <= -1
+      ? `pain dropped by ${round1(Math.abs(meanDelta))} points on average`
+      : meanDelta >= 1
+        ? `pain rose by ${round1(meanDelta)} points on average`
+        : 'pain stayed about the same';
+
+    candidates.push({
+      fingerprint: `medication:${medication}`,
+      insight_type: 'medication_analysis',
+      title: `How ${name} has been working`,
+      description: `Across ${deltas.length} doses with a follow-up entry 2-4 hours later, ${effect}; pain improved after ${improved} of them.`,
+      confidence_score: confidence(deltas.length, Math.abs(meanDelta) / 3),
+      data_sources: [...new Set(sources)],
+      metadata: { medication, mean_delta: round1(meanDelta), sample_size: deltas.length, improved },
+    });
+  });
+
+  return candidates;
+}
+
+export function analyzeLogs(logs: PainLogRow[], { now = new Date(), timezone = 'UTC' } = {}): InsightCandidate[] {
+  return [
+    ...analyzeTrend(logs, now),
+    ...analyzePatterns(logs, timezone),
+    ...analyzeWarnings(logs, now),
+    ...analyzeMedications(logs),
+  ];
+}
@@ -0,0 +1,184 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.4';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getAuthenticatedUser } from '../_shared/auth.ts';
+import { analyzeLogs, type InsightCandidate, type PainLogRow } from './analyzers.ts';
+
+// Writes deduplicated insights into ai_insights from each user's last 30 days of pain logs.
+//
+// - Called with a user's JWT it refreshes that user's insights (on demand from the app).
+// - Called with the service role key it processes every user who logged recently, or
+//   just `userIds` from the body. Point a scheduler (e.g. Supabase Cron) at it for nightly runs.
+//
+// Locally, against supabase/seed.sql:
+//   supabase start && supabase functions serve generate-insights
+//   curl -X POST http://127.0.0.1:54321/functions/v1/generate-insights \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" -H "Content-Type: application/json" -d '{}'
+
+interface GenerateRequest {
+  userIds?: string[];
+  timezone?: string;
+}
+
+interface GenerationResult {
+  userId: string;
+  created: number;
+  updated: number;
+  removed: number;
+  suppressed: number;
+}
+
+const LOOKBACK_DAYS = 30;
+// A dismissed insight stays hidden this long before the same finding may resurface
+const DISMISSAL_COOLDOWN_DAYS = 30;
+// Below PostgREST's max rows, so a short page reliably means the last one
+const ACTIVE_USERS_PAGE_SIZE = 500;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body = await req.json().catch(() => ({})) as GenerateRequest;
+    const timezone = body.timezone || Deno.env.get('INSIGHTS_TIMEZONE') || 'UTC';
+    const isServiceCall = req.headers.get('Authorization') === `Bearer ${supabaseKey}`;
+
+    let userIds: string[];
+    if (isServiceCall) {
+      userIds = body.userIds?.length ? body.userIds : await getRecentlyActiveUserIds(supabase);
+    } else {
+      const user = await getAuthenticatedUser(req, supabase);
+      if (!user) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      userIds = [user.id];
+    }
+
+    console.log('Generating insights:', { users: userIds.length, mode: isServiceCall ? 'batch' : 'user' });
+
+    const results: GenerationResult[] = [];
+    for (const userId of userIds) {
+      try {
+        results.push(await generateInsightsForUser(supabase, userId, timezone));
+      } catch (userError) {
+        // One user's failure shouldn't stop the batch
+        console.error('Error generating insights for user:', { userId, error: userError });
+      }
+    }
+
+    return new Response(JSON.stringify({ results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in generate-insights function:', error);
+    return new Response(JSON.stringify({
+      error: error.message || 'An error occurred generating insights'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Distinct ids a page at a time; one select would stop at the API row cap
+async function getRecentlyActiveUserIds(supabase: SupabaseClient) {
+  const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const userIds: string[] = [];
+
+  while (true) {
+    const { data, error } = await supabase.rpc('recently_active_user_ids', {
+      p_since: since,
+      p_after: userIds.length > 0 ? userIds[userIds.length - 1] : null,
+      p_limit: ACTIVE_USERS_PAGE_SIZE,
+    });
+    if (error) throw error;
+
+    userIds.push(...((data || []) as string[]));
+    if (!data || data.length < ACTIVE_USERS_PAGE_SIZE) return userIds;
+  }
+}
+
+async function generateInsightsForUser(supabase: SupabaseClient, userId: string, timezone: string): Promise<GenerationResult> {
+  const result: GenerationResult = { userId, created: 0, updated: 0, removed: 0, suppressed: 0 };
+
+  const [logsResponse, existingResponse] = await Promise.all([
+    supabase
+      .from('pain_logs')
+      .select('id, logged_at, pain_level, pain_locations, medications, triggers')
+      .eq('user_id', userId)
+      .gte('logged_at', new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString())
+      .order('logged_at', { ascending: true }),
+    supabase
+      .from('ai_insights')
+      .select('id, fingerprint, is_dismissed, updated_at')
+      .eq('user_id', userId)
+      .not('fingerprint', 'is', null),
+  ]);
+
+  if (logsResponse.error) throw logsResponse.error;
+  if (existingResponse.error) throw existingResponse.error;
+
+  const candidates = analyzeLogs((logsResponse.data || []) as PainLogRow[], { timezone });
+  const existing = new Map((existingResponse.data || []).map((row) => [row.fingerprint as string, row]));
+  const cooldownStart = Date.now() - DISMISSAL_COOLDOWN_DAYS * 24 * 60 * 60 * 1000;
+
+  for (const candidate of candidates) {
+    const current = existing.get(candidate.fingerprint);
+    const fields = toInsightFields(candidate);
+
+    if (!current) {
+      const { error } = await supabase.from('ai_insights').insert({ user_id: userId, ...fields });
+      if (error) throw error;
+      result.created++;
+      continue;
+    }
+
+    if (current.is_dismissed && new Date(current.updated_at).getTime() > cooldownStart) {
+      result.suppressed++;
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('ai_insights')
+      .update({ ...fields, is_dismissed: false })
+      .eq('id', current.id);
+    if (error) throw error;
+    result.updated++;
+  }
+
+  // Findings that no longer hold are withdrawn; dismissed rows stay to remember the user's choice
+  const currentFingerprints = new Set(candidates.map((candidate) => candidate.fingerprint));
+  const staleIds = (existingResponse.data || [])
+    .filter((row) => !row.is_dismissed && !currentFingerprints.has(row.fingerprint as string))
+    .map((row) => row.id);
+
+  if (staleIds.length > 0) {
+    const { error } = await supabase.from('ai_insights').delete().in('id', staleIds);
+    if (error) throw error;
+    result.removed = staleIds.length;
+  }
+
+  console.log('Insights generated:', result);
+  return result;
+}
+
+function toInsightFields(candidate: InsightCandidate) {
+  return {
+    fingerprint: candidate.fingerprint,
+    insight_type: candidate.insight_type,
+    title: candidate.title,
+    description: candidate.description,
+    confidence_score: candidate.confidence_score,
+    data_sources: candidate.data_sources,
+    metadata: { ...candidate.metadata, generated_by: 'generate-insights', generated_at: new Date().toISOString() },
+  };
+}
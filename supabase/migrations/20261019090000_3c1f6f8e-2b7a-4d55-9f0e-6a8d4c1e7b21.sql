@@ -0,0 +1,4 @@
+-- Per-user model selection for the AI companion.
+-- NULL means "use the configured provider's default"; unknown models fall back the same way.
+ALTER TABLE public.user_ai_preferences
+ADD COLUMN preferred_model TEXT;
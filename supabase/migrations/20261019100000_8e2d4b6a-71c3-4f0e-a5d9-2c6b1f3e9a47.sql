@@ -0,0 +1,133 @@
+-- One row per chat thread so threads can be listed, renamed and deleted
+-- without scanning every message in ai_conversations
+CREATE TABLE public.ai_conversation_threads (
+  conversation_id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL,
+  last_message TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_conversation_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own conversation threads"
+ON public.ai_conversation_threads
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own conversation threads"
+ON public.ai_conversation_threads
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own conversation threads"
+ON public.ai_conversation_threads
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own conversation threads"
+ON public.ai_conversation_threads
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_ai_conversation_threads_user_last_message
+ON public.ai_conversation_threads(user_id, last_message_at DESC);
+
+CREATE TRIGGER update_ai_conversation_threads_updated_at
+BEFORE UPDATE ON public.ai_conversation_threads
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the thread row in step with its messages. The first user message names the
+-- thread; later messages only move the preview and timestamp, so renames stick.
+CREATE OR REPLACE FUNCTION public.touch_ai_conversation_thread()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  INSERT INTO public.ai_conversation_threads (conversation_id, user_id, title, last_message, last_message_at)
+  VALUES (
+    NEW.conversation_id,
+    NEW.user_id,
+    CASE WHEN NEW.message_type = 'user' THEN left(NEW.content, 60) ELSE 'New conversation' END,
+    left(NEW.content, 200),
+    NEW.created_at
+  )
+  ON CONFLICT (conversation_id) DO UPDATE
+  SET
+    last_message = CASE
+      WHEN EXCLUDED.last_message_at >= public.ai_conversation_threads.last_message_at
+      THEN EXCLUDED.last_message
+      ELSE public.ai_conversation_threads.last_message
+    END,
+    last_message_at = GREATEST(public.ai_conversation_threads.last_message_at, EXCLUDED.last_message_at),
+    title = CASE
+      WHEN public.ai_conversation_threads.title = 'New conversation' AND NEW.message_type = 'user'
+      THEN EXCLUDED.title
+      ELSE public.ai_conversation_threads.title
+    END
+  WHERE public.ai_conversation_threads.user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER touch_ai_conversation_thread
+AFTER INSERT ON public.ai_conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_ai_conversation_thread();
+
+-- Deleting a thread removes its messages
+CREATE OR REPLACE FUNCTION public.delete_ai_conversation_messages()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  DELETE FROM public.ai_conversations
+  WHERE conversation_id = OLD.conversation_id
+    AND user_id = OLD.user_id;
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER delete_ai_conversation_messages
+AFTER DELETE ON public.ai_conversation_threads
+FOR EACH ROW
+EXECUTE FUNCTION public.delete_ai_conversation_messages();
+
+-- Backfill threads for existing conversations
+INSERT INTO public.ai_conversation_threads (conversation_id, user_id, title, last_message, last_message_at, created_at)
+SELECT
+  c.conversation_id,
+  c.user_id,
+  COALESCE(
+    (SELECT left(u.content, 60)
+     FROM public.ai_conversations u
+     WHERE u.conversation_id = c.conversation_id AND u.message_type = 'user'
+     ORDER BY u.created_at ASC
+     LIMIT 1),
+    'New conversation'
+  ),
+  (SELECT left(l.content, 200)
+   FROM public.ai_conversations l
+   WHERE l.conversation_id = c.conversation_id
+   ORDER BY l.created_at DESC
+   LIMIT 1),
+  MAX(c.created_at),
+  MIN(c.created_at)
+FROM public.ai_conversations c
+GROUP BY c.conversation_id, c.user_id
+ON CONFLICT (conversation_id) DO NOTHING;
+
+-- Full-text search across past messages
+ALTER TABLE public.ai_conversations
+ADD COLUMN content_search tsvector
+GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX idx_ai_conversations_content_search
+ON public.ai_conversations USING GIN (content_search);
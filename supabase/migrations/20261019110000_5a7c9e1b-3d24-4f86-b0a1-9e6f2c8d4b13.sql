@@ -0,0 +1,9 @@
+-- Stable key for generated insights so the background job can refresh an
+-- existing insight instead of inserting a duplicate, and can remember which
+-- ones the user dismissed. Hand-written insights leave it NULL.
+ALTER TABLE public.ai_insights
+ADD COLUMN fingerprint TEXT;
+
+CREATE UNIQUE INDEX idx_ai_insights_user_fingerprint
+ON public.ai_insights(user_id, fingerprint)
+WHERE fingerprint IS NOT NULL;
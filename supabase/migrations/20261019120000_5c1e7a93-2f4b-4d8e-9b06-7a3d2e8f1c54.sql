@@ -0,0 +1,6 @@
+-- Rolling per-thread summary: messages up to summarized_through are represented by
+-- summary in the chat context, later ones are sent verbatim
+ALTER TABLE public.ai_conversation_threads
+ADD COLUMN summary TEXT,
+ADD COLUMN summarized_through TIMESTAMP WITH TIME ZONE,
+ADD COLUMN summary_updated_at TIMESTAMP WITH TIME ZONE;
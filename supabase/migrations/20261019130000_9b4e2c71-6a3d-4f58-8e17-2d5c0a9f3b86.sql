@@ -0,0 +1,181 @@
+-- One row per medication a user takes, replacing profiles.current_medications and the
+-- hard-coded picker lists. schedule is NULL for as-needed use, otherwise
+-- {"frequency": "twice daily", "times": ["08:00", "20:00"]} with local HH:mm times.
+CREATE TABLE public.medications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  strength TEXT,
+  form TEXT,
+  schedule JSONB,
+  is_prn BOOLEAN NOT NULL DEFAULT true,
+  started_on DATE,
+  stopped_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT medications_name_not_blank CHECK (btrim(name) <> '')
+);
+
+ALTER TABLE public.medications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own medications"
+ON public.medications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own medications"
+ON public.medications
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own medications"
+ON public.medications
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own medications"
+ON public.medications
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE UNIQUE INDEX idx_medications_user_name
+ON public.medications(user_id, lower(name));
+
+CREATE TRIGGER update_medications_updated_at
+BEFORE UPDATE ON public.medications
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each dose taken. Doses recorded on a pain log are kept in step with
+-- pain_logs.medications by the trigger below; pain_log_id is NULL for doses
+-- recorded on their own.
+CREATE TABLE public.medication_doses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  pain_log_id UUID REFERENCES public.pain_logs(id) ON DELETE CASCADE,
+  taken_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.medication_doses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own medication doses"
+ON public.medication_doses
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own medication doses"
+ON public.medication_doses
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own medication doses"
+ON public.medication_doses
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own medication doses"
+ON public.medication_doses
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_medication_doses_user_taken_at
+ON public.medication_doses(user_id, taken_at DESC);
+
+CREATE UNIQUE INDEX idx_medication_doses_pain_log_medication
+ON public.medication_doses(pain_log_id, medication_id)
+WHERE pain_log_id IS NOT NULL;
+
+-- Every writer of pain logs (the app, the offline outbox, the chat) still sends
+-- medication names; this turns them into medications and doses so the tables stay
+-- the single source for pickers and analytics.
+CREATE OR REPLACE FUNCTION public.sync_pain_log_medication_doses()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  INSERT INTO public.medications (user_id, name, started_on)
+  SELECT DISTINCT ON (lower(btrim(med))) NEW.user_id, btrim(med), NEW.logged_at::date
+  FROM unnest(COALESCE(NEW.medications, '{}')) AS med
+  WHERE btrim(med) <> ''
+  ON CONFLICT (user_id, lower(name)) DO NOTHING;
+
+  DELETE FROM public.medication_doses
+  WHERE pain_log_id = NEW.id;
+
+  INSERT INTO public.medication_doses (user_id, medication_id, pain_log_id, taken_at)
+  SELECT DISTINCT NEW.user_id, m.id, NEW.id, NEW.logged_at
+  FROM unnest(COALESCE(NEW.medications, '{}')) AS med
+  JOIN public.medications m
+    ON m.user_id = NEW.user_id AND lower(m.name) = lower(btrim(med));
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_pain_log_medication_doses
+AFTER INSERT OR UPDATE OF medications, logged_at ON public.pain_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_pain_log_medication_doses();
+
+-- Backfill medications from profiles (strings or {name, dosage, frequency} objects)
+INSERT INTO public.medications (user_id, name, strength, schedule, is_prn)
+SELECT DISTINCT ON (p.id, lower(btrim(entry.name)))
+  p.id,
+  btrim(entry.name),
+  NULLIF(btrim(entry.dosage), ''),
+  CASE WHEN NULLIF(btrim(entry.frequency), '') IS NOT NULL
+    THEN jsonb_build_object('frequency', btrim(entry.frequency))
+  END,
+  NULLIF(btrim(entry.frequency), '') IS NULL
+    OR entry.frequency ~* '(as needed|when needed|prn)'
+FROM public.profiles p
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(p.current_medications) = 'array' THEN p.current_medications ELSE '[]'::jsonb END
+) AS element
+CROSS JOIN LATERAL (
+  SELECT
+    CASE WHEN jsonb_typeof(element) = 'string' THEN element #>> '{}' ELSE element ->> 'name' END AS name,
+    element ->> 'dosage' AS dosage,
+    element ->> 'frequency' AS frequency
+) AS entry
+WHERE COALESCE(btrim(entry.name), '') <> ''
+ON CONFLICT (user_id, lower(name)) DO NOTHING;
+
+-- ...and from every name ever logged, spelled as first used
+INSERT INTO public.medications (user_id, name, started_on)
+SELECT
+  l.user_id,
+  (array_agg(btrim(med) ORDER BY l.logged_at))[1],
+  MIN(l.logged_at)::date
+FROM public.pain_logs l
+CROSS JOIN LATERAL unnest(COALESCE(l.medications, '{}')) AS med
+WHERE btrim(med) <> ''
+GROUP BY l.user_id, lower(btrim(med))
+ON CONFLICT (user_id, lower(name)) DO NOTHING;
+
+-- Profile medications start at their first logged dose, if any
+UPDATE public.medications m
+SET started_on = first_use.started_on
+FROM (
+  SELECT l.user_id, lower(btrim(med)) AS name, MIN(l.logged_at)::date AS started_on
+  FROM public.pain_logs l
+  CROSS JOIN LATERAL unnest(COALESCE(l.medications, '{}')) AS med
+  GROUP BY l.user_id, lower(btrim(med))
+) AS first_use
+WHERE m.user_id = first_use.user_id
+  AND lower(m.name) = first_use.name
+  AND m.started_on IS NULL;
+
+INSERT INTO public.medication_doses (user_id, medication_id, pain_log_id, taken_at)
+SELECT DISTINCT l.user_id, m.id, l.id, l.logged_at
+FROM public.pain_logs l
+CROSS JOIN LATERAL unnest(COALESCE(l.medications, '{}')) AS med
+JOIN public.medications m
+  ON m.user_id = l.user_id AND lower(m.name) = lower(btrim(med))
+ON CONFLICT DO NOTHING;
+
+COMMENT ON COLUMN public.profiles.current_medications IS 'Deprecated: superseded by public.medications, kept for older clients.';
@@ -0,0 +1,12 @@
+-- Answers to scheduled reminders: a dose can be taken or skipped, and scheduled_for
+-- ties it to the reminder it answers so adherence can count scheduled doses.
+-- Doses logged with a pain entry stay 'taken' with no scheduled_for.
+ALTER TABLE public.medication_doses
+ADD COLUMN status TEXT NOT NULL DEFAULT 'taken',
+ADD COLUMN scheduled_for TIMESTAMP WITH TIME ZONE,
+ADD CONSTRAINT medication_doses_status_check CHECK (status IN ('taken', 'skipped'));
+
+-- One answer per scheduled dose, so a reminder acted on twice doesn't double count
+CREATE UNIQUE INDEX idx_medication_doses_medication_scheduled_for
+ON public.medication_doses(medication_id, scheduled_for)
+WHERE scheduled_for IS NOT NULL;
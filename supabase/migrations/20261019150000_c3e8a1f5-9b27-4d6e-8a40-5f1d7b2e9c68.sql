@@ -0,0 +1,187 @@
+-- Read-only links a user can give a clinician. Only a SHA-256 hash of the token is
+-- stored; the link itself is shown once when it is created. A link grants one date
+-- range and a set of report sections until it expires, is revoked or runs out of views.
+CREATE TABLE public.share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  label TEXT,
+  range_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  range_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  sections TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  max_views INTEGER,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT share_links_range_order CHECK (range_start <= range_end),
+  CONSTRAINT share_links_max_views_positive CHECK (max_views IS NULL OR max_views > 0),
+  CONSTRAINT share_links_sections_known CHECK (
+    sections <@ ARRAY['dailyChart', 'heatmap', 'medications', 'adherence', 'impact', 'triggers', 'journal']
+  )
+);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own share links"
+ON public.share_links
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own share links"
+ON public.share_links
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own share links"
+ON public.share_links
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own share links"
+ON public.share_links
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_share_links_user_created
+ON public.share_links(user_id, created_at DESC);
+
+CREATE TRIGGER update_share_links_updated_at
+BEFORE UPDATE ON public.share_links
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every attempt to open a link, including refused ones. Written only by
+-- get_shared_summary; owners can read their own.
+CREATE TABLE public.share_link_access_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  share_link_id UUID NOT NULL REFERENCES public.share_links(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  accessed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  outcome TEXT NOT NULL,
+  user_agent TEXT,
+  CONSTRAINT share_link_access_log_outcome_check CHECK (outcome IN ('granted', 'expired', 'revoked', 'view_limit'))
+);
+
+ALTER TABLE public.share_link_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own share link access"
+ON public.share_link_access_log
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_share_link_access_log_link
+ON public.share_link_access_log(share_link_id, accessed_at DESC);
+
+-- The only way to read shared data. Callers need the token, get back exactly the
+-- granted range and sections, and every call is logged against the link.
+CREATE OR REPLACE FUNCTION public.get_shared_summary(p_token TEXT, p_user_agent TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  link public.share_links%ROWTYPE;
+  outcome TEXT;
+  has_medications BOOLEAN;
+  result JSONB;
+BEGIN
+  SELECT * INTO link
+  FROM public.share_links
+  WHERE token_hash = encode(sha256(convert_to(COALESCE(p_token, ''), 'UTF8')), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  outcome := CASE
+    WHEN link.revoked_at IS NOT NULL THEN 'revoked'
+    WHEN link.expires_at <= now() THEN 'expired'
+    WHEN link.max_views IS NOT NULL AND link.view_count >= link.max_views THEN 'view_limit'
+    ELSE 'granted'
+  END;
+
+  INSERT INTO public.share_link_access_log (share_link_id, user_id, outcome, user_agent)
+  VALUES (link.id, link.user_id, outcome, left(p_user_agent, 300));
+
+  IF outcome <> 'granted' THEN
+    RETURN jsonb_build_object('status', outcome);
+  END IF;
+
+  UPDATE public.share_links
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = link.id;
+
+  has_medications := link.sections && ARRAY['medications', 'adherence'];
+
+  SELECT jsonb_build_object(
+    'status', 'granted',
+    'link', jsonb_build_object(
+      'label', link.label,
+      'range_start', link.range_start,
+      'range_end', link.range_end,
+      'sections', to_jsonb(link.sections),
+      'expires_at', link.expires_at
+    ),
+    'patient', (
+      SELECT jsonb_build_object('display_name', p.display_name, 'diagnosis', p.diagnosis)
+      FROM public.profiles p
+      WHERE p.id = link.user_id
+    ),
+    -- Pain level, time and location always; everything else only with its section
+    'pain_logs', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', l.id,
+          'logged_at', l.logged_at,
+          'pain_level', l.pain_level,
+          'pain_locations', l.pain_locations
+        )
+        || CASE WHEN has_medications THEN jsonb_build_object(
+          'medications', l.medications, 'rx_taken', l.rx_taken, 'side_effects', l.side_effects
+        ) ELSE '{}'::jsonb END
+        || CASE WHEN 'impact' = ANY(link.sections) OR 'triggers' = ANY(link.sections) THEN jsonb_build_object(
+          'functional_impact', l.functional_impact, 'impact_tags', l.impact_tags
+        ) ELSE '{}'::jsonb END
+        || CASE WHEN 'triggers' = ANY(link.sections) THEN jsonb_build_object(
+          'triggers', l.triggers, 'activity', l.activity
+        ) ELSE '{}'::jsonb END
+        || CASE WHEN 'journal' = ANY(link.sections) THEN jsonb_build_object('notes', l.notes) ELSE '{}'::jsonb END
+        ORDER BY l.logged_at
+      )
+      FROM public.pain_logs l
+      WHERE l.user_id = link.user_id
+        AND l.logged_at BETWEEN link.range_start AND link.range_end
+    ), '[]'::jsonb),
+    'medications', CASE WHEN has_medications THEN COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id, 'name', m.name, 'strength', m.strength, 'form', m.form,
+        'is_prn', m.is_prn, 'schedule', m.schedule, 'started_on', m.started_on, 'stopped_on', m.stopped_on
+      ) ORDER BY m.name)
+      FROM public.medications m
+      WHERE m.user_id = link.user_id
+        AND (m.started_on IS NULL OR m.started_on <= link.range_end::date)
+        AND (m.stopped_on IS NULL OR m.stopped_on >= link.range_start::date)
+    ), '[]'::jsonb) ELSE '[]'::jsonb END,
+    'doses', CASE WHEN has_medications THEN COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'medication_id', d.medication_id, 'pain_log_id', d.pain_log_id, 'name', m.name,
+        'taken_at', d.taken_at, 'scheduled_for', d.scheduled_for, 'status', d.status
+      ) ORDER BY d.taken_at)
+      FROM public.medication_doses d
+      JOIN public.medications m ON m.id = d.medication_id
+      WHERE d.user_id = link.user_id
+        AND d.taken_at BETWEEN link.range_start AND link.range_end + interval '1 hour'
+    ), '[]'::jsonb) ELSE '[]'::jsonb END
+  ) INTO result;
+
+  RETURN result;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_shared_summary(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_summary(TEXT, TEXT) TO anon, authenticated;
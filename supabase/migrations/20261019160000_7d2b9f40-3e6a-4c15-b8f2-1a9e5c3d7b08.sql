@@ -0,0 +1,70 @@
+-- Removes every row a user owns, in one transaction, for account deletion. User tables
+-- have no foreign key to auth.users, so deleting the auth user alone would leave them
+-- behind. Only the delete-account function (service role) may call this; it then
+-- removes the user's storage objects and the auth user.
+-- Keep the table list in step with EXPORT_TABLES in src/lib/dataExport.ts.
+CREATE OR REPLACE FUNCTION public.delete_user_data(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  counts JSONB := '{}'::jsonb;
+  affected INTEGER;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'p_user_id is required';
+  END IF;
+
+  -- Children first; access log rows also go with their links, but are counted here
+  DELETE FROM public.share_link_access_log WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('share_link_access_log', affected);
+
+  DELETE FROM public.share_links WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('share_links', affected);
+
+  DELETE FROM public.medication_doses WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('medication_doses', affected);
+
+  DELETE FROM public.medications WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('medications', affected);
+
+  DELETE FROM public.pain_logs WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('pain_logs', affected);
+
+  DELETE FROM public.pain_sessions WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('pain_sessions', affected);
+
+  DELETE FROM public.ai_conversations WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('ai_conversations', affected);
+
+  DELETE FROM public.ai_conversation_threads WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('ai_conversation_threads', affected);
+
+  DELETE FROM public.ai_insights WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('ai_insights', affected);
+
+  DELETE FROM public.user_ai_preferences WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('user_ai_preferences', affected);
+
+  DELETE FROM public.profiles WHERE id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('profiles', affected);
+
+  RETURN counts;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.delete_user_data(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_user_data(UUID) TO service_role;
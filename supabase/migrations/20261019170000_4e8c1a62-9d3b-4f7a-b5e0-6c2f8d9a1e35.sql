@@ -0,0 +1,128 @@
+-- Pain locations now come from the body map: a fixed vocabulary of regions, with
+-- "Left"/"Right" for paired ones (see src/lib/bodyLocations.ts). Each entry can also
+-- rate each location separately; locations without a rating take the entry's level.
+ALTER TABLE public.pain_logs
+ADD COLUMN location_intensities JSONB,
+ADD CONSTRAINT pain_logs_location_intensities_object
+  CHECK (location_intensities IS NULL OR jsonb_typeof(location_intensities) = 'object');
+
+COMMENT ON COLUMN public.pain_logs.location_intensities IS
+  'Pain 0-10 per location, keyed by the values in pain_locations, e.g. {"Left knee": 6}';
+
+-- Canonical spelling of each location. Names from the old chip lists expand to the
+-- regions they covered (plurals and names without a side cover both sides); free
+-- text is kept as typed. Order is kept and duplicates dropped.
+-- Keep in step with canonicalLocations in src/lib/bodyLocations.ts.
+CREATE OR REPLACE FUNCTION public.canonical_pain_locations(p_locations TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+STRICT
+SET search_path = ''
+AS $function$
+  WITH names(name, canonical) AS (
+    VALUES
+      ('head', ARRAY['Head']),
+      ('forehead', ARRAY['Forehead']),
+      ('left temple', ARRAY['Left temple']),
+      ('right temple', ARRAY['Right temple']),
+      ('left eye', ARRAY['Left eye']),
+      ('right eye', ARRAY['Right eye']),
+      ('face', ARRAY['Face']),
+      ('left jaw', ARRAY['Left jaw']),
+      ('right jaw', ARRAY['Right jaw']),
+      ('back of head', ARRAY['Back of head']),
+      ('neck', ARRAY['Neck']),
+      ('left shoulder', ARRAY['Left shoulder']),
+      ('right shoulder', ARRAY['Right shoulder']),
+      ('chest', ARRAY['Chest']),
+      ('abdomen', ARRAY['Abdomen']),
+      ('pelvis', ARRAY['Pelvis']),
+      ('upper back', ARRAY['Upper back']),
+      ('lower back', ARRAY['Lower back']),
+      ('left upper arm', ARRAY['Left upper arm']),
+      ('right upper arm', ARRAY['Right upper arm']),
+      ('left elbow', ARRAY['Left elbow']),
+      ('right elbow', ARRAY['Right elbow']),
+      ('left forearm', ARRAY['Left forearm']),
+      ('right forearm', ARRAY['Right forearm']),
+      ('left wrist', ARRAY['Left wrist']),
+      ('right wrist', ARRAY['Right wrist']),
+      ('left hand', ARRAY['Left hand']),
+      ('right hand', ARRAY['Right hand']),
+      ('left hip', ARRAY['Left hip']),
+      ('right hip', ARRAY['Right hip']),
+      ('left buttock', ARRAY['Left buttock']),
+      ('right buttock', ARRAY['Right buttock']),
+      ('left thigh', ARRAY['Left thigh']),
+      ('right thigh', ARRAY['Right thigh']),
+      ('left knee', ARRAY['Left knee']),
+      ('right knee', ARRAY['Right knee']),
+      ('left shin', ARRAY['Left shin']),
+      ('right shin', ARRAY['Right shin']),
+      ('left calf', ARRAY['Left calf']),
+      ('right calf', ARRAY['Right calf']),
+      ('left ankle', ARRAY['Left ankle']),
+      ('right ankle', ARRAY['Right ankle']),
+      ('left foot', ARRAY['Left foot']),
+      ('right foot', ARRAY['Right foot']),
+      ('whole head', ARRAY['Head']),
+      ('scalp', ARRAY['Head']),
+      ('temples', ARRAY['Left temple', 'Right temple']),
+      ('temple', ARRAY['Left temple', 'Right temple']),
+      ('behind eyes', ARRAY['Left eye', 'Right eye']),
+      ('behind eye', ARRAY['Left eye', 'Right eye']),
+      ('eyes', ARRAY['Left eye', 'Right eye']),
+      ('eye', ARRAY['Left eye', 'Right eye']),
+      ('jaw', ARRAY['Left jaw', 'Right jaw']),
+      ('shoulders', ARRAY['Left shoulder', 'Right shoulder']),
+      ('shoulder', ARRAY['Left shoulder', 'Right shoulder']),
+      ('back', ARRAY['Lower back']),
+      ('left arm', ARRAY['Left upper arm', 'Left forearm']),
+      ('right arm', ARRAY['Right upper arm', 'Right forearm']),
+      ('arms', ARRAY['Left upper arm', 'Right upper arm', 'Left forearm', 'Right forearm']),
+      ('arm', ARRAY['Left upper arm', 'Right upper arm', 'Left forearm', 'Right forearm']),
+      ('elbows', ARRAY['Left elbow', 'Right elbow']),
+      ('elbow', ARRAY['Left elbow', 'Right elbow']),
+      ('wrists', ARRAY['Left wrist', 'Right wrist']),
+      ('wrist', ARRAY['Left wrist', 'Right wrist']),
+      ('hands', ARRAY['Left hand', 'Right hand']),
+      ('hand', ARRAY['Left hand', 'Right hand']),
+      ('fingers', ARRAY['Left hand', 'Right hand']),
+      ('hips', ARRAY['Left hip', 'Right hip']),
+      ('hip', ARRAY['Left hip', 'Right hip']),
+      ('left leg', ARRAY['Left thigh', 'Left shin']),
+      ('right leg', ARRAY['Right thigh', 'Right shin']),
+      ('legs', ARRAY['Left thigh', 'Right thigh', 'Left shin', 'Right shin']),
+      ('leg', ARRAY['Left thigh', 'Right thigh', 'Left shin', 'Right shin']),
+      ('thighs', ARRAY['Left thigh', 'Right thigh']),
+      ('thigh', ARRAY['Left thigh', 'Right thigh']),
+      ('knees', ARRAY['Left knee', 'Right knee']),
+      ('knee', ARRAY['Left knee', 'Right knee']),
+      ('calves', ARRAY['Left calf', 'Right calf']),
+      ('calf', ARRAY['Left calf', 'Right calf']),
+      ('ankles', ARRAY['Left ankle', 'Right ankle']),
+      ('ankle', ARRAY['Left ankle', 'Right ankle']),
+      ('feet', ARRAY['Left foot', 'Right foot']),
+      ('foot', ARRAY['Left foot', 'Right foot']),
+      ('toes', ARRAY['Left foot', 'Right foot'])
+  )
+  SELECT COALESCE(array_agg(location ORDER BY first_seen), '{}')
+  FROM (
+    SELECT expanded.location, min(input.position * 100 + expanded.position) AS first_seen
+    FROM unnest(p_locations) WITH ORDINALITY AS input(value, position)
+    LEFT JOIN names n ON n.name = lower(btrim(input.value))
+    CROSS JOIN LATERAL unnest(COALESCE(n.canonical, ARRAY[btrim(input.value)]))
+      WITH ORDINALITY AS expanded(location, position)
+    WHERE btrim(input.value) <> ''
+    GROUP BY expanded.location
+  ) deduped;
+$function$;
+
+UPDATE public.pain_logs
+SET pain_locations = public.canonical_pain_locations(pain_locations)
+WHERE pain_locations IS DISTINCT FROM public.canonical_pain_locations(pain_locations);
+
+UPDATE public.profiles
+SET default_pain_locations = public.canonical_pain_locations(default_pain_locations)
+WHERE default_pain_locations IS DISTINCT FROM public.canonical_pain_locations(default_pain_locations);
@@ -0,0 +1,118 @@
+-- What the pain feels like, picked from a fixed list (see src/lib/painQualities.ts).
+-- Burning, electric, shooting and tingling point towards nerve (neuropathic) pain.
+ALTER TABLE public.pain_logs
+ADD COLUMN pain_qualities TEXT[] NOT NULL DEFAULT '{}',
+ADD CONSTRAINT pain_logs_pain_qualities_known CHECK (
+  pain_qualities <@ ARRAY[
+    'aching', 'throbbing', 'stabbing', 'sharp', 'pressing', 'cramping',
+    'burning', 'electric', 'shooting', 'tingling'
+  ]
+);
+
+-- Scored answers to in-app questionnaires. Each row is one completed questionnaire;
+-- answers are kept as given so the score can be rechecked. Scoring happens in the
+-- app (src/lib/neuropathicScreening.ts for the DN4).
+CREATE TABLE public.questionnaire_responses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  instrument TEXT NOT NULL,
+  answers JSONB NOT NULL DEFAULT '{}',
+  score INTEGER NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT questionnaire_responses_instrument_known CHECK (instrument IN ('dn4')),
+  CONSTRAINT questionnaire_responses_answers_object CHECK (jsonb_typeof(answers) = 'object'),
+  CONSTRAINT questionnaire_responses_score_range CHECK (instrument <> 'dn4' OR score BETWEEN 0 AND 7)
+);
+
+ALTER TABLE public.questionnaire_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own questionnaire responses"
+ON public.questionnaire_responses
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own questionnaire responses"
+ON public.questionnaire_responses
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own questionnaire responses"
+ON public.questionnaire_responses
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_questionnaire_responses_user_instrument
+ON public.questionnaire_responses(user_id, instrument, completed_at DESC);
+
+-- Account deletion now also covers questionnaire responses.
+-- Keep the table list in step with EXPORT_TABLES in src/lib/dataExport.ts.
+CREATE OR REPLACE FUNCTION public.delete_user_data(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  counts JSONB := '{}'::jsonb;
+  affected INTEGER;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'p_user_id is required';
+  END IF;
+
+  -- Children first; access log rows also go with their links, but are counted here
+  DELETE FROM public.share_link_access_log WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('share_link_access_log', affected);
+
+  DELETE FROM public.share_links WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('share_links', affected);
+
+  DELETE FROM public.medication_doses WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('medication_doses', affected);
+
+  DELETE FROM public.medications WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('medications', affected);
+
+  DELETE FROM public.questionnaire_responses WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('questionnaire_responses', affected);
+
+  DELETE FROM public.pain_logs WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('pain_logs', affected);
+
+  DELETE FROM public.pain_sessions WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('pain_sessions', affected);
+
+  DELETE FROM public.ai_conversations WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('ai_conversations', affected);
+
+  DELETE FROM public.ai_conversation_threads WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('ai_conversation_threads', affected);
+
+  DELETE FROM public.ai_insights WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('ai_insights', affected);
+
+  DELETE FROM public.user_ai_preferences WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('user_ai_preferences', affected);
+
+  DELETE FROM public.profiles WHERE id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('profiles', affected);
+
+  RETURN counts;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.delete_user_data(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_user_data(UUID) TO service_role;
@@ -0,0 +1,129 @@
+-- Standardized questionnaires (BPI, HIT-6, MIDAS, PROMIS Pain Interference) join the
+-- DN4 in questionnaire_responses. Instruments are defined and scored in the app
+-- (src/lib/questionnaires); score holds the instrument's main score and scores all
+-- of them, e.g. {"severity": 5.3, "interference": 6.1} for the BPI.
+ALTER TABLE public.questionnaire_responses
+ALTER COLUMN score TYPE NUMERIC,
+ADD COLUMN scores JSONB NOT NULL DEFAULT '{}',
+ADD CONSTRAINT questionnaire_responses_scores_object CHECK (jsonb_typeof(scores) = 'object'),
+DROP CONSTRAINT questionnaire_responses_instrument_known,
+ADD CONSTRAINT questionnaire_responses_instrument_known
+  CHECK (instrument IN ('dn4', 'bpi', 'hit6', 'midas', 'promis_pi_4a'));
+
+-- Questionnaires the user wants to repeat, e.g. the BPI monthly. One is due
+-- interval_days after it was last completed, or straight away if never.
+CREATE TABLE public.questionnaire_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  instrument TEXT NOT NULL,
+  interval_days INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT questionnaire_schedules_user_instrument UNIQUE (user_id, instrument),
+  CONSTRAINT questionnaire_schedules_instrument_known
+    CHECK (instrument IN ('dn4', 'bpi', 'hit6', 'midas', 'promis_pi_4a')),
+  CONSTRAINT questionnaire_schedules_interval_positive CHECK (interval_days > 0)
+);
+
+ALTER TABLE public.questionnaire_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own questionnaire schedules"
+ON public.questionnaire_schedules
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own questionnaire schedules"
+ON public.questionnaire_schedules
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own questionnaire schedules"
+ON public.questionnaire_schedules
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own questionnaire schedules"
+ON public.questionnaire_schedules
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_questionnaire_schedules_updated_at
+BEFORE UPDATE ON public.questionnaire_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Account deletion now also covers questionnaire schedules.
+-- Keep the table list in step with EXPORT_TABLES in src/lib/dataExport.ts.
+CREATE OR REPLACE FUNCTION public.delete_user_data(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  counts JSONB := '{}'::jsonb;
+  affected INTEGER;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'p_user_id is required';
+  END IF;
+
+  -- Children first; access log rows also go with their links, but are counted here
+  DELETE FROM public.share_link_access_log WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('share_link_access_log', affected);
+
+  DELETE FROM public.share_links WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('share_links', affected);
+
+  DELETE FROM public.medication_doses WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('medication_doses', affected);
+
+  DELETE FROM public.medications WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('medications', affected);
+
+  DELETE FROM public.questionnaire_schedules WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('questionnaire_schedules', affected);
+
+  DELETE FROM public.questionnaire_responses WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('questionnaire_responses', affected);
+
+  DELETE FROM public.pain_logs WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('pain_logs', affected);
+
+  DELETE FROM public.pain_sessions WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('pain_sessions', affected);
+
+  DELETE FROM public.ai_conversations WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('ai_conversations', affected);
+
+  DELETE FROM public.ai_conversation_threads WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('ai_conversation_threads', affected);
+
+  DELETE FROM public.ai_insights WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('ai_insights', affected);
+
+  DELETE FROM public.user_ai_preferences WHERE user_id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('user_ai_preferences', affected);
+
+  DELETE FROM public.profiles WHERE id = p_user_id;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  counts := counts || jsonb_build_object('profiles', affected);
+
+  RETURN counts;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.delete_user_data(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_user_data(UUID) TO service_role;
@@ -0,0 +1,24 @@
+-- Users with a pain log since p_since, for the scheduled insights batch. Selecting
+-- pain_logs rows to collect user ids hits the API row cap and silently skips users,
+-- so ids come back distinct and in pages: pass the last id of a page as p_after.
+CREATE OR REPLACE FUNCTION public.recently_active_user_ids(
+  p_since TIMESTAMPTZ,
+  p_after UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+  SELECT DISTINCT user_id
+  FROM public.pain_logs
+  WHERE logged_at >= p_since
+    AND (p_after IS NULL OR user_id > p_after)
+  ORDER BY user_id
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+$function$;
+
+REVOKE ALL ON FUNCTION public.recently_active_user_ids(TIMESTAMPTZ, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recently_active_user_ids(TIMESTAMPTZ, UUID, INTEGER) TO service_role;
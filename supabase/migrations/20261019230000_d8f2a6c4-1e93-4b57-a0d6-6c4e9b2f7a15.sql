@@ -0,0 +1,354 @@
+-- A paired region or limb named without a side ("knee", "arms") was expanded to both
+-- sides, recording pain on a side nobody reported. It now maps to the region or limb
+-- alone ("Knee", "Arm"); names with a side map as before. The pain_logs and profiles
+-- triggers and the import all go through canonical_terms, so they follow.
+-- Rows already expanded can't be told apart from ones where both sides were chosen,
+-- so they are left as they are.
+-- Names come from src/lib/vocabulary.ts (vocabularyNames); vocabulary.test.ts checks
+-- that the list below matches it.
+CREATE OR REPLACE FUNCTION public.canonical_terms(p_kind TEXT, p_values TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+STRICT
+SET search_path = ''
+AS $function$
+  WITH names(kind, name, canonical) AS (
+    VALUES
+      ('location', 'head', ARRAY['Head']),
+      ('location', 'forehead', ARRAY['Forehead']),
+      ('location', 'temple', ARRAY['Temple']),
+      ('location', 'left temple', ARRAY['Left temple']),
+      ('location', 'right temple', ARRAY['Right temple']),
+      ('location', 'eye', ARRAY['Eye']),
+      ('location', 'left eye', ARRAY['Left eye']),
+      ('location', 'right eye', ARRAY['Right eye']),
+      ('location', 'face', ARRAY['Face']),
+      ('location', 'jaw', ARRAY['Jaw']),
+      ('location', 'left jaw', ARRAY['Left jaw']),
+      ('location', 'right jaw', ARRAY['Right jaw']),
+      ('location', 'back of head', ARRAY['Back of head']),
+      ('location', 'neck', ARRAY['Neck']),
+      ('location', 'shoulder', ARRAY['Shoulder']),
+      ('location', 'left shoulder', ARRAY['Left shoulder']),
+      ('location', 'right shoulder', ARRAY['Right shoulder']),
+      ('location', 'chest', ARRAY['Chest']),
+      ('location', 'abdomen', ARRAY['Abdomen']),
+      ('location', 'pelvis', ARRAY['Pelvis']),
+      ('location', 'upper back', ARRAY['Upper back']),
+      ('location', 'lower back', ARRAY['Lower back']),
+      ('location', 'upper arm', ARRAY['Upper arm']),
+      ('location', 'left upper arm', ARRAY['Left upper arm']),
+      ('location', 'right upper arm', ARRAY['Right upper arm']),
+      ('location', 'elbow', ARRAY['Elbow']),
+      ('location', 'left elbow', ARRAY['Left elbow']),
+      ('location', 'right elbow', ARRAY['Right elbow']),
+      ('location', 'forearm', ARRAY['Forearm']),
+      ('location', 'left forearm', ARRAY['Left forearm']),
+      ('location', 'right forearm', ARRAY['Right forearm']),
+      ('location', 'wrist', ARRAY['Wrist']),
+      ('location', 'left wrist', ARRAY['Left wrist']),
+      ('location', 'right wrist', ARRAY['Right wrist']),
+      ('location', 'hand', ARRAY['Hand']),
+      ('location', 'left hand', ARRAY['Left hand']),
+      ('location', 'right hand', ARRAY['Right hand']),
+      ('location', 'hip', ARRAY['Hip']),
+      ('location', 'left hip', ARRAY['Left hip']),
+      ('location', 'right hip', ARRAY['Right hip']),
+      ('location', 'buttock', ARRAY['Buttock']),
+      ('location', 'left buttock', ARRAY['Left buttock']),
+      ('location', 'right buttock', ARRAY['Right buttock']),
+      ('location', 'thigh', ARRAY['Thigh']),
+      ('location', 'left thigh', ARRAY['Left thigh']),
+      ('location', 'right thigh', ARRAY['Right thigh']),
+      ('location', 'knee', ARRAY['Knee']),
+      ('location', 'left knee', ARRAY['Left knee']),
+      ('location', 'right knee', ARRAY['Right knee']),
+      ('location', 'shin', ARRAY['Shin']),
+      ('location', 'left shin', ARRAY['Left shin']),
+      ('location', 'right shin', ARRAY['Right shin']),
+      ('location', 'calf', ARRAY['Calf']),
+      ('location', 'left calf', ARRAY['Left calf']),
+      ('location', 'right calf', ARRAY['Right calf']),
+      ('location', 'ankle', ARRAY['Ankle']),
+      ('location', 'left ankle', ARRAY['Left ankle']),
+      ('location', 'right ankle', ARRAY['Right ankle']),
+      ('location', 'foot', ARRAY['Foot']),
+      ('location', 'left foot', ARRAY['Left foot']),
+      ('location', 'right foot', ARRAY['Right foot']),
+      ('location', 'arm', ARRAY['Arm']),
+      ('location', 'leg', ARRAY['Leg']),
+      ('location', 'whole head', ARRAY['Head']),
+      ('location', 'scalp', ARRAY['Head']),
+      ('location', 'headache', ARRAY['Head']),
+      ('location', 'temples', ARRAY['Temple']),
+      ('location', 'left temples', ARRAY['Left temple']),
+      ('location', 'right temples', ARRAY['Right temple']),
+      ('location', 'eyes', ARRAY['Eye']),
+      ('location', 'behind eye', ARRAY['Eye']),
+      ('location', 'behind eyes', ARRAY['Eye']),
+      ('location', 'behind the eyes', ARRAY['Eye']),
+      ('location', 'eye pain', ARRAY['Eye']),
+      ('location', 'left eyes', ARRAY['Left eye']),
+      ('location', 'left behind eye', ARRAY['Left eye']),
+      ('location', 'left behind eyes', ARRAY['Left eye']),
+      ('location', 'left behind the eyes', ARRAY['Left eye']),
+      ('location', 'left eye pain', ARRAY['Left eye']),
+      ('location', 'right eyes', ARRAY['Right eye']),
+      ('location', 'right behind eye', ARRAY['Right eye']),
+      ('location', 'right behind eyes', ARRAY['Right eye']),
+      ('location', 'right behind the eyes', ARRAY['Right eye']),
+      ('location', 'right eye pain', ARRAY['Right eye']),
+      ('location', 'cheek', ARRAY['Face']),
+      ('location', 'cheeks', ARRAY['Face']),
+      ('location', 'jaws', ARRAY['Jaw']),
+      ('location', 'tmj', ARRAY['Jaw']),
+      ('location', 'left jaws', ARRAY['Left jaw']),
+      ('location', 'left tmj', ARRAY['Left jaw']),
+      ('location', 'right jaws', ARRAY['Right jaw']),
+      ('location', 'right tmj', ARRAY['Right jaw']),
+      ('location', 'back of the head', ARRAY['Back of head']),
+      ('location', 'back of my head', ARRAY['Back of head']),
+      ('location', 'base of skull', ARRAY['Back of head']),
+      ('location', 'base of the skull', ARRAY['Back of head']),
+      ('location', 'occipital', ARRAY['Back of head']),
+      ('location', 'cervical spine', ARRAY['Neck']),
+      ('location', 'shoulders', ARRAY['Shoulder']),
+      ('location', 'left shoulders', ARRAY['Left shoulder']),
+      ('location', 'right shoulders', ARRAY['Right shoulder']),
+      ('location', 'ribs', ARRAY['Chest']),
+      ('location', 'stomach', ARRAY['Abdomen']),
+      ('location', 'belly', ARRAY['Abdomen']),
+      ('location', 'tummy', ARRAY['Abdomen']),
+      ('location', 'groin', ARRAY['Pelvis']),
+      ('location', 'mid back', ARRAY['Upper back']),
+      ('location', 'middle back', ARRAY['Upper back']),
+      ('location', 'thoracic spine', ARRAY['Upper back']),
+      ('location', 'back', ARRAY['Lower back']),
+      ('location', 'low back', ARRAY['Lower back']),
+      ('location', 'lumbar', ARRAY['Lower back']),
+      ('location', 'lumbar spine', ARRAY['Lower back']),
+      ('location', 'upper arms', ARRAY['Upper arm']),
+      ('location', 'left upper arms', ARRAY['Left upper arm']),
+      ('location', 'right upper arms', ARRAY['Right upper arm']),
+      ('location', 'elbows', ARRAY['Elbow']),
+      ('location', 'left elbows', ARRAY['Left elbow']),
+      ('location', 'right elbows', ARRAY['Right elbow']),
+      ('location', 'forearms', ARRAY['Forearm']),
+      ('location', 'left forearms', ARRAY['Left forearm']),
+      ('location', 'right forearms', ARRAY['Right forearm']),
+      ('location', 'wrists', ARRAY['Wrist']),
+      ('location', 'left wrists', ARRAY['Left wrist']),
+      ('location', 'right wrists', ARRAY['Right wrist']),
+      ('location', 'hands', ARRAY['Hand']),
+      ('location', 'finger', ARRAY['Hand']),
+      ('location', 'fingers', ARRAY['Hand']),
+      ('location', 'left hands', ARRAY['Left hand']),
+      ('location', 'left finger', ARRAY['Left hand']),
+      ('location', 'left fingers', ARRAY['Left hand']),
+      ('location', 'right hands', ARRAY['Right hand']),
+      ('location', 'right finger', ARRAY['Right hand']),
+      ('location', 'right fingers', ARRAY['Right hand']),
+      ('location', 'hips', ARRAY['Hip']),
+      ('location', 'left hips', ARRAY['Left hip']),
+      ('location', 'right hips', ARRAY['Right hip']),
+      ('location', 'buttocks', ARRAY['Buttock']),
+      ('location', 'glute', ARRAY['Buttock']),
+      ('location', 'glutes', ARRAY['Buttock']),
+      ('location', 'left buttocks', ARRAY['Left buttock']),
+      ('location', 'left glute', ARRAY['Left buttock']),
+      ('location', 'left glutes', ARRAY['Left buttock']),
+      ('location', 'right buttocks', ARRAY['Right buttock']),
+      ('location', 'right glute', ARRAY['Right buttock']),
+      ('location', 'right glutes', ARRAY['Right buttock']),
+      ('location', 'thighs', ARRAY['Thigh']),
+      ('location', 'left thighs', ARRAY['Left thigh']),
+      ('location', 'right thighs', ARRAY['Right thigh']),
+      ('location', 'knees', ARRAY['Knee']),
+      ('location', 'left knees', ARRAY['Left knee']),
+      ('location', 'right knees', ARRAY['Right knee']),
+      ('location', 'shins', ARRAY['Shin']),
+      ('location', 'left shins', ARRAY['Left shin']),
+      ('location', 'right shins', ARRAY['Right shin']),
+      ('location', 'calves', ARRAY['Calf']),
+      ('location', 'left calves', ARRAY['Left calf']),
+      ('location', 'right calves', ARRAY['Right calf']),
+      ('location', 'ankles', ARRAY['Ankle']),
+      ('location', 'left ankles', ARRAY['Left ankle']),
+      ('location', 'right ankles', ARRAY['Right ankle']),
+      ('location', 'feet', ARRAY['Foot']),
+      ('location', 'toe', ARRAY['Foot']),
+      ('location', 'toes', ARRAY['Foot']),
+      ('location', 'left feet', ARRAY['Left foot']),
+      ('location', 'left toe', ARRAY['Left foot']),
+      ('location', 'left toes', ARRAY['Left foot']),
+      ('location', 'right feet', ARRAY['Right foot']),
+      ('location', 'right toe', ARRAY['Right foot']),
+      ('location', 'right toes', ARRAY['Right foot']),
+      ('location', 'arms', ARRAY['Arm']),
+      ('location', 'legs', ARRAY['Leg']),
+      ('location', 'left arm', ARRAY['Left upper arm', 'Left forearm']),
+      ('location', 'right arm', ARRAY['Right upper arm', 'Right forearm']),
+      ('location', 'left arms', ARRAY['Left upper arm', 'Left forearm']),
+      ('location', 'right arms', ARRAY['Right upper arm', 'Right forearm']),
+      ('location', 'left leg', ARRAY['Left thigh', 'Left shin']),
+      ('location', 'right leg', ARRAY['Right thigh', 'Right shin']),
+      ('location', 'left legs', ARRAY['Left thigh', 'Left shin']),
+      ('location', 'right legs', ARRAY['Right thigh', 'Right shin']),
+      ('trigger', 'stress', ARRAY['Stress']),
+      ('trigger', 'poor sleep', ARRAY['Poor sleep']),
+      ('trigger', 'dehydration', ARRAY['Dehydration']),
+      ('trigger', 'bright lights', ARRAY['Bright lights']),
+      ('trigger', 'loud noises', ARRAY['Loud noises']),
+      ('trigger', 'screen time', ARRAY['Screen time']),
+      ('trigger', 'eye strain', ARRAY['Eye strain']),
+      ('trigger', 'weather changes', ARRAY['Weather changes']),
+      ('trigger', 'barometric pressure', ARRAY['Barometric pressure']),
+      ('trigger', 'cold temperatures', ARRAY['Cold temperatures']),
+      ('trigger', 'certain foods', ARRAY['Certain foods']),
+      ('trigger', 'skipped meals', ARRAY['Skipped meals']),
+      ('trigger', 'alcohol', ARRAY['Alcohol']),
+      ('trigger', 'caffeine', ARRAY['Caffeine']),
+      ('trigger', 'hormones', ARRAY['Hormones']),
+      ('trigger', 'physical activity', ARRAY['Physical activity']),
+      ('trigger', 'overuse', ARRAY['Overuse']),
+      ('trigger', 'poor posture', ARRAY['Poor posture']),
+      ('trigger', 'sitting too long', ARRAY['Sitting too long']),
+      ('trigger', 'lifting', ARRAY['Lifting']),
+      ('trigger', 'bending', ARRAY['Bending']),
+      ('trigger', 'coughing', ARRAY['Coughing']),
+      ('trigger', 'sneezing', ARRAY['Sneezing']),
+      ('trigger', 'stressed', ARRAY['Stress']),
+      ('trigger', 'emotional stress', ARRAY['Stress']),
+      ('trigger', 'work stress', ARRAY['Stress']),
+      ('trigger', 'anxiety', ARRAY['Stress']),
+      ('trigger', 'sleep', ARRAY['Poor sleep']),
+      ('trigger', 'bad sleep', ARRAY['Poor sleep']),
+      ('trigger', 'lack of sleep', ARRAY['Poor sleep']),
+      ('trigger', 'not enough sleep', ARRAY['Poor sleep']),
+      ('trigger', 'sleep disruption', ARRAY['Poor sleep']),
+      ('trigger', 'insomnia', ARRAY['Poor sleep']),
+      ('trigger', 'tired', ARRAY['Poor sleep']),
+      ('trigger', 'tiredness', ARRAY['Poor sleep']),
+      ('trigger', 'dehydrated', ARRAY['Dehydration']),
+      ('trigger', 'not enough water', ARRAY['Dehydration']),
+      ('trigger', 'bright light', ARRAY['Bright lights']),
+      ('trigger', 'lights', ARRAY['Bright lights']),
+      ('trigger', 'glare', ARRAY['Bright lights']),
+      ('trigger', 'loud noise', ARRAY['Loud noises']),
+      ('trigger', 'noise', ARRAY['Loud noises']),
+      ('trigger', 'screen', ARRAY['Screen time']),
+      ('trigger', 'screens', ARRAY['Screen time']),
+      ('trigger', 'computer', ARRAY['Screen time']),
+      ('trigger', 'eyestrain', ARRAY['Eye strain']),
+      ('trigger', 'weather', ARRAY['Weather changes']),
+      ('trigger', 'weather change', ARRAY['Weather changes']),
+      ('trigger', 'storm', ARRAY['Weather changes']),
+      ('trigger', 'pressure change', ARRAY['Barometric pressure']),
+      ('trigger', 'air pressure', ARRAY['Barometric pressure']),
+      ('trigger', 'cold', ARRAY['Cold temperatures']),
+      ('trigger', 'cold weather', ARRAY['Cold temperatures']),
+      ('trigger', 'diet', ARRAY['Certain foods']),
+      ('trigger', 'food', ARRAY['Certain foods']),
+      ('trigger', 'foods', ARRAY['Certain foods']),
+      ('trigger', 'skipped meal', ARRAY['Skipped meals']),
+      ('trigger', 'missed meal', ARRAY['Skipped meals']),
+      ('trigger', 'hunger', ARRAY['Skipped meals']),
+      ('trigger', 'wine', ARRAY['Alcohol']),
+      ('trigger', 'beer', ARRAY['Alcohol']),
+      ('trigger', 'coffee', ARRAY['Caffeine']),
+      ('trigger', 'caffeine withdrawal', ARRAY['Caffeine']),
+      ('trigger', 'hormonal', ARRAY['Hormones']),
+      ('trigger', 'period', ARRAY['Hormones']),
+      ('trigger', 'menstruation', ARRAY['Hormones']),
+      ('trigger', 'exercise', ARRAY['Physical activity']),
+      ('trigger', 'physical exertion', ARRAY['Physical activity']),
+      ('trigger', 'exertion', ARRAY['Physical activity']),
+      ('trigger', 'repetitive strain', ARRAY['Overuse']),
+      ('trigger', 'posture', ARRAY['Poor posture']),
+      ('trigger', 'bad posture', ARRAY['Poor posture']),
+      ('trigger', 'sitting', ARRAY['Sitting too long']),
+      ('trigger', 'prolonged sitting', ARRAY['Sitting too long']),
+      ('trigger', 'heavy lifting', ARRAY['Lifting']),
+      ('trigger', 'cough', ARRAY['Coughing']),
+      ('trigger', 'sneeze', ARRAY['Sneezing']),
+      ('activity', 'working', ARRAY['Working']),
+      ('activity', 'driving', ARRAY['Driving']),
+      ('activity', 'exercise', ARRAY['Exercise']),
+      ('activity', 'walking', ARRAY['Walking']),
+      ('activity', 'sitting', ARRAY['Sitting']),
+      ('activity', 'standing', ARRAY['Standing']),
+      ('activity', 'resting', ARRAY['Resting']),
+      ('activity', 'sleeping', ARRAY['Sleeping']),
+      ('activity', 'housework', ARRAY['Housework']),
+      ('activity', 'gardening', ARRAY['Gardening']),
+      ('activity', 'lifting', ARRAY['Lifting']),
+      ('activity', 'work', ARRAY['Working']),
+      ('activity', 'at work', ARRAY['Working']),
+      ('activity', 'office', ARRAY['Working']),
+      ('activity', 'desk work', ARRAY['Working']),
+      ('activity', 'computer work', ARRAY['Working']),
+      ('activity', 'drive', ARRAY['Driving']),
+      ('activity', 'commute', ARRAY['Driving']),
+      ('activity', 'commuting', ARRAY['Driving']),
+      ('activity', 'exercising', ARRAY['Exercise']),
+      ('activity', 'workout', ARRAY['Exercise']),
+      ('activity', 'gym', ARRAY['Exercise']),
+      ('activity', 'running', ARRAY['Exercise']),
+      ('activity', 'sports', ARRAY['Exercise']),
+      ('activity', 'walk', ARRAY['Walking']),
+      ('activity', 'hiking', ARRAY['Walking']),
+      ('activity', 'sat', ARRAY['Sitting']),
+      ('activity', 'stood', ARRAY['Standing']),
+      ('activity', 'rest', ARRAY['Resting']),
+      ('activity', 'relaxing', ARRAY['Resting']),
+      ('activity', 'lying down', ARRAY['Resting']),
+      ('activity', 'in bed', ARRAY['Resting']),
+      ('activity', 'sleep', ARRAY['Sleeping']),
+      ('activity', 'asleep', ARRAY['Sleeping']),
+      ('activity', 'napping', ARRAY['Sleeping']),
+      ('activity', 'nap', ARRAY['Sleeping']),
+      ('activity', 'household', ARRAY['Housework']),
+      ('activity', 'chores', ARRAY['Housework']),
+      ('activity', 'cleaning', ARRAY['Housework']),
+      ('activity', 'cooking', ARRAY['Housework']),
+      ('activity', 'garden', ARRAY['Gardening']),
+      ('activity', 'yard work', ARRAY['Gardening']),
+      ('activity', 'carrying', ARRAY['Lifting']),
+      ('impact_tag', 'work', ARRAY['Work']),
+      ('impact_tag', 'driving', ARRAY['Driving']),
+      ('impact_tag', 'sleep', ARRAY['Sleep']),
+      ('impact_tag', 'exercise', ARRAY['Exercise']),
+      ('impact_tag', 'household', ARRAY['Household']),
+      ('impact_tag', 'mood', ARRAY['Mood']),
+      ('impact_tag', 'other', ARRAY['Other']),
+      ('impact_tag', 'job', ARRAY['Work']),
+      ('impact_tag', 'working', ARRAY['Work']),
+      ('impact_tag', 'school', ARRAY['Work']),
+      ('impact_tag', 'drive', ARRAY['Driving']),
+      ('impact_tag', 'sleeping', ARRAY['Sleep']),
+      ('impact_tag', 'exercising', ARRAY['Exercise']),
+      ('impact_tag', 'sports', ARRAY['Exercise']),
+      ('impact_tag', 'housework', ARRAY['Household']),
+      ('impact_tag', 'chores', ARRAY['Household']),
+      ('impact_tag', 'emotional', ARRAY['Mood'])
+  ),
+  inputs AS (
+    SELECT
+      input.value,
+      input.position,
+      btrim(lower(regexp_replace(input.value, '[[:space:]_-]+', ' ', 'g'))) AS key
+    FROM unnest(p_values) WITH ORDINALITY AS input(value, position)
+  )
+  SELECT COALESCE(array_agg(term ORDER BY first_seen), '{}')
+  FROM (
+    SELECT expanded.term, min(inputs.position * 100 + expanded.position) AS first_seen
+    FROM inputs
+    LEFT JOIN names n ON n.kind = p_kind AND n.name = inputs.key
+    CROSS JOIN LATERAL unnest(
+      COALESCE(n.canonical, ARRAY[btrim(regexp_replace(inputs.value, '[[:space:]]+', ' ', 'g'))])
+    ) WITH ORDINALITY AS expanded(term, position)
+    WHERE inputs.key <> ''
+    GROUP BY expanded.term
+  ) deduped;
+$function$;
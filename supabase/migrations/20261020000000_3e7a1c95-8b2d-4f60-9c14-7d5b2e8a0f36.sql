@@ -0,0 +1,10 @@
+-- The DN4 has its own screening flow and isn't a scheduled questionnaire (it isn't in
+-- src/lib/questionnaires), so a DN4 schedule could never come due. Only the instruments
+-- defined there can be scheduled; questionnaire_responses keeps accepting DN4 results.
+-- The app never wrote one, but drop any made through the API so the constraint holds.
+DELETE FROM public.questionnaire_schedules WHERE instrument = 'dn4';
+
+ALTER TABLE public.questionnaire_schedules
+DROP CONSTRAINT questionnaire_schedules_instrument_known,
+ADD CONSTRAINT questionnaire_schedules_instrument_known
+  CHECK (instrument IN ('bpi', 'hit6', 'midas', 'promis_pi_4a'));
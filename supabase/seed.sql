@@ -0,0 +1,84 @@
+-- Local development seed: one demo account with 30 days of pain logs shaped so
+-- that generate-insights has something to find (rising trend, evening peaks,
+-- a poor-sleep trigger, ibuprofen relief and a run of severe days).
+-- Sign in as demo@painpal.local / painpal-demo
+
+INSERT INTO auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+)
+VALUES (
+  '00000000-0000-0000-0000-000000000000',
+  'd3b07384-d9a0-4c9b-8f1e-5c6a7b8c9d01',
+  'authenticated',
+  'authenticated',
+  'demo@painpal.local',
+  extensions.crypt('painpal-demo', extensions.gen_salt('bf')),
+  now(),
+  '{"provider": "email", "providers": ["email"]}',
+  '{"display_name": "Demo User"}',
+  now(),
+  now(),
+  '', '', '', ''
+);
+
+INSERT INTO auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+VALUES (
+  gen_random_uuid(),
+  'd3b07384-d9a0-4c9b-8f1e-5c6a7b8c9d01',
+  'd3b07384-d9a0-4c9b-8f1e-5c6a7b8c9d01',
+  '{"sub": "d3b07384-d9a0-4c9b-8f1e-5c6a7b8c9d01", "email": "demo@painpal.local"}',
+  'email',
+  now(),
+  now(),
+  now()
+);
+
+-- The profile row itself is created by the handle_new_user trigger
+UPDATE public.profiles
+SET
+  diagnosis = 'Migraine',
+  default_pain_locations = ARRAY['Head', 'Neck'],
+  pain_is_consistent = true,
+  current_medications = '[{"name": "Ibuprofen", "dosage": "400mg", "frequency": "As needed"}]',
+  common_triggers = ARRAY['poor sleep', 'stress'],
+  onboarding_completed = true
+WHERE id = 'd3b07384-d9a0-4c9b-8f1e-5c6a7b8c9d01';
+
+-- Morning check-ins: mild, worse after poor sleep, everything 2 points higher in the last week
+INSERT INTO public.pain_logs (user_id, logged_at, pain_level, pain_locations, triggers, medications, notes)
+SELECT
+  'd3b07384-d9a0-4c9b-8f1e-5c6a7b8c9d01',
+  ((current_date - d)::timestamp + interval '8 hours') AT TIME ZONE 'UTC',
+  LEAST(3 + CASE WHEN d % 3 = 0 THEN 2 ELSE 0 END + CASE WHEN d < 7 THEN 2 ELSE 0 END, 10),
+  ARRAY['Head'],
+  CASE WHEN d % 3 = 0 THEN ARRAY['poor sleep'] ELSE ARRAY[]::text[] END,
+  ARRAY[]::text[],
+  'Morning check-in'
+FROM generate_series(1, 29) AS d;
+
+-- Evening peaks, with ibuprofen every other day
+INSERT INTO public.pain_logs (user_id, logged_at, pain_level, pain_locations, triggers, medications, notes)
+SELECT
+  'd3b07384-d9a0-4c9b-8f1e-5c6a7b8c9d01',
+  ((current_date - d)::timestamp + interval '19 hours') AT TIME ZONE 'UTC',
+  LEAST(6 + CASE WHEN d < 7 THEN 2 ELSE 0 END, 10),
+  ARRAY['Head', 'Neck'],
+  ARRAY['stress'],
+  CASE WHEN d % 2 = 0 THEN ARRAY['Ibuprofen'] ELSE ARRAY[]::text[] END,
+  'Evening headache'
+FROM generate_series(1, 29) AS d;
+
+-- Follow-ups three hours after each ibuprofen dose
+INSERT INTO public.pain_logs (user_id, logged_at, pain_level, pain_locations, triggers, medications, notes)
+SELECT
+  'd3b07384-d9a0-4c9b-8f1e-5c6a7b8c9d01',
+  ((current_date - d)::timestamp + interval '22 hours') AT TIME ZONE 'UTC',
+  3 + CASE WHEN d < 7 THEN 2 ELSE 0 END,
+  ARRAY['Head'],
+  ARRAY[]::text[],
+  ARRAY[]::text[],
+  'After ibuprofen'
+FROM generate_series(1, 29) AS d
+WHERE d % 2 = 0;
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests for src/lib, hooks and the edge function handlers (run under Node with stubbed clients;
+// hook tests opt into jsdom with a @vitest-environment docblock)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.{ts,tsx}", "supabase/functions/**/*.test.ts"],
+    environment: "node",
+  },
+});